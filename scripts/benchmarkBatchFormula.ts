@@ -0,0 +1,136 @@
+/**
+ * Benchmark for Table Math formula execution on generated datasets
+ * Run with: npx tsx scripts/benchmarkBatchFormula.ts [--rows 200000] [--columns 40] [--no-legacy]
+ *
+ * Compares executeBatchFormula (parsed and compiled once, only referenced columns bound per row)
+ * with the previous per-row approach (regex rewrite of every column, full scope, math.evaluate
+ * of the rewritten string), which is reproduced below as the baseline.
+ */
+
+import { create, all } from 'mathjs';
+import { executeBatchFormula } from '../src/lib/batchCalculationEngine';
+
+type Row = Record<string, unknown>;
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: number): number => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? Number(args[index + 1]) : fallback;
+};
+
+const ROWS = option('rows', 200000);
+const COLUMNS = option('columns', 40);
+const RUN_LEGACY = !args.includes('--no-legacy');
+
+const FUELS = ['Coal', 'Natural Gas', 'Diesel', 'Biomass'];
+const REGIONS = ['Jawa', 'Sumatera', 'Kalimantan', 'Sulawesi', 'Papua'];
+
+// ----- Dataset -----
+
+// Deterministic pseudo-random numbers so runs are comparable
+function seededRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+function generateDataset(rowCount: number, columnCount: number): { rows: Row[]; schema: string[] } {
+    const random = seededRandom(42);
+    const extra = Array.from({ length: Math.max(0, columnCount - 5) }, (_, i) => `Metric ${i + 1}`);
+    const schema = ['Facility', 'Fuel', 'Region', 'Activity', 'EF', ...extra];
+
+    const rows = Array.from({ length: rowCount }, (_, i) => {
+        const row: Row = {
+            Facility: `FAC-${String(i).padStart(6, '0')}`,
+            Fuel: FUELS[Math.floor(random() * FUELS.length)],
+            Region: REGIONS[Math.floor(random() * REGIONS.length)],
+            Activity: Math.round(random() * 100000) / 10,
+            EF: Math.round(random() * 1000) / 100,
+        };
+        extra.forEach(column => { row[column] = Math.round(random() * 1000); });
+        return row;
+    });
+    return { rows, schema };
+}
+
+// ----- Legacy baseline -----
+
+const legacyMath = create(all);
+
+const sanitizeVarName = (name: string): string => {
+    let safe = name.replace(/[^a-zA-Z0-9_]/g, '_');
+    if (/^[0-9]/.test(safe)) safe = '_' + safe;
+    return safe;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function legacyExecute(rows: Row[], formula: string, schema: string[]): number {
+    let count = 0;
+    for (const row of rows) {
+        let expression = formula;
+        const scope: Record<string, unknown> = {};
+        schema.forEach(column => {
+            const name = sanitizeVarName(column);
+            expression = expression.replace(new RegExp(`\\[${escapeRegExp(column)}\\]`, 'g'), name);
+            const value = Number(row[column]);
+            scope[name] = isNaN(value) ? row[column] : value;
+        });
+        legacyMath.evaluate(expression, scope);
+        count++;
+    }
+    return count;
+}
+
+// ----- Runs -----
+
+const CASES: { name: string; formula: string; legacy: boolean }[] = [
+    { name: 'Arithmetic', formula: '[Activity] * [EF] / 1000', legacy: true },
+    { name: 'Conditional', formula: 'IF([Fuel] == "Coal", [Activity] * [EF] * 1.1, [Activity] * [EF])', legacy: false },
+    { name: 'Share of total', formula: '[Activity] / $SUM_[Activity] * 100', legacy: false },
+    { name: 'Grouped aggregate', formula: '[Activity] / $SUM_[Activity] BY [Region]', legacy: false },
+    { name: 'Text function', formula: 'CONCAT(LEFT([Region], 3), "-", [Fuel])', legacy: false },
+];
+
+function time<T>(run: () => T): { result: T; ms: number } {
+    const start = performance.now();
+    const result = run();
+    return { result, ms: performance.now() - start };
+}
+
+const formatMs = (ms: number): string => `${ms.toFixed(0)} ms`;
+
+function main() {
+    console.log(`Generating ${ROWS.toLocaleString()} rows x ${COLUMNS} columns...`);
+    const { rows, schema } = generateDataset(ROWS, COLUMNS);
+
+    // Warm up the JIT on a slice so the first case is not penalised
+    const warmup = rows.slice(0, 2000);
+    CASES.forEach(benchmark => executeBatchFormula(warmup, 'Result', benchmark.formula, schema));
+    if (RUN_LEGACY) legacyExecute(warmup, CASES[0].formula, schema);
+
+    console.log('');
+    console.log(['Case'.padEnd(20), 'Compiled'.padStart(12), 'Rows/s'.padStart(12), 'Legacy'.padStart(12), 'Speed-up'.padStart(10)].join(''));
+
+    for (const benchmark of CASES) {
+        const compiled = time(() => executeBatchFormula(rows, 'Result', benchmark.formula, schema));
+        if (!compiled.result.success) {
+            console.error(`${benchmark.name}: ${compiled.result.error?.message}`);
+            process.exitCode = 1;
+            continue;
+        }
+
+        const legacy = RUN_LEGACY && benchmark.legacy ? time(() => legacyExecute(rows, benchmark.formula, schema)) : null;
+        console.log([
+            benchmark.name.padEnd(20),
+            formatMs(compiled.ms).padStart(12),
+            Math.round(ROWS / (compiled.ms / 1000)).toLocaleString().padStart(12),
+            (legacy ? formatMs(legacy.ms) : '-').padStart(12),
+            (legacy ? `${(legacy.ms / compiled.ms).toFixed(1)}x` : '-').padStart(10),
+        ].join(''));
+    }
+}
+
+main();
@@ -0,0 +1,114 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { main } from './runProject';
+
+// Smoke test: runs the script's main in-process on a small project written to a temp directory
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-project-'));
+
+const node = (id: string, data: Record<string, unknown>) => ({
+    id,
+    type: data.type,
+    position: { x: 0, y: 0 },
+    data: { inputs: [], outputs: [], ...data },
+});
+
+const project = {
+    meta: { projectName: 'Smoke', version: '1.0', lastModified: '2026-01-01T00:00:00.000Z' },
+    graph: {
+        nodes: [
+            node('ds', { type: 'dataset', label: 'Fuel use' }),
+            node('ef', { type: 'source', label: 'EF', value: 2, unit: 'kg/L' }),
+            node('math', { type: 'tableMath', label: 'Emission', formula: '[litres] * [EF]', newColumnName: 'co2' }),
+            node('out', { type: 'export', label: 'Monthly CO2', exportFormat: 'csv' }),
+        ],
+        edges: [
+            { id: 'e1', source: 'ds', target: 'math' },
+            { id: 'e2', source: 'ef', target: 'math' },
+            { id: 'e3', source: 'math', target: 'out' },
+        ],
+    },
+    batchData: {
+        nodes: {
+            ds: {
+                status: 'SUCCESS',
+                rawData: [{ site: 'A', litres: 1 }, { site: 'B', litres: 4 }],
+                schema: [
+                    { id: 'site', name: 'site', type: 'string' },
+                    { id: 'litres', name: 'litres', type: 'number' },
+                ],
+                rowCount: 2,
+            },
+        },
+    },
+};
+
+const projectPath = path.join(dir, 'smoke.inven');
+fs.writeFileSync(projectPath, JSON.stringify(project));
+
+let errors: MockInstance<typeof console.error>;
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('runProject', () => {
+    it('writes each Export table from the saved datasets', () => {
+        const outDir = path.join(dir, 'saved');
+        expect(main([projectPath, '--out', outDir])).toBe(0);
+        expect(errors).not.toHaveBeenCalled();
+        expect(fs.readFileSync(path.join(outDir, 'Monthly CO2.csv'), 'utf-8').trim().split('\n')).toEqual([
+            'site,litres,co2',
+            'A,1,2',
+            'B,4,8',
+        ]);
+    });
+
+    it('replaces a dataset with a file in the same layout', () => {
+        const outDir = path.join(dir, 'replaced');
+        const csvPath = path.join(dir, 'october.csv');
+        fs.writeFileSync(csvPath, 'site,litres\nA,3\nB,10\n');
+        expect(main([projectPath, '--dataset', 'Fuel use=' + csvPath, '--out', outDir, '--format', 'json'])).toBe(0);
+        expect(JSON.parse(fs.readFileSync(path.join(outDir, 'Monthly CO2.json'), 'utf-8'))).toEqual([
+            { site: 'A', litres: 3, co2: 6 },
+            { site: 'B', litres: 10, co2: 20 },
+        ]);
+    });
+
+    it('reports the 1-based row of a failing step', () => {
+        const csvPath = path.join(dir, 'broken.csv');
+        fs.writeFileSync(csvPath, 'site,litres\nA,3\nB,lots\n');
+        main([projectPath, '--dataset', 'Fuel use=' + csvPath, '--out', path.join(dir, 'broken')]);
+        expect(errors).toHaveBeenCalledWith(expect.stringContaining('Step "Emission" failed (row 2)'));
+    });
+
+    it('adds the Scalars sheet to xlsx exports', () => {
+        const outDir = path.join(dir, 'xlsx');
+        expect(main([projectPath, '--out', outDir, '--format', 'xlsx'])).toBe(0);
+        const workbook = XLSX.read(fs.readFileSync(path.join(outDir, 'Monthly CO2.xlsx')));
+        expect(workbook.SheetNames).toEqual(['Data', 'Scalars']);
+        expect(XLSX.utils.sheet_to_json(workbook.Sheets.Scalars)).toEqual([
+            { Node: 'EF', Type: 'source', Value: 2, Unit: 'kg/L', 'Uncertainty (±%, 95% CI)': '' },
+        ]);
+    });
+
+    it('exits with code 1 on bad arguments or missing files', () => {
+        expect(main([projectPath, '--format', 'pdf'])).toBe(1);
+        expect(errors).toHaveBeenCalledWith('--format must be one of csv, xlsx, json');
+
+        expect(main([projectPath, '--dataset', 'Fuel use=' + path.join(dir, 'missing.csv')])).toBe(1);
+        expect(main([projectPath, '--dataset', 'Other=x.csv'])).toBe(1);
+        expect(errors).toHaveBeenLastCalledWith('No Dataset node with id or label "Other"');
+    });
+});
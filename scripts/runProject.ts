@@ -0,0 +1,217 @@
+/**
+ * Headless runner for .inven projects
+ * Run with: npm run run-project -- <project.inven> [--dataset <node>=<file>]... [--out <dir>] [--format csv|xlsx|json]
+ *
+ * Runs the project's scalar and batch graph without the app and writes the table of every Export
+ * node to the output directory (default: the current one), named after the node. <node> in
+ * --dataset is a Dataset node's id or label; its file is read with the import options and column
+ * types saved on that node, so a new month's file in the same layout needs no other setup.
+ * Datasets not replaced use the data saved in the project. Without --format each Export node
+ * keeps its own format (xlsx unless set to csv). Exits with code 1 when an Export has no table.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import * as XLSX from 'xlsx';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, DatasetNodeData, ExportNodeData } from '../src/types';
+import { runBatchPipeline } from '../src/lib/batchPipeline';
+import { readGridFromBytes, gridToTable } from '../src/lib/fileIngest';
+import { asColumnar, materializeRows } from '../src/lib/columnarTable';
+import { appendScalarsSheet } from '../src/lib/scalarsSheet';
+import type { BatchTable } from '../src/lib/batchOperations';
+import { isAssessmentReport, setDefaultGwpSet } from '../src/data/gwpValues';
+
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// ----- Arguments -----
+
+interface Options {
+    projectPath: string;
+    // File per Dataset node id or label
+    datasetFiles: Record<string, string>;
+    outDir: string;
+    format?: ExportFormat;
+}
+
+function parseArgs(args: string[]): Options {
+    const options: Options = { projectPath: '', datasetFiles: {}, outDir: '.' };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) throw new Error(`${arg} needs a value`);
+            return args[++i];
+        };
+
+        if (arg === '--dataset') {
+            const assignment = value();
+            const separator = assignment.lastIndexOf('=');
+            if (separator <= 0) throw new Error(`--dataset expects <node>=<file>, got "${assignment}"`);
+            options.datasetFiles[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+        } else if (arg === '--out') {
+            options.outDir = value();
+        } else if (arg === '--format') {
+            const format = value() as ExportFormat;
+            if (!FORMATS.includes(format)) throw new Error(`--format must be one of ${FORMATS.join(', ')}`);
+            options.format = format;
+        } else if (arg.startsWith('--')) {
+            throw new Error(`Unknown option ${arg}`);
+        } else if (!options.projectPath) {
+            options.projectPath = arg;
+        } else {
+            throw new Error(`Unexpected argument "${arg}"`);
+        }
+    }
+    if (!options.projectPath) {
+        throw new Error('Usage: npm run run-project -- <project.inven> [--dataset <node>=<file>]... [--out <dir>] [--format csv|xlsx|json]');
+    }
+    return options;
+}
+
+// ----- Project -----
+
+interface LoadedProject {
+    nodes: Node<NodeData>[];
+    edges: Edge[];
+    // Saved table of each Dataset node
+    datasets: Record<string, BatchTable>;
+}
+
+function loadProject(projectPath: string): LoadedProject {
+    const data = JSON.parse(fs.readFileSync(projectPath, 'utf-8'));
+    if (!data?.graph || !Array.isArray(data.graph.nodes) || !Array.isArray(data.graph.edges)) {
+        throw new Error(`${projectPath} is not a project file: graph nodes or edges missing`);
+    }
+
+    // Process nodes without their own GWP setting follow the project, as in the app
+    const gwpSet = data.meta?.gwpSet;
+    setDefaultGwpSet(
+        gwpSet && isAssessmentReport(gwpSet.report) && (gwpSet.horizon === 20 || gwpSet.horizon === 100)
+            ? { report: gwpSet.report, horizon: gwpSet.horizon }
+            : { report: 'AR5', horizon: 100 }
+    );
+
+    const nodes: Node<NodeData>[] = data.graph.nodes;
+    const saved: Record<string, { rawData?: unknown; schema?: unknown; status?: string }> = data.batchData?.nodes ?? {};
+    const datasets: Record<string, BatchTable> = {};
+    nodes.forEach((node) => {
+        const table = saved[node.id];
+        if (node.data.type !== 'dataset' || table?.status !== 'SUCCESS') return;
+        if (!Array.isArray(table.rawData) || !Array.isArray(table.schema)) return;
+        datasets[node.id] = asColumnar({ rawData: table.rawData, schema: table.schema });
+    });
+
+    return { nodes, edges: data.graph.edges, datasets };
+}
+
+/**
+ * The Dataset node a --dataset argument names, by id first, then by label
+ */
+function findDatasetNode(nodes: Node<NodeData>[], name: string): Node<DatasetNodeData> {
+    const datasetNodes = nodes.filter((node): node is Node<DatasetNodeData> => node.data.type === 'dataset');
+    const byId = datasetNodes.find((node) => node.id === name);
+    if (byId) return byId;
+
+    const byLabel = datasetNodes.filter((node) => node.data.label === name);
+    if (byLabel.length === 0) throw new Error(`No Dataset node with id or label "${name}"`);
+    if (byLabel.length > 1) throw new Error(`Several Dataset nodes are labelled "${name}"; use the node id`);
+    return byLabel[0];
+}
+
+function readDataset(node: Node<DatasetNodeData>, filePath: string): BatchTable {
+    const options = node.data.importOptions ?? {};
+    const grid = readGridFromBytes(filePath, new Uint8Array(fs.readFileSync(filePath)), options);
+    return asColumnar(gridToTable(grid, options, node.data.columnTypes));
+}
+
+// ----- Output -----
+
+function exportFileName(node: Node<NodeData>, format: ExportFormat, used: Set<string>): string {
+    const base = (node.data.label || 'export').replace(/[^a-zA-Z0-9_\- ]/g, '').trim() || 'export';
+    // Export nodes sharing a label are told apart by id
+    const name = used.has(base) ? `${base}_${node.id}` : base;
+    used.add(name);
+    return `${name}.${format}`;
+}
+
+// The workbook also gets the Scalars sheet of the export, as in the app
+function writeTable(table: BatchTable, format: ExportFormat, filePath: string, appendScalars: (workbook: XLSX.WorkBook) => void): void {
+    const header = table.schema.map((col) => col.id);
+    const rows = materializeRows(table);
+    if (format === 'json') {
+        fs.writeFileSync(filePath, JSON.stringify(rows, null, 2));
+        return;
+    }
+
+    const sheet = XLSX.utils.json_to_sheet(rows, { header });
+    if (format === 'csv') {
+        fs.writeFileSync(filePath, XLSX.utils.sheet_to_csv(sheet));
+        return;
+    }
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Data');
+    appendScalars(workbook);
+    fs.writeFileSync(filePath, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+}
+
+// ----- Run -----
+
+function run(args: string[]): number {
+    const options = parseArgs(args);
+    const { nodes, edges, datasets } = loadProject(options.projectPath);
+
+    Object.entries(options.datasetFiles).forEach(([name, filePath]) => {
+        const node = findDatasetNode(nodes, name);
+        datasets[node.id] = readDataset(node, filePath);
+        console.log(`Dataset "${node.data.label || node.id}": ${datasets[node.id].rawData.length} rows from ${filePath}`);
+    });
+
+    const { tables, results } = runBatchPipeline(nodes, edges, datasets);
+    // Steps left empty because an earlier one failed only say their source is missing
+    tables.forEach((table, nodeId) => {
+        const message = table.errorDetails?.message;
+        if (table.status !== 'ERROR' || !message || message === 'No source data connected') return;
+        const row = table.errorDetails && table.errorDetails.rowIndex >= 0 ? ` (row ${table.errorDetails.rowIndex})` : '';
+        console.error(`Step "${nodes.find((node) => node.id === nodeId)?.data.label || nodeId}" failed${row}: ${message}`);
+    });
+
+    fs.mkdirSync(options.outDir, { recursive: true });
+    const usedNames = new Set<string>();
+    let failures = 0;
+    nodes.filter((node): node is Node<ExportNodeData> => node.data.type === 'export').forEach((node) => {
+        const label = node.data.label || node.id;
+        const table = tables.get(node.id);
+        if (!table || table.status !== 'SUCCESS') {
+            console.error(`Export "${label}" skipped: ${table?.errorDetails?.message ?? 'no table reached it'}`);
+            failures++;
+            return;
+        }
+
+        const format = options.format ?? node.data.exportFormat ?? 'xlsx';
+        const filePath = path.join(options.outDir, exportFileName(node, format, usedNames));
+        writeTable(table, format, filePath, (workbook) => appendScalarsSheet(workbook, node.id, nodes, edges, results));
+        console.log(`Export "${label}": ${table.rawData.length} rows → ${filePath}`);
+    });
+
+    return failures > 0 ? 1 : 0;
+}
+
+/**
+ * Run with the given command-line arguments; returns the exit code
+ */
+export function main(args: string[]): number {
+    try {
+        return run(args);
+    } catch (error) {
+        console.error((error as Error).message);
+        return 1;
+    }
+}
+
+// Only when started as a script; the tests import main
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -10,6 +10,7 @@ import ReactFlow, {
 import type { Node, Edge } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { useAppStore } from '../store/useAppStore';
+import { useRunStore } from '../store/useRunStore';
 import type { NodeType } from '../types';
 import { useShallow } from 'zustand/react/shallow';
 import SourceNode from './nodes/SourceNode';
@@ -22,10 +23,17 @@ import FilterNode from './nodes/FilterNode';
 import TableMathNode from './nodes/TableMathNode';
 import ExportNode from './nodes/ExportNode';
 import TransformNode from './nodes/TransformNode';
+import GroupByNode from './nodes/GroupByNode';
+import PivotNode from './nodes/PivotNode';
+import UnpivotNode from './nodes/UnpivotNode';
+import JoinNode from './nodes/JoinNode';
+import UnionNode from './nodes/UnionNode';
 import GhostNode from './nodes/GhostNode';
 import TextNode from './nodes/TextNode';
 import { ContextMenu } from './ContextMenu';
 import { GlobalDataModal } from './GlobalDataModal';
+import { SensitivityDialog } from './SensitivityDialog';
+import { GoalSeekDialog } from './GoalSeekDialog';
 import { Toolbar } from './Toolbar';
 import { downloadProjectFile } from '../lib/projectSerializer';
 
@@ -60,6 +68,8 @@ const CanvasMain = () => {
     } = useAppStore(useShallow(selector));
     const { deleteElements, getNodes, getEdges, screenToFlowPosition } = useReactFlow();
     const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+    const [sensitivityNodeId, setSensitivityNodeId] = useState<string | null>(null);
+    const [goalSeekNodeId, setGoalSeekNodeId] = useState<string | null>(null);
 
     const nodeTypes = useMemo(() => ({
         source: SourceNode,
@@ -72,6 +82,11 @@ const CanvasMain = () => {
         tableMath: TableMathNode,
         export: ExportNode,
         transform: TransformNode,
+        groupBy: GroupByNode,
+        pivot: PivotNode,
+        unpivot: UnpivotNode,
+        join: JoinNode,
+        union: UnionNode,
         ghost: GhostNode,
         text: TextNode,
     }), []);
@@ -235,8 +250,30 @@ const CanvasMain = () => {
         toggleNodeLock(contextMenu.nodeId, false);
     }, [contextMenu, toggleNodeLock]);
 
+    const handleSensitivity = useCallback(() => {
+        if (!contextMenu || !contextMenu.nodeId) return;
+        setSensitivityNodeId(contextMenu.nodeId);
+    }, [contextMenu]);
+
+    const handleGoalSeek = useCallback(() => {
+        if (!contextMenu || !contextMenu.nodeId) return;
+        setGoalSeekNodeId(contextMenu.nodeId);
+    }, [contextMenu]);
+
+    const handleRunFrom = useCallback(() => {
+        if (!contextMenu || !contextMenu.nodeId) return;
+        useRunStore.getState().runFrom(contextMenu.nodeId);
+    }, [contextMenu]);
+
+    const handleRunTo = useCallback(() => {
+        if (!contextMenu || !contextMenu.nodeId) return;
+        useRunStore.getState().runTo(contextMenu.nodeId);
+    }, [contextMenu]);
+
     const contextMenuNode = contextMenu?.nodeId ? nodes.find((n: Node) => n.id === contextMenu.nodeId) : undefined;
     const isNodeLocked = contextMenuNode ? contextMenuNode.draggable === false : false;
+    // Annotations hold nothing to run
+    const isRunnableNode = contextMenu?.type === 'node' && contextMenu.nodeType !== 'text' && contextMenu.nodeType !== 'groupBox';
 
     return (
         <div className="flex-1 h-full w-full bg-slate-50 flex flex-col" ref={reactFlowWrapper}>
@@ -289,6 +326,11 @@ const CanvasMain = () => {
                                 case 'filter': return '#eab308';
                                 case 'tableMath': return '#581c87';
                                 case 'transform': return '#0891b2';
+                                case 'groupBy': return '#0d9488';
+                                case 'pivot': return '#0284c7';
+                                case 'unpivot': return '#0284c7';
+                                case 'join': return '#4f46e5';
+                                case 'union': return '#4f46e5';
                                 case 'ghost': return '#64748b';
                                 case 'text': return 'transparent';
                                 default: return '#cbd5e1';
@@ -311,9 +353,15 @@ const CanvasMain = () => {
                         onLock={contextMenu.type === 'node' ? handleLockNode : undefined}
                         onUnlock={contextMenu.type === 'node' ? handleUnlockNode : undefined}
                         nodeLocked={isNodeLocked}
+                        onSensitivity={contextMenu.type === 'node' && contextMenu.nodeType === 'process' ? handleSensitivity : undefined}
+                        onGoalSeek={contextMenu.type === 'node' && contextMenu.nodeType === 'process' ? handleGoalSeek : undefined}
+                        onRunFrom={isRunnableNode ? handleRunFrom : undefined}
+                        onRunTo={isRunnableNode ? handleRunTo : undefined}
                     />
                 )}
                 <GlobalDataModal />
+                <SensitivityDialog nodeId={sensitivityNodeId} onClose={() => setSensitivityNodeId(null)} />
+                <GoalSeekDialog nodeId={goalSeekNodeId} onClose={() => setGoalSeekNodeId(null)} />
             </div>
         </div>
     );
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Trash2, Copy, Plus } from 'lucide-react';
+import { Trash2, Copy, Plus, BarChart3, Target, Play, ArrowRightToLine } from 'lucide-react';
 import type { NodeType } from '../types';
 
 interface ContextMenuProps {
@@ -15,6 +15,10 @@ interface ContextMenuProps {
     onLock?: () => void;
     onUnlock?: () => void;
     nodeLocked?: boolean;
+    onSensitivity?: () => void;
+    onGoalSeek?: () => void;
+    onRunFrom?: () => void;
+    onRunTo?: () => void;
 }
 
 export const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -30,6 +34,10 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
     onLock,
     onUnlock,
     nodeLocked,
+    onSensitivity,
+    onGoalSeek,
+    onRunFrom,
+    onRunTo,
 }) => {
     const handleClick = (action: () => void) => {
         action();
@@ -93,6 +101,42 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
                                 Unlock Node
                             </button>
                         )}
+                        {onSensitivity && (
+                            <button
+                                onClick={() => handleClick(onSensitivity)}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-purple-50 text-slate-700"
+                            >
+                                <BarChart3 size={14} />
+                                Sensitivity Analysis
+                            </button>
+                        )}
+                        {onGoalSeek && (
+                            <button
+                                onClick={() => handleClick(onGoalSeek)}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-purple-50 text-slate-700"
+                            >
+                                <Target size={14} />
+                                Goal Seek
+                            </button>
+                        )}
+                        {onRunFrom && (
+                            <button
+                                onClick={() => handleClick(onRunFrom)}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-green-50 text-slate-700"
+                            >
+                                <Play size={14} />
+                                Run from here
+                            </button>
+                        )}
+                        {onRunTo && (
+                            <button
+                                onClick={() => handleClick(onRunTo)}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-green-50 text-slate-700"
+                            >
+                                <ArrowRightToLine size={14} />
+                                Run to here
+                            </button>
+                        )}
                         {onSendToBack && (
                             <button
                                 onClick={() => handleClick(onSendToBack)}
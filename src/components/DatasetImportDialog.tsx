@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, FileSpreadsheet } from 'lucide-react';
+import type { WorkBook } from 'xlsx';
+import type { ColumnType, DatasetImportOptions } from '../types';
+import type { BatchTable } from '../lib/batchOperations';
+import { isSpreadsheetFile, readWorkbook, readGrid, gridToTable } from '../lib/fileIngest';
+import { formatDisplayNumber } from '../utils/formatNumber';
+
+interface DatasetImportDialogProps {
+    file: File;
+    initialOptions?: DatasetImportOptions;
+    columnTypes?: Record<string, ColumnType>;
+    onClose: () => void;
+    onImport: (options: DatasetImportOptions) => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const DELIMITERS = [
+    { value: '', label: 'Auto-detect' },
+    { value: ',', label: 'Comma  ,' },
+    { value: ';', label: 'Semicolon  ;' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe  |' },
+];
+
+const ENCODINGS = [
+    { value: 'UTF-8', label: 'UTF-8' },
+    { value: 'windows-1252', label: 'Windows-1252 (Excel, Windows)' },
+    { value: 'ISO-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+    { value: 'UTF-16LE', label: 'UTF-16 LE' },
+];
+
+const TYPE_LABELS: Record<ColumnType, string> = { number: 'NUM', string: 'TXT', date: 'DATE', boolean: 'BOOL' };
+
+const formatCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'number' ? formatDisplayNumber(value) : String(value);
+};
+
+// Labelled control in the options column
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+    <label className="block space-y-1">
+        <span className="text-xs font-bold text-slate-500 uppercase">{label}</span>
+        {children}
+        {hint && <span className="block text-[10px] text-slate-400">{hint}</span>}
+    </label>
+);
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-orange-400 outline-none';
+
+export const DatasetImportDialog: React.FC<DatasetImportDialogProps> = ({ file, initialOptions, columnTypes, onClose, onImport }) => {
+    const [options, setOptions] = useState<DatasetImportOptions>(initialOptions || {});
+    const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+    const [preview, setPreview] = useState<{ table?: BatchTable; error?: string } | null>(null);
+
+    const isSpreadsheet = isSpreadsheetFile(file);
+    const update = (patch: Partial<DatasetImportOptions>) => setOptions((current) => ({ ...current, ...patch }));
+
+    // Read the workbook once; the preview re-cuts it on every option change
+    useEffect(() => {
+        if (!isSpreadsheet) return;
+        let cancelled = false;
+        readWorkbook(file)
+            .then((wb) => { if (!cancelled) setWorkbook(wb); })
+            .catch((err) => { if (!cancelled) setPreview({ error: (err as Error).message }); });
+        return () => { cancelled = true; };
+    }, [file, isSpreadsheet]);
+
+    useEffect(() => {
+        if (isSpreadsheet && !workbook) return;
+        let cancelled = false;
+        const limit = (options.headerRow ?? 1) + (options.skipRows ?? 0) + PREVIEW_ROWS;
+        readGrid(file, options, { workbook: workbook ?? undefined, limit })
+            .then((grid) => gridToTable(grid, options, columnTypes))
+            .then((table) => { if (!cancelled) setPreview({ table }); })
+            .catch((err) => { if (!cancelled) setPreview({ error: (err as Error).message }); });
+        return () => { cancelled = true; };
+    }, [file, isSpreadsheet, workbook, options, columnTypes]);
+
+    const table = preview?.table;
+
+    return (
+        <Dialog.Root open onOpenChange={(open) => { if (!open) onClose(); }}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-[900px] h-[80vh] overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                        <Dialog.Title className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <FileSpreadsheet size={20} className="text-orange-500" />
+                            Import {file.name}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1 hover:bg-slate-100 rounded transition-colors">
+                                <X size={20} className="text-slate-500" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="flex-1 flex overflow-hidden">
+                        {/* Options */}
+                        <div className="w-60 border-r border-slate-200 p-4 space-y-3 overflow-y-auto">
+                            {isSpreadsheet && (
+                                <Field label="Sheet">
+                                    <select
+                                        value={options.sheet || workbook?.SheetNames[0] || ''}
+                                        onChange={(e) => update({ sheet: e.target.value })}
+                                        className={inputClass}
+                                    >
+                                        {(workbook?.SheetNames || []).map((name) => (
+                                            <option key={name} value={name}>{name}</option>
+                                        ))}
+                                    </select>
+                                </Field>
+                            )}
+                            <Field label="Cell range" hint="e.g. B5:K200, or B5 to read to the end. Empty reads everything">
+                                <input
+                                    type="text"
+                                    value={options.range || ''}
+                                    onChange={(e) => update({ range: e.target.value.trim() || undefined })}
+                                    placeholder="Whole sheet"
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </Field>
+                            <Field label="Header row" hint={options.range ? 'Counted from the top of the range' : 'Row number as shown in Excel'}>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={options.headerRow ?? 1}
+                                    onChange={(e) => update({ headerRow: Math.max(1, Number(e.target.value) || 1) })}
+                                    className={inputClass}
+                                />
+                            </Field>
+                            <Field label="Rows to skip" hint="Rows between the header and the data, e.g. a units row">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={options.skipRows ?? 0}
+                                    onChange={(e) => update({ skipRows: Math.max(0, Number(e.target.value) || 0) })}
+                                    className={inputClass}
+                                />
+                            </Field>
+                            {!isSpreadsheet && (
+                                <>
+                                    <Field label="Delimiter">
+                                        <select
+                                            value={options.delimiter || ''}
+                                            onChange={(e) => update({ delimiter: e.target.value || undefined })}
+                                            className={inputClass}
+                                        >
+                                            {DELIMITERS.map((d) => <option key={d.label} value={d.value}>{d.label}</option>)}
+                                        </select>
+                                    </Field>
+                                    <Field label="Encoding">
+                                        <select
+                                            value={options.encoding || 'UTF-8'}
+                                            onChange={(e) => update({ encoding: e.target.value === 'UTF-8' ? undefined : e.target.value })}
+                                            className={inputClass}
+                                        >
+                                            {ENCODINGS.map((enc) => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                                        </select>
+                                    </Field>
+                                </>
+                            )}
+                            <Field label="Number format" hint="Applies to numbers stored as text">
+                                <select
+                                    value={options.decimalSeparator || ''}
+                                    onChange={(e) => update({ decimalSeparator: (e.target.value || undefined) as DatasetImportOptions['decimalSeparator'] })}
+                                    className={inputClass}
+                                >
+                                    <option value="">Auto-detect per column</option>
+                                    <option value=",">1.234,5 (decimal comma)</option>
+                                    <option value=".">1,234.5 (decimal point)</option>
+                                </select>
+                            </Field>
+                        </div>
+
+                        {/* Preview */}
+                        <div className="flex-1 flex flex-col overflow-hidden">
+                            <div className="px-4 py-2 text-xs text-slate-500 border-b border-slate-100">
+                                {table
+                                    ? `Preview: first ${Math.min(table.rawData.length, PREVIEW_ROWS)} rows, ${table.schema.length} columns`
+                                    : preview?.error ? 'Preview' : 'Reading file...'}
+                            </div>
+                            <div className="flex-1 overflow-auto p-4">
+                                {preview?.error && (
+                                    <div className="p-2 bg-red-50 text-red-600 rounded text-xs border border-red-100">
+                                        <span className="font-bold">Error:</span> {preview.error}
+                                    </div>
+                                )}
+                                {table && !preview?.error && (
+                                    <table className="text-xs border-collapse">
+                                        <thead>
+                                            <tr className="bg-slate-50">
+                                                {table.schema.map((col) => (
+                                                    <th key={col.id} className="border border-slate-200 px-2 py-1 text-left font-semibold text-slate-700 whitespace-nowrap">
+                                                        {col.name}
+                                                        <span className="ml-1 text-[9px] font-bold text-slate-400">{TYPE_LABELS[col.type]}</span>
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {table.rawData.slice(0, PREVIEW_ROWS).map((row, i) => (
+                                                <tr key={i}>
+                                                    {table.schema.map((col) => (
+                                                        <td key={col.id} className={`border border-slate-100 px-2 py-1 whitespace-nowrap ${col.type === 'number' ? 'text-right font-mono' : 'text-slate-600'}`}>
+                                                            {formatCell(row[col.id])}
+                                                        </td>
+                                                    ))}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end gap-2 px-6 py-3 border-t border-slate-200">
+                        <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-md transition-colors">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => onImport(options)}
+                            disabled={!table || !!preview?.error}
+                            className="px-4 py-2 text-sm font-medium bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors disabled:opacity-50"
+                        >
+                            Import
+                        </button>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+};
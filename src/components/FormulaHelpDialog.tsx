@@ -7,27 +7,32 @@ interface FormulaHelpDialogProps {
     onClose: () => void;
 }
 
-type Tab = 'basic' | 'conditionals' | 'aggregates' | 'functions' | 'units';
+type Tab = 'basic' | 'conditionals' | 'aggregates' | 'functions' | 'text' | 'units';
 
-export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, onClose }) => {
-    const [activeTab, setActiveTab] = useState<Tab>('basic');
-    const [copiedExample, setCopiedExample] = useState<string | null>(null);
+interface ExampleBlockProps {
+    title: string;
+    formula: string;
+    description: string;
+}
 
-    const copyToClipboard = (text: string, id: string) => {
-        navigator.clipboard.writeText(text);
-        setCopiedExample(id);
-        setTimeout(() => setCopiedExample(null), 2000);
+const ExampleBlock = ({ title, formula, description }: ExampleBlockProps) => {
+    const [copied, setCopied] = useState(false);
+
+    const copyToClipboard = () => {
+        navigator.clipboard.writeText(formula);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
     };
 
-    const ExampleBlock = ({ title, formula, description, id }: { title: string; formula: string; description: string; id: string }) => (
+    return (
         <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
             <div className="flex items-center justify-between mb-2">
                 <h4 className="text-sm font-semibold text-slate-700">{title}</h4>
                 <button
-                    onClick={() => copyToClipboard(formula, id)}
+                    onClick={copyToClipboard}
                     className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-slate-200 rounded hover:bg-slate-50 transition-colors"
                 >
-                    {copiedExample === id ? (
+                    {copied ? (
                         <>
                             <Check size={12} className="text-green-600" />
                             <span className="text-green-600">Copied!</span>
@@ -46,6 +51,10 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
             <p className="text-xs text-slate-600">{description}</p>
         </div>
     );
+};
+
+export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, onClose }) => {
+    const [activeTab, setActiveTab] = useState<Tab>('basic');
 
     return (
         <Dialog.Root open={isOpen} onOpenChange={onClose}>
@@ -71,6 +80,7 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                             { id: 'conditionals', label: 'IF / Lookup' },
                             { id: 'aggregates', label: 'Aggregates' },
                             { id: 'functions', label: 'Functions' },
+                            { id: 'text', label: 'Text & Dates' },
                             { id: 'units', label: 'Units' }
                         ].map(tab => (
                             <button
@@ -97,13 +107,11 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                                     </p>
                                     <div className="space-y-3">
                                         <ExampleBlock
-                                            id="basic-1"
                                             title="Simple Multiplication"
                                             formula="[Activity Data] * [Emission Factor]"
                                             description="Multiply values from two columns"
                                         />
                                         <ExampleBlock
-                                            id="basic-2"
                                             title="Complex Formula"
                                             formula="([Fuel Consumed] * [EF]) + [Direct Emissions]"
                                             description="Use parentheses for order of operations"
@@ -117,7 +125,6 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                                         Reference scalar inputs (from connections) using the same bracket syntax
                                     </p>
                                     <ExampleBlock
-                                        id="basic-3"
                                         title="Scalar Multiplication"
                                         formula="[CO2] * [GWP Factor]"
                                         description="Multiply column by a scalar input"
@@ -144,49 +151,41 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
 
                                 <div className="space-y-3">
                                     <ExampleBlock
-                                        id="cond-1"
                                         title="IF - Simple Condition"
                                         formula='IF([Value] > 100, "High", "Low")'
                                         description='If value > 100, return "High", otherwise "Low"'
                                     />
                                     <ExampleBlock
-                                        id="cond-2"
                                         title="IF - Numeric Result"
                                         formula="IF([FuelType] == 1, [EF_Gas], [EF_Diesel])"
                                         description="Select emission factor based on fuel type code"
                                     />
                                     <ExampleBlock
-                                        id="cond-3"
                                         title="IFS - Multiple Conditions"
                                         formula='IFS([Score] >= 90, "A", [Score] >= 80, "B", [Score] >= 70, "C", true, "D")'
                                         description='Check multiple conditions in order. Use true as the last condition for default.'
                                     />
                                     <ExampleBlock
-                                        id="cond-4"
                                         title="SWITCH - Value Matching"
                                         formula='SWITCH([Category], "Transport", 2.68, "Energy", 1.85, "Industry", 3.42, 0)'
                                         description='Match a value to cases and return corresponding result. Last arg is default.'
                                     />
                                     <ExampleBlock
-                                        id="cond-5"
                                         title="XLOOKUP - Array Lookup"
                                         formula="XLOOKUP([VehicleCode], [CodeList], [EF_Column], 0)"
                                         description="Find VehicleCode in CodeList column and return value from EF_Column. Last arg is default if not found."
                                     />
                                     <ExampleBlock
-                                        id="cond-6"
                                         title="Nested IF"
                                         formula="IF([CO2] > $AVG_[CO2], [CO2] * 1.1, [CO2] * 0.9)"
                                         description="Combine IF with aggregates: apply 10% surcharge if above average"
                                     />
                                     <ExampleBlock
-                                        id="cond-7"
                                         title="CEILINGLOOKUP - Nearest Higher Match"
                                         formula="CEILINGLOOKUP([Kapasitas Hitung], [Katalog Kapasitas], [Konsumsi BBM], 0)"
                                         description='Find the smallest catalog capacity >= calculated capacity, return its fuel consumption. Useful for matching to nearest available size.'
                                     />
                                     <ExampleBlock
-                                        id="cond-8"
                                         title="FLOORLOOKUP - Nearest Lower Match"
                                         formula={'FLOORLOOKUP([Budget], [Price List], [Product Name], "N/A")'}
                                         description='Find the largest price that fits within a limit, return corresponding product name.'
@@ -237,29 +236,72 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
 
                                 <div className="space-y-3">
                                     <ExampleBlock
-                                        id="agg-1"
                                         title="Sum Total"
                                         formula="$SUM_[CO2]"
                                         description="Sum all CO2 values across all rows"
                                     />
                                     <ExampleBlock
-                                        id="agg-2"
                                         title="Percentage Calculation"
                                         formula="[CO2] / $SUM_[CO2] * 100"
                                         description="Calculate percentage of each row relative to total"
                                     />
                                     <ExampleBlock
-                                        id="agg-3"
                                         title="Average"
                                         formula="$AVG_[EmissionFactor]"
                                         description="Calculate average emission factor"
                                     />
                                     <ExampleBlock
-                                        id="agg-4"
                                         title="Min/Max"
                                         formula="[Value] - $MIN_[Value]"
                                         description="Normalize values by subtracting minimum"
                                     />
+                                    <ExampleBlock
+                                        title="Conditional Sum"
+                                        formula='$SUMIF_[CO2]([Fuel] == "Coal")'
+                                        description="Sum CO2 over the coal rows only; works in Process nodes too"
+                                    />
+                                    <ExampleBlock
+                                        title="Share Within Group"
+                                        formula="[CO2] / $SUM_[CO2] BY [Sector] * 100"
+                                        description="Percentage of each row relative to its sector's total. Group by several columns with BY ([Sector], [Year])"
+                                    />
+                                </div>
+
+                                <div>
+                                    <h3 className="text-md font-bold text-slate-800 mb-3">Window Functions</h3>
+                                    <p className="text-sm text-slate-600 mb-4">
+                                        Look at other rows in table order. Add <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">BY [Column]</code> to restart them for each group
+                                    </p>
+                                </div>
+
+                                <div className="space-y-3">
+                                    <ExampleBlock
+                                        title="Key Category Analysis"
+                                        formula="CUMPERCENT([CO2e]) <= 95"
+                                        description="True for the categories that together make up 95% of the total, largest first"
+                                    />
+                                    <ExampleBlock
+                                        title="Year-on-Year Change"
+                                        formula="[CO2] - LAG([CO2], 1, 0) BY [Sector]"
+                                        description="Difference from the previous row of the same sector; the first row of each sector compares with 0"
+                                    />
+                                </div>
+
+                                <div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {[
+                                            { name: 'RUNNINGTOTAL([col])', desc: 'Cumulative sum in row order' },
+                                            { name: 'CUMPERCENT([col])', desc: 'Cumulative % of the total, rows sorted largest first' },
+                                            { name: 'LAG([col], n, default)', desc: 'Value n rows above (n = 1, default = 0)' },
+                                            { name: 'LEAD([col], n, default)', desc: 'Value n rows below (n = 1, default = 0)' },
+                                            { name: 'RANK([col], "desc")', desc: '1 for the largest value; "asc" ranks the smallest first' },
+                                        ].map((win, i) => (
+                                            <div key={i} className="bg-purple-50 border border-purple-200 rounded p-3">
+                                                <code className="text-xs font-mono text-purple-700 font-bold">{win.name}</code>
+                                                <p className="text-xs text-slate-600 mt-1">{win.desc}</p>
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
 
                                 <div>
@@ -270,7 +312,15 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                                             { name: '$AVG_[col]', desc: 'Average value' },
                                             { name: '$MIN_[col]', desc: 'Minimum value' },
                                             { name: '$MAX_[col]', desc: 'Maximum value' },
-                                            { name: '$COUNT_[col]', desc: 'Count of non-null values' }
+                                            { name: '$COUNT_[col]', desc: 'Count of non-null values' },
+                                            { name: '$MEDIAN_[col]', desc: 'Median value' },
+                                            { name: '$STDEV_[col]', desc: 'Sample standard deviation' },
+                                            { name: '$VAR_[col]', desc: 'Sample variance (unit squared)' },
+                                            { name: '$PERCENTILE_[col](k)', desc: 'Percentile, k from 0 to 1 (0.95 = 95th)' },
+                                            { name: '$DISTINCTCOUNT_[col]', desc: 'Count of distinct values' },
+                                            { name: '$SUMIF_[col](condition)', desc: 'Sum of rows where the condition holds' },
+                                            { name: '$COUNTIF_[col](condition)', desc: 'Count of rows where the condition holds' },
+                                            { name: '$AVERAGEIF_[col](condition)', desc: 'Average of rows where the condition holds' }
                                         ].map((agg, i) => (
                                             <div key={i} className="bg-purple-50 border border-purple-200 rounded p-3">
                                                 <code className="text-xs font-mono text-purple-700 font-bold">{agg.name}</code>
@@ -293,35 +343,35 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
 
                                 <div className="space-y-3">
                                     <ExampleBlock
-                                        id="func-1"
                                         title="Square Root"
                                         formula="sqrt([Area])"
                                         description="Calculate square root of area"
                                     />
                                     <ExampleBlock
-                                        id="func-2"
                                         title="Power"
                                         formula="pow([Base], 2)"
                                         description="Raise base to power of 2"
                                     />
                                     <ExampleBlock
-                                        id="func-3"
                                         title="Absolute Value"
                                         formula="abs([Delta])"
                                         description="Get absolute value"
                                     />
                                     <ExampleBlock
-                                        id="func-4"
                                         title="Rounding"
                                         formula="round([Value], 2)"
                                         description="Round to 2 decimal places"
                                     />
                                     <ExampleBlock
-                                        id="func-5"
                                         title="Trigonometry"
                                         formula="sin([Angle]) * [Radius]"
                                         description="Trigonometric functions (sin, cos, tan, etc.)"
                                     />
+                                    <ExampleBlock
+                                        title="CO2 Equivalent (TableMath)"
+                                        formula={'CO2E([CH4_t], "CH4", "AR5")'}
+                                        description="Multiply by the gas's GWP (CH4, N2O, HFCs, PFCs, SF6, NF3). Optional report (AR4/AR5/AR6) and horizon (100 or 20) default to the project setting"
+                                    />
                                 </div>
 
                                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -333,6 +383,73 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                             </div>
                         )}
 
+                        {activeTab === 'text' && (
+                            <div className="space-y-6">
+                                <div>
+                                    <h3 className="text-md font-bold text-slate-800 mb-3">Text & Date Functions (TableMath)</h3>
+                                    <p className="text-sm text-slate-600 mb-4">
+                                        Clean up codes and read dates. Dates may be ISO (2023-01-15), day-first (15/01/2023) or written out in Indonesian or English (15 Januari 2023); results are <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">YYYY-MM-DD</code> text
+                                    </p>
+                                </div>
+
+                                <div className="space-y-3">
+                                    <ExampleBlock
+                                        title="Normalise Facility Codes"
+                                        formula={'UPPER(REPLACE(TRIM([Facility]), " ", "-"))'}
+                                        description={'"  pltu suralaya " becomes "PLTU-SURALAYA"'}
+                                    />
+                                    <ExampleBlock
+                                        title="Extract Part of a Code"
+                                        formula={'REGEXEXTRACT([Unit ID], "-(\\d+)$")'}
+                                        description={'Digits after the last dash: "SLY-U-07" gives "07"'}
+                                    />
+                                    <ExampleBlock
+                                        title="Reporting Year"
+                                        formula="YEAR([Tanggal])"
+                                        description="Year of a timestamped record, e.g. 15/01/2023 08:30 gives 2023"
+                                    />
+                                    <ExampleBlock
+                                        title="Operating Days"
+                                        formula={'DATEDIFF([Start], [End], "D") + 1'}
+                                        description="Days between two dates, counting both ends"
+                                    />
+                                </div>
+
+                                <div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {[
+                                            { name: 'TRIM(text)', desc: 'Remove outer spaces and collapse inner runs' },
+                                            { name: 'UPPER(text) / LOWER(text)', desc: 'Change case' },
+                                            { name: 'CONCAT(a, b, ...)', desc: 'Join values into one text' },
+                                            { name: 'LEFT(text, n) / RIGHT(text, n)', desc: 'First / last n characters' },
+                                            { name: 'MID(text, start, n)', desc: 'n characters from position start (1 = first)' },
+                                            { name: 'REPLACE(text, find, with)', desc: 'Replace every occurrence of find' },
+                                            { name: 'REGEXMATCH(text, pattern)', desc: 'true when the pattern matches' },
+                                            { name: 'REGEXEXTRACT(text, pattern)', desc: 'First capture group, or the whole match' },
+                                            { name: 'SPLIT_PART(text, delim, i)', desc: 'Part i after splitting on delim' },
+                                            { name: 'DATE(y, m, d)', desc: 'Build a date' },
+                                            { name: 'DATEVALUE(text)', desc: 'Read a date string as YYYY-MM-DD' },
+                                            { name: 'YEAR / MONTH / DAY(date)', desc: 'Part of a date as a number' },
+                                            { name: 'DATEDIFF(start, end, unit)', desc: 'Whole days ("D"), months ("M") or years ("Y")' },
+                                            { name: 'EOMONTH(date, months)', desc: 'Last day of the month, months ahead' },
+                                        ].map((fn, i) => (
+                                            <div key={i} className="bg-purple-50 border border-purple-200 rounded p-3">
+                                                <code className="text-xs font-mono text-purple-700 font-bold">{fn.name}</code>
+                                                <p className="text-xs text-slate-600 mt-1">{fn.desc}</p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                                    <h4 className="text-sm font-semibold text-amber-800 mb-2">⚠️ Numbers as dates</h4>
+                                    <p className="text-sm text-amber-700">
+                                        A plain number is read as an Excel serial date (45000 = 2023-03-15), so YEAR(2023) is not 2023. Build dates from numbers with DATE()
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         {activeTab === 'units' && (
                             <div className="space-y-6">
                                 <div>
@@ -423,6 +540,44 @@ export const FormulaHelpDialog: React.FC<FormulaHelpDialogProps> = ({ isOpen, on
                                             </div>
                                         </div>
                                     </div>
+
+                                    <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+                                        <h4 className="text-sm font-semibold text-slate-700 mb-2">Unit Conversion (Process nodes)</h4>
+                                        <div className="space-y-2">
+                                            <div className="flex items-center justify-between text-xs">
+                                                <code className="bg-white px-2 py-1 rounded border">100 TJ × 5 g/GJ</code>
+                                                <span className="text-slate-500">→</span>
+                                                <code className="bg-purple-50 px-2 py-1 rounded border border-purple-200 text-purple-700">500,000 g</code>
+                                            </div>
+                                            <div className="flex items-center justify-between text-xs">
+                                                <code className="bg-white px-2 py-1 rounded border">500 kg + 2 t</code>
+                                                <span className="text-slate-500">→</span>
+                                                <code className="bg-purple-50 px-2 py-1 rounded border border-purple-200 text-purple-700">2,500 kg</code>
+                                            </div>
+                                        </div>
+                                        <p className="text-[10px] text-slate-500 mt-2">
+                                            Mass, energy, volume, time, distance and area units convert automatically, including SI prefixes (µg, kg, MJ, TJ, kWh, ...)
+                                        </p>
+                                    </div>
+
+                                    <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+                                        <h4 className="text-sm font-semibold text-slate-700 mb-2">Unit Literals</h4>
+                                        <div className="space-y-2">
+                                            <div className="flex items-center justify-between text-xs">
+                                                <code className="bg-white px-2 py-1 rounded border">[Fuel_t] * 1000 kg/t</code>
+                                                <span className="text-slate-500">→</span>
+                                                <code className="bg-purple-50 px-2 py-1 rounded border border-purple-200 text-purple-700">kg</code>
+                                            </div>
+                                            <div className="flex items-center justify-between text-xs">
+                                                <code className="bg-white px-2 py-1 rounded border">[Carbon_C] * 44/12 CO2/C</code>
+                                                <span className="text-slate-500">→</span>
+                                                <code className="bg-purple-50 px-2 py-1 rounded border border-purple-200 text-purple-700">CO2</code>
+                                            </div>
+                                        </div>
+                                        <p className="text-[10px] text-slate-500 mt-2">
+                                            Write the unit right after the number. A fraction before the unit belongs to it (44/12 CO2/C). Constants are not units: 2 pi is 2 × pi. Unknown unit words get a unit warning. Wrap the literal in parentheses to divide by it: [Fuel] / (2 kg)
+                                        </p>
+                                    </div>
                                 </div>
 
                                 <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
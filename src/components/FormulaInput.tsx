@@ -15,6 +15,29 @@ const FUNCTION_SUGGESTIONS: Suggestion[] = [
     { label: 'XLOOKUP', insertText: 'XLOOKUP(', type: 'function', description: 'XLOOKUP(val, lookup_col, return_col, default)' },
     { label: 'CEILINGLOOKUP', insertText: 'CEILINGLOOKUP(', type: 'function', description: 'CEILINGLOOKUP(val, lookup_col, return_col, default) — Nearest higher' },
     { label: 'FLOORLOOKUP', insertText: 'FLOORLOOKUP(', type: 'function', description: 'FLOORLOOKUP(val, lookup_col, return_col, default) — Nearest lower' },
+    { label: 'RUNNINGTOTAL', insertText: 'RUNNINGTOTAL([', type: 'function', description: 'RUNNINGTOTAL([col]) — Cumulative sum in row order' },
+    { label: 'CUMPERCENT', insertText: 'CUMPERCENT([', type: 'function', description: 'CUMPERCENT([col]) — Cumulative % of total, largest first' },
+    { label: 'LAG', insertText: 'LAG([', type: 'function', description: 'LAG([col], n, default) — Value n rows above' },
+    { label: 'LEAD', insertText: 'LEAD([', type: 'function', description: 'LEAD([col], n, default) — Value n rows below' },
+    { label: 'RANK', insertText: 'RANK([', type: 'function', description: 'RANK([col], "desc") — 1 = largest' },
+    { label: 'TRIM', insertText: 'TRIM(', type: 'function', description: 'TRIM(text) — Remove extra spaces' },
+    { label: 'UPPER', insertText: 'UPPER(', type: 'function', description: 'UPPER(text) — Upper case' },
+    { label: 'LOWER', insertText: 'LOWER(', type: 'function', description: 'LOWER(text) — Lower case' },
+    { label: 'CONCAT', insertText: 'CONCAT(', type: 'function', description: 'CONCAT(a, b, ...) — Join text' },
+    { label: 'LEFT', insertText: 'LEFT(', type: 'function', description: 'LEFT(text, n) — First n characters' },
+    { label: 'RIGHT', insertText: 'RIGHT(', type: 'function', description: 'RIGHT(text, n) — Last n characters' },
+    { label: 'MID', insertText: 'MID(', type: 'function', description: 'MID(text, start, n) — n characters from start' },
+    { label: 'REPLACE', insertText: 'REPLACE(', type: 'function', description: 'REPLACE(text, find, with) — Replace all' },
+    { label: 'REGEXMATCH', insertText: 'REGEXMATCH(', type: 'function', description: 'REGEXMATCH(text, pattern) — Pattern matches?' },
+    { label: 'REGEXEXTRACT', insertText: 'REGEXEXTRACT(', type: 'function', description: 'REGEXEXTRACT(text, pattern) — Matched text' },
+    { label: 'SPLIT_PART', insertText: 'SPLIT_PART(', type: 'function', description: 'SPLIT_PART(text, delim, i) — i-th part' },
+    { label: 'DATE', insertText: 'DATE(', type: 'function', description: 'DATE(y, m, d) — Build a date' },
+    { label: 'DATEVALUE', insertText: 'DATEVALUE(', type: 'function', description: 'DATEVALUE(text) — Read a date string' },
+    { label: 'YEAR', insertText: 'YEAR(', type: 'function', description: 'YEAR(date) — Year number' },
+    { label: 'MONTH', insertText: 'MONTH(', type: 'function', description: 'MONTH(date) — Month number' },
+    { label: 'DAY', insertText: 'DAY(', type: 'function', description: 'DAY(date) — Day of month' },
+    { label: 'DATEDIFF', insertText: 'DATEDIFF(', type: 'function', description: 'DATEDIFF(start, end, "D"|"M"|"Y") — Difference' },
+    { label: 'EOMONTH', insertText: 'EOMONTH(', type: 'function', description: 'EOMONTH(date, months) — End of month' },
     { label: 'sqrt', insertText: 'sqrt(', type: 'function', description: 'sqrt(x) — Square root' },
     { label: 'abs', insertText: 'abs(', type: 'function', description: 'abs(x) — Absolute value' },
     { label: 'pow', insertText: 'pow(', type: 'function', description: 'pow(base, exp) — Power' },
@@ -35,6 +58,14 @@ const AGGREGATE_SUGGESTIONS: Suggestion[] = [
     { label: '$MIN_', insertText: '$MIN_[', type: 'aggregate', description: '$MIN_[Column] — Minimum' },
     { label: '$MAX_', insertText: '$MAX_[', type: 'aggregate', description: '$MAX_[Column] — Maximum' },
     { label: '$COUNT_', insertText: '$COUNT_[', type: 'aggregate', description: '$COUNT_[Column] — Count non-null' },
+    { label: '$MEDIAN_', insertText: '$MEDIAN_[', type: 'aggregate', description: '$MEDIAN_[Column] — Median' },
+    { label: '$STDEV_', insertText: '$STDEV_[', type: 'aggregate', description: '$STDEV_[Column] — Sample standard deviation' },
+    { label: '$VAR_', insertText: '$VAR_[', type: 'aggregate', description: '$VAR_[Column] — Sample variance' },
+    { label: '$PERCENTILE_', insertText: '$PERCENTILE_[', type: 'aggregate', description: '$PERCENTILE_[Column](0.95) — Percentile, k from 0 to 1' },
+    { label: '$DISTINCTCOUNT_', insertText: '$DISTINCTCOUNT_[', type: 'aggregate', description: '$DISTINCTCOUNT_[Column] — Count distinct values' },
+    { label: '$SUMIF_', insertText: '$SUMIF_[', type: 'aggregate', description: '$SUMIF_[Column]([Fuel] == "Coal") — Sum where condition holds' },
+    { label: '$COUNTIF_', insertText: '$COUNTIF_[', type: 'aggregate', description: '$COUNTIF_[Column](condition) — Count where condition holds' },
+    { label: '$AVERAGEIF_', insertText: '$AVERAGEIF_[', type: 'aggregate', description: '$AVERAGEIF_[Column](condition) — Average where condition holds' },
 ];
 
 // ── Type Badge Colors ────────────────────────────────────────────
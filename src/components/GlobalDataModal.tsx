@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { X, Table } from 'lucide-react';
 import { useBatchVisualStore } from '../store/useBatchVisualStore';
 import { useBatchDataStore } from '../store/useBatchDataStore';
+import { materializeRows } from '../lib/columnarTable';
 import { AgGridReact } from 'ag-grid-react';
 import { AllCommunityModule, ModuleRegistry } from "ag-grid-community";
 
@@ -22,6 +23,8 @@ export const GlobalDataModal = () => {
     );
 
     const [colDefs, setColDefs] = useState<any[]>([]);
+    // Built once per table, so the grid gets the same row objects on every render
+    const rowData = useMemo(() => (activeNodeData ? materializeRows(activeNodeData) : []), [activeNodeData]);
 
     useEffect(() => {
         if (activeNodeData?.schema) {
@@ -90,7 +93,7 @@ export const GlobalDataModal = () => {
                                 }}
                             >
                                 <AgGridReact
-                                    rowData={activeNodeData.rawData}
+                                    rowData={rowData}
                                     columnDefs={colDefs || []}
                                     pagination={true}
                                     paginationPageSize={100}
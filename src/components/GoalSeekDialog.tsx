@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Target, Play, Check } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { useBatchDataStore } from '../store/useBatchDataStore';
+import { goalSeek } from '../lib/goalSeek';
+import type { GoalSeekResult } from '../lib/goalSeek';
+import { getAncestorIds } from '../utils/graphTraversal';
+import type { SourceNodeData, FactorNodeData } from '../types';
+import { formatDisplayNumber } from '../utils/formatNumber';
+
+interface GoalSeekDialogProps {
+    nodeId: string | null;
+    onClose: () => void;
+}
+
+export const GoalSeekDialog: React.FC<GoalSeekDialogProps> = ({ nodeId, onClose }) => {
+    const nodes = useAppStore((state) => state.nodes);
+    const edges = useAppStore((state) => state.edges);
+    const updateNodeData = useAppStore((state) => state.updateNodeData);
+
+    const [targetText, setTargetText] = useState('');
+    const [inputId, setInputId] = useState('');
+    const [result, setResult] = useState<GoalSeekResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // A different node starts a fresh search
+    const [resultNodeId, setResultNodeId] = useState(nodeId);
+    if (nodeId !== resultNodeId) {
+        setResultNodeId(nodeId);
+        setTargetText('');
+        setInputId('');
+        setResult(null);
+        setError(null);
+    }
+
+    const node = nodes.find((n) => n.id === nodeId);
+    const ancestors = nodeId ? getAncestorIds(nodeId, edges) : new Set<string>();
+    const inputs = nodes.filter((n) => ancestors.has(n.id) && (n.data.type === 'source' || n.data.type === 'factor'));
+    const selectedInput = inputs.find((n) => n.id === inputId);
+    const selectedData = selectedInput?.data as SourceNodeData | FactorNodeData | undefined;
+    const resultUnit = node?.data.type === 'process' ? node.data.resultUnit : undefined;
+
+    const handleSolve = () => {
+        if (!nodeId) return;
+        setError(null);
+        setResult(null);
+
+        const target = parseFloat(targetText.replace(/,/g, ''));
+        if (isNaN(target)) {
+            setError('Enter a target value');
+            return;
+        }
+        if (!selectedInput) {
+            setError('Pick an input to vary');
+            return;
+        }
+
+        try {
+            setResult(goalSeek(nodes, edges, useBatchDataStore.getState().getNodeData, nodeId, selectedInput.id, target));
+        } catch (err) {
+            setError((err as Error).message || 'Goal seek failed');
+        }
+    };
+
+    const handleApply = () => {
+        if (!result || !selectedInput) return;
+        // A database factor becomes a manual value once it is solved for
+        updateNodeData(selectedInput.id, selectedInput.data.type === 'factor'
+            ? { value: result.inputValue, mode: 'MANUAL_OVERRIDE' }
+            : { value: result.inputValue });
+        onClose();
+    };
+
+    return (
+        <Dialog.Root open={nodeId !== null} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-[480px] overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                        <Dialog.Title className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <Target size={20} className="text-purple-600" />
+                            Goal Seek: {node?.data.label || 'Process'}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1 hover:bg-slate-100 rounded transition-colors">
+                                <X size={20} className="text-slate-500" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="px-6 py-4 space-y-3">
+                        <label className="block text-xs font-medium text-slate-500 space-y-1">
+                            <span>Target result {resultUnit && `(${resultUnit})`}</span>
+                            <input
+                                type="text"
+                                value={targetText}
+                                onChange={(e) => setTargetText(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleSolve(); }}
+                                placeholder="e.g. 50000"
+                                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none font-mono"
+                            />
+                        </label>
+
+                        <label className="block text-xs font-medium text-slate-500 space-y-1">
+                            <span>By changing</span>
+                            <select
+                                value={inputId}
+                                onChange={(e) => { setInputId(e.target.value); setResult(null); }}
+                                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none bg-white"
+                            >
+                                <option value="">Select an upstream Source or Factor...</option>
+                                {inputs.map((n) => {
+                                    const data = n.data as SourceNodeData | FactorNodeData;
+                                    return (
+                                        <option key={n.id} value={n.id}>
+                                            {data.label} (now {formatDisplayNumber(data.value)} {data.unit})
+                                        </option>
+                                    );
+                                })}
+                            </select>
+                        </label>
+
+                        <button
+                            onClick={handleSolve}
+                            className="w-full flex items-center justify-center gap-2 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors text-sm font-medium"
+                        >
+                            <Play size={14} />
+                            Solve
+                        </button>
+
+                        {error && (
+                            <div className="p-2 bg-red-50 text-red-600 rounded text-xs border border-red-100">
+                                <span className="font-bold">Error:</span> {error}
+                            </div>
+                        )}
+
+                        {result && selectedData && (
+                            <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+                                <div className="text-sm text-slate-700">
+                                    Set <span className="font-semibold">{selectedData.label}</span> to{' '}
+                                    <span className="font-mono font-bold text-green-700">{formatDisplayNumber(result.inputValue)} {selectedData.unit}</span>
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                    Result {formatDisplayNumber(result.resultValue)} {resultUnit} · change from current{' '}
+                                    {formatDisplayNumber(result.inputValue - selectedData.value)} {selectedData.unit}
+                                    {selectedData.value !== 0 && ` (${formatDisplayNumber(((result.inputValue - selectedData.value) / Math.abs(selectedData.value)) * 100)}%)`}
+                                    {' '}· {result.iterations} evaluations
+                                </div>
+                                <button
+                                    onClick={handleApply}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                                >
+                                    <Check size={14} />
+                                    Apply to {selectedData.label}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+};
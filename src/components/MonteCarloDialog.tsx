@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Dices, Play } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { useBatchDataStore } from '../store/useBatchDataStore';
+import { runMonteCarlo } from '../lib/monteCarlo';
+import type { MonteCarloResult, HistogramBin } from '../lib/monteCarlo';
+import type { Distribution } from '../types';
+import { formatDisplayNumber } from '../utils/formatNumber';
+
+interface MonteCarloDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const DISTRIBUTIONS: { id: Distribution; label: string }[] = [
+    { id: 'normal', label: 'Normal' },
+    { id: 'lognormal', label: 'Lognormal' },
+    { id: 'triangular', label: 'Triangular' },
+    { id: 'uniform', label: 'Uniform' },
+];
+
+const Histogram: React.FC<{ bins: HistogramBin[] }> = ({ bins }) => {
+    const maxCount = Math.max(...bins.map(b => b.count), 1);
+    return (
+        <div className="flex items-end gap-px h-12 w-full">
+            {bins.map((bin, i) => (
+                <div
+                    key={i}
+                    className="flex-1 bg-purple-400 rounded-t-sm"
+                    style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                    title={`${formatDisplayNumber(bin.from)} – ${formatDisplayNumber(bin.to)}: ${bin.count}`}
+                />
+            ))}
+        </div>
+    );
+};
+
+export const MonteCarloDialog: React.FC<MonteCarloDialogProps> = ({ isOpen, onClose }) => {
+    const [iterations, setIterations] = useState(5000);
+    const [seed, setSeed] = useState(12345);
+    const [defaultDistribution, setDefaultDistribution] = useState<Distribution>('normal');
+    const [isRunning, setIsRunning] = useState(false);
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRun = () => {
+        setIsRunning(true);
+        setError(null);
+
+        // Let the dialog paint "Running..." before the loop blocks the thread
+        setTimeout(() => {
+            try {
+                const { nodes, edges } = useAppStore.getState();
+                setResult(runMonteCarlo(nodes, edges, useBatchDataStore.getState().getNodeData, { iterations, seed, defaultDistribution }));
+            } catch (err) {
+                setError((err as Error).message || 'Simulation failed');
+                setResult(null);
+            }
+            setIsRunning(false);
+        }, 50);
+    };
+
+    return (
+        <Dialog.Root open={isOpen} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-[700px] max-h-[85vh] overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                        <Dialog.Title className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <Dices size={20} className="text-purple-600" />
+                            Monte Carlo Uncertainty (Approach 2)
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1 hover:bg-slate-100 rounded transition-colors">
+                                <X size={20} className="text-slate-500" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    {/* Settings */}
+                    <div className="px-6 py-4 border-b border-slate-200 space-y-3">
+                        <div className="grid grid-cols-3 gap-3">
+                            <label className="text-xs font-medium text-slate-500 space-y-1">
+                                <span>Iterations</span>
+                                <input
+                                    type="number"
+                                    min={100}
+                                    max={100000}
+                                    step={100}
+                                    value={iterations}
+                                    onChange={(e) => setIterations(Math.max(1, parseInt(e.target.value, 10) || 0))}
+                                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none"
+                                />
+                            </label>
+                            <label className="text-xs font-medium text-slate-500 space-y-1">
+                                <span>Seed</span>
+                                <input
+                                    type="number"
+                                    value={seed}
+                                    onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none"
+                                />
+                            </label>
+                            <label className="text-xs font-medium text-slate-500 space-y-1">
+                                <span>Default distribution</span>
+                                <select
+                                    value={defaultDistribution}
+                                    onChange={(e) => setDefaultDistribution(e.target.value as Distribution)}
+                                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none bg-white"
+                                >
+                                    {DISTRIBUTIONS.map(d => (
+                                        <option key={d.id} value={d.id}>{d.label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                        <p className="text-[10px] text-slate-500">
+                            Source and Factor nodes with an uncertainty are sampled from their 95% interval; nodes that pick a distribution use it instead of the default. The same seed reproduces the same results.
+                        </p>
+                        <button
+                            onClick={handleRun}
+                            disabled={isRunning}
+                            className="w-full flex items-center justify-center gap-2 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 text-sm font-medium"
+                        >
+                            <Play size={14} />
+                            {isRunning ? 'Running...' : 'Run Simulation'}
+                        </button>
+                    </div>
+
+                    {/* Results */}
+                    <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                        {error && (
+                            <div className="p-2 bg-red-50 text-red-600 rounded text-xs border border-red-100">
+                                <span className="font-bold">Error:</span> {error}
+                            </div>
+                        )}
+
+                        {result && result.sampledInputs === 0 && (
+                            <div className="p-2 bg-amber-50 text-amber-700 rounded text-xs border border-amber-200">
+                                No Source or Factor node has an uncertainty - every iteration gives the same result.
+                            </div>
+                        )}
+
+                        {result && result.nodes.length === 0 && (
+                            <div className="text-center text-sm text-slate-400 py-6">No Process nodes to analyse</div>
+                        )}
+
+                        {result?.nodes.map(nodeResult => (
+                            <div key={nodeResult.nodeId} className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-sm font-semibold text-slate-700">{nodeResult.label}</span>
+                                    <span className="text-[10px] text-slate-400">
+                                        {nodeResult.samples.toLocaleString('en-US')} / {result.iterations.toLocaleString('en-US')} iterations
+                                    </span>
+                                </div>
+                                {nodeResult.samples === 0 ? (
+                                    <div className="text-xs text-red-500">No numeric results - check the node for errors</div>
+                                ) : (
+                                    <>
+                                        <div className="grid grid-cols-3 gap-2 text-xs mb-2">
+                                            <div>
+                                                <div className="text-slate-400">Mean</div>
+                                                <div className="font-mono text-slate-800">{formatDisplayNumber(nodeResult.mean)} {nodeResult.unit || ''}</div>
+                                            </div>
+                                            <div>
+                                                <div className="text-slate-400">2.5th percentile</div>
+                                                <div className="font-mono text-slate-800">{formatDisplayNumber(nodeResult.p2_5)}</div>
+                                            </div>
+                                            <div>
+                                                <div className="text-slate-400">97.5th percentile</div>
+                                                <div className="font-mono text-slate-800">{formatDisplayNumber(nodeResult.p97_5)}</div>
+                                            </div>
+                                        </div>
+                                        <Histogram bins={nodeResult.histogram} />
+                                    </>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+};
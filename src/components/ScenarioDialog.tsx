@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Layers, Plus, Trash2, Play, Upload } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { useBatchDataStore } from '../store/useBatchDataStore';
+import { useScenarioStore } from '../store/useScenarioStore';
+import type { Scenario } from '../store/useScenarioStore';
+import { compareScenarios } from '../lib/scenarios';
+import type { ScenarioComparison, ScenarioValue } from '../lib/scenarios';
+import type { BatchTable } from '../lib/batchOperations';
+import { parseDataFile } from '../lib/fileIngest';
+import type { SourceNodeData, FactorNodeData, DatasetNodeData } from '../types';
+import { formatDisplayNumber } from '../utils/formatNumber';
+
+interface ScenarioDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Value override field, committed on blur (empty clears the override)
+const OverrideInput: React.FC<{ value?: number; onCommit: (value: number | undefined) => void }> = ({ value, onCommit }) => {
+    const [text, setText] = useState(value === undefined ? '' : String(value));
+    const [syncedValue, setSyncedValue] = useState(value);
+    if (value !== syncedValue) {
+        setSyncedValue(value);
+        setText(value === undefined ? '' : String(value));
+    }
+
+    const commit = () => {
+        if (text.trim() === '') {
+            onCommit(undefined);
+            return;
+        }
+        const parsed = parseFloat(text.replace(/,/g, ''));
+        if (isNaN(parsed)) setText(value === undefined ? '' : String(value));
+        else onCommit(parsed);
+    };
+
+    return (
+        <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+            placeholder="Baseline"
+            className={`w-28 px-2 py-1 text-xs border rounded-md outline-none font-mono ${value !== undefined ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200'} focus:border-indigo-400`}
+        />
+    );
+};
+
+const formatValue = (v: ScenarioValue) => {
+    if (v.error) return v.error;
+    if (v.value === null) return '-';
+    return typeof v.value === 'number' ? formatDisplayNumber(v.value) : v.value;
+};
+
+const formatDelta = (delta: number | null, baseline: ScenarioValue) => {
+    if (delta === null) return '';
+    const sign = delta > 0 ? '+' : '';
+    const percent = typeof baseline.value === 'number' && baseline.value !== 0
+        ? ` (${sign}${formatDisplayNumber((delta / Math.abs(baseline.value)) * 100)}%)`
+        : '';
+    return `${sign}${formatDisplayNumber(delta)}${percent}`;
+};
+
+const ScenarioEditor: React.FC<{ scenario: Scenario }> = ({ scenario }) => {
+    const nodes = useAppStore((state) => state.nodes);
+    const { renameScenario, deleteScenario, setValueOverride, setDatasetOverride } = useScenarioStore();
+    const [fileError, setFileError] = useState<string | null>(null);
+
+    const inputNodes = nodes.filter((n) => n.data.type === 'source' || n.data.type === 'factor');
+    const datasetNodes = nodes.filter((n) => n.data.type === 'dataset');
+
+    const handleFile = async (nodeId: string, file: File | undefined) => {
+        if (!file) return;
+        setFileError(null);
+        try {
+            const table = await parseDataFile(file);
+            setDatasetOverride(scenario.id, nodeId, { fileName: file.name, ...table });
+        } catch (err) {
+            setFileError(`${file.name}: ${(err as Error).message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={scenario.name}
+                    onChange={(e) => renameScenario(scenario.id, e.target.value)}
+                    className="flex-1 px-2 py-1.5 text-sm font-semibold border border-slate-200 rounded-md focus:border-indigo-400 outline-none"
+                />
+                <button
+                    onClick={() => deleteScenario(scenario.id)}
+                    className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Delete scenario"
+                >
+                    <Trash2 size={16} />
+                </button>
+            </div>
+
+            <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">Source & Factor values</h4>
+                {inputNodes.length === 0 ? (
+                    <p className="text-xs text-slate-400">No Source or Factor nodes</p>
+                ) : (
+                    <table className="w-full text-xs">
+                        <tbody>
+                            {inputNodes.map((node) => {
+                                const data = node.data as SourceNodeData | FactorNodeData;
+                                return (
+                                    <tr key={node.id} className="border-t border-slate-100">
+                                        <td className="py-1 pr-2 text-slate-700">{data.label}</td>
+                                        <td className="py-1 pr-2 font-mono text-slate-400">{formatDisplayNumber(data.value)} {data.unit}</td>
+                                        <td className="py-1 text-right">
+                                            <OverrideInput
+                                                value={scenario.valueOverrides[node.id]}
+                                                onCommit={(value) => setValueOverride(scenario.id, node.id, value)}
+                                            />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">Datasets</h4>
+                {datasetNodes.length === 0 ? (
+                    <p className="text-xs text-slate-400">No Dataset nodes</p>
+                ) : (
+                    <div className="space-y-1">
+                        {datasetNodes.map((node) => {
+                            const data = node.data as DatasetNodeData;
+                            const replacement = scenario.datasetOverrides[node.id];
+                            return (
+                                <div key={node.id} className="flex items-center gap-2 text-xs border-t border-slate-100 pt-1">
+                                    <span className="text-slate-700 flex-1 truncate">{data.label}</span>
+                                    <span className={`truncate max-w-[160px] ${replacement ? 'text-indigo-600 font-medium' : 'text-slate-400'}`}>
+                                        {replacement ? replacement.fileName : data.fileName || 'No file'}
+                                    </span>
+                                    <label className="p-1 text-slate-500 hover:bg-slate-100 rounded cursor-pointer" title="Use another file in this scenario">
+                                        <Upload size={14} />
+                                        <input
+                                            type="file"
+                                            accept=".csv,.xlsx"
+                                            className="hidden"
+                                            onChange={(e) => { handleFile(node.id, e.target.files?.[0]); e.target.value = ''; }}
+                                        />
+                                    </label>
+                                    {replacement && (
+                                        <button
+                                            onClick={() => setDatasetOverride(scenario.id, node.id, undefined)}
+                                            className="p-1 text-slate-400 hover:text-red-500 rounded"
+                                            title="Use the loaded file"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+                {fileError && <p className="text-xs text-red-500 mt-1">{fileError}</p>}
+            </div>
+        </div>
+    );
+};
+
+export const ScenarioDialog: React.FC<ScenarioDialogProps> = ({ isOpen, onClose }) => {
+    const nodes = useAppStore((state) => state.nodes);
+    const { scenarios, resultNodeIds, addScenario, setResultNodeIds } = useScenarioStore();
+    const [tab, setTab] = useState<'edit' | 'compare'>('edit');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = scenarios.find((s) => s.id === selectedId) ?? scenarios[0];
+    const processNodes = nodes.filter((n) => n.data.type === 'process');
+
+    const handleAdd = () => {
+        setSelectedId(addScenario(`Scenario ${scenarios.length + 1}`));
+        setTab('edit');
+    };
+
+    const toggleResultNode = (nodeId: string) => {
+        setResultNodeIds(resultNodeIds.includes(nodeId)
+            ? resultNodeIds.filter((id) => id !== nodeId)
+            : [...resultNodeIds, nodeId]);
+    };
+
+    const handleCompare = () => {
+        setError(null);
+        try {
+            const { nodes: graphNodes, edges } = useAppStore.getState();
+            const batchNodes = useBatchDataStore.getState().nodes;
+
+            // Baseline tables: the files loaded into Dataset nodes
+            const baseDatasets: Record<string, BatchTable> = {};
+            graphNodes.forEach((node) => {
+                const table = batchNodes[node.id];
+                if (node.data.type === 'dataset' && table?.status === 'SUCCESS') {
+                    baseDatasets[node.id] = { rawData: table.rawData, schema: table.schema };
+                }
+            });
+
+            const liveIds = resultNodeIds.filter((id) => graphNodes.some((n) => n.id === id));
+            setComparison(compareScenarios(graphNodes, edges, baseDatasets, scenarios, liveIds));
+        } catch (err) {
+            setError((err as Error).message || 'Comparison failed');
+            setComparison(null);
+        }
+    };
+
+    return (
+        <Dialog.Root open={isOpen} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-[860px] h-[80vh] overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                        <Dialog.Title className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <Layers size={20} className="text-indigo-600" />
+                            Scenarios
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1 hover:bg-slate-100 rounded transition-colors">
+                                <X size={20} className="text-slate-500" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    {/* Tabs */}
+                    <div className="flex border-b border-slate-200 px-6">
+                        {([['edit', 'Define'], ['compare', 'Compare']] as const).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => setTab(id)}
+                                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${tab === id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {tab === 'edit' ? (
+                        <div className="flex-1 flex overflow-hidden">
+                            {/* Scenario list */}
+                            <div className="w-52 border-r border-slate-200 p-3 space-y-1 overflow-y-auto">
+                                {scenarios.map((s) => (
+                                    <button
+                                        key={s.id}
+                                        onClick={() => setSelectedId(s.id)}
+                                        className={`w-full text-left px-2 py-1.5 rounded text-sm truncate ${s.id === selected?.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+                                    >
+                                        {s.name || 'Untitled'}
+                                        <span className="block text-[10px] text-slate-400 font-normal">
+                                            {Object.keys(s.valueOverrides).length} values, {Object.keys(s.datasetOverrides).length} datasets
+                                        </span>
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={handleAdd}
+                                    className="w-full flex items-center gap-1.5 px-2 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50 rounded"
+                                >
+                                    <Plus size={14} />
+                                    New scenario
+                                </button>
+                            </div>
+
+                            {/* Editor */}
+                            <div className="flex-1 p-4 overflow-y-auto">
+                                {selected ? (
+                                    <ScenarioEditor key={selected.id} scenario={selected} />
+                                ) : (
+                                    <div className="text-center text-sm text-slate-400 py-12">
+                                        Scenarios override Source/Factor values and Dataset files without copying the graph.
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                            <div>
+                                <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">Result nodes</h4>
+                                {processNodes.length === 0 ? (
+                                    <p className="text-xs text-slate-400">No Process nodes</p>
+                                ) : (
+                                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                        {processNodes.map((node) => (
+                                            <label key={node.id} className="flex items-center gap-1.5 text-sm text-slate-600">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={resultNodeIds.includes(node.id)}
+                                                    onChange={() => toggleResultNode(node.id)}
+                                                />
+                                                {node.data.label || 'Process'}
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <button
+                                onClick={handleCompare}
+                                disabled={resultNodeIds.length === 0}
+                                className="w-full flex items-center justify-center gap-2 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 text-sm font-medium"
+                            >
+                                <Play size={14} />
+                                Evaluate {scenarios.length + 1} scenarios
+                            </button>
+
+                            {error && (
+                                <div className="p-2 bg-red-50 text-red-600 rounded text-xs border border-red-100">
+                                    <span className="font-bold">Error:</span> {error}
+                                </div>
+                            )}
+
+                            {comparison && comparison.rows.length > 0 && (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-left text-slate-500 border-b border-slate-200">
+                                                <th className="font-medium py-1.5 pr-3">Node</th>
+                                                <th className="font-medium py-1.5 pr-3 text-right">Baseline</th>
+                                                {comparison.scenarioNames.map((name, i) => (
+                                                    <th key={i} className="font-medium py-1.5 pr-3 text-right">{name}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {comparison.rows.map((row) => (
+                                                <tr key={row.nodeId} className="border-b border-slate-100 align-top">
+                                                    <td className="py-1.5 pr-3 font-medium text-slate-700">
+                                                        {row.label}
+                                                        {row.values[0].unit && <span className="block text-[10px] text-slate-400 font-normal">{row.values[0].unit}</span>}
+                                                    </td>
+                                                    {row.values.map((value, i) => (
+                                                        <td key={i} className="py-1.5 pr-3 text-right">
+                                                            <div className={`font-mono ${value.error ? 'text-red-500' : 'text-slate-800'}`}>{formatValue(value)}</div>
+                                                            {i > 0 && row.deltas[i - 1] !== null && (
+                                                                <div className={`text-[10px] font-mono ${row.deltas[i - 1]! > 0 ? 'text-red-500' : row.deltas[i - 1]! < 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                                                                    {formatDelta(row.deltas[i - 1], row.values[0])}
+                                                                </div>
+                                                            )}
+                                                        </td>
+                                                    ))}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+};
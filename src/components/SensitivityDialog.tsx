@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, BarChart3, Play } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { useBatchDataStore } from '../store/useBatchDataStore';
+import { runSensitivity } from '../lib/sensitivity';
+import type { SensitivityResult, SensitivityEntry } from '../lib/sensitivity';
+import { formatDisplayNumber } from '../utils/formatNumber';
+
+interface SensitivityDialogProps {
+    nodeId: string | null;
+    onClose: () => void;
+}
+
+// Position of a value on the chart's shared axis, in %
+const toPercent = (value: number, min: number, max: number) =>
+    max === min ? 50 : ((value - min) / (max - min)) * 100;
+
+const TornadoBar: React.FC<{ entry: SensitivityEntry; base: number; min: number; max: number }> = ({ entry, base, min, max }) => {
+    const basePos = toPercent(base, min, max);
+    const segment = (result: number, className: string, title: string) => {
+        const pos = toPercent(result, min, max);
+        return (
+            <div
+                className={`absolute top-0 h-full ${className}`}
+                style={{ left: `${Math.min(pos, basePos)}%`, width: `${Math.abs(pos - basePos)}%` }}
+                title={title}
+            />
+        );
+    };
+
+    return (
+        <div className="relative h-5 bg-slate-50 rounded">
+            {segment(entry.lowResult, 'bg-sky-400', `Input at ${formatDisplayNumber(entry.lowInput)}: ${formatDisplayNumber(entry.lowResult)}`)}
+            {segment(entry.highResult, 'bg-purple-500', `Input at ${formatDisplayNumber(entry.highInput)}: ${formatDisplayNumber(entry.highResult)}`)}
+            <div className="absolute top-0 h-full w-px bg-slate-700" style={{ left: `${basePos}%` }} />
+        </div>
+    );
+};
+
+export const SensitivityDialog: React.FC<SensitivityDialogProps> = ({ nodeId, onClose }) => {
+    const [modeType, setModeType] = useState<'percent' | 'interval'>('percent');
+    const [percent, setPercent] = useState(10);
+    const [result, setResult] = useState<SensitivityResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Results belong to the node they were computed for
+    const [resultNodeId, setResultNodeId] = useState(nodeId);
+    if (nodeId !== resultNodeId) {
+        setResultNodeId(nodeId);
+        setResult(null);
+        setError(null);
+    }
+
+    const nodeLabel = useAppStore((state) => state.nodes.find((n) => n.id === nodeId)?.data.label);
+
+    const handleRun = () => {
+        if (!nodeId) return;
+        setError(null);
+        try {
+            const { nodes, edges } = useAppStore.getState();
+            const mode = modeType === 'percent' ? { type: 'percent' as const, percent } : { type: 'interval' as const };
+            setResult(runSensitivity(nodes, edges, useBatchDataStore.getState().getNodeData, nodeId, mode));
+        } catch (err) {
+            setError((err as Error).message || 'Analysis failed');
+            setResult(null);
+        }
+    };
+
+    const results = result ? result.entries.flatMap((e) => [e.lowResult, e.highResult]).concat(result.baseValue) : [];
+    const axisMin = Math.min(...results);
+    const axisMax = Math.max(...results);
+
+    return (
+        <Dialog.Root open={nodeId !== null} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-[760px] max-h-[85vh] overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                        <Dialog.Title className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <BarChart3 size={20} className="text-purple-600" />
+                            Sensitivity: {nodeLabel || 'Process'}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1 hover:bg-slate-100 rounded transition-colors">
+                                <X size={20} className="text-slate-500" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    {/* Settings */}
+                    <div className="px-6 py-4 border-b border-slate-200 space-y-3">
+                        <div className="flex items-center gap-4 text-sm text-slate-600">
+                            <label className="flex items-center gap-1.5">
+                                <input
+                                    type="radio"
+                                    checked={modeType === 'percent'}
+                                    onChange={() => setModeType('percent')}
+                                />
+                                Perturb every input by ±
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={percent}
+                                    onChange={(e) => setPercent(parseFloat(e.target.value) || 0)}
+                                    disabled={modeType !== 'percent'}
+                                    className="w-16 px-2 py-1 text-sm border border-slate-200 rounded-md focus:border-purple-400 outline-none disabled:bg-slate-100"
+                                />
+                                %
+                            </label>
+                            <label className="flex items-center gap-1.5">
+                                <input
+                                    type="radio"
+                                    checked={modeType === 'interval'}
+                                    onChange={() => setModeType('interval')}
+                                />
+                                Between 95% CI bounds
+                            </label>
+                        </div>
+                        <p className="text-[10px] text-slate-500">
+                            Each upstream Source and Factor value is moved on its own while the others stay at their point values.
+                            Elasticity is the % change of the result per % change of the input.
+                        </p>
+                        <button
+                            onClick={handleRun}
+                            className="w-full flex items-center justify-center gap-2 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors text-sm font-medium"
+                        >
+                            <Play size={14} />
+                            Run Analysis
+                        </button>
+                    </div>
+
+                    {/* Results */}
+                    <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                        {error && (
+                            <div className="p-2 bg-red-50 text-red-600 rounded text-xs border border-red-100">
+                                <span className="font-bold">Error:</span> {error}
+                            </div>
+                        )}
+
+                        {result && (
+                            <>
+                                <div className="flex items-center justify-between text-xs text-slate-500">
+                                    <span>
+                                        Base result: <span className="font-mono text-slate-800">{formatDisplayNumber(result.baseValue)} {result.unit || ''}</span>
+                                    </span>
+                                    <span className="flex items-center gap-3">
+                                        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-sky-400 rounded-sm" /> Input low</span>
+                                        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-purple-500 rounded-sm" /> Input high</span>
+                                    </span>
+                                </div>
+
+                                {result.entries.length === 0 && (
+                                    <div className="text-center text-sm text-slate-400 py-6">No upstream inputs to perturb</div>
+                                )}
+
+                                {result.entries.length > 0 && (
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-left text-slate-400">
+                                                <th className="font-medium pb-1 w-32">Input</th>
+                                                <th className="font-medium pb-1">Effect on result</th>
+                                                <th className="font-medium pb-1 text-right w-24">Swing</th>
+                                                <th className="font-medium pb-1 text-right w-20">Elasticity</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {result.entries.map((entry) => (
+                                                <tr key={entry.nodeId} className="border-t border-slate-100">
+                                                    <td className="py-1.5 pr-2">
+                                                        <div className="font-medium text-slate-700 truncate" title={entry.label}>{entry.label}</div>
+                                                        <div className="text-[10px] text-slate-400 font-mono">
+                                                            {formatDisplayNumber(entry.lowInput)} – {formatDisplayNumber(entry.highInput)} {entry.unit}
+                                                        </div>
+                                                    </td>
+                                                    <td className="py-1.5">
+                                                        <TornadoBar entry={entry} base={result.baseValue} min={axisMin} max={axisMax} />
+                                                    </td>
+                                                    <td className="py-1.5 text-right font-mono text-slate-700">{formatDisplayNumber(entry.swing)}</td>
+                                                    <td className="py-1.5 text-right font-mono text-slate-700">
+                                                        {entry.elasticity === null ? '-' : formatDisplayNumber(entry.elasticity)}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+
+                                {result.skipped.length > 0 && (
+                                    <div className="p-2 bg-amber-50 text-amber-700 rounded text-xs border border-amber-200">
+                                        Not analysed (no uncertainty stated, or no numeric result): {result.skipped.join(', ')}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+};
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import type { NodeType } from '../types';
-import { Database, FileDigit, Settings, Layers, ArrowRightLeft, FileSpreadsheet, Filter, Calculator, Download, Columns, ChevronDown, ChevronRight, Ghost, Type } from 'lucide-react';
+import { Database, FileDigit, Settings, Layers, ArrowRightLeft, FileSpreadsheet, Filter, Calculator, Download, Columns, ChevronDown, ChevronRight, Ghost, Type, Group, Grid3x3, TableRowsSplit, Merge, Rows3 } from 'lucide-react';
 
 interface CollapsibleSectionProps {
     title: string;
@@ -100,6 +100,11 @@ export const Sidebar = () => {
                     <NodeCard nodeType="filter" label="Filter" icon={<Filter size={20} />} accentColor="#2cc0b4" onDragStart={onDragStart} />
                     <NodeCard nodeType="tableMath" label="TableMath" icon={<Calculator size={20} />} accentColor="#38c4a0" onDragStart={onDragStart} />
                     <NodeCard nodeType="transform" label="Transform" icon={<Columns size={20} />} accentColor="#4ed791" onDragStart={onDragStart} />
+                    <NodeCard nodeType="groupBy" label="Group By" icon={<Group size={20} />} accentColor="#38c4a0" onDragStart={onDragStart} />
+                    <NodeCard nodeType="pivot" label="Pivot" icon={<Grid3x3 size={20} />} accentColor="#12abd9" onDragStart={onDragStart} />
+                    <NodeCard nodeType="unpivot" label="Unpivot" icon={<TableRowsSplit size={20} />} accentColor="#2cc0b4" onDragStart={onDragStart} />
+                    <NodeCard nodeType="join" label="Join" icon={<Merge size={20} />} accentColor="#38c4a0" onDragStart={onDragStart} />
+                    <NodeCard nodeType="union" label="Union" icon={<Rows3 size={20} />} accentColor="#4ed791" onDragStart={onDragStart} />
                     <NodeCard nodeType="ghost" label="Ghost" icon={<Ghost size={20} />} accentColor="#7ec8e3" onDragStart={onDragStart} />
                 </CollapsibleSection>
 
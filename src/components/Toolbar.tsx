@@ -1,17 +1,42 @@
-import React, { useRef, useCallback, useState } from 'react';
-import { Save, FolderOpen, Check } from 'lucide-react';
+import React, { useRef, useCallback, useState, useMemo } from 'react';
+import { Save, FolderOpen, Check, Dices, Layers, Play, Square } from 'lucide-react';
 import { useProjectStore } from '../store/useProjectStore';
+import { useAppStore } from '../store/useAppStore';
+import { useBatchDataStore } from '../store/useBatchDataStore';
+import { useRunStore, dirtyNodeIds } from '../store/useRunStore';
 import { downloadProjectFile, importProjectFile } from '../lib/projectSerializer';
+import { ASSESSMENT_REPORTS, GWP_HORIZONS } from '../data/gwpValues';
+import type { AssessmentReport, GwpHorizon } from '../data/gwpValues';
+import { MonteCarloDialog } from './MonteCarloDialog';
+import { ScenarioDialog } from './ScenarioDialog';
 
 export const Toolbar: React.FC = () => {
     const projectName = useProjectStore((s) => s.projectName);
     const setProjectName = useProjectStore((s) => s.setProjectName);
     const lastModified = useProjectStore((s) => s.lastModified);
+    const gwpSet = useProjectStore((s) => s.gwpSet);
+    const setGwpSet = useProjectStore((s) => s.setGwpSet);
 
     const [saveFlash, setSaveFlash] = useState(false);
     const [importError, setImportError] = useState<string | null>(null);
+    const [showMonteCarlo, setShowMonteCarlo] = useState(false);
+    const [showScenarios, setShowScenarios] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const running = useRunStore((s) => s.running);
+    const runAll = useRunStore((s) => s.runAll);
+    const stopRun = useRunStore((s) => s.stop);
+    const queuedRuns = useRunStore((s) => s.queuedRuns);
+    // Recount the nodes Run all would run whenever the graph, its tables, the GWP set or the last run change
+    const nodes = useAppStore((s) => s.nodes);
+    const edges = useAppStore((s) => s.edges);
+    const batchNodes = useBatchDataStore((s) => s.nodes);
+    const lastRunHashes = useRunStore((s) => s.lastRunHashes);
+    const dirtyCount = useMemo(
+        () => dirtyNodeIds(nodes, edges, batchNodes, lastRunHashes, gwpSet).size,
+        [nodes, edges, batchNodes, lastRunHashes, gwpSet]
+    );
+
     const handleSave = useCallback(() => {
         downloadProjectFile();
         setSaveFlash(true);
@@ -36,6 +61,13 @@ export const Toolbar: React.FC = () => {
         e.target.value = '';
     }, []);
 
+    const handleGwpSetChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        const [report, horizon] = e.target.value.split(':');
+        setGwpSet({ report: report as AssessmentReport, horizon: Number(horizon) as GwpHorizon });
+        // Process nodes without their own GWP setting follow the project
+        useAppStore.getState().runCalculations();
+    }, [setGwpSet]);
+
     const formatDate = (iso: string) => {
         const d = new Date(iso);
         return d.toLocaleString('id-ID', {
@@ -56,6 +88,18 @@ export const Toolbar: React.FC = () => {
                     placeholder="Project Name"
                     spellCheck={false}
                 />
+                <select
+                    value={`${gwpSet.report}:${gwpSet.horizon}`}
+                    onChange={handleGwpSetChange}
+                    className="text-[10px] text-slate-500 bg-slate-50 border border-slate-200 rounded px-1 py-0.5 focus:outline-none focus:border-blue-500"
+                    title="GWP values used for CO2e conversions"
+                >
+                    {ASSESSMENT_REPORTS.flatMap((report) => GWP_HORIZONS.map((horizon) => (
+                        <option key={`${report}:${horizon}`} value={`${report}:${horizon}`}>
+                            GWP: IPCC {report}, {horizon}-yr
+                        </option>
+                    )))}
+                </select>
                 {lastModified && (
                     <span className="text-[10px] text-slate-400 hidden sm:inline">
                         Saved: {formatDate(lastModified)}
@@ -71,6 +115,44 @@ export const Toolbar: React.FC = () => {
                     </span>
                 )}
 
+                <button
+                    onClick={running ? stopRun : runAll}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${running
+                            ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                            : 'text-slate-600 bg-slate-100 hover:bg-slate-200'
+                        }`}
+                    title={running
+                        ? (queuedRuns > 0 ? `Stop the run and drop ${queuedRuns} queued` : 'Stop the run')
+                        : 'Run every node whose inputs changed'}
+                >
+                    {running ? <Square size={14} /> : <Play size={14} />}
+                    {running ? 'Stop' : 'Run all'}
+                    {running && queuedRuns > 0 && (
+                        <span className="px-1 rounded bg-red-100 text-red-700 text-[10px]">+{queuedRuns} queued</span>
+                    )}
+                    {!running && dirtyCount > 0 && (
+                        <span className="px-1 rounded bg-amber-100 text-amber-700 text-[10px]">{dirtyCount}</span>
+                    )}
+                </button>
+
+                <button
+                    onClick={() => setShowScenarios(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+                    title="Scenario manager"
+                >
+                    <Layers size={14} />
+                    Scenarios
+                </button>
+
+                <button
+                    onClick={() => setShowMonteCarlo(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+                    title="Monte Carlo uncertainty analysis"
+                >
+                    <Dices size={14} />
+                    Monte Carlo
+                </button>
+
                 <button
                     onClick={handleImport}
                     className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
@@ -100,6 +182,9 @@ export const Toolbar: React.FC = () => {
                     className="hidden"
                 />
             </div>
+
+            <MonteCarloDialog isOpen={showMonteCarlo} onClose={() => setShowMonteCarlo(false)} />
+            <ScenarioDialog isOpen={showScenarios} onClose={() => setShowScenarios(false)} />
         </div>
     );
 };
@@ -1,6 +1,7 @@
 import React, { useRef, useCallback, useState, useEffect } from 'react';
 import { Plus, FolderOpen, Clock, FileText, AlertCircle } from 'lucide-react';
 import { useProjectStore } from '../store/useProjectStore';
+import { useScenarioStore } from '../store/useScenarioStore';
 import { importProjectFile } from '../lib/projectSerializer';
 import type { RecentProject } from '../store/useProjectStore';
 
@@ -21,6 +22,7 @@ export const WelcomeOverlay: React.FC = () => {
 
     const handleNewProject = useCallback(() => {
         resetProject();
+        useScenarioStore.getState().resetScenarios();
         setShowWelcome(false);
     }, [resetProject, setShowWelcome]);
 
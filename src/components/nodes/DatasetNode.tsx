@@ -1,14 +1,22 @@
 import React, { memo, useState } from 'react';
 import { Handle, Position, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
-import { Database, FileSpreadsheet, Eye, Settings, Minimize2, Maximize2, Edit3 } from 'lucide-react';
-import type { DatasetNodeData } from '../../types';
+import { Database, FileSpreadsheet, Eye, Settings, Minimize2, Maximize2, Edit3, SlidersHorizontal } from 'lucide-react';
+import type { DatasetNodeData, ColumnType, DatasetImportOptions } from '../../types';
 import { useBatchVisualStore } from '../../store/useBatchVisualStore';
 import { useBatchDataStore } from '../../store/useBatchDataStore';
 import { useAppStore } from '../../store/useAppStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import { DatasetImportDialog } from '../DatasetImportDialog';
+
+const TYPE_BADGES: Record<ColumnType, { label: string; className: string }> = {
+    number: { label: 'NUM', className: 'bg-blue-100 text-blue-500' },
+    string: { label: 'TXT', className: 'bg-slate-100 text-slate-400' },
+    date: { label: 'DATE', className: 'bg-emerald-100 text-emerald-600' },
+    boolean: { label: 'BOOL', className: 'bg-purple-100 text-purple-500' },
+};
 
 const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected }) => {
     const openModal = useBatchVisualStore((state) => state.openModal);
@@ -16,11 +24,15 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
     const isMinimized = !!data.isMinimized;
     const [showUnitConfig, setShowUnitConfig] = useState(false);
     const [noteOpen, setNoteOpen] = useState(false);
+    // Last chosen file, kept so the import options can be changed and the file read again
+    const [importFile, setImportFile] = useState<File | null>(null);
+    const [importOpen, setImportOpen] = useState(false);
     const updateNodeData = useAppStore((state) => state.updateNodeData);
 
     const ingestFile = useBatchDataStore((state) => state.ingestFile);
     const nodeData = useBatchDataStore((state) => state.getNodeData(id));
     const setColumnUnit = useBatchDataStore((state) => state.setColumnUnit);
+    const setColumnType = useBatchDataStore((state) => state.setColumnType);
 
     const status = nodeData?.status;
     const getStatusColor = () => {
@@ -31,11 +43,23 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
         return 'bg-yellow-500';
     };
 
-    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        // Allow picking the same file again
+        e.target.value = '';
+        if (file) {
+            setImportFile(file);
+            setImportOpen(true);
+        }
+    };
+
+    const handleImport = async (options: DatasetImportOptions) => {
+        const file = importFile;
+        setImportOpen(false);
         if (file) {
+            updateNodeData(id, { importOptions: options });
             try {
-                await ingestFile(id, file);
+                await ingestFile(id, file, data.columnTypes, options);
                 const storedData = useBatchDataStore.getState().getNodeData(id);
                 setNodes((nodes) => nodes.map((n) => {
                     if (n.id === id) {
@@ -62,6 +86,12 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
         setColumnUnit(id, columnId, unit);
     };
 
+    // Remembered on the node so a re-upload keeps the user's choice
+    const handleTypeChange = (columnId: string, type: ColumnType) => {
+        updateNodeData(id, { columnTypes: { ...data.columnTypes, [columnId]: type } });
+        setColumnType(id, columnId, type);
+    };
+
     return (
         <div className={`bg-white rounded-lg shadow-md overflow-hidden border-2 transition-all duration-200 ${selected ? 'border-orange-500' : 'border-slate-200'} w-[300px]`}>
             {/* Header - Editable Title */}
@@ -127,7 +157,16 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
                                     >
                                         <Edit3 size={14} />
                                     </button>
-                                    <label className="p-1 text-slate-400 hover:text-slate-600 cursor-pointer">
+                                    {importFile && (
+                                        <button
+                                            onClick={() => setImportOpen(true)}
+                                            className="p-1 rounded text-slate-400 hover:text-slate-600 transition-colors"
+                                            title="Import Options"
+                                        >
+                                            <SlidersHorizontal size={14} />
+                                        </button>
+                                    )}
+                                    <label className="p-1 text-slate-400 hover:text-slate-600 cursor-pointer" title="Replace File">
                                         <Settings size={14} />
                                         <input type="file" className="hidden" accept=".csv, .xlsx" onChange={handleFileChange} />
                                     </label>
@@ -138,15 +177,22 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
                             {showUnitConfig && nodeData?.schema && nodeData.schema.length > 0 && (
                                 <div className="p-2 bg-orange-50 rounded border border-orange-100 space-y-1.5 max-h-48 overflow-y-auto" onWheel={(e) => e.stopPropagation()}>
                                     <p className="text-[10px] font-bold text-orange-600 uppercase flex justify-between items-center">
-                                        <span>Column Units</span>
+                                        <span>Column Types & Units</span>
                                         <span className="text-[9px] font-normal text-orange-400 italic">optional</span>
                                     </p>
                                     <p className="text-[9px] text-slate-400 italic mb-1">Use dot for compounds: kg.CO2, ton.CH4</p>
                                     {nodeData.schema.map(col => (
                                         <div key={col.id} className="flex items-center gap-2">
-                                            <span className={`text-[9px] px-1 py-0.5 rounded font-bold ${col.type === 'number' ? 'bg-blue-100 text-blue-500' : 'bg-slate-100 text-slate-400'}`}>
-                                                {col.type === 'number' ? 'NUM' : 'TXT'}
-                                            </span>
+                                            <select
+                                                value={col.type}
+                                                onChange={(e) => handleTypeChange(col.id, e.target.value as ColumnType)}
+                                                className={`text-[9px] px-0.5 py-0.5 rounded font-bold border-none focus:outline-none cursor-pointer ${TYPE_BADGES[col.type].className}`}
+                                                title="Column type"
+                                            >
+                                                {(Object.keys(TYPE_BADGES) as ColumnType[]).map(type => (
+                                                    <option key={type} value={type}>{TYPE_BADGES[type].label}</option>
+                                                ))}
+                                            </select>
                                             <span className="text-xs text-slate-600 truncate flex-1" title={col.name}>
                                                 {col.name.length > 12 ? col.name.slice(0, 12) + '…' : col.name}
                                             </span>
@@ -180,6 +226,16 @@ const DatasetNode: React.FC<NodeProps<DatasetNodeData>> = ({ id, data, selected
                 </div>
             )}
 
+            {importOpen && importFile && (
+                <DatasetImportDialog
+                    file={importFile}
+                    initialOptions={data.importOptions}
+                    columnTypes={data.columnTypes}
+                    onClose={() => setImportOpen(false)}
+                    onImport={handleImport}
+                />
+            )}
+
             {/* Output Handle */}
             <Handle
                 type="source"
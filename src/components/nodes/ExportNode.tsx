@@ -12,6 +12,8 @@ import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
 import { generateAIReportPayload } from '../../utils/aiExport';
+import { appendScalarsSheet } from '../../lib/scalarsSheet';
+import { materializeRows } from '../../lib/columnarTable';
 
 const ExportNode: React.FC<NodeProps<ExportNodeData>> = ({ id, data, selected }) => {
     const openModal = useBatchVisualStore((state) => state.openModal);
@@ -46,10 +48,15 @@ const ExportNode: React.FC<NodeProps<ExportNodeData>> = ({ id, data, selected })
         }
 
         try {
-            const ws = utils.json_to_sheet(sourceNodeData.rawData);
+            const ws = utils.json_to_sheet(materializeRows(sourceNodeData));
             const wb = utils.book_new();
             utils.book_append_sheet(wb, ws, 'Data');
 
+            // Upstream scalar values with their uncertainty (second sheet, xlsx only)
+            if (data.exportFormat !== 'csv') {
+                appendScalarsSheet(wb, id, useAppStore.getState().nodes, edges);
+            }
+
             const fileName = `${data.label || 'export'}_${new Date().toISOString().slice(0, 10)}`;
 
             if (data.exportFormat === 'csv') {
@@ -9,6 +9,7 @@ import type { EmissionFactor } from '../../data/emissionFactorDb';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import { UncertaintyInput } from './UncertaintyInput';
 import { formatDisplayNumber } from '../../utils/formatNumber';
 
 // Format number
@@ -98,6 +99,10 @@ const FactorNode: React.FC<NodeProps<FactorNodeData>> = ({ id, data, selected })
             dbLabel: `${factor.fuel} - ${factor.pollutant}`,
             value: factor.value,
             unit: factor.unit,
+            // The database states the 95% CI as absolute bounds
+            uncertainty: factor.ciLower !== null && factor.ciUpper !== null
+                ? { type: 'absolute', lower: factor.ciLower, upper: factor.ciUpper }
+                : undefined,
             label: `${factor.fuel} (${factor.pollutant})`,
         });
         setInputValue(String(factor.value));
@@ -235,6 +240,16 @@ const FactorNode: React.FC<NodeProps<FactorNodeData>> = ({ id, data, selected })
                             />
                         </div>
 
+                        {/* Uncertainty Input */}
+                        <UncertaintyInput
+                            value={data.uncertainty}
+                            nodeValue={data.value}
+                            onChange={(uncertainty) => updateNodeData(id, { uncertainty })}
+                            distribution={data.distribution}
+                            onDistributionChange={(distribution) => updateNodeData(id, { distribution })}
+                            readOnly={isDbMode}
+                        />
+
                         {/* Output value display */}
                         <div className="flex items-center justify-between pt-2 border-t border-slate-200">
                             {outputValue && (
@@ -1,15 +1,228 @@
 import React, { memo, useState } from 'react';
 import { Handle, Position, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
-import { Filter, Minimize2, Maximize2, Eye } from 'lucide-react';
-import type { FilterNodeData } from '../../types';
+import { Filter, Minimize2, Maximize2, Eye, Plus, X } from 'lucide-react';
+import type { FilterNodeData, FilterCondition, FilterGroup, FilterOperator } from '../../types';
 import { useBatchVisualStore } from '../../store/useBatchVisualStore';
 import { useAppStore } from '../../store/useAppStore';
 import { useBatchDataStore } from '../../store/useBatchDataStore';
-import { useCascadeRun } from '../../hooks/useCascadeRun';
+import type { ColumnMetadata } from '../../store/useBatchDataStore';
+import { filterDraftOf, filterTreeOf, describeFilter } from '../../lib/batchOperations';
+import { useRunStore } from '../../store/useRunStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import RunProgress from './RunProgress';
+
+const generateId = () => `flt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const OPERATORS: { value: FilterOperator; label: string }[] = [
+    { value: '>', label: '>' },
+    { value: '<', label: '<' },
+    { value: '>=', label: '≥' },
+    { value: '<=', label: '≤' },
+    { value: '==', label: '=' },
+    { value: '!=', label: '≠' },
+    { value: 'contains', label: 'Has' },
+    { value: 'startsWith', label: 'Starts' },
+    { value: 'in', label: 'In' },
+    { value: 'notIn', label: 'Not in' },
+    { value: 'between', label: 'Between' },
+    { value: 'dateBetween', label: 'Dates' },
+    { value: 'isEmpty', label: 'Empty' },
+    { value: 'isNotEmpty', label: 'Not empty' },
+    { value: 'regex', label: 'Regex' },
+];
+
+// Operators that may compare against another column
+const COMPARISON_OPERATORS: FilterOperator[] = ['>', '<', '>=', '<=', '==', '!=', 'contains'];
+
+const inputClass = "w-full min-w-0 text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-yellow-500";
+const selectClass = "w-full min-w-0 text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-yellow-500 bg-slate-50";
+
+interface ConditionEditorProps {
+    condition: FilterCondition;
+    columns: ColumnMetadata[];
+    onChange: (condition: FilterCondition) => void;
+    onRemove: () => void;
+}
+
+const ConditionEditor: React.FC<ConditionEditorProps> = ({ condition, columns, onChange, onRemove }) => {
+    const { operator } = condition;
+    const update = (updates: Partial<FilterCondition>) => onChange({ ...condition, ...updates });
+    const isRange = operator === 'between' || operator === 'dateBetween';
+    const canUseColumn = COMPARISON_OPERATORS.includes(operator);
+    const columnMode = canUseColumn && condition.mode === 'column';
+
+    const placeholder = operator === 'in' || operator === 'notIn' ? 'A, B, C'
+        : operator === 'regex' ? '^Coal'
+        : 'Value';
+
+    return (
+        <div className="p-1.5 border border-slate-200 rounded space-y-1 bg-white">
+            <div className="flex gap-1 items-center">
+                <select
+                    className={selectClass}
+                    value={condition.column || ''}
+                    onChange={(e) => update({ column: e.target.value || undefined })}
+                >
+                    <option value="">Column...</option>
+                    {columns.map((col) => (
+                        <option key={col.id} value={col.id}>{col.name}</option>
+                    ))}
+                </select>
+                <select
+                    className={`${selectClass} !w-24 shrink-0`}
+                    value={operator}
+                    onChange={(e) => {
+                        const next = e.target.value as FilterOperator;
+                        update({ operator: next, mode: COMPARISON_OPERATORS.includes(next) ? condition.mode : 'value' });
+                    }}
+                >
+                    {OPERATORS.map((op) => (
+                        <option key={op.value} value={op.value}>{op.label}</option>
+                    ))}
+                </select>
+                <button onClick={onRemove} className="text-slate-400 hover:text-red-500 transition-colors shrink-0" title="Remove">
+                    <X size={12} />
+                </button>
+            </div>
+
+            {isRange && (
+                <div className="flex gap-1 items-center">
+                    <input
+                        type={operator === 'dateBetween' ? 'date' : 'text'}
+                        className={inputClass}
+                        placeholder="From"
+                        value={condition.value ?? ''}
+                        onChange={(e) => update({ value: e.target.value })}
+                    />
+                    <span className="text-[10px] text-slate-400">–</span>
+                    <input
+                        type={operator === 'dateBetween' ? 'date' : 'text'}
+                        className={inputClass}
+                        placeholder="To"
+                        value={condition.valueTo ?? ''}
+                        onChange={(e) => update({ valueTo: e.target.value })}
+                    />
+                </div>
+            )}
+
+            {!isRange && operator !== 'isEmpty' && operator !== 'isNotEmpty' && (
+                <div className="flex gap-1 items-center">
+                    {columnMode ? (
+                        <select
+                            className="w-full min-w-0 text-xs border border-blue-200 rounded p-1 focus:outline-none focus:border-blue-500 bg-blue-50"
+                            value={condition.value ?? ''}
+                            onChange={(e) => update({ value: e.target.value })}
+                        >
+                            <option value="">Target Col...</option>
+                            {columns.map((col) => (
+                                <option key={col.id} value={col.id}>{col.name}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <input
+                            type="text"
+                            className={inputClass}
+                            placeholder={placeholder}
+                            value={condition.value ?? ''}
+                            onChange={(e) => update({ value: e.target.value })}
+                        />
+                    )}
+                    {canUseColumn && (
+                        <button
+                            className="text-[9px] text-blue-500 hover:text-blue-700 underline shrink-0"
+                            onClick={() => update({ mode: columnMode ? 'value' : 'column', value: '' })}
+                        >
+                            {columnMode ? 'Col Ref' : 'Static'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface GroupEditorProps {
+    group: FilterGroup;
+    columns: ColumnMetadata[];
+    onChange: (group: FilterGroup) => void;
+    onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, columns, onChange, onRemove }) => {
+    const setChild = (index: number, child: FilterGroup['children'][number]) =>
+        onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+    const removeChild = (index: number) =>
+        onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+    const addCondition = () => onChange({
+        ...group,
+        children: [...group.children, { kind: 'condition', id: generateId(), column: columns[0]?.id, operator: '==' }],
+    });
+    const addGroup = () => onChange({
+        ...group,
+        children: [...group.children, { kind: 'group', id: generateId(), combinator: group.combinator === 'and' ? 'or' : 'and', children: [] }],
+    });
+
+    return (
+        <div className={`space-y-1 ${onRemove ? 'p-1.5 border border-dashed border-yellow-300 rounded bg-yellow-50/50' : ''}`}>
+            <div className="flex items-center gap-1">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">Match</label>
+                <select
+                    className="text-[10px] border border-slate-200 rounded px-1 py-0.5 focus:outline-none focus:border-yellow-500 bg-slate-50"
+                    value={group.combinator}
+                    onChange={(e) => onChange({ ...group, combinator: e.target.value as FilterGroup['combinator'] })}
+                >
+                    <option value="and">all (AND)</option>
+                    <option value="or">any (OR)</option>
+                </select>
+                {onRemove && (
+                    <button onClick={onRemove} className="ml-auto text-slate-400 hover:text-red-500 transition-colors" title="Remove group">
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+
+            {group.children.map((child, index) => (
+                child.kind === 'group' ? (
+                    <GroupEditor
+                        key={child.id}
+                        group={child}
+                        columns={columns}
+                        onChange={(next) => setChild(index, next)}
+                        onRemove={() => removeChild(index)}
+                    />
+                ) : (
+                    <ConditionEditor
+                        key={child.id}
+                        condition={child}
+                        columns={columns}
+                        onChange={(next) => setChild(index, next)}
+                        onRemove={() => removeChild(index)}
+                    />
+                )
+            ))}
+
+            <div className="flex gap-1">
+                <button
+                    onClick={addCondition}
+                    className="flex-1 flex items-center justify-center gap-1 py-0.5 text-[10px] text-yellow-700 border border-dashed border-yellow-300 rounded hover:bg-yellow-50 transition-colors"
+                >
+                    <Plus size={10} />
+                    Condition
+                </button>
+                <button
+                    onClick={addGroup}
+                    className="flex-1 flex items-center justify-center gap-1 py-0.5 text-[10px] text-yellow-700 border border-dashed border-yellow-300 rounded hover:bg-yellow-50 transition-colors"
+                >
+                    <Plus size={10} />
+                    Group
+                </button>
+            </div>
+        </div>
+    );
+};
 
 const FilterNode: React.FC<NodeProps<FilterNodeData>> = ({ id, data, selected }) => {
     const openModal = useBatchVisualStore((state) => state.openModal);
@@ -17,18 +230,18 @@ const FilterNode: React.FC<NodeProps<FilterNodeData>> = ({ id, data, selected })
     const isMinimized = !!data.isMinimized;
     const [noteOpen, setNoteOpen] = useState(false);
 
-    useCascadeRun(id);
-
-    const runFilter = useBatchDataStore((state: any) => state.runFilter);
-    const nodeStoreData = useBatchDataStore((state: any) => state.getNodeData(id));
+    const runFrom = useRunStore((state) => state.runFrom);
+    const nodeStoreData = useBatchDataStore((state) => state.getNodeData(id));
 
     const edges = useReactFlow().getEdges();
     const targetEdge = edges.find(e => e.target === id);
     const sourceNodeId = targetEdge?.source;
-    const sourceNodeData = useBatchDataStore((state: any) => sourceNodeId ? state.getNodeData(sourceNodeId) : undefined);
+    const sourceNodeData = useBatchDataStore((state) => sourceNodeId ? state.getNodeData(sourceNodeId) : undefined);
 
-    const availableColumns: any[] = sourceNodeData?.schema || [];
+    const availableColumns: ColumnMetadata[] = sourceNodeData?.schema || [];
     const isConnected = !!sourceNodeId && !!sourceNodeData;
+    const draft = filterDraftOf(data);
+    const filter = filterTreeOf(data);
 
     const status = nodeStoreData?.status;
     const getStatusColor = () => {
@@ -39,25 +252,25 @@ const FilterNode: React.FC<NodeProps<FilterNodeData>> = ({ id, data, selected })
         return 'bg-yellow-500';
     };
 
+    // Saving the tree retires the single-condition fields of older nodes
+    const saveFilter = (next: FilterGroup) => updateNodeData(id, {
+        filter: next,
+        column: undefined,
+        operator: undefined,
+        value: undefined,
+        mode: undefined,
+    });
+
     const handleRun = () => {
         if (!sourceNodeId) {
             alert("Please connect a dataset first!");
             return;
         }
-
-        if (data.column && data.operator && data.value !== undefined) {
-            const criteria = {
-                column: data.column,
-                operator: data.operator,
-                value: data.value,
-                mode: (data as any).mode || 'value'
-            };
-            runFilter(id, sourceNodeId, criteria);
-        }
+        if (filter) runFrom(id);
     };
 
     return (
-        <div className={`bg-white rounded-lg shadow-md overflow-hidden border-2 transition-all duration-200 ${selected ? 'border-yellow-500' : 'border-slate-200'} w-[300px]`}>
+        <div className={`bg-white rounded-lg shadow-md overflow-hidden border-2 transition-all duration-200 ${selected ? 'border-yellow-500' : 'border-slate-200'} w-[340px]`}>
             {/* Header - Editable Title */}
             <div className="bg-yellow-500 px-3 py-2 flex items-center justify-between">
                 <div className="flex items-center gap-2 text-white flex-1">
@@ -93,81 +306,32 @@ const FilterNode: React.FC<NodeProps<FilterNodeData>> = ({ id, data, selected })
             {/* Body - Hidden when minimized */}
             {!isMinimized && (
                 <div className="p-3 space-y-3">
-                    {/* Column Select */}
-                    <div>
-                        <label className="text-[10px] font-bold text-slate-400 uppercase">Column</label>
-                        <select
-                            className="w-full text-xs border border-slate-200 rounded p-1.5 focus:outline-none focus:border-yellow-500 bg-slate-50"
-                            value={data.column || ''}
-                            onChange={(e) => updateNodeData(id, { column: e.target.value })}
-                        >
-                            <option value="">Select column...</option>
-                            {availableColumns.map((col: any) => (
-                                <option key={col.id} value={col.id}>{col.name}</option>
-                            ))}
-                        </select>
-                    </div>
+                    {/* Condition Tree */}
+                    <GroupEditor group={draft} columns={availableColumns} onChange={saveFilter} />
 
-                    {/* Operator & Mode */}
-                    <div className="flex gap-2">
-                        <div className="w-1/3">
-                            <label className="text-[10px] font-bold text-slate-400 uppercase">Op</label>
-                            <select
-                                className="w-full text-xs border border-slate-200 rounded p-1.5 focus:outline-none focus:border-yellow-500 bg-slate-50"
-                                value={data.operator || ''}
-                                onChange={(e) => updateNodeData(id, { operator: e.target.value as any })}
-                            >
-                                <option value=">">&gt;</option>
-                                <option value="<">&lt;</option>
-                                <option value=">=">&ge;</option>
-                                <option value="<=">&le;</option>
-                                <option value="==">==</option>
-                                <option value="!=">!=</option>
-                                <option value="contains">Has</option>
-                            </select>
+                    {/* Readable Summary */}
+                    {filter && (
+                        <div className="text-[10px] text-slate-500 font-mono bg-slate-50 border border-slate-100 rounded p-1.5 break-words">
+                            {describeFilter(filter)}
                         </div>
-
-                        <div className="flex-1">
-                            <div className="flex justify-between items-center mb-0.5">
-                                <label className="text-[10px] font-bold text-slate-400 uppercase">Value</label>
-                                <button
-                                    className="text-[9px] text-blue-500 hover:text-blue-700 underline"
-                                    onClick={() => updateNodeData(id, { mode: (data as any).mode === 'column' ? 'value' : 'column' } as any)}
-                                >
-                                    {(data as any).mode === 'column' ? 'Col Ref' : 'Static'}
-                                </button>
-                            </div>
-
-                            {(data as any).mode === 'column' ? (
-                                <select
-                                    className="w-full text-xs border border-blue-200 rounded p-1.5 focus:outline-none focus:border-blue-500 bg-blue-50"
-                                    value={data.value || ''}
-                                    onChange={(e) => updateNodeData(id, { value: e.target.value })}
-                                >
-                                    <option value="">Target Col...</option>
-                                    {availableColumns.map((col: any) => (
-                                        <option key={col.id} value={col.id}>{col.name}</option>
-                                    ))}
-                                </select>
-                            ) : (
-                                <input
-                                    type="text"
-                                    className="w-full text-xs border border-slate-200 rounded p-1.5 focus:outline-none focus:border-yellow-500"
-                                    placeholder="Value"
-                                    value={data.value || ''}
-                                    onChange={(e) => updateNodeData(id, { value: e.target.value })}
-                                />
-                            )}
-                        </div>
-                    </div>
+                    )}
 
                     {/* Run Button */}
                     <button
                         onClick={handleRun}
-                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200 transition-colors font-medium text-xs"
+                        disabled={!filter}
+                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-xs"
                     >
                         Apply Filter
                     </button>
+                    <RunProgress nodeId={id} barClassName="bg-yellow-500" />
+
+                    {/* Error */}
+                    {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                        <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                            <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                        </div>
+                    )}
 
                     {/* Status Stats */}
                     <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
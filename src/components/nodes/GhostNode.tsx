@@ -7,7 +7,7 @@ import { useAppStore } from '../../store/useAppStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
-import { formatDisplayNumber } from '../../utils/formatNumber';
+import { formatResultNumber } from '../../utils/formatNumber';
 
 const GhostNode: React.FC<NodeProps<GhostNodeData>> = ({ id, data, selected }) => {
     const updateNodeData = useAppStore((state) => state.updateNodeData);
@@ -94,7 +94,7 @@ const GhostNode: React.FC<NodeProps<GhostNodeData>> = ({ id, data, selected }) =
             {isMinimized && mirrored && mirrored.value !== null && (
                 <div className="px-3 py-1.5 text-center">
                     <span className="text-xs font-mono text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">
-                        {formatDisplayNumber(mirrored.value)}
+                        {formatResultNumber(mirrored.value, sourceNode?.data.numberFormat)}
                     </span>
                 </div>
             )}
@@ -171,8 +171,9 @@ const GhostNode: React.FC<NodeProps<GhostNodeData>> = ({ id, data, selected }) =
                                     <div className="text-[10px] text-slate-400 font-medium uppercase">Mirrored Value</div>
                                     <div className="text-sm font-mono text-slate-700">
                                         {typeof mirrored.value === 'number'
-                                            ? mirrored.value.toLocaleString('en-US', { maximumFractionDigits: 6 })
+                                            ? formatResultNumber(mirrored.value, sourceNode?.data.numberFormat)
                                             : String(mirrored.value)}
+                                        {mirrored.unit && <span className="text-slate-500 text-xs ml-1">{mirrored.unit}</span>}
                                     </div>
                                 </div>
                             )}
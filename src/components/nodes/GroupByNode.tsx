@@ -0,0 +1,259 @@
+import React, { memo, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import type { NodeProps } from 'reactflow';
+import { Group, Minimize2, Maximize2, Eye, Plus, X, CheckSquare, Square } from 'lucide-react';
+import type { GroupByNodeData } from '../../types';
+import { useBatchVisualStore } from '../../store/useBatchVisualStore';
+import { useAppStore } from '../../store/useAppStore';
+import { useBatchDataStore } from '../../store/useBatchDataStore';
+import type { ColumnMetadata } from '../../store/useBatchDataStore';
+import type { GroupByAggregation } from '../../lib/batchOperations';
+import { groupByOutputName } from '../../lib/batchOperations';
+import { useRunStore } from '../../store/useRunStore';
+import NoteIndicator from './NoteIndicator';
+import NoteEditor from './NoteEditor';
+import { NodeTitleInput } from './NodeTitleInput';
+
+const AGGREGATE_FUNCTIONS: { value: GroupByAggregation['func']; label: string }[] = [
+    { value: 'SUM', label: 'Sum' },
+    { value: 'AVG', label: 'Average' },
+    { value: 'MIN', label: 'Min' },
+    { value: 'MAX', label: 'Max' },
+    { value: 'COUNT', label: 'Count' },
+    { value: 'MEDIAN', label: 'Median' },
+    { value: 'WAVG', label: 'Weighted avg' },
+];
+
+const GroupByNode: React.FC<NodeProps<GroupByNodeData>> = ({ id, data, selected }) => {
+    const openModal = useBatchVisualStore((state) => state.openModal);
+    const updateNodeData = useAppStore((state) => state.updateNodeData);
+    const isMinimized = !!data.isMinimized;
+    const [noteOpen, setNoteOpen] = useState(false);
+
+    const runFrom = useRunStore((state) => state.runFrom);
+    const nodeStoreData = useBatchDataStore((state) => state.getNodeData(id));
+
+    const edges = useReactFlow().getEdges();
+    const targetEdge = edges.find(e => e.target === id);
+    const sourceNodeId = targetEdge?.source;
+    const sourceNodeData = useBatchDataStore((state) => sourceNodeId ? state.getNodeData(sourceNodeId) : undefined);
+
+    const availableColumns: ColumnMetadata[] = sourceNodeData?.schema || [];
+    const numericColumns = availableColumns.filter(col => col.type === 'number');
+    const isConnected = !!sourceNodeId && !!sourceNodeData;
+    const groupColumns = data.groupColumns || [];
+    const aggregations = data.aggregations || [];
+
+    const status = nodeStoreData?.status;
+    const getStatusColor = () => {
+        if (!isConnected) return 'bg-slate-400';
+        if (status === 'SUCCESS') return 'bg-green-500';
+        if (status === 'ERROR') return 'bg-red-500';
+        if (status === 'CALCULATING') return 'bg-blue-500 animate-pulse';
+        return 'bg-yellow-500';
+    };
+
+    const toggleGroupColumn = (columnId: string) => {
+        updateNodeData(id, {
+            groupColumns: groupColumns.includes(columnId)
+                ? groupColumns.filter(c => c !== columnId)
+                : [...groupColumns, columnId],
+        });
+    };
+
+    const updateAggregation = (index: number, updates: Partial<GroupByAggregation>) => {
+        updateNodeData(id, {
+            aggregations: aggregations.map((a, i) => (i === index ? { ...a, ...updates } : a)),
+        });
+    };
+
+    const addAggregation = () => {
+        const column = numericColumns[0]?.id || availableColumns[0]?.id || '';
+        updateNodeData(id, { aggregations: [...aggregations, { func: 'SUM', column }] });
+    };
+
+    const handleRun = () => {
+        if (!sourceNodeId) {
+            alert("Please connect a dataset first!");
+            return;
+        }
+        if (aggregations.length === 0) return;
+        runFrom(id);
+    };
+
+    const selectClass = "w-full text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-teal-500 bg-slate-50";
+
+    return (
+        <div className={`bg-white rounded-lg shadow-md overflow-hidden border-2 transition-all duration-200 ${selected ? 'border-teal-600' : 'border-slate-200'} w-[320px]`}>
+            {/* Header - Editable Title */}
+            <div className="bg-teal-600 px-3 py-2 flex items-center justify-between">
+                <div className="flex items-center gap-2 text-white flex-1">
+                    <Group size={18} />
+                    <NodeTitleInput
+                        value={data.label}
+                        onChange={(val) => updateNodeData(id, { label: val })}
+                        className="text-white font-bold text-base text-left placeholder-teal-200 w-full"
+                        placeholder="Group By"
+                    />
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <div className={`w-2 h-2 rounded-full ${getStatusColor()} shadow-[0_0_8px_rgba(255,255,255,0.5)]`} />
+                    <NoteIndicator note={data.note} onClick={() => setNoteOpen(!noteOpen)} />
+                    <button onClick={() => updateNodeData(id, { isMinimized: !isMinimized })} className="text-white/80 hover:text-white transition-colors" title={isMinimized ? "Expand" : "Minimize"}>
+                        {isMinimized ? <Maximize2 size={14} /> : <Minimize2 size={14} />}
+                    </button>
+                    <button onClick={() => openModal(id)} className="text-white/80 hover:text-white transition-colors" title="View Data">
+                        <Eye size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Input Handle */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id={data.inputs[0]?.id}
+                className="!w-3 !h-3 !bg-teal-600 !border-2 !border-white hover:!bg-teal-700"
+                style={{ left: -6 }}
+            />
+
+            {/* Body - Hidden when minimized */}
+            {!isMinimized && (
+                <div className="p-3 space-y-3">
+                    {/* Group Columns */}
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Group by</label>
+                        {availableColumns.length === 0 ? (
+                            <div className="text-[10px] text-slate-400 italic">Connect a dataset to pick columns</div>
+                        ) : (
+                            <div className="max-h-28 overflow-y-auto border border-slate-200 rounded p-1 bg-slate-50 space-y-0.5">
+                                {availableColumns.map((col) => (
+                                    <button
+                                        key={col.id}
+                                        onClick={() => toggleGroupColumn(col.id)}
+                                        className="w-full flex items-center gap-1.5 px-1 py-0.5 text-xs text-left text-slate-600 hover:bg-teal-50 rounded"
+                                    >
+                                        {groupColumns.includes(col.id)
+                                            ? <CheckSquare size={12} className="text-teal-600" />
+                                            : <Square size={12} className="text-slate-400" />}
+                                        {col.name}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {groupColumns.length === 0 && availableColumns.length > 0 && (
+                            <div className="text-[10px] text-slate-400 mt-0.5">No columns: one row for the whole table</div>
+                        )}
+                    </div>
+
+                    {/* Aggregations */}
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Aggregations</label>
+                        {aggregations.map((aggregation, index) => (
+                            <div key={index} className="p-1.5 border border-slate-200 rounded space-y-1">
+                                <div className="flex gap-1 items-center">
+                                    <select
+                                        className={`${selectClass} w-1/3`}
+                                        value={aggregation.func}
+                                        onChange={(e) => updateAggregation(index, { func: e.target.value as GroupByAggregation['func'] })}
+                                    >
+                                        {AGGREGATE_FUNCTIONS.map((f) => (
+                                            <option key={f.value} value={f.value}>{f.label}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        className={selectClass}
+                                        value={aggregation.column}
+                                        onChange={(e) => updateAggregation(index, { column: e.target.value })}
+                                    >
+                                        <option value="">Column...</option>
+                                        {(aggregation.func === 'COUNT' ? availableColumns : numericColumns).map((col) => (
+                                            <option key={col.id} value={col.id}>{col.name}{col.unit ? ` (${col.unit})` : ''}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => updateNodeData(id, { aggregations: aggregations.filter((_, i) => i !== index) })}
+                                        className="text-slate-400 hover:text-red-500 transition-colors"
+                                        title="Remove"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                                {aggregation.func === 'WAVG' && (
+                                    <select
+                                        className={selectClass}
+                                        value={aggregation.weightColumn || ''}
+                                        onChange={(e) => updateAggregation(index, { weightColumn: e.target.value || undefined })}
+                                    >
+                                        <option value="">Weight column...</option>
+                                        {numericColumns.map((col) => (
+                                            <option key={col.id} value={col.id}>{col.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <input
+                                    type="text"
+                                    className="w-full text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-teal-500"
+                                    placeholder={groupByOutputName({ ...aggregation, outputName: undefined })}
+                                    value={aggregation.outputName || ''}
+                                    onChange={(e) => updateAggregation(index, { outputName: e.target.value || undefined })}
+                                />
+                            </div>
+                        ))}
+                        <button
+                            onClick={addAggregation}
+                            className="w-full flex items-center justify-center gap-1 py-1 text-xs text-teal-700 border border-dashed border-teal-300 rounded hover:bg-teal-50 transition-colors"
+                        >
+                            <Plus size={12} />
+                            Add aggregation
+                        </button>
+                    </div>
+
+                    {/* Run Button */}
+                    <button
+                        onClick={handleRun}
+                        disabled={aggregations.length === 0}
+                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-teal-100 text-teal-800 rounded hover:bg-teal-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-xs"
+                    >
+                        Group Rows
+                    </button>
+
+                    {/* Error */}
+                    {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                        <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                            <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                        </div>
+                    )}
+
+                    {/* Status Stats */}
+                    <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
+                        <span>Rows: {sourceNodeData?.rowCount ?? '-'}</span>
+                        <span>Groups: {nodeStoreData?.rowCount ?? '-'}</span>
+                    </div>
+
+                    {/* Note Editor */}
+                    {noteOpen && (
+                        <NoteEditor
+                            note={data.note}
+                            onChange={(note) => updateNodeData(id, { note })}
+                            isOpen={noteOpen}
+                            onToggle={() => setNoteOpen(false)}
+                            accentColor="teal"
+                        />
+                    )}
+                </div>
+            )}
+
+            {/* Output Handle */}
+            <Handle
+                type="source"
+                position={Position.Right}
+                id={data.outputs[0]?.id}
+                className="!w-3 !h-3 !bg-teal-600 !border-2 !border-white hover:!bg-teal-700"
+                style={{ right: -6 }}
+            />
+        </div>
+    );
+};
+
+export default memo(GroupByNode);
@@ -0,0 +1,304 @@
+import React, { memo, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import type { NodeProps } from 'reactflow';
+import { Merge, Minimize2, Maximize2, Eye, Plus, X, CheckSquare, Square } from 'lucide-react';
+import type { JoinNodeData, HandleData } from '../../types';
+import { useBatchVisualStore } from '../../store/useBatchVisualStore';
+import { useAppStore } from '../../store/useAppStore';
+import { useBatchDataStore } from '../../store/useBatchDataStore';
+import type { ColumnMetadata } from '../../store/useBatchDataStore';
+import { joinConfigOf } from '../../lib/batchOperations';
+import { useRunStore } from '../../store/useRunStore';
+import NoteIndicator from './NoteIndicator';
+import NoteEditor from './NoteEditor';
+import { NodeTitleInput } from './NodeTitleInput';
+
+const JOIN_TYPES: { value: NonNullable<JoinNodeData['joinType']>; label: string }[] = [
+    { value: 'inner', label: 'Inner (matches only)' },
+    { value: 'left', label: 'Left (all left rows)' },
+    { value: 'right', label: 'Right (all right rows)' },
+    { value: 'full', label: 'Full (all rows)' },
+];
+
+// Unmatched keys shown before "+N more"
+const REPORT_LIMIT = 5;
+
+const UnmatchedList: React.FC<{ title: string; keys: string[] }> = ({ title, keys }) => (
+    <div>
+        <div className="font-bold">{title}: {keys.length}</div>
+        {keys.length > 0 && (
+            <div className="font-mono break-all">
+                {keys.slice(0, REPORT_LIMIT).map((key) => key || '(blank)').join(', ')}
+                {keys.length > REPORT_LIMIT && ` +${keys.length - REPORT_LIMIT} more`}
+            </div>
+        )}
+    </div>
+);
+
+const JoinNode: React.FC<NodeProps<JoinNodeData>> = ({ id, data, selected }) => {
+    const openModal = useBatchVisualStore((state) => state.openModal);
+    const updateNodeData = useAppStore((state) => state.updateNodeData);
+    const isMinimized = !!data.isMinimized;
+    const [noteOpen, setNoteOpen] = useState(false);
+
+    const runFrom = useRunStore((state) => state.runFrom);
+    const nodeStoreData = useBatchDataStore((state) => state.getNodeData(id));
+
+    // Left / right source by input handle
+    const edges = useReactFlow().getEdges();
+    const [leftInput, rightInput] = data.inputs;
+    const leftNodeId = edges.find(e => e.target === id && e.targetHandle === leftInput?.id)?.source;
+    const rightNodeId = edges.find(e => e.target === id && e.targetHandle === rightInput?.id)?.source;
+    const leftData = useBatchDataStore((state) => leftNodeId ? state.getNodeData(leftNodeId) : undefined);
+    const rightData = useBatchDataStore((state) => rightNodeId ? state.getNodeData(rightNodeId) : undefined);
+
+    const leftColumns: ColumnMetadata[] = leftData?.schema || [];
+    const rightColumns: ColumnMetadata[] = rightData?.schema || [];
+    const isConnected = !!leftData && !!rightData;
+    const keys = data.keys || [];
+    const rightKeyIds = keys.map(k => k.right);
+    const selectableColumns = rightColumns.filter(col => !rightKeyIds.includes(col.id));
+    const config = joinConfigOf(data);
+    const report = nodeStoreData?.matchReport;
+
+    const status = nodeStoreData?.status;
+    const getStatusColor = () => {
+        if (!isConnected) return 'bg-slate-400';
+        if (status === 'SUCCESS') return 'bg-green-500';
+        if (status === 'ERROR') return 'bg-red-500';
+        if (status === 'CALCULATING') return 'bg-blue-500 animate-pulse';
+        return 'bg-yellow-500';
+    };
+
+    const updateKey = (index: number, side: 'left' | 'right', value: string) => {
+        updateNodeData(id, { keys: keys.map((k, i) => (i === index ? { ...k, [side]: value } : k)) });
+    };
+
+    // No explicit selection means every non-key column of the right table
+    const isColumnSelected = (columnId: string) => !data.columns || data.columns.includes(columnId);
+    const toggleColumn = (columnId: string) => {
+        const current = data.columns ?? selectableColumns.map(col => col.id);
+        updateNodeData(id, {
+            columns: current.includes(columnId)
+                ? current.filter(c => c !== columnId)
+                : [...current, columnId],
+        });
+    };
+
+    const handleRun = () => {
+        if (!leftNodeId || !rightNodeId) {
+            alert("Please connect both tables first!");
+            return;
+        }
+        if (config) runFrom(id);
+    };
+
+    const selectClass = "w-full text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-indigo-500 bg-slate-50";
+    const headerHeight = 36;
+
+    return (
+        <div className={`bg-white rounded-lg shadow-md overflow-visible border-2 transition-all duration-200 ${selected ? 'border-indigo-600' : 'border-slate-200'} w-[320px]`}>
+            {/* Minimized: both handles stacked at center so edges stay connected */}
+            {isMinimized && data.inputs.map((input: HandleData) => (
+                <Handle
+                    key={input.id}
+                    type="target"
+                    position={Position.Left}
+                    id={input.id}
+                    className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                    style={{ top: headerHeight / 2, left: -6 }}
+                />
+            ))}
+
+            {/* Header - Editable Title */}
+            <div className="bg-indigo-600 px-3 py-2 flex items-center justify-between rounded-t-md">
+                <div className="flex items-center gap-2 text-white flex-1">
+                    <Merge size={18} />
+                    <NodeTitleInput
+                        value={data.label}
+                        onChange={(val) => updateNodeData(id, { label: val })}
+                        className="text-white font-bold text-base text-left placeholder-indigo-200 w-full"
+                        placeholder="Join"
+                    />
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <div className={`w-2 h-2 rounded-full ${getStatusColor()} shadow-[0_0_8px_rgba(255,255,255,0.5)]`} />
+                    <NoteIndicator note={data.note} onClick={() => setNoteOpen(!noteOpen)} />
+                    <button onClick={() => updateNodeData(id, { isMinimized: !isMinimized })} className="text-white/80 hover:text-white transition-colors" title={isMinimized ? "Expand" : "Minimize"}>
+                        {isMinimized ? <Maximize2 size={14} /> : <Minimize2 size={14} />}
+                    </button>
+                    <button onClick={() => openModal(id)} className="text-white/80 hover:text-white transition-colors" title="View Data">
+                        <Eye size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Body - Hidden when minimized */}
+            {!isMinimized && (
+                <div className="p-3 space-y-3">
+                    {/* Inputs with inline Handles */}
+                    <div className="space-y-0">
+                        {[{ input: leftInput, table: leftData }, { input: rightInput, table: rightData }].map(({ input, table }) => input && (
+                            <div key={input.id} className="relative flex items-center gap-2 pl-2" style={{ minHeight: 24 }}>
+                                <Handle
+                                    type="target"
+                                    position={Position.Left}
+                                    id={input.id}
+                                    className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                                    style={{ position: 'absolute', left: -18, top: '50%', transform: 'translateY(-50%)' }}
+                                />
+                                <span className="text-xs text-slate-600">{input.label}</span>
+                                {table && (
+                                    <span className="text-[9px] px-1 py-0.5 bg-green-100 text-green-600 rounded">
+                                        ✓ {table.rowCount ?? 0}r
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Join Type */}
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Join type</label>
+                        <select
+                            className={selectClass}
+                            value={data.joinType || 'left'}
+                            onChange={(e) => updateNodeData(id, { joinType: e.target.value as JoinNodeData['joinType'] })}
+                        >
+                            {JOIN_TYPES.map((t) => (
+                                <option key={t.value} value={t.value}>{t.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Key Pairs */}
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Match on</label>
+                        {keys.map((key, index) => (
+                            <div key={index} className="flex gap-1 items-center">
+                                <select className={selectClass} value={key.left} onChange={(e) => updateKey(index, 'left', e.target.value)}>
+                                    <option value="">Left column...</option>
+                                    {leftColumns.map((col) => (
+                                        <option key={col.id} value={col.id}>{col.name}</option>
+                                    ))}
+                                </select>
+                                <span className="text-xs text-slate-400">=</span>
+                                <select className={selectClass} value={key.right} onChange={(e) => updateKey(index, 'right', e.target.value)}>
+                                    <option value="">Right column...</option>
+                                    {rightColumns.map((col) => (
+                                        <option key={col.id} value={col.id}>{col.name}</option>
+                                    ))}
+                                </select>
+                                {keys.length > 1 && (
+                                    <button
+                                        onClick={() => updateNodeData(id, { keys: keys.filter((_, i) => i !== index) })}
+                                        className="text-slate-400 hover:text-red-500 transition-colors"
+                                        title="Remove key"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updateNodeData(id, { keys: [...keys, { left: '', right: '' }] })}
+                            className="flex items-center gap-1 text-[10px] text-indigo-600 hover:text-indigo-800"
+                        >
+                            <Plus size={10} />
+                            Add key column
+                        </button>
+                    </div>
+
+                    {/* Right columns to bring over */}
+                    {selectableColumns.length > 0 && (
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase">Columns from right</label>
+                            <div className="max-h-28 overflow-y-auto border border-slate-200 rounded p-1 bg-slate-50 space-y-0.5">
+                                {selectableColumns.map((col) => (
+                                    <button
+                                        key={col.id}
+                                        onClick={() => toggleColumn(col.id)}
+                                        className="w-full flex items-center gap-1.5 px-1 py-0.5 text-xs text-left text-slate-600 hover:bg-indigo-50 rounded"
+                                    >
+                                        {isColumnSelected(col.id)
+                                            ? <CheckSquare size={12} className="text-indigo-600" />
+                                            : <Square size={12} className="text-slate-400" />}
+                                        {col.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Collision Suffix */}
+                    <div className="flex items-center gap-2">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase whitespace-nowrap">Name clash suffix</label>
+                        <input
+                            type="text"
+                            className="flex-1 text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-indigo-500 font-mono"
+                            placeholder="_lookup"
+                            value={data.suffix || ''}
+                            onChange={(e) => updateNodeData(id, { suffix: e.target.value || undefined })}
+                        />
+                    </div>
+
+                    {/* Run Button */}
+                    <button
+                        onClick={handleRun}
+                        disabled={!config}
+                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-indigo-100 text-indigo-800 rounded hover:bg-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-xs"
+                    >
+                        Join Tables
+                    </button>
+
+                    {/* Error */}
+                    {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                        <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                            <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                        </div>
+                    )}
+
+                    {/* Match Report */}
+                    {status === 'SUCCESS' && report && (
+                        <div className={`p-2 rounded text-[10px] border space-y-1 ${report.unmatchedLeft.length + report.unmatchedRight.length > 0
+                            ? 'bg-amber-50 text-amber-700 border-amber-200'
+                            : 'bg-green-50 text-green-700 border-green-200'}`}
+                        >
+                            <div>{report.matchedRows} matched rows</div>
+                            <UnmatchedList title="Unmatched left keys" keys={report.unmatchedLeft} />
+                            <UnmatchedList title="Unmatched right keys" keys={report.unmatchedRight} />
+                        </div>
+                    )}
+
+                    {/* Status Stats */}
+                    <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
+                        <span>L: {leftData?.rowCount ?? '-'} · R: {rightData?.rowCount ?? '-'}</span>
+                        <span>Out: {nodeStoreData?.rowCount ?? '-'}</span>
+                    </div>
+
+                    {/* Note Editor */}
+                    {noteOpen && (
+                        <NoteEditor
+                            note={data.note}
+                            onChange={(note) => updateNodeData(id, { note })}
+                            isOpen={noteOpen}
+                            onToggle={() => setNoteOpen(false)}
+                            accentColor="indigo"
+                        />
+                    )}
+                </div>
+            )}
+
+            {/* Output Handle */}
+            <Handle
+                type="source"
+                position={Position.Right}
+                id={data.outputs[0]?.id}
+                className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                style={{ right: -6 }}
+            />
+        </div>
+    );
+};
+
+export default memo(JoinNode);
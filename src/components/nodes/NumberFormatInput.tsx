@@ -0,0 +1,57 @@
+import React from 'react';
+import type { NumberFormat } from '../../types';
+
+interface NumberFormatInputProps {
+    value?: NumberFormat;
+    onChange: (value: NumberFormat | undefined) => void;
+}
+
+const STYLE_LABELS: Record<NumberFormat['style'], string> = {
+    auto: 'Auto',
+    decimals: 'Decimal places',
+    significant: 'Significant figures',
+    scientific: 'Scientific',
+};
+
+/**
+ * Display precision of a node's result. Only the shown text changes;
+ * downstream nodes keep receiving the full-precision value.
+ */
+export const NumberFormatInput: React.FC<NumberFormatInputProps> = ({ value, onChange }) => {
+    const style = value?.style ?? 'auto';
+
+    return (
+        <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase">Display</label>
+            <div className="flex gap-1">
+                <select
+                    className="flex-1 text-xs border border-slate-200 rounded p-1 bg-white focus:outline-none focus:border-purple-400 text-slate-600"
+                    value={style}
+                    onChange={(e) => {
+                        const next = e.target.value as NumberFormat['style'];
+                        onChange(next === 'auto' ? undefined : { style: next, digits: value?.digits });
+                    }}
+                >
+                    {(Object.keys(STYLE_LABELS) as NumberFormat['style'][]).map((key) => (
+                        <option key={key} value={key}>{STYLE_LABELS[key]}</option>
+                    ))}
+                </select>
+                {style !== 'auto' && (
+                    <input
+                        type="number"
+                        min={style === 'significant' ? 1 : 0}
+                        max={20}
+                        className="w-14 text-xs border border-slate-200 rounded p-1 bg-white focus:outline-none focus:border-purple-400 text-slate-600"
+                        value={value?.digits ?? ''}
+                        placeholder={style === 'decimals' ? '2' : '3'}
+                        title={style === 'scientific' ? 'Decimals of the mantissa' : STYLE_LABELS[style]}
+                        onChange={(e) => onChange({
+                            style,
+                            digits: e.target.value === '' ? undefined : Number(e.target.value),
+                        })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
@@ -4,13 +4,14 @@ import type { NodeProps } from 'reactflow';
 import { ArrowRight } from 'lucide-react';
 import type { PassThroughNodeData } from '../../types';
 import { useAppStore } from '../../store/useAppStore';
+import { formatResultNumber } from '../../utils/formatNumber';
 
 const PassThroughNode: React.FC<NodeProps<PassThroughNodeData>> = ({ id, data, selected }) => {
     const updateNodeData = useAppStore((state) => state.updateNodeData);
 
     // Display calculated value if available
-    const displayValue = data.calculatedValue
-        ? String(data.calculatedValue)
+    const displayValue = data.calculatedValue !== undefined && data.calculatedValue !== null
+        ? `${formatResultNumber(data.calculatedValue, data.numberFormat)}${data.resultUnit ? ` ${data.resultUnit}` : ''}`
         : '—';
 
     return (
@@ -0,0 +1,228 @@
+import React, { memo, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import type { NodeProps } from 'reactflow';
+import { Grid3x3, Minimize2, Maximize2, Eye, CheckSquare, Square } from 'lucide-react';
+import type { PivotNodeData } from '../../types';
+import { useBatchVisualStore } from '../../store/useBatchVisualStore';
+import { useAppStore } from '../../store/useAppStore';
+import { useBatchDataStore } from '../../store/useBatchDataStore';
+import type { ColumnMetadata } from '../../store/useBatchDataStore';
+import { pivotConfigOf } from '../../lib/batchOperations';
+import { useRunStore } from '../../store/useRunStore';
+import NoteIndicator from './NoteIndicator';
+import NoteEditor from './NoteEditor';
+import { NodeTitleInput } from './NodeTitleInput';
+
+const PIVOT_FUNCTIONS: { value: NonNullable<PivotNodeData['func']>; label: string }[] = [
+    { value: 'SUM', label: 'Sum' },
+    { value: 'AVG', label: 'Average' },
+    { value: 'MIN', label: 'Min' },
+    { value: 'MAX', label: 'Max' },
+    { value: 'COUNT', label: 'Count' },
+    { value: 'MEDIAN', label: 'Median' },
+];
+
+const PivotNode: React.FC<NodeProps<PivotNodeData>> = ({ id, data, selected }) => {
+    const openModal = useBatchVisualStore((state) => state.openModal);
+    const updateNodeData = useAppStore((state) => state.updateNodeData);
+    const isMinimized = !!data.isMinimized;
+    const [noteOpen, setNoteOpen] = useState(false);
+
+    const runFrom = useRunStore((state) => state.runFrom);
+    const nodeStoreData = useBatchDataStore((state) => state.getNodeData(id));
+
+    const edges = useReactFlow().getEdges();
+    const targetEdge = edges.find(e => e.target === id);
+    const sourceNodeId = targetEdge?.source;
+    const sourceNodeData = useBatchDataStore((state) => sourceNodeId ? state.getNodeData(sourceNodeId) : undefined);
+
+    const availableColumns: ColumnMetadata[] = sourceNodeData?.schema || [];
+    const isConnected = !!sourceNodeId && !!sourceNodeData;
+    const rowColumns = data.rowColumns || [];
+    const config = pivotConfigOf(data);
+
+    const status = nodeStoreData?.status;
+    const getStatusColor = () => {
+        if (!isConnected) return 'bg-slate-400';
+        if (status === 'SUCCESS') return 'bg-green-500';
+        if (status === 'ERROR') return 'bg-red-500';
+        if (status === 'CALCULATING') return 'bg-blue-500 animate-pulse';
+        return 'bg-yellow-500';
+    };
+
+    const toggleRowColumn = (columnId: string) => {
+        updateNodeData(id, {
+            rowColumns: rowColumns.includes(columnId)
+                ? rowColumns.filter(c => c !== columnId)
+                : [...rowColumns, columnId],
+        });
+    };
+
+    const handleRun = () => {
+        if (!sourceNodeId) {
+            alert("Please connect a dataset first!");
+            return;
+        }
+        if (config) runFrom(id);
+    };
+
+    const selectClass = "w-full text-xs border border-slate-200 rounded p-1.5 focus:outline-none focus:border-sky-500 bg-slate-50";
+
+    return (
+        <div className={`bg-white rounded-lg shadow-md overflow-hidden border-2 transition-all duration-200 ${selected ? 'border-sky-600' : 'border-slate-200'} w-[300px]`}>
+            {/* Header - Editable Title */}
+            <div className="bg-sky-600 px-3 py-2 flex items-center justify-between">
+                <div className="flex items-center gap-2 text-white flex-1">
+                    <Grid3x3 size={18} />
+                    <NodeTitleInput
+                        value={data.label}
+                        onChange={(val) => updateNodeData(id, { label: val })}
+                        className="text-white font-bold text-base text-left placeholder-sky-200 w-full"
+                        placeholder="Pivot"
+                    />
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <div className={`w-2 h-2 rounded-full ${getStatusColor()} shadow-[0_0_8px_rgba(255,255,255,0.5)]`} />
+                    <NoteIndicator note={data.note} onClick={() => setNoteOpen(!noteOpen)} />
+                    <button onClick={() => updateNodeData(id, { isMinimized: !isMinimized })} className="text-white/80 hover:text-white transition-colors" title={isMinimized ? "Expand" : "Minimize"}>
+                        {isMinimized ? <Maximize2 size={14} /> : <Minimize2 size={14} />}
+                    </button>
+                    <button onClick={() => openModal(id)} className="text-white/80 hover:text-white transition-colors" title="View Data">
+                        <Eye size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Input Handle */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id={data.inputs[0]?.id}
+                className="!w-3 !h-3 !bg-sky-600 !border-2 !border-white hover:!bg-sky-700"
+                style={{ left: -6 }}
+            />
+
+            {/* Body - Hidden when minimized */}
+            {!isMinimized && (
+                <div className="p-3 space-y-3">
+                    {/* Row Columns */}
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Rows</label>
+                        {availableColumns.length === 0 ? (
+                            <div className="text-[10px] text-slate-400 italic">Connect a dataset to pick columns</div>
+                        ) : (
+                            <div className="max-h-28 overflow-y-auto border border-slate-200 rounded p-1 bg-slate-50 space-y-0.5">
+                                {availableColumns.filter(col => col.id !== data.pivotColumn && col.id !== data.valueColumn).map((col) => (
+                                    <button
+                                        key={col.id}
+                                        onClick={() => toggleRowColumn(col.id)}
+                                        className="w-full flex items-center gap-1.5 px-1 py-0.5 text-xs text-left text-slate-600 hover:bg-sky-50 rounded"
+                                    >
+                                        {rowColumns.includes(col.id)
+                                            ? <CheckSquare size={12} className="text-sky-600" />
+                                            : <Square size={12} className="text-slate-400" />}
+                                        {col.name}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Pivot Column */}
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Columns from</label>
+                        <select
+                            className={selectClass}
+                            value={data.pivotColumn || ''}
+                            onChange={(e) => updateNodeData(id, {
+                                pivotColumn: e.target.value || undefined,
+                                rowColumns: rowColumns.filter(c => c !== e.target.value),
+                            })}
+                        >
+                            <option value="">Select column...</option>
+                            {availableColumns.map((col) => (
+                                <option key={col.id} value={col.id}>{col.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Value & Aggregation */}
+                    <div className="flex gap-2">
+                        <div className="w-1/3">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase">Agg</label>
+                            <select
+                                className={selectClass}
+                                value={data.func || 'SUM'}
+                                onChange={(e) => updateNodeData(id, { func: e.target.value as PivotNodeData['func'] })}
+                            >
+                                {PIVOT_FUNCTIONS.map((f) => (
+                                    <option key={f.value} value={f.value}>{f.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase">Value</label>
+                            <select
+                                className={selectClass}
+                                value={data.valueColumn || ''}
+                                onChange={(e) => updateNodeData(id, {
+                                    valueColumn: e.target.value || undefined,
+                                    rowColumns: rowColumns.filter(c => c !== e.target.value),
+                                })}
+                            >
+                                <option value="">Select column...</option>
+                                {availableColumns.map((col) => (
+                                    <option key={col.id} value={col.id}>{col.name}{col.unit ? ` (${col.unit})` : ''}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Run Button */}
+                    <button
+                        onClick={handleRun}
+                        disabled={!config}
+                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-sky-100 text-sky-800 rounded hover:bg-sky-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-xs"
+                    >
+                        Pivot Table
+                    </button>
+
+                    {/* Error */}
+                    {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                        <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                            <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                        </div>
+                    )}
+
+                    {/* Status Stats */}
+                    <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
+                        <span>In: {sourceNodeData?.rowCount ?? '-'}</span>
+                        <span>Out: {nodeStoreData?.rowCount ?? '-'} × {nodeStoreData?.schema.length ?? '-'}</span>
+                    </div>
+
+                    {/* Note Editor */}
+                    {noteOpen && (
+                        <NoteEditor
+                            note={data.note}
+                            onChange={(note) => updateNodeData(id, { note })}
+                            isOpen={noteOpen}
+                            onToggle={() => setNoteOpen(false)}
+                            accentColor="sky"
+                        />
+                    )}
+                </div>
+            )}
+
+            {/* Output Handle */}
+            <Handle
+                type="source"
+                position={Position.Right}
+                id={data.outputs[0]?.id}
+                className="!w-3 !h-3 !bg-sky-600 !border-2 !border-white hover:!bg-sky-700"
+                style={{ right: -6 }}
+            />
+        </div>
+    );
+};
+
+export default memo(PivotNode);
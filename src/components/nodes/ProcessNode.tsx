@@ -5,13 +5,17 @@ import { Plus, AlertCircle, Minimize2, Maximize2, HelpCircle, Play } from 'lucid
 import type { ProcessNodeData, HandleData } from '../../types';
 import { useAppStore } from '../../store/useAppStore';
 import { useBatchDataStore } from '../../store/useBatchDataStore';
-import { executeBatchFormula } from '../../lib/batchCalculationEngine';
+import { useProjectStore } from '../../store/useProjectStore';
+import { useRunStore } from '../../store/useRunStore';
+import { ASSESSMENT_REPORTS, GWP_GASES, GWP_HORIZONS, describeGwpSet, getGwp } from '../../data/gwpValues';
+import type { AssessmentReport, GwpHorizon } from '../../data/gwpValues';
 import { FormulaInput } from '../FormulaInput';
 import { FormulaHelpDialog } from '../FormulaHelpDialog';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
-import { formatDisplayNumber } from '../../utils/formatNumber';
+import { NumberFormatInput } from './NumberFormatInput';
+import { formatResultNumber, formatUncertainty } from '../../utils/formatNumber';
 
 interface EditableLabelProps {
     value: string;
@@ -76,6 +80,8 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
     const [noteOpen, setNoteOpen] = useState(false);
     const [showHelp, setShowHelp] = useState(false);
     const [isCalculating, setIsCalculating] = useState(false);
+    const runFrom = useRunStore((state) => state.runFrom);
+    const projectGwpSet = useProjectStore((state) => state.gwpSet);
 
     const hasError = data.hasCircularDependency || !!data.error;
     const isCircular = data.hasCircularDependency;
@@ -95,7 +101,7 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
         const nodeType = sourceNode.data?.type;
         if (nodeType === 'source' || nodeType === 'factor' || nodeType === 'process') {
             const scalarValue = nodeType === 'process'
-                ? (parseFloat(String(sourceNode.data?.calculatedValue)) || 0)
+                ? (Number(sourceNode.data?.calculatedValue) || 0)
                 : (sourceNode.data?.value ?? 0);
             const scalarUnit = nodeType === 'process'
                 ? (sourceNode.data?.resultUnit || '')
@@ -151,92 +157,13 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
         }, 0);
     }, [data.formula, updateNodeData, id]);
 
-    // --- Run batch formula and validate single-value output ---
+    // --- Run batch formula (and what reads it) through the scheduler ---
     const handleRunBatchFormula = useCallback(() => {
-        if (!batchSources[0]?.nodeId || !sourceNodeData) {
-            return;
-        }
-
-        const formula = data.formula?.trim();
-        if (!formula) return;
+        if (!batchSources[0]?.nodeId || !sourceNodeData || !data.formula?.trim()) return;
 
         setIsCalculating(true);
-
-        setTimeout(() => {
-            try {
-                const schemaIds = sourceNodeData.schema.map((s: any) => s.id);
-                const columnUnits: Record<string, string> = {};
-                sourceNodeData.schema.forEach((col: any) => {
-                    if (col.unit) columnUnits[col.id] = col.unit;
-                });
-
-                // Build scalar inputs
-                const scalarInputs: Record<string, { value: number; unit: string }> = {};
-                scalarSources.forEach(scalar => {
-                    scalarInputs[scalar.label] = { value: scalar.value, unit: scalar.unit };
-                });
-
-                const tempColName = '__process_result__';
-                const result = executeBatchFormula(
-                    sourceNodeData.rawData,
-                    tempColName,
-                    formula,
-                    schemaIds,
-                    columnUnits,
-                    scalarInputs
-                );
-
-                if (!result.success || !result.data) {
-                    updateNodeData(id, {
-                        batchResult: {
-                            value: 0,
-                            status: 'ERROR',
-                            error: result.error?.message || 'Calculation failed',
-                        },
-                    });
-                    setIsCalculating(false);
-                    return;
-                }
-
-                // Extract computed column values
-                const values = result.data.map(row => row[tempColName]);
-                const uniqueValues = new Set(values.map(v => JSON.stringify(v)));
-
-                if (uniqueValues.size > 1) {
-                    // Multiple different values — not a scalar result
-                    updateNodeData(id, {
-                        batchResult: {
-                            value: 0,
-                            status: 'ERROR',
-                            error: 'Formula produces multiple values. Use aggregate functions ($SUM_, $AVG_, etc.) or use TableMath Node instead.',
-                        },
-                    });
-                } else {
-                    // Single value — success
-                    const scalarValue = values[0];
-                    updateNodeData(id, {
-                        batchResult: {
-                            value: scalarValue,
-                            unit: result.derivedUnit,
-                            status: 'SUCCESS',
-                        },
-                        calculatedValue: typeof scalarValue === 'number'
-                            ? scalarValue.toLocaleString('en-US', { maximumFractionDigits: 6 })
-                            : String(scalarValue),
-                    });
-                }
-            } catch (err: any) {
-                updateNodeData(id, {
-                    batchResult: {
-                        value: 0,
-                        status: 'ERROR',
-                        error: err.message || 'Unexpected error',
-                    },
-                });
-            }
-            setIsCalculating(false);
-        }, 50);
-    }, [batchSources, sourceNodeData, scalarSources, data.formula, id, updateNodeData]);
+        runFrom(id).finally(() => setIsCalculating(false));
+    }, [batchSources, sourceNodeData, data.formula, id, runFrom]);
 
     // --- Determine display value ---
     const displayValue = data.batchResult?.status === 'SUCCESS'
@@ -244,8 +171,19 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
         : data.calculatedValue;
     const displayUnit = data.batchResult?.status === 'SUCCESS'
         ? data.batchResult.unit
-        : undefined;
+        : data.resultUnit;
     const batchError = data.batchResult?.status === 'ERROR' ? data.batchResult.error : null;
+    const unitWarning = data.batchResult?.status === 'SUCCESS'
+        ? data.batchResult.unitWarning
+        : (!hasBatchSource && !hasError ? data.unitWarning : undefined);
+
+    // --- GWP conversion (report/horizon fall back to the project setting) ---
+    const gwpSet = {
+        report: data.gwp?.report ?? projectGwpSet.report,
+        horizon: data.gwp?.horizon ?? projectGwpSet.horizon,
+    };
+    const gwpFactor = data.gwp?.gas ? getGwp(data.gwp.gas, gwpSet.report, gwpSet.horizon) : null;
+    const gwpSetValue = data.gwp?.report ? `${data.gwp.report}:${data.gwp.horizon ?? projectGwpSet.horizon}` : '';
 
     return (
         <div
@@ -281,7 +219,8 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
             {isMinimized && displayValue !== undefined && displayValue !== null && !hasError && (
                 <div className="px-3 py-1.5 text-center">
                     <span className="text-xs font-mono text-purple-600 bg-purple-100 px-1.5 py-0.5 rounded">
-                        {formatDisplayNumber(displayValue)} {displayUnit || ''}
+                        {formatResultNumber(displayValue, data.numberFormat)} {displayUnit || ''}
+                        {!hasBatchSource && data.combinedUncertainty !== undefined && ` ${formatUncertainty(data.combinedUncertainty)}`}
                     </span>
                 </div>
             )}
@@ -446,6 +385,61 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
                         )}
                     </div>
 
+                    {/* CO2e Conversion */}
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Convert to CO2e</label>
+                        <div className="flex gap-1">
+                            <select
+                                className="flex-1 text-xs border border-slate-200 rounded p-1 bg-white focus:outline-none focus:border-purple-400 text-slate-600"
+                                value={data.gwp?.gas || ''}
+                                onChange={(e) => updateNodeData(id, {
+                                    gwp: e.target.value ? { ...data.gwp, gas: e.target.value } : undefined,
+                                    batchResult: undefined,
+                                })}
+                            >
+                                <option value="">Off</option>
+                                {GWP_GASES.map((gas) => (
+                                    <option key={gas} value={gas}>{gas}</option>
+                                ))}
+                            </select>
+                            {data.gwp?.gas && (
+                                <select
+                                    className="flex-1 text-xs border border-slate-200 rounded p-1 bg-white focus:outline-none focus:border-purple-400 text-slate-600"
+                                    value={gwpSetValue}
+                                    onChange={(e) => {
+                                        const [report, horizon] = e.target.value.split(':');
+                                        updateNodeData(id, {
+                                            gwp: {
+                                                gas: data.gwp!.gas,
+                                                report: report ? report as AssessmentReport : undefined,
+                                                horizon: horizon ? Number(horizon) as GwpHorizon : undefined,
+                                            },
+                                            batchResult: undefined,
+                                        });
+                                    }}
+                                >
+                                    <option value="">Project ({projectGwpSet.report}, {projectGwpSet.horizon}-yr)</option>
+                                    {ASSESSMENT_REPORTS.flatMap((report) => GWP_HORIZONS.map((horizon) => (
+                                        <option key={`${report}:${horizon}`} value={`${report}:${horizon}`}>
+                                            {report}, {horizon}-yr
+                                        </option>
+                                    )))}
+                                </select>
+                            )}
+                        </div>
+                        {gwpFactor !== null && (
+                            <div className="text-[10px] text-slate-500">
+                                × {gwpFactor.toLocaleString('en-US')} GWP ({describeGwpSet(gwpSet)})
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Result Display Precision */}
+                    <NumberFormatInput
+                        value={data.numberFormat}
+                        onChange={(numberFormat) => updateNodeData(id, { numberFormat })}
+                    />
+
                     {/* Run Calculation Button — only when batch source connected */}
                     {hasBatchSource && (
                         <button
@@ -463,9 +457,7 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
                         <div className="px-2 py-1.5 bg-green-50 border border-green-200 rounded-md">
                             <div className="text-xs text-green-600 font-medium">Result (Single Value)</div>
                             <div className="text-sm font-mono text-green-800">
-                                {typeof data.batchResult.value === 'number'
-                                    ? data.batchResult.value.toLocaleString('en-US', { maximumFractionDigits: 6 })
-                                    : String(data.batchResult.value)}
+                                {formatResultNumber(data.batchResult.value, data.numberFormat)}
                                 {data.batchResult.unit && (
                                     <span className="text-green-600 text-xs ml-1">{data.batchResult.unit}</span>
                                 )}
@@ -473,6 +465,13 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
                         </div>
                     )}
 
+                    {/* Unit Warning (both engines) */}
+                    {unitWarning && (
+                        <div className="p-2 bg-amber-50 text-amber-700 rounded text-[10px] border border-amber-200">
+                            <span className="font-bold">⚠️ Unit:</span> {unitWarning}
+                        </div>
+                    )}
+
                     {/* Batch Error Display */}
                     {batchError && (
                         <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
@@ -484,7 +483,17 @@ const ProcessNode: React.FC<NodeProps<ProcessNodeData>> = ({ id, data, selected
                     {!hasBatchSource && data.calculatedValue !== undefined && data.calculatedValue !== null && !hasError && (
                         <div className="px-2 py-1.5 bg-purple-100 rounded-md">
                             <div className="text-xs text-purple-600 font-medium">Result</div>
-                            <div className="text-sm font-mono text-purple-800">{String(data.calculatedValue)}</div>
+                            <div className="text-sm font-mono text-purple-800">
+                                {formatResultNumber(data.calculatedValue, data.numberFormat)}
+                                {data.resultUnit && (
+                                    <span className="text-purple-600 text-xs ml-1">{data.resultUnit}</span>
+                                )}
+                                {data.combinedUncertainty !== undefined && (
+                                    <span className="text-purple-500 text-xs ml-1" title="Combined uncertainty (95% CI, IPCC Approach 1)">
+                                        {formatUncertainty(data.combinedUncertainty)}
+                                    </span>
+                                )}
+                            </div>
                         </div>
                     )}
 
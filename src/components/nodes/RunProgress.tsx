@@ -0,0 +1,38 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useBatchDataStore } from '../../store/useBatchDataStore';
+
+interface RunProgressProps {
+    nodeId: string;
+    // Tailwind colour of the bar, e.g. 'bg-purple-500'
+    barClassName: string;
+}
+
+/**
+ * Progress bar with a Cancel button, shown while a batch step runs in a worker.
+ */
+const RunProgress: React.FC<RunProgressProps> = ({ nodeId, barClassName }) => {
+    const nodeStoreData = useBatchDataStore((state) => state.nodes[nodeId]);
+    const cancelRun = useBatchDataStore((state) => state.cancelRun);
+
+    if (nodeStoreData?.status !== 'CALCULATING') return null;
+    const percent = Math.round((nodeStoreData.progress ?? 0) * 100);
+
+    return (
+        <div className="flex items-center gap-2">
+            <div className="flex-1 h-1.5 bg-slate-100 rounded overflow-hidden">
+                <div className={`h-full ${barClassName} transition-all`} style={{ width: `${percent}%` }} />
+            </div>
+            <span className="text-[10px] text-slate-500 font-mono w-8 text-right">{percent}%</span>
+            <button
+                onClick={(e) => { e.stopPropagation(); cancelRun(nodeId); }}
+                className="flex items-center gap-0.5 text-[10px] text-slate-500 hover:text-red-600"
+                title="Cancel run"
+            >
+                <X size={12} /> Cancel
+            </button>
+        </div>
+    );
+};
+
+export default RunProgress;
@@ -7,6 +7,7 @@ import { useAppStore } from '../../store/useAppStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import { UncertaintyInput } from './UncertaintyInput';
 import { formatDisplayNumber } from '../../utils/formatNumber';
 
 const formatNumber = (num: number): string => {
@@ -178,6 +179,15 @@ const SourceNode: React.FC<NodeProps<SourceNodeData>> = ({ id, data, selected })
                         />
                     </div>
 
+                    {/* Uncertainty Input */}
+                    <UncertaintyInput
+                        value={data.uncertainty}
+                        nodeValue={data.value}
+                        onChange={(uncertainty) => updateNodeData(id, { uncertainty })}
+                        distribution={data.distribution}
+                        onDistributionChange={(distribution) => updateNodeData(id, { distribution })}
+                    />
+
                     {/* Output Value Display */}
                     {outputValue && (
                         <div className="flex items-center justify-between pt-2 border-t border-blue-100">
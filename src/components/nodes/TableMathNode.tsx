@@ -8,10 +8,11 @@ import { useBatchDataStore } from '../../store/useBatchDataStore';
 import { useAppStore } from '../../store/useAppStore';
 import { FormulaHelpDialog } from '../FormulaHelpDialog';
 import { FormulaInput } from '../FormulaInput';
-import { useCascadeRun } from '../../hooks/useCascadeRun';
+import { useRunStore } from '../../store/useRunStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import RunProgress from './RunProgress';
 
 // Editable Label Component
 const EditableLabel: React.FC<{ value: string; onSave: (v: string) => void }> = ({ value, onSave }) => {
@@ -59,9 +60,7 @@ const TableMathNode: React.FC<NodeProps<TableMathNodeData>> = ({ id, data, selec
     const [showHelp, setShowHelp] = useState(false);
     const [noteOpen, setNoteOpen] = useState(false);
 
-    useCascadeRun(id);
-
-    const runMath = useBatchDataStore((state: any) => state.runMath);
+    const runFrom = useRunStore((state) => state.runFrom);
     const nodeStoreData = useBatchDataStore((state: any) => state.getNodeData(id));
 
     const edges = useReactFlow().getEdges();
@@ -84,7 +83,7 @@ const TableMathNode: React.FC<NodeProps<TableMathNodeData>> = ({ id, data, selec
         if (nodeType === 'source' || nodeType === 'factor' || nodeType === 'process') {
             // For process nodes, use calculatedValue; for source/factor use value
             const scalarValue = nodeType === 'process'
-                ? (parseFloat(String(sourceNode.data?.calculatedValue)) || 0)
+                ? (Number(sourceNode.data?.calculatedValue) || 0)
                 : (sourceNode.data?.value ?? 0);
 
             // For process nodes, we need to get the result unit from the calculation
@@ -148,15 +147,7 @@ const TableMathNode: React.FC<NodeProps<TableMathNodeData>> = ({ id, data, selec
             return;
         }
 
-        if (data.formula && data.newColumnName) {
-            // Build scalar inputs map
-            const scalarInputs: Record<string, { value: number; unit: string }> = {};
-            scalarSources.forEach(scalar => {
-                scalarInputs[scalar.label] = { value: scalar.value, unit: scalar.unit };
-            });
-
-            runMath(id, firstBatchSource.nodeId, data.formula, data.newColumnName, scalarInputs, data.unitOverride);
-        }
+        if (data.formula && data.newColumnName) runFrom(id);
     };
 
     const handleAddInput = useCallback(() => {
@@ -396,6 +387,7 @@ const TableMathNode: React.FC<NodeProps<TableMathNodeData>> = ({ id, data, selec
                     >
                         {status === 'CALCULATING' ? 'Calculating...' : 'Run Calculation'}
                     </button>
+                    <RunProgress nodeId={id} barClassName="bg-purple-500" />
 
                     {/* Result Unit Display */}
                     {status === 'SUCCESS' && (derivedUnit || data.unitOverride?.trim()) && (
@@ -414,6 +406,13 @@ const TableMathNode: React.FC<NodeProps<TableMathNodeData>> = ({ id, data, selec
                         </div>
                     )}
 
+                    {/* Unit Warning */}
+                    {status === 'SUCCESS' && nodeStoreData?.unitWarning && (
+                        <div className="p-2 bg-amber-50 text-amber-700 rounded text-[10px] border border-amber-200">
+                            <span className="font-bold">⚠️ Unit:</span> {nodeStoreData.unitWarning}
+                        </div>
+                    )}
+
                     {/* Stats */}
                     <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
                         <span>In: {sourceNodeData?.rowCount ?? '-'}</span>
@@ -6,10 +6,11 @@ import type { TransformNodeData, HandleData } from '../../types';
 import { useBatchVisualStore } from '../../store/useBatchVisualStore';
 import { useBatchDataStore } from '../../store/useBatchDataStore';
 import { useAppStore } from '../../store/useAppStore';
-import { useCascadeRun } from '../../hooks/useCascadeRun';
+import { useRunStore } from '../../store/useRunStore';
 import NoteIndicator from './NoteIndicator';
 import NoteEditor from './NoteEditor';
 import { NodeTitleInput } from './NodeTitleInput';
+import RunProgress from './RunProgress';
 
 interface Operation {
     type: 'delete' | 'rename' | 'select' | 'combine';
@@ -66,10 +67,7 @@ const TransformNode: React.FC<NodeProps<TransformNodeData>> = ({ id, data, selec
     // Combine state: track selected columns per input
     const [combineSelections, setCombineSelections] = useState<Record<number, string[]>>({});
 
-    useCascadeRun(id);
-
-    const runTransform = useBatchDataStore((state: any) => state.runTransform);
-    const runCombineTransform = useBatchDataStore((state: any) => state.runCombineTransform);
+    const runFrom = useRunStore((state) => state.runFrom);
     const nodeStoreData = useBatchDataStore((state: any) => state.getNodeData(id));
 
     const edges = useReactFlow().getEdges();
@@ -164,14 +162,13 @@ const TransformNode: React.FC<NodeProps<TransformNodeData>> = ({ id, data, selec
                 alert("Please connect datasets first!");
                 return;
             }
-            runCombineTransform(id, sourceNodeIds, operations);
         } else {
             if (!primarySourceId) {
                 alert("Please connect a dataset first!");
                 return;
             }
-            runTransform(id, primarySourceId, operations);
         }
+        runFrom(id);
     };
 
     const handleAddInput = useCallback(() => {
@@ -450,6 +447,14 @@ const TransformNode: React.FC<NodeProps<TransformNodeData>> = ({ id, data, selec
                             >
                                 {status === 'CALCULATING' ? 'Processing...' : 'Apply Transform'}
                             </button>
+                            <RunProgress nodeId={id} barClassName="bg-cyan-500" />
+
+                            {/* Error */}
+                            {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                                <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                                    <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                                </div>
+                            )}
 
                             {/* Stats */}
                             <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import type { Uncertainty, Distribution } from '../../types';
+import { toRelativeUncertainty } from '../../lib/uncertainty';
+import { formatUncertainty } from '../../utils/formatNumber';
+
+interface UncertaintyInputProps {
+    value?: Uncertainty;
+    nodeValue: number;
+    onChange: (value: Uncertainty | undefined) => void;
+    distribution?: Distribution;
+    onDistributionChange: (distribution: Distribution | undefined) => void;
+    readOnly?: boolean;
+}
+
+// Empty input means "not set"; comma thousands separators are ignored
+const parseField = (raw: string): number | null => {
+    if (raw.trim() === '') return null;
+    const parsed = parseFloat(raw.replace(/,/g, ''));
+    return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * 95% confidence interval editor shared by Source and Factor nodes:
+ * either ±% of the value or absolute lower/upper bounds.
+ * Fields are committed on blur so partial input ("5.", "-") can be typed.
+ */
+export const UncertaintyInput: React.FC<UncertaintyInputProps> = ({ value, nodeValue, onChange, distribution, onDistributionChange, readOnly }) => {
+    const [mode, setMode] = useState<Uncertainty['type']>(value?.type ?? 'percent');
+    const [percentText, setPercentText] = useState(value?.type === 'percent' ? String(value.percent) : '');
+    const [lowerText, setLowerText] = useState(value?.type === 'absolute' ? String(value.lower) : '');
+    const [upperText, setUpperText] = useState(value?.type === 'absolute' ? String(value.upper) : '');
+
+    // Values set elsewhere (database lookup) replace what is being shown
+    const [syncedValue, setSyncedValue] = useState(value);
+    if (value !== syncedValue) {
+        setSyncedValue(value);
+        if (value) setMode(value.type);
+        setPercentText(value?.type === 'percent' ? String(value.percent) : '');
+        setLowerText(value?.type === 'absolute' ? String(value.lower) : '');
+        setUpperText(value?.type === 'absolute' ? String(value.upper) : '');
+    }
+
+    const relative = value ? toRelativeUncertainty(nodeValue, value) : null;
+    // Triangular sampling uses the value as the mode, so it must lie within the range
+    const modeOutsideRange = distribution === 'triangular' && value?.type === 'absolute' && (nodeValue < value.lower || nodeValue > value.upper);
+    const inputClass = `w-full px-2 py-1 text-xs border rounded-md outline-none ${readOnly
+        ? 'bg-slate-100 border-slate-200 cursor-not-allowed text-slate-600'
+        : 'bg-white border-slate-200 focus:border-slate-400'
+        }`;
+
+    const commitPercent = () => {
+        const percent = parseField(percentText);
+        onChange(percent === null ? undefined : { type: 'percent', percent });
+    };
+
+    const commitRange = () => {
+        const lower = parseField(lowerText);
+        const upper = parseField(upperText);
+        if (lower === null && upper === null) onChange(undefined);
+        else if (lower !== null && upper !== null) onChange({ type: 'absolute', lower, upper });
+    };
+
+    return (
+        <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-500 flex justify-between items-center">
+                <span>Uncertainty (95% CI)</span>
+                <span className="flex gap-0.5">
+                    {(['percent', 'absolute'] as const).map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            disabled={readOnly}
+                            className={`px-1.5 py-0.5 rounded text-[9px] font-medium transition-colors ${mode === option ? 'bg-slate-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                        >
+                            {option === 'percent' ? '±%' : 'Range'}
+                        </button>
+                    ))}
+                </span>
+            </label>
+            {mode === 'percent' ? (
+                <input
+                    type="text"
+                    value={percentText}
+                    onChange={(e) => setPercentText(e.target.value)}
+                    onBlur={commitPercent}
+                    readOnly={readOnly}
+                    className={inputClass}
+                    placeholder="± % of value, e.g. 5"
+                />
+            ) : (
+                <div className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={lowerText}
+                        onChange={(e) => setLowerText(e.target.value)}
+                        onBlur={commitRange}
+                        readOnly={readOnly}
+                        className={inputClass}
+                        placeholder="Lower"
+                    />
+                    <span className="text-xs text-slate-400">–</span>
+                    <input
+                        type="text"
+                        value={upperText}
+                        onChange={(e) => setUpperText(e.target.value)}
+                        onBlur={commitRange}
+                        readOnly={readOnly}
+                        className={inputClass}
+                        placeholder="Upper"
+                    />
+                </div>
+            )}
+            {value?.type === 'absolute' && relative !== null && (
+                <p className="text-[9px] text-slate-400">{formatUncertainty(relative)} of value</p>
+            )}
+            {value && (
+                <select
+                    value={distribution ?? ''}
+                    onChange={(e) => onDistributionChange(e.target.value ? e.target.value as Distribution : undefined)}
+                    className="w-full px-1 py-0.5 text-[10px] border border-slate-200 rounded bg-white text-slate-500 outline-none"
+                    title="Distribution sampled in Monte Carlo runs"
+                >
+                    <option value="">Monte Carlo: default distribution</option>
+                    <option value="normal">Monte Carlo: normal</option>
+                    <option value="lognormal">Monte Carlo: lognormal</option>
+                    <option value="triangular">Monte Carlo: triangular</option>
+                    <option value="uniform">Monte Carlo: uniform</option>
+                </select>
+            )}
+            {modeOutsideRange && (
+                <p className="text-[9px] text-amber-600">Value is outside the range; triangular sampling needs it within</p>
+            )}
+        </div>
+    );
+};
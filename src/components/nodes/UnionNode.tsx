@@ -0,0 +1,223 @@
+import React, { memo, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import type { NodeProps } from 'reactflow';
+import { Rows3, Minimize2, Maximize2, Eye, Plus, CheckSquare, Square } from 'lucide-react';
+import type { UnionNodeData, HandleData } from '../../types';
+import { useBatchVisualStore } from '../../store/useBatchVisualStore';
+import { useAppStore } from '../../store/useAppStore';
+import { useBatchDataStore } from '../../store/useBatchDataStore';
+import { useRunStore } from '../../store/useRunStore';
+import NoteIndicator from './NoteIndicator';
+import NoteEditor from './NoteEditor';
+import { NodeTitleInput } from './NodeTitleInput';
+
+const UnionNode: React.FC<NodeProps<UnionNodeData>> = ({ id, data, selected }) => {
+    const openModal = useBatchVisualStore((state) => state.openModal);
+    const updateNodeData = useAppStore((state) => state.updateNodeData);
+    const addNodeInput = useAppStore((state) => state.addNodeInput);
+    const isMinimized = !!data.isMinimized;
+    const [noteOpen, setNoteOpen] = useState(false);
+
+    const runFrom = useRunStore((state) => state.runFrom);
+    const nodeStoreData = useBatchDataStore((state) => state.getNodeData(id));
+    const batchNodes = useBatchDataStore((state) => state.nodes);
+
+    // Connected source per input handle, in input order
+    const edges = useReactFlow().getEdges();
+    const allNodes = useReactFlow().getNodes();
+    const sources = data.inputs.flatMap((input: HandleData) => {
+        const edge = edges.find(e => e.target === id && e.targetHandle === input.id);
+        const sourceNode = edge && allNodes.find(n => n.id === edge.source);
+        if (!sourceNode) return [];
+        return [{ inputId: input.id, nodeId: sourceNode.id, label: sourceNode.data?.label || input.label }];
+    });
+    const sourceByInput = new Map(sources.map(s => [s.inputId, s]));
+
+    const isConnected = sources.length > 0;
+    const report = nodeStoreData?.unionReport;
+
+    const status = nodeStoreData?.status;
+    const getStatusColor = () => {
+        if (!isConnected) return 'bg-slate-400';
+        if (status === 'SUCCESS') return 'bg-green-500';
+        if (status === 'ERROR') return 'bg-red-500';
+        if (status === 'CALCULATING') return 'bg-blue-500 animate-pulse';
+        return 'bg-yellow-500';
+    };
+
+    const handleRun = () => {
+        if (!isConnected) {
+            alert("Please connect datasets first!");
+            return;
+        }
+        runFrom(id);
+    };
+
+    const headerHeight = 36;
+
+    return (
+        <div className={`bg-white rounded-lg shadow-md overflow-visible border-2 transition-all duration-200 ${selected ? 'border-indigo-600' : 'border-slate-200'} w-[300px]`}>
+            {/* Minimized: all handles stacked at center so edges stay connected */}
+            {isMinimized && data.inputs.map((input: HandleData) => (
+                <Handle
+                    key={input.id}
+                    type="target"
+                    position={Position.Left}
+                    id={input.id}
+                    className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                    style={{ top: headerHeight / 2, left: -6 }}
+                />
+            ))}
+
+            {/* Header - Editable Title */}
+            <div className="bg-indigo-600 px-3 py-2 flex items-center justify-between rounded-t-md">
+                <div className="flex items-center gap-2 text-white flex-1">
+                    <Rows3 size={18} />
+                    <NodeTitleInput
+                        value={data.label}
+                        onChange={(val) => updateNodeData(id, { label: val })}
+                        className="text-white font-bold text-base text-left placeholder-indigo-200 w-full"
+                        placeholder="Union"
+                    />
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <div className={`w-2 h-2 rounded-full ${getStatusColor()} shadow-[0_0_8px_rgba(255,255,255,0.5)]`} />
+                    <NoteIndicator note={data.note} onClick={() => setNoteOpen(!noteOpen)} />
+                    <button onClick={() => updateNodeData(id, { isMinimized: !isMinimized })} className="text-white/80 hover:text-white transition-colors" title={isMinimized ? "Expand" : "Minimize"}>
+                        {isMinimized ? <Maximize2 size={14} /> : <Minimize2 size={14} />}
+                    </button>
+                    <button onClick={() => openModal(id)} className="text-white/80 hover:text-white transition-colors" title="View Data">
+                        <Eye size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Body - Hidden when minimized */}
+            {!isMinimized && (
+                <div className="p-3 space-y-3">
+                    {/* Inputs with inline Handles */}
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Inputs</label>
+                        <div className="space-y-0">
+                            {data.inputs.map((input: HandleData) => {
+                                const source = sourceByInput.get(input.id);
+                                return (
+                                    <div key={input.id} className="relative flex items-center gap-2 pl-2" style={{ minHeight: 24 }}>
+                                        <Handle
+                                            type="target"
+                                            position={Position.Left}
+                                            id={input.id}
+                                            className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                                            style={{ position: 'absolute', left: -18, top: '50%', transform: 'translateY(-50%)' }}
+                                        />
+                                        <span className="text-xs text-slate-600 truncate">{source?.label || input.label}</span>
+                                        {source && (
+                                            <span className="text-[9px] px-1 py-0.5 bg-green-100 text-green-600 rounded">
+                                                ✓ {batchNodes[source.nodeId]?.rowCount ?? 0}r
+                                            </span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button
+                            onClick={() => addNodeInput(id)}
+                            className="flex items-center gap-1 text-[10px] text-indigo-600 hover:text-indigo-800"
+                        >
+                            <Plus size={10} />
+                            Add input
+                        </button>
+                    </div>
+
+                    {/* Source Tag Column */}
+                    <div className="space-y-1">
+                        <button
+                            onClick={() => updateNodeData(id, { tagColumn: data.tagColumn === undefined ? 'Source' : undefined })}
+                            className="flex items-center gap-1.5 text-xs text-slate-600"
+                        >
+                            {data.tagColumn !== undefined
+                                ? <CheckSquare size={12} className="text-indigo-600" />
+                                : <Square size={12} className="text-slate-400" />}
+                            Add source column
+                        </button>
+                        {data.tagColumn !== undefined && (
+                            <input
+                                type="text"
+                                className="w-full text-xs border border-slate-200 rounded p-1 focus:outline-none focus:border-indigo-500"
+                                placeholder="Column name"
+                                value={data.tagColumn}
+                                onChange={(e) => updateNodeData(id, { tagColumn: e.target.value })}
+                            />
+                        )}
+                    </div>
+
+                    {/* Run Button */}
+                    <button
+                        onClick={handleRun}
+                        disabled={!isConnected || data.tagColumn === ''}
+                        className="w-full flex items-center justify-center gap-2 py-1.5 bg-indigo-100 text-indigo-800 rounded hover:bg-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-xs"
+                    >
+                        Append Rows
+                    </button>
+
+                    {/* Error */}
+                    {status === 'ERROR' && nodeStoreData?.errorDetails && (
+                        <div className="p-2 bg-red-50 text-red-600 rounded text-[10px] border border-red-100">
+                            <span className="font-bold">Error:</span> {nodeStoreData.errorDetails.message}
+                        </div>
+                    )}
+
+                    {/* Schema Report */}
+                    {status === 'SUCCESS' && report && report.unitConflicts.length > 0 && (
+                        <div className="p-2 bg-amber-50 text-amber-700 rounded text-[10px] border border-amber-200 space-y-0.5">
+                            <div className="font-bold">⚠️ Unit conflicts (first input's unit kept)</div>
+                            {report.unitConflicts.map((conflict) => (
+                                <div key={conflict.column}>
+                                    [{conflict.column}]: {conflict.units.map(u => `${u.unit || 'no unit'} in ${u.source}`).join(', ')}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {status === 'SUCCESS' && report && report.missingColumns.length > 0 && (
+                        <div className="p-2 bg-slate-50 text-slate-600 rounded text-[10px] border border-slate-200 space-y-0.5">
+                            <div className="font-bold">Columns missing from some inputs (left empty)</div>
+                            {report.missingColumns.map((missing) => (
+                                <div key={missing.column}>
+                                    [{missing.column}]: not in {missing.missingFrom.join(', ')}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Status Stats */}
+                    <div className="pt-2 border-t border-slate-100 flex justify-between text-[10px] text-slate-400 font-mono">
+                        <span>Inputs: {sources.length}</span>
+                        <span>Out: {nodeStoreData?.rowCount ?? '-'}</span>
+                    </div>
+
+                    {/* Note Editor */}
+                    {noteOpen && (
+                        <NoteEditor
+                            note={data.note}
+                            onChange={(note) => updateNodeData(id, { note })}
+                            isOpen={noteOpen}
+                            onToggle={() => setNoteOpen(false)}
+                            accentColor="indigo"
+                        />
+                    )}
+                </div>
+            )}
+
+            {/* Output Handle */}
+            <Handle
+                type="source"
+                position={Position.Right}
+                id={data.outputs[0]?.id}
+                className="!w-3 !h-3 !bg-indigo-600 !border-2 !border-white hover:!bg-indigo-700"
+                style={{ right: -6 }}
+            />
+        </div>
+    );
+};
+
+export default memo(UnionNode);
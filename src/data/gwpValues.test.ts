@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getGwp, resolveGas, setDefaultGwpSet, describeGwpSet } from './gwpValues';
+
+describe('getGwp', () => {
+    afterEach(() => setDefaultGwpSet({ report: 'AR5', horizon: 100 }));
+
+    it('looks up a report and horizon', () => {
+        expect(getGwp('CH4', 'AR4', 100)).toBe(25);
+        expect(getGwp('CH4', 'AR6', 20)).toBe(81.2);
+        expect(getGwp('N2O', 'AR5', 100)).toBe(265);
+    });
+
+    it('falls back to the project default', () => {
+        expect(getGwp('CH4')).toBe(28);
+        setDefaultGwpSet({ report: 'AR6', horizon: 100 });
+        expect(getGwp('CH4')).toBe(27.9);
+        expect(getGwp('CH4', 'AR4')).toBe(25);
+    });
+
+    it('returns null for gases without a GWP', () => {
+        expect(getGwp('H2O')).toBeNull();
+    });
+});
+
+describe('resolveGas', () => {
+    it('ignores case and dashes and knows PFC aliases', () => {
+        expect(resolveGas('hfc134a')).toBe('HFC-134a');
+        expect(resolveGas('PFC-14')).toBe('CF4');
+        expect(resolveGas(' sf6 ')).toBe('SF6');
+    });
+
+    it('describes a GWP set for citations', () => {
+        expect(describeGwpSet({ report: 'AR6', horizon: 20 })).toBe('IPCC AR6, 20-year');
+    });
+});
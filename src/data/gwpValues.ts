@@ -0,0 +1,104 @@
+/**
+ * Global Warming Potentials
+ * IPCC AR4 (2007), AR5 (2013) and AR6 (2021) values for the 100-year and 20-year horizons.
+ * AR5 values exclude climate-carbon feedbacks; AR6 CH4 is the non-specific (total) methane value.
+ */
+
+export type AssessmentReport = 'AR4' | 'AR5' | 'AR6';
+export type GwpHorizon = 100 | 20;
+
+// The report and time horizon a project converts with
+export interface GwpSet {
+    report: AssessmentReport;
+    horizon: GwpHorizon;
+}
+
+export const ASSESSMENT_REPORTS: AssessmentReport[] = ['AR4', 'AR5', 'AR6'];
+export const GWP_HORIZONS: GwpHorizon[] = [100, 20];
+
+// [100-year, 20-year] per report
+type GwpRow = Record<AssessmentReport, [number, number]>;
+
+const GWP_TABLE: Record<string, GwpRow> = {
+    CO2: { AR4: [1, 1], AR5: [1, 1], AR6: [1, 1] },
+    CH4: { AR4: [25, 72], AR5: [28, 84], AR6: [27.9, 81.2] },
+    N2O: { AR4: [298, 289], AR5: [265, 264], AR6: [273, 273] },
+    // HFCs
+    'HFC-23': { AR4: [14800, 12000], AR5: [12400, 10800], AR6: [14600, 12400] },
+    'HFC-32': { AR4: [675, 2330], AR5: [677, 2430], AR6: [771, 2690] },
+    'HFC-125': { AR4: [3500, 6350], AR5: [3170, 6090], AR6: [3740, 6740] },
+    'HFC-134a': { AR4: [1430, 3830], AR5: [1300, 3710], AR6: [1530, 4140] },
+    'HFC-143a': { AR4: [4470, 5890], AR5: [4800, 6940], AR6: [5810, 7840] },
+    'HFC-152a': { AR4: [124, 437], AR5: [138, 506], AR6: [164, 591] },
+    'HFC-227ea': { AR4: [3220, 5310], AR5: [3350, 5360], AR6: [3600, 5850] },
+    'HFC-236fa': { AR4: [9810, 8100], AR5: [8060, 6940], AR6: [8690, 7450] },
+    'HFC-245fa': { AR4: [1030, 3380], AR5: [858, 2920], AR6: [962, 3170] },
+    'HFC-365mfc': { AR4: [794, 2520], AR5: [804, 2660], AR6: [914, 2920] },
+    'HFC-43-10mee': { AR4: [1640, 4140], AR5: [1650, 4310], AR6: [1600, 3960] },
+    // PFCs
+    CF4: { AR4: [7390, 5210], AR5: [6630, 4880], AR6: [7380, 5300] },
+    C2F6: { AR4: [12200, 8630], AR5: [11100, 8210], AR6: [12400, 8940] },
+    C3F8: { AR4: [8830, 6310], AR5: [8900, 6640], AR6: [9290, 6770] },
+    'c-C4F8': { AR4: [10300, 7310], AR5: [9540, 7110], AR6: [10200, 7400] },
+    // Other fluorinated gases
+    SF6: { AR4: [22800, 16300], AR5: [23500, 17500], AR6: [25200, 18300] },
+    NF3: { AR4: [17200, 12300], AR5: [16100, 12800], AR6: [17400, 13400] },
+};
+
+// Gas names as offered in pickers, in table order
+export const GWP_GASES: string[] = Object.keys(GWP_TABLE);
+
+// Alternative names for the PFCs
+const GAS_ALIASES: Record<string, string> = {
+    'PFC-14': 'CF4',
+    'PFC-116': 'C2F6',
+    'PFC-218': 'C3F8',
+    'PFC-318': 'c-C4F8',
+};
+
+// Lookup key ignoring case and dashes: "HFC134a", "hfc-134a" and "HFC-134A" are the same gas
+const normalizeGas = (gas: string) => gas.trim().toUpperCase().replace(/[-\s]/g, '');
+
+const GAS_KEYS: Record<string, string> = {};
+GWP_GASES.forEach((gas) => { GAS_KEYS[normalizeGas(gas)] = gas; });
+Object.entries(GAS_ALIASES).forEach(([alias, gas]) => { GAS_KEYS[normalizeGas(alias)] = gas; });
+
+/**
+ * Canonical table name for a gas ("hfc134a" → "HFC-134a"), or null if it has no GWP
+ */
+export function resolveGas(gas: string): string | null {
+    return GAS_KEYS[normalizeGas(gas)] ?? null;
+}
+
+export function isAssessmentReport(value: unknown): value is AssessmentReport {
+    return typeof value === 'string' && (ASSESSMENT_REPORTS as string[]).includes(value);
+}
+
+// ----- Project default -----
+
+// Used when a formula or node does not name a report; kept in sync by the project store
+let defaultGwpSet: GwpSet = { report: 'AR5', horizon: 100 };
+
+export function setDefaultGwpSet(set: GwpSet): void {
+    defaultGwpSet = set;
+}
+
+export function getDefaultGwpSet(): GwpSet {
+    return defaultGwpSet;
+}
+
+/**
+ * GWP of a gas. Report and horizon default to the project setting.
+ * Returns null for gases that are not in the table.
+ */
+export function getGwp(gas: string, report?: AssessmentReport, horizon?: GwpHorizon): number | null {
+    const name = resolveGas(gas);
+    if (!name) return null;
+    const row = GWP_TABLE[name][report ?? defaultGwpSet.report];
+    return (horizon ?? defaultGwpSet.horizon) === 20 ? row[1] : row[0];
+}
+
+// Citation shown next to converted values: "IPCC AR5, 100-year"
+export function describeGwpSet(set: GwpSet): string {
+    return `IPCC ${set.report}, ${set.horizon}-year`;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseFormula } from './formulaParser';
+import type { AggregateNode } from './formulaParser';
+import { aggregateColumn, aggregateUnit, computeAggregate, validateAggregate } from './aggregates';
+import { parseUnit, formatUnit } from './unitAlgebra';
+
+const rows = [{ co2: 2, fuel: 'Coal' }, { co2: 4, fuel: 'Gas' }, { co2: '', fuel: 'Coal' }, { co2: 'n/a', fuel: 'Oil' }, { co2: 9, fuel: 'Coal' }];
+const aggregate = (formula: string) => parseFormula(formula) as AggregateNode;
+
+describe('aggregateColumn', () => {
+    it('skips blank and non-numeric cells', () => {
+        expect(aggregateColumn('SUM', rows, 'co2')).toBe(15);
+        expect(aggregateColumn('AVG', rows, 'co2')).toBe(5);
+        expect(aggregateColumn('COUNT', rows, 'co2')).toBe(3);
+        expect(aggregateColumn('MIN', rows, 'co2')).toBe(2);
+        expect(aggregateColumn('MAX', rows, 'co2')).toBe(9);
+        expect(aggregateColumn('MEDIAN', rows, 'co2')).toBe(4);
+    });
+
+    it('uses the sample variance and inclusive percentiles, as Excel', () => {
+        expect(aggregateColumn('VAR', rows, 'co2')).toBe(13);
+        expect(aggregateColumn('STDEV', rows, 'co2')).toBeCloseTo(Math.sqrt(13));
+        expect(aggregateColumn('PERCENTILE', rows, 'co2', 0.75)).toBe(6.5);
+        expect(aggregateColumn('VAR', rows.slice(0, 1), 'co2')).toBeNull();
+    });
+
+    it('finds the minimum and maximum of columns too long to spread into arguments', () => {
+        const many = Array.from({ length: 300_000 }, (_, i) => ({ co2: i % 1000 === 0 ? -i : i }));
+        expect(aggregateColumn('MIN', many, 'co2')).toBe(-299_000);
+        expect(aggregateColumn('MAX', many, 'co2')).toBe(299_999);
+    });
+
+    it('counts distinct non-blank values', () => {
+        expect(aggregateColumn('DISTINCTCOUNT', rows, 'fuel')).toBe(3);
+    });
+
+    it('returns null without numbers, except for counts', () => {
+        expect(aggregateColumn('SUM', rows, 'fuel')).toBeNull();
+        expect(aggregateColumn('COUNT', rows, 'fuel')).toBe(0);
+    });
+});
+
+describe('computeAggregate', () => {
+    const isCoal = (row: Record<string, unknown>) => row.fuel === 'Coal';
+
+    it('aggregates the rows matching a condition', () => {
+        expect(computeAggregate(aggregate('$SUMIF_[co2]([fuel] == "Coal")'), rows, isCoal)).toBe(11);
+        expect(computeAggregate(aggregate('$COUNTIF_[co2]([fuel] == "Coal")'), rows, isCoal)).toBe(2);
+        expect(computeAggregate(aggregate('$AVERAGEIF_[co2]([fuel] == "Coal")'), rows, isCoal)).toBe(5.5);
+    });
+
+    it('sums no matching rows to 0', () => {
+        expect(computeAggregate(aggregate('$SUMIF_[co2]([fuel] == "Wood")'), rows, () => false)).toBe(0);
+        expect(computeAggregate(aggregate('$AVERAGEIF_[co2]([fuel] == "Wood")'), rows, () => false)).toBeNull();
+    });
+
+    it('passes the percentile fraction', () => {
+        expect(computeAggregate(aggregate('$PERCENTILE_[co2](0.5)'), rows)).toBe(4);
+    });
+});
+
+describe('validateAggregate', () => {
+    it('checks function names and arguments', () => {
+        expect(validateAggregate(aggregate('$SUM_[co2]'))).toBeNull();
+        expect(validateAggregate(aggregate('$TOTAL_[co2]'))).toMatch(/^Unknown aggregate \$TOTAL_/);
+        expect(validateAggregate(aggregate('$SUM_[co2](1)'))).toBe('$SUM_[co2] takes no arguments');
+        expect(validateAggregate(aggregate('$PERCENTILE_[co2](95)'))).toContain('needs a fraction between 0 and 1');
+        expect(validateAggregate(aggregate('$SUMIF_[co2]'))).toContain('needs one condition');
+    });
+});
+
+describe('aggregateUnit', () => {
+    it('makes counts unitless and squares variance', () => {
+        expect(formatUnit(aggregateUnit('COUNTIF', parseUnit('t')))).toBe('unitless');
+        expect(formatUnit(aggregateUnit('VAR', parseUnit('t')))).toBe('t²');
+        expect(formatUnit(aggregateUnit('STDEV', parseUnit('t')))).toBe('t');
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Dataset Aggregates
+ * The $FUNC_[column] aggregates shared by Process-node formulas (calculationEngine),
+ * Table Math columns (batchCalculationEngine) and the Group By node.
+ *
+ *   $SUM_ $AVG_ $MIN_ $MAX_ $COUNT_ $MEDIAN_ $STDEV_ $VAR_ $DISTINCTCOUNT_   over a column
+ *   $PERCENTILE_[col](0.95)                                                 k between 0 and 1
+ *   $SUMIF_[col](condition) $COUNTIF_ $AVERAGEIF_                           over the rows where the condition holds
+ */
+
+import type { AggregateNode } from './formulaParser';
+import { parseUnit, powerUnit } from './unitAlgebra';
+import type { UnitExpression } from './unitAlgebra';
+
+export type AggregateRow = Record<string, unknown>;
+
+// Conditional form → the aggregate applied to the matching rows
+const CONDITIONAL_AGGREGATES: Record<string, string> = {
+    SUMIF: 'SUM',
+    COUNTIF: 'COUNT',
+    AVERAGEIF: 'AVG',
+};
+
+const COLUMN_AGGREGATES = new Set(['SUM', 'AVG', 'MIN', 'MAX', 'COUNT', 'MEDIAN', 'STDEV', 'VAR', 'PERCENTILE', 'DISTINCTCOUNT']);
+
+// Counts are unitless whatever the column's unit
+const COUNT_AGGREGATES = new Set(['COUNT', 'COUNTIF', 'DISTINCTCOUNT']);
+
+export const isConditionalAggregate = (func: string): boolean => func in CONDITIONAL_AGGREGATES;
+
+const isBlank = (v: unknown): boolean => v === null || v === undefined || v === '';
+
+function numericValues(rows: AggregateRow[], column: string): number[] {
+    return rows
+        .map(row => row[column])
+        .filter(v => !isBlank(v) && !isNaN(Number(v)))
+        .map(v => Number(v));
+}
+
+export function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Inclusive percentile with linear interpolation, as Excel's PERCENTILE.INC
+function percentile(values: number[], k: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = k * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+// Sample variance (n - 1), as Excel's VAR.S
+function variance(values: number[]): number | null {
+    if (values.length < 2) return null;
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Aggregate one column over `rows`. Blank and non-numeric cells are skipped; null when
+ * there is nothing to aggregate (no numbers, or fewer than two for STDEV/VAR).
+ */
+export function aggregateColumn(func: string, rows: AggregateRow[], column: string, parameter?: number): number | null {
+    if (func === 'DISTINCTCOUNT') {
+        return new Set(rows.map(row => row[column]).filter(v => !isBlank(v)).map(v => String(v).trim())).size;
+    }
+
+    const values = numericValues(rows, column);
+    if (func === 'COUNT') return values.length;
+    if (values.length === 0) return null;
+
+    switch (func) {
+        case 'SUM': return values.reduce((s, v) => s + v, 0);
+        case 'AVG': return values.reduce((s, v) => s + v, 0) / values.length;
+        case 'MIN': return values.reduce((m, v) => (v < m ? v : m));
+        case 'MAX': return values.reduce((m, v) => (v > m ? v : m));
+        case 'MEDIAN': return median(values);
+        case 'VAR': return variance(values);
+        case 'STDEV': {
+            const v = variance(values);
+            return v === null ? null : Math.sqrt(v);
+        }
+        case 'PERCENTILE': return percentile(values, parameter ?? 0.5);
+        default: return null;
+    }
+}
+
+/**
+ * Check an aggregate's function name and arguments; returns an error message or null
+ */
+export function validateAggregate(node: AggregateNode): string | null {
+    const label = `$${node.func}_[${node.column}]`;
+    const args = node.args || [];
+
+    if (isConditionalAggregate(node.func)) {
+        return args.length === 1 ? null : `${label} needs one condition, e.g. $${node.func}_[${node.column}]([Fuel] == "Coal")`;
+    }
+    if (!COLUMN_AGGREGATES.has(node.func)) {
+        return `Unknown aggregate $${node.func}_ - use SUM, AVG, MIN, MAX, COUNT, MEDIAN, STDEV, VAR, PERCENTILE, DISTINCTCOUNT, SUMIF, COUNTIF or AVERAGEIF`;
+    }
+    if (node.func === 'PERCENTILE') {
+        const k = args[0];
+        if (args.length !== 1 || k.type !== 'number' || k.unit || k.value < 0 || k.value > 1) {
+            return `${label} needs a fraction between 0 and 1, e.g. $PERCENTILE_[${node.column}](0.95)`;
+        }
+        return null;
+    }
+    return args.length === 0 ? null : `${label} takes no arguments`;
+}
+
+/**
+ * Value of an aggregate over `rows`. Conditional forms keep the rows for which `matches`
+ * (the compiled condition) is true; SUMIF and COUNTIF of no matching rows are 0.
+ */
+export function computeAggregate(node: AggregateNode, rows: AggregateRow[], matches?: (row: AggregateRow) => boolean): number | null {
+    const conditional = CONDITIONAL_AGGREGATES[node.func];
+    if (conditional) {
+        const matching = matches ? rows.filter(matches) : rows;
+        const value = aggregateColumn(conditional, matching, node.column);
+        return value === null && conditional === 'SUM' ? 0 : value;
+    }
+
+    const k = node.args?.[0];
+    return aggregateColumn(node.func, rows, node.column, k?.type === 'number' ? k.value : undefined);
+}
+
+/**
+ * Unit of an aggregate of a column in `columnUnit`: counts are unitless, variance is squared
+ */
+export function aggregateUnit(func: string, columnUnit: UnitExpression): UnitExpression {
+    if (COUNT_AGGREGATES.has(func)) return parseUnit('');
+    if (func === 'VAR') return powerUnit(columnUnit, 2) ?? columnUnit;
+    return columnUnit;
+}
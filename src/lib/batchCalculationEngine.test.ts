@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import { executeBatchFormula, executeBatchFormulaColumn } from './batchCalculationEngine';
+import type { ColumnType } from '../types';
+
+describe('CO2E', () => {
+    const rows = [{ Gas: 'CH4', Amount: 2 }, { Gas: 'N2O', Amount: 1 }];
+
+    it('multiplies by the GWP of a fixed or per-row gas', () => {
+        const fixed = executeBatchFormula(rows, 'CO2e', 'CO2E([Amount], "CH4", "AR4", 100)', ['Gas', 'Amount'], { Amount: 't' });
+        expect(fixed.data?.map((row) => row.CO2e)).toEqual([50, 25]);
+
+        const perRow = executeBatchFormula(rows, 'CO2e', 'CO2E([Amount], [Gas], "AR5")', ['Gas', 'Amount']);
+        expect(perRow.data?.map((row) => row.CO2e)).toEqual([56, 265]);
+    });
+
+    it('relabels the gas in the derived unit', () => {
+        const result = executeBatchFormula(rows, 'CO2e', 'CO2E([Amount], "CH4")', ['Gas', 'Amount'], { Amount: 't.CH4' });
+        expect(result.derivedUnit).toBe('t.CO2e');
+    });
+
+    it('rejects unknown gases and reports', () => {
+        expect(executeBatchFormula(rows, 'x', 'CO2E([Amount], "H2O")', ['Gas', 'Amount']).error?.message).toContain('no GWP for gas "H2O"');
+        expect(executeBatchFormula(rows, 'x', 'CO2E([Amount], "CH4", "AR3")', ['Gas', 'Amount']).error?.message).toContain('unknown assessment report');
+    });
+});
+
+describe('window functions and grouped aggregates', () => {
+    const rows = [
+        { year: 2021, sector: 'a', co2: 5 },
+        { year: 2021, sector: 'b', co2: 3 },
+        { year: 2022, sector: 'a', co2: 5 },
+        { year: 2022, sector: 'b', co2: null },
+        { year: 2023, sector: 'a', co2: 10 },
+    ];
+    const schema = ['year', 'sector', 'co2'];
+    const column = (formula: string, units: Record<string, string> = {}) => {
+        const result = executeBatchFormula(rows, 'out', formula, schema, units);
+        if (!result.success) throw new Error(result.error?.message);
+        return result.data!.map((row) => row.out);
+    };
+
+    it('gives every row the aggregate of its group', () => {
+        expect(column('$SUM_[co2] BY [sector]')).toEqual([20, 3, 20, 3, 20]);
+        expect(column('[co2] / $SUM_[co2] BY [sector] * 100')).toEqual([25, 100, 25, 0, 50]);
+    });
+
+    it('keeps running totals per group in table order', () => {
+        expect(column('RUNNINGTOTAL([co2])')).toEqual([5, 8, 13, 13, 23]);
+        expect(column('RUNNINGTOTAL([co2]) BY [sector]')).toEqual([5, 3, 10, 3, 20]);
+    });
+
+    it('reads earlier and later rows with a default at the edges', () => {
+        expect(column('LAG([co2]) BY [sector]')).toEqual([0, 0, 5, 3, 5]);
+        expect(column('LEAD([co2], 2, -1)')).toEqual([5, -1, 10, -1, -1]);
+    });
+
+    it('ranks with ties sharing a rank and blanks ranked 0', () => {
+        expect(column('RANK([co2])')).toEqual([2, 4, 2, 0, 1]);
+        expect(column('RANK([co2], "asc") BY [sector]')).toEqual([1, 1, 1, 0, 3]);
+    });
+
+    it('gives the cumulative share of the largest rows first', () => {
+        const shares = executeBatchFormula([{ co2: 20 }, { co2: 50 }, { co2: 30 }], 'out', 'CUMPERCENT([co2])', ['co2']);
+        expect(shares.data?.map((row) => row.out)).toEqual([100, 50, 80]);
+    });
+
+    it('keeps the column unit except for ranks and shares', () => {
+        expect(executeBatchFormula(rows, 'out', 'RUNNINGTOTAL([co2])', schema, { co2: 't' }).derivedUnit).toBe('t');
+        expect(executeBatchFormula(rows, 'out', 'RANK([co2])', schema, { co2: 't' }).derivedUnit).toBe('unitless');
+    });
+
+    it('rejects invalid arguments and unknown group columns', () => {
+        expect(executeBatchFormula(rows, 'out', 'LAG([co2], 1.5)', schema).error?.message).toBe('LAG: offset must be a whole number of rows');
+        expect(executeBatchFormula(rows, 'out', 'RANK([co2], "up")', schema).error?.message).toBe('RANK: order must be "asc" or "desc"');
+        expect(executeBatchFormula(rows, 'out', 'RUNNINGTOTAL([co2]) BY [site]', schema).error?.message).toContain('Unknown column [site]');
+    });
+});
+
+describe('conditional aggregates', () => {
+    const rows = [{ fuel: 'Coal', co2: 6 }, { fuel: 'Gas', co2: 2 }, { fuel: 'Coal', co2: 2 }];
+
+    it('evaluates the condition for every row of the table', () => {
+        const result = executeBatchFormula(rows, 'share', '[co2] / $SUMIF_[co2]([fuel] == "Coal")', ['fuel', 'co2'], { co2: 't' });
+        expect(result.data?.map((row) => row.share)).toEqual([0.75, 0.25, 0.25]);
+        expect(result.derivedUnit).toBe('unitless');
+    });
+
+    it('reports invalid aggregates before running', () => {
+        expect(executeBatchFormula(rows, 'x', '$PERCENTILE_[co2](2)', ['fuel', 'co2']).error?.message).toContain('needs a fraction between 0 and 1');
+    });
+});
+
+describe('text and date functions', () => {
+    const rows = [{ code: ' ab-01 ', date: '15/01/2023' }, { code: 'cd-02', date: '2023-03-01' }];
+
+    it('are available in batch formulas', () => {
+        const result = executeBatchFormula(rows, 'out', 'CONCAT(UPPER(TRIM([code])), " ", YEAR([date]))', ['code', 'date']);
+        expect(result.data?.map((row) => row.out)).toEqual(['AB-01 2023', 'CD-02 2023']);
+
+        const days = executeBatchFormula(rows, 'days', 'DATEDIFF("2023-01-01", [date])', ['code', 'date']);
+        expect(days.data?.map((row) => row.days)).toEqual([14, 59]);
+    });
+});
+
+describe('executeBatchFormula', () => {
+    const values = (rows: Record<string, unknown>[], formula: string, scalars = {}) => {
+        const result = executeBatchFormula(rows, 'out', formula, Object.keys(rows[0]), {}, scalars);
+        if (!result.success) throw new Error(result.error?.message);
+        return result.data!.map((row) => row.out);
+    };
+
+    it('evaluates every row with its own column values', () => {
+        expect(values([{ litres: 2, ef: 3 }, { litres: 5, ef: 0.5 }], '[litres] * [ef] + 1')).toEqual([7, 3.5]);
+        expect(values([{ co2: 1 }, { co2: 3 }], '[co2] / $SUM_[co2] * 100')).toEqual([25, 75]);
+        expect(values([{ co2: 1 }, { co2: 3 }], '[co2] * [EF]', { EF: { value: 2, unit: '' } })).toEqual([2, 6]);
+    });
+
+    it('ignores columns the formula does not reference', () => {
+        expect(values([{ a: 1, note: 'n/a' }, { a: 2, note: { nested: true } }], '[a] * 2')).toEqual([2, 4]);
+    });
+
+    it('keeps the other columns of each row', () => {
+        const result = executeBatchFormula([{ a: 1, b: 'x' }], 'out', '[a] + 1', ['a', 'b']);
+        expect(result.data).toEqual([{ a: 1, b: 'x', out: 2 }]);
+    });
+
+    it('reports syntax errors and failing rows', () => {
+        expect(executeBatchFormula([{ a: 1 }], 'out', '[a] *', ['a'])).toMatchObject({ success: false, error: { rowIndex: -1 } });
+        expect(executeBatchFormula([{ a: 1 }, { a: 'x' }], 'out', '[a] * 2', ['a'])).toMatchObject({ success: false, error: { rowIndex: 2 } });
+    });
+});
+
+describe('cells by column type', () => {
+    const values = (rows: Record<string, unknown>[], formula: string, columnTypes: Record<string, ColumnType> = {}) => {
+        const result = executeBatchFormulaColumn(rows, formula, Object.keys(rows[0]), {}, {}, undefined, columnTypes);
+        if (!result.success) throw new Error(result.error?.message);
+        return result.values;
+    };
+
+    it('passes text columns to formulas as text', () => {
+        const rows = [{ code: ' 1.10 ', id: '007', note: null }];
+        const types: Record<string, ColumnType> = { code: 'string', id: 'string', note: 'string' };
+        expect(values(rows, 'TRIM([code])', types)).toEqual(['1.10']);
+        expect(values(rows, 'LEFT([id], 3)', types)).toEqual(['007']);
+        expect(values(rows, 'UPPER([note])', types)).toEqual(['']);
+    });
+
+    it('reads numeric-looking text as numbers in untyped columns', () => {
+        expect(values([{ n: '4' }, { n: null }], '[n] * 2')).toEqual([8, 0]);
+    });
+
+    it('matches lookup keys by column type', () => {
+        const rows = [{ key: '007', code: '007', value: 1 }, { key: '8', code: '8', value: 2 }];
+        const types: Record<string, ColumnType> = { key: 'string', code: 'string', value: 'number' };
+        expect(values(rows, 'XLOOKUP([key], [code], [value])', types)).toEqual([1, 2]);
+    });
+
+    it('extracts with regex escapes written as in the help', () => {
+        const rows = [{ unit: 'PLTU-12' }, { unit: 'SLY-U-07' }];
+        expect(values(rows, 'REGEXEXTRACT([unit], "-(\\d+)$")', { unit: 'string' })).toEqual(['12', '07']);
+    });
+
+    it('applies to conditional aggregates', () => {
+        const rows = [{ id: '007', co2: 5 }, { id: '7', co2: 3 }];
+        expect(values(rows, '$SUMIF_[co2]([id] == "007")', { id: 'string', co2: 'number' })).toEqual([5, 5]);
+    });
+});
+
+describe('RANK', () => {
+    const rows = [5, 3, 5, null, 1, 3, 9].map((co2, i) => ({ co2, sector: i % 2 ? 'a' : 'b' }));
+    const values = (formula: string) => executeBatchFormulaColumn(rows, formula, ['co2', 'sector'], {}, {}).values;
+
+    it('gives ties the same rank and skips the ranks after them', () => {
+        expect(values('RANK([co2])')).toEqual([2, 4, 2, 0, 6, 4, 1]);
+        expect(values('RANK([co2], "asc")')).toEqual([4, 2, 4, 0, 1, 2, 6]);
+    });
+
+    it('ranks within each group', () => {
+        expect(values('RANK([co2]) BY [sector]')).toEqual([2, 1, 2, 0, 4, 1, 1]);
+    });
+});
+
+describe('unit literals', () => {
+    const rows = [{ fuel: 10 }];
+
+    it('multiplies by constants after a number', () => {
+        const result = executeBatchFormulaColumn(rows, '[fuel] * 2 pi', ['fuel'], { fuel: 't' });
+        expect(result.values?.[0]).toBeCloseTo(62.83, 2);
+        expect(result.derivedUnit).toBe('t');
+    });
+
+    it('warns about unknown unit words', () => {
+        const result = executeBatchFormulaColumn(rows, '[fuel] * 1000 kgg/t', ['fuel'], { fuel: 't' });
+        expect(result.unitWarning).toBe('Unknown unit "kgg" in "1000 kgg/t"');
+    });
+});
@@ -1,5 +1,12 @@
 import { create, all } from 'mathjs';
-import { deriveUnitFromFormula } from './unitAlgebra';
+import type { EvalFunction } from 'mathjs';
+import { parseFormula, formatFormula, walkFormula } from './formulaParser';
+import type { FormulaNode, AggregateNode, WindowNode, RefNode } from './formulaParser';
+import { parseUnit, formatUnit, inferFormulaUnits } from './unitAlgebra';
+import { computeAggregate, validateAggregate, aggregateUnit, isConditionalAggregate } from './aggregates';
+import { getGwp, isAssessmentReport } from '../data/gwpValues';
+import { TEXT_DATE_FUNCTIONS, TEXT_DATE_FUNCTION_NAMES } from './textDateFunctions';
+import type { ColumnType } from '../types';
 
 const math = create(all);
 
@@ -43,7 +50,9 @@ math.import({
 // Whitelist of known function names that are allowed without brackets
 const KNOWN_FUNCTIONS = new Set([
     // Custom functions
-    'IF', 'IFS', 'SWITCH', 'XLOOKUP', 'CEILINGLOOKUP', 'FLOORLOOKUP',
+    'IF', 'IFS', 'SWITCH', 'XLOOKUP', 'CEILINGLOOKUP', 'FLOORLOOKUP', 'CO2E',
+    // Text & date functions (textDateFunctions.ts)
+    ...TEXT_DATE_FUNCTION_NAMES,
     // Common math.js functions
     'sqrt', 'abs', 'pow', 'round', 'ceil', 'floor', 'log', 'log2', 'log10', 'exp',
     'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2',
@@ -172,14 +181,41 @@ const floorlookupImpl = function (lookupValue: any, lookupArray: any, returnArra
 (floorlookupImpl as any).rawArgs = false;
 math.import({ FLOORLOOKUP: floorlookupImpl }, { override: true });
 
+// CO2E(value, gas, report?, horizon?)
+// Multiplies by the gas's GWP; report ("AR4"/"AR5"/"AR6") and horizon (100/20) default to the project setting
+const co2eImpl = function (value: unknown, gas: unknown, report?: unknown, horizon?: unknown) {
+    if (report !== undefined && !isAssessmentReport(report)) {
+        throw new Error(`CO2E: unknown assessment report "${String(report)}" - use "AR4", "AR5" or "AR6"`);
+    }
+    if (horizon !== undefined && horizon !== 20 && horizon !== 100) {
+        throw new Error('CO2E: horizon must be 100 or 20');
+    }
+    const gwp = getGwp(String(gas), report, horizon);
+    if (gwp === null) {
+        throw new Error(`CO2E: no GWP for gas "${String(gas)}"`);
+    }
+    return Number(value) * gwp;
+};
+math.import({ CO2E: co2eImpl }, { override: true });
+
+// TRIM, LEFT, REGEXEXTRACT, DATE, DATEDIFF, EOMONTH, ...
+math.import(TEXT_DATE_FUNCTIONS, { override: true });
+
 export interface ScalarInput {
     value: number;
     unit: string;
 }
 
+// Fraction of the rows done (0-1), reported every PROGRESS_INTERVAL rows by long loops
+export type ProgressCallback = (fraction: number) => void;
+
+export const PROGRESS_INTERVAL = 10000;
+
 export interface CalculationResult {
     success: boolean;
     data?: any[];
+    // The calculated column, one value per row (executeBatchFormulaColumn)
+    values?: unknown[];
     error?: {
         rowIndex: number;
         message: string;
@@ -198,112 +234,294 @@ const sanitizeVarName = (name: string): string => {
     return safe;
 };
 
+const LOOKUP_FUNCTIONS = new Set(['XLOOKUP', 'CEILINGLOOKUP', 'FLOORLOOKUP']);
+
+// ── Row-context functions ──────────────────────────────────────────
+// Grouped aggregates ($SUM_[CO2] BY [Sector]) and window functions get one value per row,
+// computed before the row loop in table order
+
+type TableRow = Record<string, unknown>;
+
 /**
- * Aggregate Function Interface
+ * Value a formula reads from a cell, by its column's type. Text and date cells stay text, so
+ * codes like "007" keep their zeros (blank → ""); booleans stay booleans (blank → null). Number
+ * and untyped columns read numbers, with blanks as 0.
  */
-interface AggregateFunction {
-    name: string;           // e.g., "$SUM_"
-    column: string;         // e.g., "CO2"
-    groupBy?: string;       // Optional group column
-    originalSyntax: string; // Full syntax from formula
-}
+const formulaValue = (value: unknown, type?: ColumnType): unknown => {
+    const blank = value === null || value === undefined || value === '';
+    switch (type) {
+        case 'string':
+        case 'date':
+            return blank ? '' : String(value);
+        case 'boolean':
+            return blank ? null : value;
+        default: {
+            const number = Number(value);
+            return isNaN(number) ? value : number;
+        }
+    }
+};
 
 /**
- * Detect aggregate functions in formula
- * Syntax: $SUM_[column] or $AVG_[column] etc.
+ * Compile the condition of $SUMIF_ / $COUNTIF_ / $AVERAGEIF_ into a row test.
+ * Bracketed references are columns of the dataset; throws on anything else.
  */
-const detectAggregates = (formula: string): AggregateFunction[] => {
-    const aggregates: AggregateFunction[] = [];
-    const regex = /\$([A-Z]+)_\[([^\]]+)\]/g;
-    let match;
-
-    while ((match = regex.exec(formula)) !== null) {
-        const funcName = match[1]; // SUM, AVG, etc.
-        const column = match[2];   // Column name
-        aggregates.push({
-            name: `$${funcName}_`,
-            column,
-            originalSyntax: match[0]
+export const compileRowCondition = (
+    condition: FormulaNode,
+    columns: string[],
+    columnTypes: Record<string, ColumnType> = {}
+): ((row: TableRow) => boolean) => {
+    const scopeNames = new Map<string, string>();
+    walkFormula(condition, (node) => {
+        if (node.type === 'aggregate' || node.type === 'window') {
+            throw new Error(`${formatFormula(node)} cannot be used inside an aggregate condition`);
+        }
+        const word = node.type === 'call' || (node.type === 'ref' && !node.bracketed) ? node.name : null;
+        if (word && !KNOWN_FUNCTIONS.has(word)) {
+            throw new Error(`Invalid term "${word}" in condition - column references must be in brackets like [${word}]`);
+        }
+        if (node.type === 'ref' && node.bracketed) {
+            if (!columns.includes(node.name)) throw new Error(`Unknown column [${node.name}] in condition`);
+            if (!scopeNames.has(node.name)) scopeNames.set(node.name, `__cond_${scopeNames.size}`);
+        }
+    });
+
+    const compiled = math.compile(formatFormula(condition, {
+        ref: (node) => (node.bracketed ? scopeNames.get(node.name) as string : node.name),
+    }));
+    return (row) => {
+        const scope: Record<string, unknown> = {};
+        scopeNames.forEach((name, column) => {
+            scope[name] = formulaValue(row[column], columnTypes[column]);
         });
-    }
+        return Boolean(compiled.evaluate(scope));
+    };
+};
+
+// Row test of a conditional aggregate; undefined for the other aggregates
+const aggregateCondition = (node: AggregateNode, columns: string[], columnTypes: Record<string, ColumnType>) =>
+    isConditionalAggregate(node.func) && node.args?.[0] ? compileRowCondition(node.args[0], columns, columnTypes) : undefined;
+
+// Window functions without a unit of their own
+const UNITLESS_WINDOW_FUNCTIONS = new Set(['RANK', 'CUMPERCENT']);
+
+const cellNumber = (value: unknown): number | null =>
+    value === null || value === undefined || value === '' || isNaN(Number(value)) ? null : Number(value);
 
-    return aggregates;
+/**
+ * Row indices of each group in table order; no group columns means one group
+ */
+const partitionRowIndices = (rows: TableRow[], groupBy: string[] = []): number[][] => {
+    const groups = new Map<string, number[]>();
+    rows.forEach((row, index) => {
+        const key = groupBy.map(column => String(row[column] ?? '')).join('\u0001');
+        const members = groups.get(key);
+        if (members) members.push(index);
+        else groups.set(key, [index]);
+    });
+    return [...groups.values()];
+};
+
+// Literal value of a window argument (offset, default, sort order)
+const literalArgument = (node: WindowNode, index: number): unknown => {
+    const arg = node.args[index];
+    if (!arg) return undefined;
+    if (arg.type === 'number' && !arg.unit) return arg.value;
+    if (arg.type === 'string' || arg.type === 'boolean') return arg.value;
+    if (arg.type === 'null') return null;
+    if (arg.type === 'unary' && arg.op === '-' && arg.operand.type === 'number') return -arg.operand.value;
+    throw new Error(`${node.func}: argument ${index + 2} must be a plain number or "text"`);
 };
 
 /**
- * Calculate aggregate value
+ * Check the arguments of a window function; returns an error message or null
  */
-const calculateAggregate = (
-    funcName: string,
-    column: string,
-    rows: any[]
-): number | null => {
-    const values = rows
-        .map(row => row[column])
-        .filter(v => v !== null && v !== undefined && !isNaN(Number(v)))
-        .map(v => Number(v));
-
-    if (values.length === 0) return null;
-
-    switch (funcName) {
-        case '$SUM_':
-            return values.reduce((sum, v) => sum + v, 0);
-        case '$AVG_':
-            return values.reduce((sum, v) => sum + v, 0) / values.length;
-        case '$MIN_':
-            return Math.min(...values);
-        case '$MAX_':
-            return Math.max(...values);
-        case '$COUNT_':
-            return values.length;
-        default:
-            return null;
+const validateWindow = (node: WindowNode): string | null => {
+    const maxArgs = node.func === 'LAG' || node.func === 'LEAD' ? 2 : node.func === 'RANK' ? 1 : 0;
+    if (node.args.length > maxArgs) {
+        return `${node.func} takes at most ${maxArgs + 1} argument${maxArgs === 0 ? '' : 's'}`;
     }
+    try {
+        if (node.func === 'LAG' || node.func === 'LEAD') {
+            const offset = literalArgument(node, 0) ?? 1;
+            if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+                return `${node.func}: offset must be a whole number of rows`;
+            }
+            literalArgument(node, 1);
+        }
+        if (node.func === 'RANK') {
+            const order = literalArgument(node, 0) ?? 'desc';
+            if (order !== 'asc' && order !== 'desc') return 'RANK: order must be "asc" or "desc"';
+        }
+    } catch (error) {
+        return (error as Error).message;
+    }
+    return null;
 };
 
+/**
+ * Per-row value of a grouped aggregate: the aggregate of the row's group
+ */
+const calculateGroupedAggregate = (
+    node: AggregateNode,
+    rows: TableRow[],
+    columns: string[],
+    columnTypes: Record<string, ColumnType>
+): number[] => {
+    const values = new Array<number>(rows.length);
+    const matches = aggregateCondition(node, columns, columnTypes);
+    partitionRowIndices(rows, node.groupBy).forEach(indices => {
+        const value = computeAggregate(node, indices.map(i => rows[i]), matches) ?? 0;
+        indices.forEach(i => { values[i] = value; });
+    });
+    return values;
+};
+
+/**
+ * Per-row value of a window function; blank cells add nothing to running totals and get rank 0
+ */
+const calculateWindow = (node: WindowNode, rows: TableRow[]): unknown[] => {
+    const values = new Array<unknown>(rows.length).fill(0);
+    const { column } = node;
+
+    partitionRowIndices(rows, node.groupBy).forEach(indices => {
+        switch (node.func) {
+            case 'RUNNINGTOTAL': {
+                let total = 0;
+                indices.forEach(i => {
+                    total += cellNumber(rows[i][column]) ?? 0;
+                    values[i] = total;
+                });
+                break;
+            }
+            case 'LAG':
+            case 'LEAD': {
+                const offset = (literalArgument(node, 0) ?? 1) as number;
+                const fallback = literalArgument(node, 1) ?? 0;
+                const step = node.func === 'LAG' ? -offset : offset;
+                indices.forEach((i, position) => {
+                    const source = indices[position + step];
+                    if (source === undefined) {
+                        values[i] = fallback;
+                        return;
+                    }
+                    const raw = rows[source][column];
+                    values[i] = raw === null || raw === undefined || raw === '' ? fallback : cellNumber(raw) ?? raw;
+                });
+                break;
+            }
+            case 'RANK': {
+                // Competition ranking: ties share a rank, the next rank skips ("1, 2, 2, 4")
+                const ascending = literalArgument(node, 0) === 'asc';
+                const ranked = indices
+                    .map(i => ({ i, value: cellNumber(rows[i][column]) }))
+                    .filter((item): item is { i: number; value: number } => item.value !== null)
+                    .sort((a, b) => (ascending ? a.value - b.value : b.value - a.value));
+                ranked.forEach((item, position) => {
+                    const previous = ranked[position - 1];
+                    values[item.i] = previous && previous.value === item.value ? values[previous.i] : position + 1;
+                });
+                break;
+            }
+            case 'CUMPERCENT': {
+                // Pareto share: rows sorted largest first, each row gets the cumulative % up to and including itself
+                const ranked = indices
+                    .map(i => ({ i, value: cellNumber(rows[i][column]) }))
+                    .filter((item): item is { i: number; value: number } => item.value !== null)
+                    .sort((a, b) => b.value - a.value);
+                const total = ranked.reduce((sum, item) => sum + item.value, 0);
+                let running = 0;
+                ranked.forEach(item => {
+                    running += item.value;
+                    values[item.i] = total === 0 ? 0 : (running / total) * 100;
+                });
+                break;
+            }
+        }
+    });
+    return values;
+};
+
+/**
+ * Add the formula's result to every row as `newColumnName` (rows are copied, not modified)
+ */
 export const executeBatchFormula = (
     rows: any[],
     newColumnName: string,
     formula: string,
     existingSchema: string[],
     columnUnits: Record<string, string> = {},
-    scalarInputs: Record<string, ScalarInput> = {}
+    scalarInputs: Record<string, ScalarInput> = {},
+    onProgress?: ProgressCallback,
+    columnTypes: Record<string, ColumnType> = {}
 ): CalculationResult => {
-    const updatedRows = [...rows];
+    const result = executeBatchFormulaColumn(rows, formula, existingSchema, columnUnits, scalarInputs, onProgress, columnTypes);
+    if (!result.success || !result.values) return result;
+
+    const values = result.values;
+    const data = rows.map((row: TableRow, i: number) => {
+        // Copied key by key: object spread is several times slower on rows with many columns
+        const newRow: TableRow = {};
+        for (const key in row) newRow[key] = row[key];
+        newRow[newColumnName] = values[i];
+        return newRow;
+    });
+    return { ...result, values: undefined, data, newColumn: newColumnName };
+};
 
+/**
+ * Evaluate a formula for every row and return only the resulting column (`values`);
+ * rows need just the columns the formula references. Cells are read by their column's type
+ * (see formulaValue); columns without a type read as numbers where they look like one.
+ */
+export const executeBatchFormulaColumn = (
+    rows: TableRow[],
+    formula: string,
+    existingSchema: string[],
+    columnUnits: Record<string, string> = {},
+    scalarInputs: Record<string, ScalarInput> = {},
+    onProgress?: ProgressCallback,
+    columnTypes: Record<string, ColumnType> = {}
+): CalculationResult => {
     // Validate formula
     if (!formula || formula.trim() === '') {
         return { success: false, error: { rowIndex: -1, message: "Formula is empty" } };
     }
 
+    let tree: FormulaNode;
+    try {
+        tree = parseFormula(formula, { isFunction: (name) => KNOWN_FUNCTIONS.has(name) });
+    } catch (error) {
+        return { success: false, error: { rowIndex: -1, message: `Syntax error: ${(error as Error).message}` } };
+    }
+
     // Validate that all word references are in brackets (with exceptions for known functions)
-    // Step 1: Remove all safe tokens from formula, then check what remains
-    const cleanedFormula = formula
-        .replace(/\$[A-Z]+_\[[^\]]+\]/g, '')   // Remove aggregate syntax $SUM_[col]
-        .replace(/\[[^\]]+\]/g, '')             // Remove all [bracketed] terms
-        .replace(/"[^"]*"/g, '')                // Remove string literals "..."
-        .replace(/[0-9.]+/g, '')                // Remove all numbers
-        .replace(/[+\-*/^(),>=<!&|?:]/g, '')    // Remove operators, comparisons, commas
-        .replace(/\s+/g, '');                   // Remove whitespace
-
-    if (cleanedFormula.length > 0) {
-        // Strip strings, aggregates, and brackets BEFORE searching for unbracketed words
-        const strippedFormula = formula
-            .replace(/"[^"]*"/g, '')               // Remove string literals
-            .replace(/\$[A-Z]+_\[[^\]]+\]/g, '')   // Remove aggregate syntax
-            .replace(/\[[^\]]+\]/g, '');            // Remove bracketed terms
-        const unbracketedWords = strippedFormula.match(/\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g) || [];
-        const unknownWords = unbracketedWords.filter(word => !KNOWN_FUNCTIONS.has(word));
-
-        if (unknownWords.length > 0) {
-            return {
-                success: false,
-                error: {
-                    rowIndex: -1,
-                    message: `Invalid term "${unknownWords[0]}" - column/scalar references must be in brackets like [${unknownWords[0]}]. If this is a function, check spelling.`
-                }
-            };
+    // and that every bracketed reference is a column or scalar
+    let invalidMessage: string | null = null;
+    const conditionError = (node: AggregateNode): string | null => {
+        try {
+            aggregateCondition(node, existingSchema, columnTypes);
+            return null;
+        } catch (error) {
+            return `${formatFormula(node)}: ${(error as Error).message}`;
         }
+    };
+    walkFormula(tree, (node) => {
+        if (invalidMessage) return;
+        const word = node.type === 'call' || (node.type === 'ref' && !node.bracketed) ? node.name : null;
+        if (word && !KNOWN_FUNCTIONS.has(word)) {
+            invalidMessage = `Invalid term "${word}" - column/scalar references must be in brackets like [${word}]. If this is a function, check spelling.`;
+        } else if (node.type === 'ref' && node.bracketed && !existingSchema.includes(node.name) && !(node.name in scalarInputs)) {
+            invalidMessage = `Unknown column or scalar [${node.name}]`;
+        } else if (node.type === 'aggregate' || node.type === 'window') {
+            const missing = [node.column, ...(node.groupBy || [])].find(column => !existingSchema.includes(column));
+            if (missing) invalidMessage = `Unknown column [${missing}] in ${formatFormula(node)}`;
+            else if (node.type === 'window') invalidMessage = validateWindow(node);
+            else invalidMessage = validateAggregate(node) ?? conditionError(node);
+        }
+    });
+    if (invalidMessage) {
+        return { success: false, error: { rowIndex: -1, message: invalidMessage } };
     }
 
     // Build column name mapping
@@ -312,110 +530,117 @@ export const executeBatchFormula = (
         columnMapping[colName] = sanitizeVarName(colName);
     });
 
-    // Build scalar name mapping
+    // Build scalar name mapping (columns win when a scalar shares a column's name)
     const scalarMapping: Record<string, string> = {};
     Object.keys(scalarInputs).forEach(name => {
-        scalarMapping[name] = sanitizeVarName(name);
+        scalarMapping[name] = '__scalar_' + sanitizeVarName(name);
     });
 
-    // Derive unit from formula
-    const unitResult = deriveUnitFromFormula(formula, columnUnits, scalarInputs);
+    // Derive unit from the expression tree (conversions between compatible units are applied)
+    const unitResult = inferFormulaUnits(tree, (node) => {
+        if (node.type === 'aggregate') {
+            return aggregateUnit(node.func, parseUnit(columnUnits[node.column] || ''));
+        }
+        if (node.type === 'window') {
+            return parseUnit(UNITLESS_WINDOW_FUNCTIONS.has(node.func) ? '' : columnUnits[node.column] || '');
+        }
+        if (existingSchema.includes(node.name)) return parseUnit(columnUnits[node.name] || '');
+        if (scalarInputs[node.name]) return parseUnit(scalarInputs[node.name].unit);
+        return undefined;
+    });
 
     // Phase 9: Pre-calculation pass for aggregates
-    const aggregates = detectAggregates(formula);
+    // Keyed by formula text, since $SUMIF_[CO2](...) may appear with different conditions
+    const aggregateNames = new Map<string, string>();
     const aggregateValues: Record<string, number | null> = {};
-
-    if (aggregates.length > 0) {
-        for (const agg of aggregates) {
-            const value = calculateAggregate(agg.name, agg.column, rows);
-            // Create safe variable name for aggregate
-            const safeAggregateName = sanitizeVarName(agg.originalSyntax);
-            aggregateValues[safeAggregateName] = value;
-        }
-    }
+    walkFormula(tree, (node) => {
+        if (node.type !== 'aggregate' || node.groupBy) return;
+        const key = formatFormula(node);
+        if (aggregateNames.has(key)) return;
+        const name = `__agg_${aggregateNames.size}`;
+        aggregateNames.set(key, name);
+        aggregateValues[name] = computeAggregate(node, rows, aggregateCondition(node, existingSchema, columnTypes));
+    });
+    const aggregateName = (node: AggregateNode) => aggregateNames.get(formatFormula(node)) as string;
+
+    // Per-row values of grouped aggregates and window functions, keyed by their formula text
+    const rowValueNames = new Map<string, string>();
+    const rowValues: Record<string, unknown[]> = {};
+    walkFormula(tree, (node) => {
+        if (node.type !== 'window' && !(node.type === 'aggregate' && node.groupBy)) return;
+        const key = formatFormula(node);
+        if (rowValueNames.has(key)) return;
+        const name = `__row_${rowValueNames.size}`;
+        rowValueNames.set(key, name);
+        rowValues[name] = node.type === 'window' ? calculateWindow(node, rows) : calculateGroupedAggregate(node, rows, existingSchema, columnTypes);
+    });
+    const rowValueName = (node: FormulaNode) => rowValueNames.get(formatFormula(node)) as string;
 
     // Pre-build column arrays for XLOOKUP/CEILINGLOOKUP/FLOORLOOKUP support
-    // Each column becomes available as __col_ColumnName (full column array)
+    // Lookup and return column arguments become __col_ColumnName (full column array)
     const columnArrays: Record<string, any[]> = {};
-    const hasLookupFunc = formula.includes('XLOOKUP') || formula.includes('CEILINGLOOKUP') || formula.includes('FLOORLOOKUP');
-    if (hasLookupFunc) {
-        existingSchema.forEach(colName => {
-            const safeArrayName = '__col_' + sanitizeVarName(colName);
-            columnArrays[safeArrayName] = rows.map(r => {
-                const v = Number(r[colName]);
-                return isNaN(v) ? r[colName] : v;
-            });
+    const lookupArrayRefs = new Set<RefNode>();
+    walkFormula(unitResult.expression, (node) => {
+        if (node.type !== 'call' || !LOOKUP_FUNCTIONS.has(node.name)) return;
+        node.args.slice(1, 3).forEach(arg => {
+            if (arg.type !== 'ref' || !existingSchema.includes(arg.name)) return;
+            lookupArrayRefs.add(arg);
+            columnArrays['__col_' + columnMapping[arg.name]] = rows.map(r => formulaValue(r[arg.name], columnTypes[arg.name]));
         });
-    }
-
-    for (let i = 0; i < updatedRows.length; i++) {
-        const row = updatedRows[i];
-
-        // Build scope with column values
-        const cleanScope: any = {};
-        let cleanFormula = formula;
-
-        // STEP 1: Replace aggregate syntax FIRST (before column replacement)
-        // This prevents [column] inside $AVG_[column] from being corrupted
-        if (aggregates.length > 0) {
-            for (const agg of aggregates) {
-                const safeAggregateName = sanitizeVarName(agg.originalSyntax);
-                cleanScope[safeAggregateName] = aggregateValues[safeAggregateName] ?? 0;
+    });
 
-                // Replace $SUM_[column] with safe variable name in formula
-                const escapedSyntax = agg.originalSyntax.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                cleanFormula = cleanFormula.replace(new RegExp(escapedSyntax, 'g'), safeAggregateName);
-            }
+    // Columns read per row: only those the formula references (outside lookup array arguments)
+    const rowColumns = new Set<string>();
+    walkFormula(unitResult.expression, (node) => {
+        if (node.type === 'ref' && node.bracketed && !lookupArrayRefs.has(node) && columnMapping[node.name]) {
+            rowColumns.add(node.name);
         }
+    });
+    const boundColumns = [...rowColumns].map(column => ({ column, name: columnMapping[column] }));
+
+    // The expression is the same for every row: compile it once, only the scope changes
+    const expression = formatFormula(unitResult.expression, {
+        ref: (node) => {
+            if (lookupArrayRefs.has(node)) return '__col_' + columnMapping[node.name];
+            if (!node.bracketed) return node.name;
+            return columnMapping[node.name] ?? scalarMapping[node.name];
+        },
+        aggregate: (node) => (node.groupBy ? rowValueName(node) : aggregateName(node)),
+        window: rowValueName,
+    });
 
-        // STEP 2: Add column values to scope (after aggregates are already replaced)
-        existingSchema.forEach(colName => {
-            const val = Number(row[colName]);
-            const safeVarName = columnMapping[colName];
-            cleanScope[safeVarName] = isNaN(val) ? row[colName] : val;
-
-            const escapedColName = colName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            cleanFormula = cleanFormula.replace(new RegExp(`\\[${escapedColName}\\]`, 'g'), safeVarName);
-        });
+    let compiled: EvalFunction;
+    try {
+        compiled = math.compile(expression);
+    } catch (error) {
+        return { success: false, error: { rowIndex: -1, message: `Syntax error: ${(error as Error).message}` } };
+    }
 
-        // STEP 3: Add scalar values to scope
-        Object.entries(scalarInputs).forEach(([name, input]) => {
-            const safeVarName = scalarMapping[name];
-            cleanScope[safeVarName] = input.value;
+    // Row-invariant bindings are set once; the row loop overwrites the rest.
+    // A Map is used as is by mathjs, where a plain object would be wrapped on every evaluation
+    const scope = new Map<string, unknown>(Object.entries(columnArrays));
+    Object.entries(aggregateValues).forEach(([name, value]) => {
+        scope.set(name, value ?? 0);
+    });
+    Object.entries(scalarInputs).forEach(([name, input]) => {
+        scope.set(scalarMapping[name], input.value);
+    });
+    const rowValueEntries = Object.entries(rowValues);
 
-            const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            cleanFormula = cleanFormula.replace(new RegExp(`\\[${escapedName}\\]`, 'g'), safeVarName);
-        });
+    const values = new Array<unknown>(rows.length);
+    for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / rows.length);
 
-        // Inject lookup column arrays into scope
-        if (hasLookupFunc) {
-            Object.entries(columnArrays).forEach(([arrayName, arrayData]) => {
-                cleanScope[arrayName] = arrayData;
-            });
-
-            // Replace column references inside XLOOKUP/CEILINGLOOKUP/FLOORLOOKUP 2nd and 3rd args with array versions
-            // Pattern: FUNCNAME(expr, [Col1], [Col2], ...)
-            cleanFormula = cleanFormula.replace(
-                /(XLOOKUP|CEILINGLOOKUP|FLOORLOOKUP)\s*\(([^,]+),\s*([^,]+),\s*([^,)]+)(?:,\s*([^)]+))?\)/g,
-                (_match, funcName, lookupVal, lookupCol, returnCol, defaultVal) => {
-                    // Convert [ColName] references to __col_ColName for lookup/return args
-                    const toArray = (s: string) => {
-                        return s.trim().replace(/\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g, (m: string) => {
-                            // Check if this var name has a corresponding column array
-                            const arrayName = '__col_' + m;
-                            if (columnArrays[arrayName]) return arrayName;
-                            return m;
-                        });
-                    };
-                    const args = [lookupVal.trim(), toArray(lookupCol), toArray(returnCol)];
-                    if (defaultVal) args.push(defaultVal.trim());
-                    return `${funcName}(${args.join(', ')})`;
-                }
-            );
+        for (const { column, name } of boundColumns) {
+            scope.set(name, formulaValue(row[column], columnTypes[column]));
+        }
+        for (const [name, values] of rowValueEntries) {
+            scope.set(name, values[i]);
         }
 
         try {
-            const result = math.evaluate(cleanFormula, cleanScope);
+            const result = compiled.evaluate(scope);
 
             // Fail-Fast: Result must be valid (allow strings from IF/SWITCH)
             if (result === undefined || (typeof result === 'number' && isNaN(result))) {
@@ -428,7 +653,7 @@ export const executeBatchFormula = (
                 };
             }
 
-            updatedRows[i] = { ...row, [newColumnName]: result };
+            values[i] = result;
         } catch (error: any) {
             return {
                 success: false,
@@ -442,30 +667,69 @@ export const executeBatchFormula = (
 
     return {
         success: true,
-        data: updatedRows,
-        newColumn: newColumnName,
-        derivedUnit: unitResult.unit,
-        unitWarning: unitResult.warning
+        values,
+        derivedUnit: formatUnit(unitResult.unit),
+        unitWarning: unitResult.warnings.length > 0 ? unitResult.warnings.join('; ') : undefined
     };
 };
 
 /**
  * Join Configuration Interface
  */
+type JoinRow = Record<string, unknown>;
+
 export interface JoinConfig {
-    mainData: any[];
-    lookupData: any[];
-    leftKey: string;      // Key column from main data
-    rightKey: string;     // Key column from lookup data
+    mainData: JoinRow[];
+    lookupData: JoinRow[];
+    leftKeys: string[];      // Key columns from main data
+    rightKeys: string[];     // Key columns from lookup data, paired with leftKeys by position
     targetColumns: string[]; // Columns to extract from lookup data
+    joinType?: 'inner' | 'left' | 'right' | 'full'; // Default: left
+    suffix?: string;         // Appended to lookup columns that already exist in main data (default: _lookup)
+}
+
+/**
+ * Keys found on only one side of a join
+ */
+export interface JoinMatchReport {
+    matchedRows: number;
+    unmatchedLeft: string[];
+    unmatchedRight: string[];
+}
+
+export interface JoinResult extends CalculationResult {
+    matchReport?: JoinMatchReport;
+    // Lookup column → name it got in the output
+    columnNames?: Record<string, string>;
 }
 
 /**
- * Execute Join Operation (LEFT JOIN)
- * Uses hash map for O(N+M) performance instead of O(N*M)
+ * Comparable form of a key cell: trimmed text, numbers in canonical form ("1.50" → "1.5").
+ * Blank keys never match.
  */
-export const executeJoin = (config: JoinConfig): CalculationResult => {
-    const { mainData, lookupData, leftKey, rightKey, targetColumns } = config;
+const normalizeKey = (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim();
+    if (text === '') return null;
+    const num = Number(text);
+    return isNaN(num) ? text : String(num);
+};
+
+const compositeKey = (row: JoinRow, columns: string[]): string | null => {
+    const parts = columns.map(col => normalizeKey(row[col]));
+    return parts.some(part => part === null) ? null : JSON.stringify(parts);
+};
+
+const displayKey = (row: JoinRow, columns: string[]): string =>
+    columns.map(col => String(row[col] ?? '').trim()).join(' | ');
+
+/**
+ * Execute Join Operation
+ * Uses hash map for O(N+M) performance instead of O(N*M).
+ * Lookup rows sharing a key each produce a row (one-to-many).
+ */
+export const executeJoin = (config: JoinConfig): JoinResult => {
+    const { mainData, lookupData, leftKeys, rightKeys, targetColumns, joinType = 'left', suffix = '_lookup' } = config;
 
     // Validation
     if (!mainData || mainData.length === 0) {
@@ -476,49 +740,84 @@ export const executeJoin = (config: JoinConfig): CalculationResult => {
         return { success: false, error: { rowIndex: -1, message: "Lookup data is empty" } };
     }
 
-    if (!leftKey || !rightKey) {
-        return { success: false, error: { rowIndex: -1, message: "Join keys are required" } };
+    if (!leftKeys?.length || leftKeys.length !== rightKeys?.length || [...leftKeys, ...rightKeys].some(k => !k)) {
+        return { success: false, error: { rowIndex: -1, message: "Join keys are required on both sides" } };
     }
 
-    if (!targetColumns || targetColumns.length === 0) {
-        return { success: false, error: { rowIndex: -1, message: "Target columns are required" } };
+    if (!suffix) {
+        return { success: false, error: { rowIndex: -1, message: "Collision suffix cannot be empty" } };
     }
 
+    // Output names: lookup columns that clash with main data get the suffix
+    const mainColumns = new Set(Object.keys(mainData[0]));
+    const columnNames: Record<string, string> = {};
+    targetColumns.forEach(col => {
+        let name = mainColumns.has(col) ? `${col}${suffix}` : col;
+        while (mainColumns.has(name) || Object.values(columnNames).includes(name)) name = `${name}${suffix}`;
+        columnNames[col] = name;
+    });
+
     // Step 1: Build hash map from lookup data - O(M)
-    const lookupMap = new Map<any, any>();
+    const lookupMap = new Map<string, JoinRow[]>();
     for (const row of lookupData) {
-        const key = row[rightKey];
-        if (key !== undefined && key !== null) {
-            lookupMap.set(key, row);
-        }
+        const key = compositeKey(row, rightKeys);
+        if (key === null) continue;
+        const rows = lookupMap.get(key);
+        if (rows) rows.push(row);
+        else lookupMap.set(key, [row]);
     }
 
-    // Step 2: Single pass on main data - O(N)
-    const result = mainData.map(mainRow => {
-        const key = mainRow[leftKey];
-        const lookupRow = lookupMap.get(key);
-
-        // Step 3: Merge selected columns
+    const emptyMain = Object.fromEntries([...mainColumns].map(col => [col, null]));
+    const merge = (mainRow: JoinRow, lookupRow: JoinRow | null): JoinRow => {
         const merged = { ...mainRow };
-
         targetColumns.forEach(col => {
-            let colName = col;
+            merged[columnNames[col]] = lookupRow?.[col] ?? null;
+        });
+        return merged;
+    };
 
-            // Handle collision: if column exists in main data, add _lookup suffix
-            if (mainRow.hasOwnProperty(col)) {
-                colName = `${col}_lookup`;
-            }
+    // Step 2: Single pass on main data - O(N)
+    const result: JoinRow[] = [];
+    const usedKeys = new Set<string>();
+    const unmatchedLeft = new Set<string>();
+    let matchedRows = 0;
+
+    for (const mainRow of mainData) {
+        const key = compositeKey(mainRow, leftKeys);
+        const lookupRows = key === null ? undefined : lookupMap.get(key);
+
+        if (lookupRows) {
+            usedKeys.add(key!);
+            lookupRows.forEach(lookupRow => result.push(merge(mainRow, lookupRow)));
+            matchedRows += lookupRows.length;
+            continue;
+        }
 
-            // Fill with null if key not found in lookup
-            merged[colName] = lookupRow?.[col] ?? null;
-        });
+        unmatchedLeft.add(displayKey(mainRow, leftKeys));
+        if (joinType === 'left' || joinType === 'full') result.push(merge(mainRow, null));
+    }
 
-        return merged;
-    });
+    // Step 3: Lookup rows nobody matched; right/full joins keep them with the keys filled in
+    const unmatchedRight = new Set<string>();
+    for (const row of lookupData) {
+        const key = compositeKey(row, rightKeys);
+        if (key !== null && usedKeys.has(key)) continue;
+
+        unmatchedRight.add(displayKey(row, rightKeys));
+        if (joinType === 'right' || joinType === 'full') {
+            const keyCells = Object.fromEntries(leftKeys.map((col, i) => [col, row[rightKeys[i]] ?? null]));
+            result.push(merge({ ...emptyMain, ...keyCells }, row));
+        }
+    }
 
     return {
         success: true,
-        data: result
+        data: result,
+        columnNames,
+        matchReport: {
+            matchedRows,
+            unmatchedLeft: [...unmatchedLeft],
+            unmatchedRight: [...unmatchedRight],
+        },
     };
 };
-
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { encodeJob, decodeJob, encodeResult, decodeTable, executeBatchJob } from './batchJobs';
+import type { BatchTable } from './batchOperations';
+import { columnarOf, selectRows, withColumn, fromColumnar } from './columnarTable';
+
+const table: BatchTable = {
+    rawData: [{ Fuel: 'Coal', Amount: 10 }, { Fuel: 'Gas', Amount: null }],
+    schema: [
+        { id: 'Fuel', name: 'Fuel', type: 'string' },
+        { id: 'Amount', name: 'Amount', type: 'number', unit: 't' },
+    ],
+};
+
+describe('job messages', () => {
+    it('round-trips jobs with one or several tables', () => {
+        const math = { kind: 'math' as const, table, formula: '[Amount] * 2', newColumnName: 'x', scalarInputs: {} };
+        const decoded = decodeJob(encodeJob(math).job).job;
+        expect(decoded.kind === 'math' && Array.from(decoded.table.rawData)).toEqual(table.rawData);
+
+        const combine = { kind: 'combine' as const, tables: [table, table], operations: [] };
+        const encoded = encodeJob(combine);
+        expect(encoded.inputs).toHaveLength(2);
+        const tables = decodeJob(encoded.job).job;
+        expect(tables.kind === 'combine' && tables.tables.map((t) => Array.from(t.rawData))).toEqual([table.rawData, table.rawData]);
+    });
+
+    it('sends back columns and selections shared with an input by reference', () => {
+        const input = columnarOf(table);
+        const filtered = selectRows(input, [1]);
+        const result = fromColumnar(withColumn(filtered, 'x', [5]), [...table.schema, { id: 'x', name: 'x', type: 'number' }]);
+
+        const { payload, transfer } = encodeResult(result, [filtered]);
+        expect(payload.columns.Fuel).toEqual({ input: 0, column: 'Fuel' });
+        expect(payload.selection).toEqual({ input: 0 });
+        // Only the new column's buffer is handed over
+        expect(transfer).toHaveLength(1);
+
+        expect(Array.from(decodeTable(payload, [filtered]).rawData)).toEqual([{ Fuel: 'Gas', Amount: null, x: 5 }]);
+    });
+});
+
+describe('executeBatchJob', () => {
+    it('runs a formula step and reports its errors by row', () => {
+        const result = executeBatchJob({ kind: 'math', table, formula: '[Amount] * 2', newColumnName: 'x', scalarInputs: {} });
+        expect(result.success && result.table.rawData.map((row) => row.x)).toEqual([20, 0]);
+
+        const failed = executeBatchJob({ kind: 'math', table, formula: '[Missing] * 2', newColumnName: 'x', scalarInputs: {} });
+        expect(failed.success).toBe(false);
+    });
+
+    it('names the step when it throws', () => {
+        const filter = { kind: 'group' as const, id: 'g', combinator: 'and' as const, children: [{ kind: 'condition' as const, id: 'c', column: 'Region', operator: '==' as const, value: 'X' }] };
+        expect(executeBatchJob({ kind: 'filter', table, filter })).toEqual({
+            success: false,
+            error: { rowIndex: -1, message: 'Filter failed: Column not found: [Region]' },
+        });
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Batch Jobs
+ * The table steps that run off the main thread (see batchWorkerPool.ts), and the message format
+ * between the page and the workers. Tables cross in their columnar form (columnarTable.ts); result
+ * columns the worker computed are transferred, and those it kept from an input are not sent back.
+ */
+
+import type { ColumnMetadata } from '../store/useBatchDataStore';
+import type { FilterGroup } from '../types';
+import type { GwpSet } from '../data/gwpValues';
+import { addFormulaColumn, filterRows, applyColumnOperations, combineTables } from './batchOperations';
+import type { BatchTable, TransformOperation } from './batchOperations';
+import type { ScalarInput, ProgressCallback } from './batchCalculationEngine';
+import { columnarOf, fromColumnar, tableBuffers } from './columnarTable';
+import type { ColumnarTable, ColumnVector } from './columnarTable';
+
+export type BatchJob =
+    | { kind: 'math'; table: BatchTable; formula: string; newColumnName: string; scalarInputs: Record<string, ScalarInput>; unitOverride?: string }
+    | { kind: 'filter'; table: BatchTable; filter: FilterGroup }
+    | { kind: 'transform'; table: BatchTable; operations: TransformOperation[] }
+    | { kind: 'combine'; tables: BatchTable[]; operations: TransformOperation[] };
+
+export interface BatchJobError {
+    // 1-based row of a formula error, -1 when not tied to a row
+    rowIndex: number;
+    message: string;
+}
+
+export type BatchJobResult =
+    | { success: true; table: BatchTable; unitWarning?: string }
+    | { success: false; error: BatchJobError };
+
+const STEP_NAMES: Record<BatchJob['kind'], string> = {
+    math: 'Calculation',
+    filter: 'Filter',
+    transform: 'Transform',
+    combine: 'Combine transform',
+};
+
+/**
+ * Run a job in the current thread
+ */
+export function executeBatchJob(job: BatchJob, onProgress?: ProgressCallback): BatchJobResult {
+    try {
+        switch (job.kind) {
+            case 'math': {
+                const result = addFormulaColumn(job.table, job.formula, job.newColumnName, job.scalarInputs, job.unitOverride, onProgress);
+                if (!result.success || !result.table) {
+                    return { success: false, error: result.error ?? { rowIndex: -1, message: 'Calculation failed' } };
+                }
+                return { success: true, table: result.table, unitWarning: result.unitWarning };
+            }
+            case 'filter':
+                return { success: true, table: filterRows(job.table, job.filter, onProgress) };
+            case 'transform':
+                return { success: true, table: applyColumnOperations(job.table, job.operations, onProgress) };
+            case 'combine':
+                return { success: true, table: combineTables(job.tables, job.operations) };
+        }
+    } catch (error) {
+        return { success: false, error: { rowIndex: -1, message: `${STEP_NAMES[job.kind]} failed: ${(error as Error).message}` } };
+    }
+}
+
+// ----- Table payloads -----
+
+// A vector the result shares with one of the job's input tables, sent back by reference
+// (no column: the input's row selection)
+interface InputRef {
+    input: number;
+    column?: string;
+}
+
+export interface TablePayload {
+    schema: ColumnMetadata[];
+    length: number;
+    columns: Record<string, ColumnVector | InputRef>;
+    selection: Uint32Array | null | InputRef;
+}
+
+const isInputRef = (value: unknown): value is InputRef =>
+    typeof value === 'object' && value !== null && 'input' in value;
+
+const jobTables = (job: BatchJob): BatchTable[] => (job.kind === 'combine' ? job.tables : [job.table]);
+
+/**
+ * Payload of a job's input table. Its vectors are copied by postMessage, not transferred,
+ * since the page keeps using them.
+ */
+function encodeInput(columnar: ColumnarTable, schema: ColumnMetadata[]): TablePayload {
+    return { schema, ...columnar };
+}
+
+/**
+ * Payload of a result table: vectors shared with an input go back as references,
+ * the new ones are listed in `transfer`
+ */
+export function encodeResult(table: BatchTable, inputs: ColumnarTable[]): { payload: TablePayload; transfer: ArrayBuffer[] } {
+    const columnar = columnarOf(table);
+    const findInput = (match: (input: ColumnarTable) => string | true | undefined): InputRef | null => {
+        for (const [input, candidate] of inputs.entries()) {
+            const found = match(candidate);
+            if (found === true) return { input };
+            if (found !== undefined) return { input, column: found };
+        }
+        return null;
+    };
+
+    const owned: ColumnarTable = { length: columnar.length, columns: {}, selection: null };
+    const columns: TablePayload['columns'] = {};
+    Object.entries(columnar.columns).forEach(([id, vector]) => {
+        const ref = findInput(input => Object.keys(input.columns).find(column => input.columns[column] === vector));
+        if (ref) columns[id] = ref;
+        else columns[id] = owned.columns[id] = vector;
+    });
+
+    let selection: TablePayload['selection'] = columnar.selection;
+    if (columnar.selection) {
+        selection = findInput(input => (input.selection === columnar.selection ? true : undefined)) ?? columnar.selection;
+        if (!isInputRef(selection)) owned.selection = selection;
+    }
+
+    return { payload: { schema: table.schema, length: columnar.length, columns, selection }, transfer: tableBuffers(owned) };
+}
+
+/**
+ * Table from a payload; references resolve against the job's input tables
+ */
+export function decodeTable(payload: TablePayload, inputs: ColumnarTable[] = []): BatchTable {
+    const columns: ColumnarTable['columns'] = {};
+    Object.entries(payload.columns).forEach(([id, vector]) => {
+        columns[id] = isInputRef(vector) ? inputs[vector.input].columns[vector.column as string] : vector;
+    });
+    const selection = isInputRef(payload.selection) ? inputs[payload.selection.input].selection : payload.selection;
+    return fromColumnar({ length: payload.length, columns, selection }, payload.schema);
+}
+
+// ----- Worker messages -----
+
+type Encoded<T> = T extends { table: BatchTable }
+    ? Omit<T, 'table'> & { table: TablePayload }
+    : T extends { tables: BatchTable[] }
+        ? Omit<T, 'tables'> & { tables: TablePayload[] }
+        : never;
+
+export type EncodedBatchJob = Encoded<BatchJob>;
+
+export interface WorkerRequest {
+    id: number;
+    job: EncodedBatchJob;
+    // The project's default GWP set, which the worker's copy of gwpValues does not know
+    gwpSet: GwpSet;
+}
+
+export type WorkerResponse =
+    | { id: number; type: 'progress'; fraction: number }
+    | { id: number; type: 'done'; table: TablePayload; unitWarning?: string }
+    | { id: number; type: 'failed'; error: BatchJobError };
+
+/**
+ * Job message for a worker, and the columnar input tables the result will refer to
+ */
+export function encodeJob(job: BatchJob): { job: EncodedBatchJob; inputs: ColumnarTable[] } {
+    const tables = jobTables(job);
+    const inputs = tables.map(columnarOf);
+    const payloads = tables.map((table, i) => encodeInput(inputs[i], table.schema));
+    if (job.kind === 'combine') return { job: { ...job, tables: payloads }, inputs };
+    return { job: { ...job, table: payloads[0] }, inputs };
+}
+
+export function decodeJob(job: EncodedBatchJob): { job: BatchJob; inputs: ColumnarTable[] } {
+    if (job.kind === 'combine') {
+        const tables = job.tables.map(payload => decodeTable(payload));
+        return { job: { ...job, tables }, inputs: tables.map(columnarOf) };
+    }
+    const table = decodeTable(job.table);
+    return { job: { ...job, table }, inputs: [columnarOf(table)] };
+}
@@ -0,0 +1,368 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterCondition, FilterGroup, FilterNodeData } from '../types';
+import {
+    filterRows,
+    filterTreeOf,
+    describeFilter,
+    applyColumnOperations,
+    combineTables,
+    groupRows,
+    pivotRows,
+    unpivotRows,
+    joinTables,
+    unionTables,
+    addFormulaColumn,
+    evaluateBatchProcess,
+} from './batchOperations';
+import type { BatchTable } from './batchOperations';
+
+const fuels: BatchTable = {
+    rawData: [
+        { Fuel: 'Coal', Amount: 10, Limit: 5 },
+        { Fuel: 'Gas', Amount: 4, Limit: 5 },
+        { Fuel: 'Oil', Amount: '7', Limit: 8 },
+    ],
+    schema: [
+        { id: 'Fuel', name: 'Fuel', type: 'string' },
+        { id: 'Amount', name: 'Amount', type: 'number', unit: 't' },
+        { id: 'Limit', name: 'Limit', type: 'number', unit: 't' },
+    ],
+};
+
+const condition = (column: string, operator: FilterCondition['operator'], value?: string | number, extra: Partial<FilterCondition> = {}): FilterCondition => ({
+    kind: 'condition',
+    id: `${column}${operator}${value}`,
+    column,
+    operator,
+    value,
+    ...extra,
+});
+const group = (combinator: 'and' | 'or', ...children: FilterGroup['children']): FilterGroup => ({ kind: 'group', id: combinator, combinator, children });
+const fuelsWhere = (filter: FilterGroup) => filterRows(fuels, filter).rawData.map((row) => row.Fuel);
+
+describe('filterRows', () => {
+    it('compares numerically when both sides are numbers', () => {
+        expect(fuelsWhere(group('and', condition('Amount', '>', '5')))).toEqual(['Coal', 'Oil']);
+    });
+
+    it('compares against another column in column mode', () => {
+        expect(fuelsWhere(group('and', condition('Amount', '<', 'Limit', { mode: 'column' })))).toEqual(['Gas', 'Oil']);
+    });
+
+    it('matches text case-insensitively', () => {
+        expect(fuelsWhere(group('and', condition('Fuel', 'contains', 'o')))).toEqual(['Coal', 'Oil']);
+        expect(fuelsWhere(group('and', condition('Fuel', 'startsWith', 'g')))).toEqual(['Gas']);
+        expect(fuelsWhere(group('and', condition('Fuel', 'in', 'coal, OIL')))).toEqual(['Coal', 'Oil']);
+        expect(fuelsWhere(group('and', condition('Fuel', 'regex', '^(g|o)')))).toEqual(['Gas', 'Oil']);
+    });
+
+    it('tests inclusive ranges with open bounds', () => {
+        expect(fuelsWhere(group('and', condition('Amount', 'between', 4, { valueTo: 7 })))).toEqual(['Gas', 'Oil']);
+        expect(fuelsWhere(group('and', condition('Amount', 'between', '', { valueTo: 5 })))).toEqual(['Gas']);
+    });
+
+    it('combines nested AND / OR groups', () => {
+        const filter = group('or', condition('Fuel', '==', 'Gas'), group('and', condition('Amount', '>', 5), condition('Limit', '>', 6)));
+        expect(fuelsWhere(filter)).toEqual(['Gas', 'Oil']);
+        expect(describeFilter(filter)).toBe('Fuel = Gas OR (Amount > 5 AND Limit > 6)');
+    });
+
+    it('rejects unknown columns and invalid patterns', () => {
+        expect(() => filterRows(fuels, group('and', condition('Region', '==', 'X')))).toThrow('Column not found: [Region]');
+        expect(() => filterRows(fuels, group('and', condition('Fuel', 'regex', '(')))).toThrow('Invalid regex /(/ on [Fuel]');
+    });
+
+    it('compares date and boolean columns in their typed form', () => {
+        const table: BatchTable = {
+            rawData: [{ Date: '2023-01-15', Active: true }, { Date: '2023-03-01', Active: false }],
+            schema: [{ id: 'Date', name: 'Date', type: 'date' }, { id: 'Active', name: 'Active', type: 'boolean' }],
+        };
+        expect(filterRows(table, group('and', condition('Date', '>', '01/02/2023'))).rawData).toEqual([table.rawData[1]]);
+        expect(filterRows(table, group('and', condition('Active', '==', 'ya'))).rawData).toEqual([table.rawData[0]]);
+    });
+});
+
+describe('filterTreeOf', () => {
+    it('drops unfinished conditions and reads single-condition nodes', () => {
+        const data: FilterNodeData = { type: 'filter', label: 'F', inputs: [], outputs: [] };
+        expect(filterTreeOf({ ...data, filter: group('and', condition('Fuel', '==', ''), group('or', condition('', '>', 1))) })).toBeNull();
+        expect(filterTreeOf({ ...data, column: 'Amount', operator: '>', value: 5 })).toMatchObject({
+            combinator: 'and',
+            children: [{ kind: 'condition', column: 'Amount', operator: '>', value: 5 }],
+        });
+    });
+});
+
+describe('applyColumnOperations', () => {
+    it('renames a column and keeps its unit', () => {
+        const table = applyColumnOperations(fuels, [{ type: 'rename', column: 'Amount', newName: 'Mass' }, { type: 'delete', column: 'Limit' }]);
+        expect(table.rawData[0]).toEqual({ Fuel: 'Coal', Mass: 10 });
+        expect(table.schema.map((col) => [col.id, col.unit])).toEqual([['Fuel', undefined], ['Mass', 't']]);
+    });
+
+    it('selects columns', () => {
+        const table = applyColumnOperations(fuels, [{ type: 'select', selectedColumns: ['Fuel'] }]);
+        expect(table.rawData).toEqual([{ Fuel: 'Coal' }, { Fuel: 'Gas' }, { Fuel: 'Oil' }]);
+    });
+});
+
+describe('combineTables', () => {
+    it('puts the chosen columns of each input side by side, padding shorter inputs', () => {
+        const prices: BatchTable = { rawData: [{ Price: 3 }], schema: [{ id: 'Price', name: 'Price', type: 'number' }] };
+        const table = combineTables([fuels, prices], [{
+            type: 'combine',
+            combineInputs: [{ sourceInputIndex: 0, columns: ['Fuel'] }, { sourceInputIndex: 1, columns: ['Price'] }],
+        }]);
+        expect(table.rawData).toEqual([{ Fuel: 'Coal', Price: 3 }, { Fuel: 'Gas', Price: null }, { Fuel: 'Oil', Price: null }]);
+    });
+});
+
+describe('groupRows', () => {
+    const plants: BatchTable = {
+        rawData: [
+            { Sector: 'Power', Fuel: 'Coal', CO2: 10, Output: 1 },
+            { Sector: 'Steel', Fuel: 'Coal', CO2: 6, Output: 3 },
+            { Sector: 'Power', Fuel: 'Gas', CO2: 4, Output: 3 },
+            { Sector: 'Power', Fuel: 'Coal', CO2: '', Output: 2 },
+        ],
+        schema: [
+            { id: 'Sector', name: 'Sector', type: 'string' },
+            { id: 'Fuel', name: 'Fuel', type: 'string' },
+            { id: 'CO2', name: 'CO2', type: 'number', unit: 't' },
+            { id: 'Output', name: 'Output', type: 'number' },
+        ],
+    };
+
+    it('aggregates each group in order of first appearance, skipping blanks', () => {
+        const table = groupRows(plants, ['Sector'], [
+            { func: 'SUM', column: 'CO2' },
+            { func: 'COUNT', column: 'CO2', outputName: 'Reported' },
+            { func: 'MEDIAN', column: 'CO2' },
+        ]);
+        expect(table.rawData).toEqual([
+            { Sector: 'Power', SUM_CO2: 14, Reported: 2, MEDIAN_CO2: 7 },
+            { Sector: 'Steel', SUM_CO2: 6, Reported: 1, MEDIAN_CO2: 6 },
+        ]);
+        // Aggregates keep the column's unit; COUNT is unitless
+        expect(table.schema.map((col) => [col.id, col.unit])).toEqual([['Sector', undefined], ['SUM_CO2', 't'], ['Reported', undefined], ['MEDIAN_CO2', 't']]);
+    });
+
+    it('groups by several columns and takes weighted averages', () => {
+        const table = groupRows(plants, ['Sector', 'Fuel'], [{ func: 'WAVG', column: 'CO2', weightColumn: 'Output' }]);
+        expect(table.rawData).toEqual([
+            { Sector: 'Power', Fuel: 'Coal', WAVG_CO2: 10 },
+            { Sector: 'Steel', Fuel: 'Coal', WAVG_CO2: 6 },
+            { Sector: 'Power', Fuel: 'Gas', WAVG_CO2: 4 },
+        ]);
+    });
+
+    it('rejects unknown columns and empty aggregations', () => {
+        expect(() => groupRows(plants, ['Region'], [{ func: 'SUM', column: 'CO2' }])).toThrow('Column [Region] not found');
+        expect(() => groupRows(plants, ['Sector'], [])).toThrow('Add at least one aggregation');
+    });
+});
+
+describe('pivotRows', () => {
+    const long: BatchTable = {
+        rawData: [
+            { Site: 'A', Year: 2023, CO2: 1 },
+            { Site: 'A', Year: 2024, CO2: 2 },
+            { Site: 'A', Year: 2024, CO2: 3 },
+            { Site: 'B', Year: 2023, CO2: 4 },
+        ],
+        schema: [
+            { id: 'Site', name: 'Site', type: 'string' },
+            { id: 'Year', name: 'Year', type: 'number' },
+            { id: 'CO2', name: 'CO2', type: 'number', unit: 't' },
+        ],
+    };
+
+    it('spreads pivot values into columns and fills missing combinations with null', () => {
+        const table = pivotRows(long, { rowColumns: ['Site'], pivotColumn: 'Year', valueColumn: 'CO2', func: 'SUM' });
+        expect(table.rawData).toEqual([{ Site: 'A', 2023: 1, 2024: 5 }, { Site: 'B', 2023: 4, 2024: null }]);
+        expect(table.schema.map((col) => [col.id, col.unit])).toEqual([['Site', undefined], ['2023', 't'], ['2024', 't']]);
+    });
+
+    it('renames pivot values that clash with a row column', () => {
+        const table = pivotRows(
+            { ...long, rawData: [{ Site: 'A', Year: 'Site', CO2: 1 }] },
+            { rowColumns: ['Site'], pivotColumn: 'Year', valueColumn: 'CO2', func: 'COUNT' }
+        );
+        expect(table.rawData).toEqual([{ Site: 'A', 'Site (Year)': 1 }]);
+    });
+
+    it('collects blank pivot values in a "(blank)" column', () => {
+        const table = pivotRows(
+            { ...long, rawData: [{ Site: 'A', Year: 2023, CO2: 1 }, { Site: 'A', Year: null, CO2: 2 }, { Site: 'B', Year: '', CO2: 3 }] },
+            { rowColumns: ['Site'], pivotColumn: 'Year', valueColumn: 'CO2', func: 'SUM' }
+        );
+        expect(table.rawData).toEqual([{ Site: 'A', 2023: 1, '(blank)': 2 }, { Site: 'B', 2023: null, '(blank)': 3 }]);
+        expect(table.schema.map((col) => col.name)).toEqual(['Site', '2023', '(blank)']);
+    });
+
+    it('rejects a pivot column that is also a row column', () => {
+        expect(() => pivotRows(long, { rowColumns: ['Year'], pivotColumn: 'Year', valueColumn: 'CO2', func: 'SUM' }))
+            .toThrow('[Year] cannot be both a row and the pivot column');
+    });
+});
+
+describe('unpivotRows', () => {
+    const wide: BatchTable = {
+        rawData: [{ Site: 'A', CO2: 1, CH4: 2 }],
+        schema: [
+            { id: 'Site', name: 'Site', type: 'string' },
+            { id: 'CO2', name: 'CO2', type: 'number', unit: 't' },
+            { id: 'CH4', name: 'CH4', type: 'number', unit: 'kg' },
+        ],
+    };
+    const config = { valueColumns: ['CO2', 'CH4'], keyName: 'Gas', valueName: 'Value', unitName: 'Unit' };
+
+    it('turns each selected column into a row with its unit', () => {
+        const table = unpivotRows(wide, config);
+        expect(table.rawData).toEqual([
+            { Site: 'A', Gas: 'CO2', Value: 1, Unit: 't' },
+            { Site: 'A', Gas: 'CH4', Value: 2, Unit: 'kg' },
+        ]);
+        // Mixed units leave the value column without one
+        expect(table.schema.find((col) => col.id === 'Value')?.unit).toBeUndefined();
+    });
+
+    it('rejects output names that clash with kept columns', () => {
+        expect(() => unpivotRows(wide, { ...config, keyName: 'Site' })).toThrow('Output column [Site] already exists');
+    });
+});
+
+describe('joinTables', () => {
+    const activity: BatchTable = {
+        rawData: [
+            { Fuel: 'Coal', Year: 2024, Amount: 10 },
+            { Fuel: 'Gas', Year: '2024', Amount: 4 },
+            { Fuel: 'Oil', Year: 2024, Amount: 7 },
+        ],
+        schema: [
+            { id: 'Fuel', name: 'Fuel', type: 'string' },
+            { id: 'Year', name: 'Year', type: 'number' },
+            { id: 'Amount', name: 'Amount', type: 'number', unit: 't' },
+        ],
+    };
+    const factors: BatchTable = {
+        rawData: [
+            { Fuel: 'Coal', Year: 2024, EF: 2.4, Amount: 1 },
+            { Fuel: 'Gas', Year: 2024.0, EF: 1.9, Amount: 1 },
+            { Fuel: 'Wood', Year: 2024, EF: 0, Amount: 1 },
+        ],
+        schema: [
+            { id: 'Fuel', name: 'Fuel', type: 'string' },
+            { id: 'Year', name: 'Year', type: 'number' },
+            { id: 'EF', name: 'EF', type: 'number', unit: 't/t' },
+            { id: 'Amount', name: 'Amount', type: 'number', unit: 'kg' },
+        ],
+    };
+    const keys = [{ left: 'Fuel', right: 'Fuel' }, { left: 'Year', right: 'Year' }];
+
+    it('matches multi-column keys, comparing numbers by value, and reports unmatched keys', () => {
+        const table = joinTables(activity, factors, { joinType: 'inner', keys, suffix: '_lookup' });
+        expect(table.rawData.map((row) => [row.Fuel, row.EF])).toEqual([['Coal', 2.4], ['Gas', 1.9]]);
+        expect(table.matchReport).toEqual({ matchedRows: 2, unmatchedLeft: ['Oil | 2024'], unmatchedRight: ['Wood | 2024'] });
+    });
+
+    it('suffixes clashing right columns and keeps their units', () => {
+        const table = joinTables(activity, factors, { joinType: 'left', keys, suffix: '_lookup' });
+        expect(table.schema.map((col) => [col.id, col.unit])).toEqual([
+            ['Fuel', undefined], ['Year', undefined], ['Amount', 't'], ['EF', 't/t'], ['Amount_lookup', 'kg'],
+        ]);
+        expect(table.rawData[2]).toEqual({ Fuel: 'Oil', Year: 2024, Amount: 7, EF: null, Amount_lookup: null });
+    });
+
+    it('keeps unmatched right rows with their keys in right and full joins', () => {
+        const right = joinTables(activity, factors, { joinType: 'right', keys, columns: ['EF'], suffix: '_lookup' });
+        expect(right.rawData.map((row) => row.Fuel)).toEqual(['Coal', 'Gas', 'Wood']);
+        expect(right.rawData[2]).toEqual({ Fuel: 'Wood', Year: 2024, Amount: null, EF: 0 });
+        expect(joinTables(activity, factors, { joinType: 'full', keys, suffix: '_lookup' }).rawData).toHaveLength(4);
+    });
+
+    it('rejects unknown key columns', () => {
+        expect(() => joinTables(activity, factors, { joinType: 'left', keys: [{ left: 'Type', right: 'Fuel' }], suffix: '_x' }))
+            .toThrow('Left key [Type] not found');
+    });
+});
+
+describe('unionTables', () => {
+    const north: BatchTable = {
+        rawData: [{ Site: 'N1', CO2: 1 }],
+        schema: [
+            { id: 'Site', name: 'Site', type: 'string' },
+            { id: 'CO2', name: 'CO2', type: 'number', unit: 't' },
+        ],
+    };
+    const south: BatchTable = {
+        rawData: [{ Site: 'S1', CO2: 2000, CH4: 3 }],
+        schema: [
+            { id: 'Site', name: 'Site', type: 'string' },
+            { id: 'CO2', name: 'CO2', type: 'number', unit: 'kg' },
+            { id: 'CH4', name: 'CH4', type: 'number', unit: 'kg' },
+        ],
+    };
+
+    it('stacks rows, aligning columns by id and tagging the source', () => {
+        const table = unionTables([{ label: 'North', table: north }, { label: 'South', table: south }], 'Region');
+        expect(table.rawData).toEqual([
+            { Region: 'North', Site: 'N1', CO2: 1, CH4: null },
+            { Region: 'South', Site: 'S1', CO2: 2000, CH4: 3 },
+        ]);
+        expect(table.schema.map((col) => col.id)).toEqual(['Region', 'Site', 'CO2', 'CH4']);
+    });
+
+    it('reports missing columns and unit conflicts', () => {
+        const { unionReport } = unionTables([{ label: 'North', table: north }, { label: 'South', table: south }]);
+        expect(unionReport.missingColumns).toEqual([{ column: 'CH4', missingFrom: ['North'] }]);
+        expect(unionReport.unitConflicts).toEqual([{ column: 'CO2', units: [{ source: 'North', unit: 't' }, { source: 'South', unit: 'kg' }] }]);
+    });
+
+    it('converts columns whose type differs between inputs', () => {
+        const typedAsText = (table: BatchTable, rows: BatchTable['rawData']): BatchTable => ({
+            rawData: rows,
+            schema: table.schema.map((col) => (col.id === 'CO2' ? { ...col, type: 'string' } : col)),
+        });
+
+        const numbers = unionTables([{ label: 'North', table: north }, { label: 'South', table: typedAsText(south, [{ Site: 'S1', CO2: '2000', CH4: 3 }]) }]);
+        expect(numbers.schema.find((col) => col.id === 'CO2')?.type).toBe('number');
+        expect(numbers.rawData.map((row) => row.CO2)).toEqual([1, 2000]);
+
+        const text = unionTables([{ label: 'North', table: north }, { label: 'South', table: typedAsText(south, [{ Site: 'S1', CO2: 'n/a', CH4: 3 }]) }]);
+        expect(text.schema.find((col) => col.id === 'CO2')?.type).toBe('string');
+        expect(text.rawData.map((row) => row.CO2)).toEqual(['1', 'n/a']);
+    });
+
+    it('rejects a tag column that clashes with a data column', () => {
+        expect(() => unionTables([{ label: 'North', table: north }], 'Site')).toThrow('Tag column [Site] already exists');
+    });
+});
+
+describe('addFormulaColumn', () => {
+    it('adds the column with its derived unit', () => {
+        const result = addFormulaColumn(fuels, '[Amount] * [EF]', 'CO2', { EF: { value: 2, unit: 't/t' } });
+        expect(result.table?.rawData.map((row) => row.CO2)).toEqual([20, 8, 14]);
+        expect(result.table?.schema.at(-1)).toEqual({ id: 'CO2', name: 'CO2', type: 'number', unit: 't' });
+    });
+
+    it('uses the unit override and drops the unit warning', () => {
+        const result = addFormulaColumn(fuels, '[Amount] + 1', 'X', {}, 'kg');
+        expect(result.table?.schema.at(-1)?.unit).toBe('kg');
+        expect(result.unitWarning).toBeUndefined();
+    });
+});
+
+describe('evaluateBatchProcess', () => {
+    it('reduces a table to one value through aggregates', () => {
+        expect(evaluateBatchProcess(fuels, '$SUM_[Amount]', {})).toEqual({ value: 21, unit: 't', unitWarning: undefined, status: 'SUCCESS' });
+    });
+
+    it('converts to CO2e when a gas is selected', () => {
+        expect(evaluateBatchProcess(fuels, '$SUM_[Amount]', {}, { gas: 'CH4', report: 'AR4', horizon: 100 })).toMatchObject({ value: 525, unit: 't·CO2e' });
+    });
+
+    it('rejects formulas that give one value per row', () => {
+        expect(evaluateBatchProcess(fuels, '[Amount]', {}).error).toContain('Formula produces multiple values');
+    });
+});
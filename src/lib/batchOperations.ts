@@ -0,0 +1,790 @@
+/**
+ * Batch Table Operations
+ * Pure versions of the Filter, Transform, Group By, Pivot/Unpivot, Join, Union, TableMath and batch Process steps.
+ * The batch data store wraps them with status updates; the scenario pipeline runs them directly.
+ */
+
+import type { ColumnMetadata } from '../store/useBatchDataStore';
+import type { FilterNodeData, FilterCondition, FilterGroup, ColumnType, TransformNodeData, GroupByNodeData, PivotNodeData, UnpivotNodeData, JoinNodeData, ProcessNodeData, ProcessGwp } from '../types';
+import { executeBatchFormulaColumn, executeJoin, PROGRESS_INTERVAL } from './batchCalculationEngine';
+import type { ScalarInput, JoinMatchReport, ProgressCallback } from './batchCalculationEngine';
+import { aggregateColumn } from './aggregates';
+import { parseUnit, formatUnit, applyProcessGwp } from './unitAlgebra';
+import { coerceValue, inferComputedType, parseNumber } from './columnTypes';
+import { parseDateValue } from './textDateFunctions';
+import { columnarOf, fromColumnar, rowsView, materializeRows, rowCount, cellAt, selectRows, withColumn, withoutColumn, renameColumn, keepColumns, encodeColumn } from './columnarTable';
+import type { ColumnarTable, ColumnVector } from './columnarTable';
+
+export type BatchRow = Record<string, unknown>;
+
+export interface BatchTable {
+    rawData: BatchRow[];
+    schema: ColumnMetadata[];
+    // Set when the table is stored as columns (rawData is then a read-only view, see columnarTable.ts)
+    columnar?: ColumnarTable;
+}
+
+export type TransformOperation = NonNullable<TransformNodeData['operations']>[number];
+
+export type GroupByAggregation = NonNullable<GroupByNodeData['aggregations']>[number];
+
+export interface PivotConfig {
+    rowColumns: string[];
+    pivotColumn: string;
+    valueColumn: string;
+    func: NonNullable<PivotNodeData['func']>;
+}
+
+export interface JoinTablesConfig {
+    joinType: NonNullable<JoinNodeData['joinType']>;
+    keys: NonNullable<JoinNodeData['keys']>;
+    columns?: string[];
+    suffix: string;
+}
+
+export interface JoinedTable extends BatchTable {
+    matchReport: JoinMatchReport;
+}
+
+export interface UnionReport {
+    // Columns absent from some inputs (their cells are null there)
+    missingColumns: { column: string; missingFrom: string[] }[];
+    // Columns whose unit differs between inputs; the output keeps the first input's unit
+    unitConflicts: { column: string; units: { source: string; unit: string }[] }[];
+}
+
+export interface UnionedTable extends BatchTable {
+    unionReport: UnionReport;
+}
+
+export interface UnpivotConfig {
+    valueColumns: string[];
+    keyName: string;
+    valueName: string;
+    unitName: string;
+}
+
+export type BatchProcessResult = NonNullable<ProcessNodeData['batchResult']>;
+
+export interface FormulaColumnResult {
+    success: boolean;
+    table?: BatchTable;
+    unitWarning?: string;
+    error?: {
+        rowIndex: number;
+        message: string;
+    };
+}
+
+/**
+ * Pivot settings of a node, or null while the pivot or value column is unset
+ */
+export function pivotConfigOf(data: PivotNodeData): PivotConfig | null {
+    if (!data.pivotColumn || !data.valueColumn) return null;
+    return {
+        rowColumns: data.rowColumns || [],
+        pivotColumn: data.pivotColumn,
+        valueColumn: data.valueColumn,
+        func: data.func || 'SUM',
+    };
+}
+
+/**
+ * Unpivot settings of a node with the default output column names filled in
+ */
+export function unpivotConfigOf(data: UnpivotNodeData): UnpivotConfig {
+    return {
+        valueColumns: data.valueColumns || [],
+        keyName: data.keyName?.trim() || 'Variable',
+        valueName: data.valueName?.trim() || 'Value',
+        unitName: data.unitName?.trim() || 'Unit',
+    };
+}
+
+// ----- Filter -----
+
+const isBlank = (v: unknown): boolean => v === null || v === undefined || v === '';
+
+const RANGE_OPERATORS = ['between', 'dateBetween'];
+const COMPARISON_OPERATORS = ['>', '<', '>=', '<=', '==', '!='];
+const VALUELESS_OPERATORS = ['isEmpty', 'isNotEmpty'];
+
+function isCompleteCondition(condition: FilterCondition): boolean {
+    if (!condition.column) return false;
+    if (VALUELESS_OPERATORS.includes(condition.operator)) return true;
+    if (RANGE_OPERATORS.includes(condition.operator)) {
+        return !isBlank(condition.value) || !isBlank(condition.valueTo);
+    }
+    return condition.value !== undefined && condition.value !== '';
+}
+
+/**
+ * Drop unfinished conditions and groups left empty, so half-edited rules never filter
+ */
+function pruneFilterGroup(group: FilterGroup): FilterGroup | null {
+    const children = group.children.flatMap((child): FilterGroup['children'] => {
+        if (child.kind === 'group') {
+            const pruned = pruneFilterGroup(child);
+            return pruned ? [pruned] : [];
+        }
+        return isCompleteCondition(child) ? [child] : [];
+    });
+    return children.length > 0 ? { ...group, children } : null;
+}
+
+/**
+ * Condition tree of a Filter node as edited, unfinished conditions included.
+ * Nodes saved with a single column/operator/value triple become a one-condition group.
+ */
+export function filterDraftOf(data: FilterNodeData): FilterGroup {
+    return data.filter ?? {
+        kind: 'group',
+        id: 'root',
+        combinator: 'and',
+        children: data.operator
+            ? [{ kind: 'condition', id: 'legacy', column: data.column, operator: data.operator, value: data.value, mode: data.mode }]
+            : [],
+    };
+}
+
+/**
+ * Runnable condition tree of a Filter node, or null while no condition is complete
+ */
+export function filterTreeOf(data: FilterNodeData): FilterGroup | null {
+    return pruneFilterGroup(filterDraftOf(data));
+}
+
+/**
+ * Comma-separated list of an in / notIn condition
+ */
+export function filterListValues(value: FilterCondition['value']): string[] {
+    return String(value ?? '').split(',').map(v => v.trim()).filter(v => v !== '');
+}
+
+const OPERATOR_TEXT: Record<FilterCondition['operator'], string> = {
+    '>': '>', '<': '<', '>=': '>=', '<=': '<=', '==': '=', '!=': '!=',
+    contains: 'contains', startsWith: 'starts with', in: 'in', notIn: 'not in',
+    isEmpty: 'is empty', isNotEmpty: 'is not empty', between: 'between', dateBetween: 'date between', regex: 'matches',
+};
+
+function describeCondition(condition: FilterCondition): string {
+    const { column, operator, value, valueTo, mode } = condition;
+    const text = OPERATOR_TEXT[operator];
+    if (VALUELESS_OPERATORS.includes(operator)) return `${column} ${text}`;
+    if (operator === 'in' || operator === 'notIn') return `${column} ${text} (${filterListValues(value).join(', ')})`;
+    if (operator === 'regex') return `${column} ${text} /${value}/`;
+    if (RANGE_OPERATORS.includes(operator)) {
+        if (isBlank(valueTo)) return `${column} >= ${value}`;
+        if (isBlank(value)) return `${column} <= ${valueTo}`;
+        return `${column} ${text} ${value} and ${valueTo}`;
+    }
+    return `${column} ${text} ${mode === 'column' ? `[${value}]` : value}`;
+}
+
+/**
+ * Readable form of a condition tree, e.g. `fuel in (Coal, Lignite) AND (year >= 2019 OR flagged is empty)`
+ */
+export function describeFilter(group: FilterGroup): string {
+    return group.children
+        .map(child => (child.kind === 'group' ? `(${describeFilter(child)})` : describeCondition(child)))
+        .join(` ${group.combinator.toUpperCase()} `);
+}
+
+type RowPredicate = (row: BatchRow) => boolean;
+
+function sameValue(a: unknown, b: unknown): boolean {
+    const numA = Number(a);
+    const numB = Number(b);
+    if (!isBlank(a) && !isBlank(b) && !isNaN(numA) && !isNaN(numB)) return numA === numB;
+    return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+}
+
+function toTimestamp(value: unknown): number {
+    if (isBlank(value)) return NaN;
+    return parseDateValue(value)?.getTime() ?? Date.parse(String(value));
+}
+
+/**
+ * Inclusive range test; a blank bound leaves that side of the range open
+ */
+function rangePredicate(column: string, from: unknown, to: unknown, toKey: (v: unknown) => number | string): RowPredicate {
+    const low = isBlank(from) ? undefined : toKey(from);
+    const high = isBlank(to) ? undefined : toKey(to);
+    return (row) => {
+        if (isBlank(row[column])) return false;
+        const key = toKey(row[column]);
+        if (typeof key === 'number' && isNaN(key)) return false;
+        return (low === undefined || key >= low) && (high === undefined || key <= high);
+    };
+}
+
+function compileCondition(condition: FilterCondition, types: Record<string, ColumnType>): RowPredicate {
+    const { operator, valueTo, mode } = condition;
+    const column = condition.column as string;
+    // A typed value ("15/01/2023", "ya") is compared in the column's own form ("2023-01-15", true)
+    const columnType = types[column];
+    const value = mode !== 'column' && (columnType === 'date' || columnType === 'boolean') && COMPARISON_OPERATORS.includes(operator)
+        ? coerceValue(condition.value, columnType)
+        : condition.value;
+
+    switch (operator) {
+        case 'isEmpty': return (row) => String(row[column] ?? '').trim() === '';
+        case 'isNotEmpty': return (row) => String(row[column] ?? '').trim() !== '';
+        case 'in':
+        case 'notIn': {
+            const list = filterListValues(condition.value);
+            const wanted = operator === 'in';
+            return (row) => list.some(item => sameValue(row[column], item)) === wanted;
+        }
+        case 'startsWith': {
+            const prefix = String(value).toLowerCase();
+            return (row) => String(row[column] ?? '').toLowerCase().startsWith(prefix);
+        }
+        case 'regex': {
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(String(value), 'i');
+            } catch (err) {
+                throw new Error(`Invalid regex /${value}/ on [${column}]: ${(err as Error).message}`);
+            }
+            return (row) => pattern.test(String(row[column] ?? ''));
+        }
+        case 'dateBetween': {
+            [value, valueTo].forEach(bound => {
+                if (!isBlank(bound) && isNaN(toTimestamp(bound))) throw new Error(`"${bound}" is not a date`);
+            });
+            return rangePredicate(column, value, valueTo, toTimestamp);
+        }
+        case 'between': {
+            const numeric = [value, valueTo].every(bound => isBlank(bound) || !isNaN(Number(bound)));
+            return rangePredicate(column, value, valueTo, numeric ? Number : (v) => String(v).toLowerCase());
+        }
+    }
+
+    return (row) => {
+        const rowVal = row[column];
+        const compareVal = mode === 'column' ? row[String(value)] : value;
+
+        const numRowVal = Number(rowVal);
+        const numCompareVal = Number(compareVal);
+        const isNum = !isNaN(numRowVal) && !isNaN(numCompareVal);
+
+        const a = (isNum ? numRowVal : rowVal) as number | string;
+        const b = (isNum ? numCompareVal : compareVal) as number | string;
+
+        switch (operator) {
+            case '>': return a > b;
+            case '<': return a < b;
+            case '>=': return a >= b;
+            case '<=': return a <= b;
+            case '==': return a == b;
+            case '!=': return a != b;
+            case 'contains': return String(a).toLowerCase().includes(String(b).toLowerCase());
+            default: return true;
+        }
+    };
+}
+
+function compileGroup(group: FilterGroup, types: Record<string, ColumnType>): RowPredicate {
+    const predicates = group.children.map(child => (child.kind === 'group' ? compileGroup(child, types) : compileCondition(child, types)));
+    return group.combinator === 'or'
+        ? (row) => predicates.some(test => test(row))
+        : (row) => predicates.every(test => test(row));
+}
+
+/**
+ * Keep the rows matching a (pruned) condition tree; an empty group keeps every row
+ */
+export function filterRows(table: BatchTable, filter: FilterGroup, onProgress?: ProgressCallback): BatchTable {
+    const missing = collectFilterColumns(filter).filter(id => !table.schema.some(col => col.id === id));
+    if (missing.length > 0) throw new Error(`Column not found: ${missing.map(id => `[${id}]`).join(', ')}`);
+
+    const types = Object.fromEntries(table.schema.map(col => [col.id, col.type]));
+    const matches = compileGroup(filter, types);
+    const columnar = columnarOf(table);
+    const columns = [...new Set(collectFilterColumns(filter))];
+    const total = rowCount(columnar);
+
+    // The result shares the source's columns and only records the kept rows
+    const kept: number[] = [];
+    for (let i = 0; i < total; i++) {
+        if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / total);
+        const row: BatchRow = {};
+        for (const column of columns) row[column] = cellAt(columnar, column, i);
+        if (matches(row)) kept.push(i);
+    }
+    return fromColumnar(selectRows(columnar, kept), table.schema);
+}
+
+function collectFilterColumns(group: FilterGroup): string[] {
+    return group.children.flatMap((child) => {
+        if (child.kind === 'group') return collectFilterColumns(child);
+        const columns = child.column ? [child.column] : [];
+        return child.mode === 'column' && child.value !== undefined ? [...columns, String(child.value)] : columns;
+    });
+}
+
+// ----- Transform -----
+
+/**
+ * Apply delete / rename / select operations in order (combine is handled by combineTables)
+ */
+export function applyColumnOperations(table: BatchTable, operations: TransformOperation[], onProgress?: ProgressCallback): BatchTable {
+    // Column operations only regroup the vectors; no cell is copied
+    let columnar = columnarOf(table);
+    let { schema } = table;
+
+    for (const [index, op] of operations.entries()) {
+        onProgress?.(index / operations.length);
+        switch (op.type) {
+            case 'delete':
+                if (op.column) {
+                    const column = op.column;
+                    columnar = withoutColumn(columnar, column);
+                    schema = schema.filter(col => col.id !== column);
+                }
+                break;
+            case 'rename':
+                if (op.column && op.newName) {
+                    const { column, newName } = op;
+                    columnar = renameColumn(columnar, column, newName);
+                    // Rename in schema - PRESERVE UNIT!
+                    schema = schema.map(col =>
+                        col.id === column ? { ...col, id: newName, name: newName } : col
+                    );
+                }
+                break;
+            case 'select':
+                if (op.selectedColumns && op.selectedColumns.length > 0) {
+                    const selected = op.selectedColumns;
+                    columnar = keepColumns(columnar, selected);
+                    schema = schema.filter(col => selected.includes(col.id));
+                }
+                break;
+        }
+    }
+
+    return fromColumnar(columnar, schema);
+}
+
+/**
+ * Combine columns from several inputs side by side (row i of each input), then apply the other operations
+ */
+export function combineTables(sources: BatchTable[], operations: TransformOperation[]): BatchTable {
+    const combineOp = operations.find(op => op.type === 'combine');
+    const otherOps = operations.filter(op => op.type !== 'combine');
+
+    if (combineOp && combineOp.combineInputs && combineOp.combineInputs.length > 0) {
+        const combineInputs = combineOp.combineInputs.filter(
+            ci => ci.sourceInputIndex >= 0 && ci.sourceInputIndex < sources.length
+        );
+        // Determine max row count across all sources
+        const maxRows = Math.max(...sources.map(s => s.rawData.length));
+        const schema: ColumnMetadata[] = [];
+        const columns: Record<string, ColumnVector> = {};
+
+        // Build combined schema from selected columns per input
+        for (const ci of combineInputs) {
+            const srcSchema = sources[ci.sourceInputIndex].schema || [];
+            for (const colId of ci.columns) {
+                const colMeta = srcSchema.find(c => c.id === colId);
+                if (colMeta && !schema.find(c => c.id === colMeta.id)) {
+                    schema.push({ ...colMeta });
+                }
+            }
+        }
+
+        // Build combined columns; shorter inputs are padded with blanks
+        for (const ci of combineInputs) {
+            const source = columnarOf(sources[ci.sourceInputIndex]);
+            const sourceRows = rowCount(source);
+            for (const colId of ci.columns) {
+                columns[colId] = encodeColumn(Array.from({ length: maxRows }, (_, i) => (i < sourceRows ? cellAt(source, colId, i) : null)));
+            }
+        }
+
+        return applyColumnOperations(fromColumnar({ length: maxRows, columns, selection: null }, schema), otherOps);
+    }
+
+    // No combine op — fallback to first source
+    return applyColumnOperations(sources[0] ?? { rawData: [], schema: [] }, otherOps);
+}
+
+// ----- Group By -----
+
+/**
+ * One aggregate over a group's rows (null when the group has no usable numbers)
+ */
+function aggregateGroup(rows: BatchRow[], aggregation: GroupByAggregation): number | null {
+    if (aggregation.func === 'COUNT') {
+        return rows.filter(row => !isBlank(row[aggregation.column])).length;
+    }
+
+    if (aggregation.func === 'WAVG') {
+        const weight = aggregation.weightColumn;
+        if (!weight) throw new Error(`Weighted average of [${aggregation.column}] needs a weight column`);
+        let weightedSum = 0;
+        let weightSum = 0;
+        rows.forEach(row => {
+            const v = Number(row[aggregation.column]);
+            const w = Number(row[weight]);
+            if (isBlank(row[aggregation.column]) || isBlank(row[weight]) || isNaN(v) || isNaN(w)) return;
+            weightedSum += v * w;
+            weightSum += w;
+        });
+        return weightSum === 0 ? null : weightedSum / weightSum;
+    }
+
+    return aggregateColumn(aggregation.func, rows, aggregation.column);
+}
+
+/**
+ * Rows split by the values of `columns`, groups in order of first appearance
+ */
+function partitionRows(rows: BatchRow[], columns: string[]): BatchRow[][] {
+    const groups = new Map<string, BatchRow[]>();
+    rows.forEach(row => {
+        const key = JSON.stringify(columns.map(column => row[column] ?? null));
+        const group = groups.get(key);
+        if (group) group.push(row);
+        else groups.set(key, [row]);
+    });
+    return [...groups.values()];
+}
+
+function assertColumns(table: BatchTable, columns: string[]): void {
+    const missing = columns.find(column => !table.schema.some(col => col.id === column));
+    if (missing) throw new Error(`Column [${missing}] not found`);
+}
+
+export const groupByOutputName = (aggregation: GroupByAggregation): string =>
+    aggregation.outputName?.trim() || `${aggregation.func}_${aggregation.column}`;
+
+/**
+ * One row per distinct combination of the group columns (in order of first appearance),
+ * with one column per aggregation. Aggregates keep the unit of their column; COUNT is unitless.
+ */
+export function groupRows(table: BatchTable, groupColumns: string[], aggregations: GroupByAggregation[]): BatchTable {
+    const columns = [...groupColumns, ...aggregations.flatMap(a => a.weightColumn ? [a.column, a.weightColumn] : [a.column])];
+    assertColumns(table, columns);
+    if (aggregations.length === 0) throw new Error('Add at least one aggregation');
+
+    const rawData = partitionRows(materializeRows(table, columns), groupColumns).map(rows => {
+        const out: BatchRow = {};
+        groupColumns.forEach(column => { out[column] = rows[0][column]; });
+        aggregations.forEach(aggregation => { out[groupByOutputName(aggregation)] = aggregateGroup(rows, aggregation); });
+        return out;
+    });
+
+    const schema: ColumnMetadata[] = [
+        ...groupColumns.map(column => table.schema.find(col => col.id === column)!),
+        ...aggregations.map((aggregation): ColumnMetadata => {
+            const name = groupByOutputName(aggregation);
+            const unit = aggregation.func === 'COUNT' ? undefined : table.schema.find(col => col.id === aggregation.column)?.unit;
+            return { id: name, name, type: 'number', ...(unit ? { unit } : {}) };
+        }),
+    ];
+
+    return { rawData, schema };
+}
+
+// ----- Pivot / Unpivot -----
+
+/**
+ * Long → wide: one row per combination of `rowColumns`, one column per distinct value of
+ * `pivotColumn` holding the aggregate of `valueColumn`. Missing combinations are null.
+ */
+export function pivotRows(table: BatchTable, config: PivotConfig): BatchTable {
+    const { rowColumns, pivotColumn, valueColumn, func } = config;
+    assertColumns(table, [...rowColumns, pivotColumn, valueColumn]);
+    if (rowColumns.includes(pivotColumn)) throw new Error(`[${pivotColumn}] cannot be both a row and the pivot column`);
+    const sourceRows = materializeRows(table, [...rowColumns, pivotColumn, valueColumn]);
+
+    // Output column per pivot value; blanks go to "(blank)" and values clashing with a row column get the pivot column appended
+    const pivotNames = new Map<string, string>();
+    sourceRows.forEach(row => {
+        const key = String(row[pivotColumn] ?? '');
+        if (pivotNames.has(key)) return;
+        const name = key === '' ? '(blank)' : key;
+        pivotNames.set(key, rowColumns.includes(name) ? `${name} (${pivotColumn})` : name);
+    });
+
+    const rawData = partitionRows(sourceRows, rowColumns).map(rows => {
+        const out: BatchRow = {};
+        rowColumns.forEach(column => { out[column] = rows[0][column]; });
+        pivotNames.forEach((name, key) => {
+            const cell = rows.filter(row => String(row[pivotColumn] ?? '') === key);
+            out[name] = cell.length === 0 ? null : aggregateGroup(cell, { func, column: valueColumn });
+        });
+        return out;
+    });
+
+    const unit = func === 'COUNT' ? undefined : table.schema.find(col => col.id === valueColumn)?.unit;
+    const schema: ColumnMetadata[] = [
+        ...rowColumns.map(column => table.schema.find(col => col.id === column)!),
+        ...[...pivotNames.values()].map((name): ColumnMetadata => ({ id: name, name, type: 'number', ...(unit ? { unit } : {}) })),
+    ];
+
+    return { rawData, schema };
+}
+
+/**
+ * Wide → long: each selected column becomes one row with its name, value and unit.
+ * The other columns are repeated on every row.
+ */
+export function unpivotRows(table: BatchTable, config: UnpivotConfig): BatchTable {
+    const { valueColumns, keyName, valueName, unitName } = config;
+    assertColumns(table, valueColumns);
+    if (valueColumns.length === 0) throw new Error('Select at least one column to unpivot');
+
+    const valueSchema = valueColumns.map(column => table.schema.find(col => col.id === column)!);
+    const keptSchema = table.schema.filter(col => !valueColumns.includes(col.id));
+    const outputNames = [keyName, valueName, unitName];
+    const clash = outputNames.find((name, i) => keptSchema.some(col => col.id === name) || outputNames.indexOf(name) !== i);
+    if (clash) throw new Error(`Output column [${clash}] already exists`);
+
+    const rawData = table.rawData.flatMap(row => {
+        const kept: BatchRow = {};
+        keptSchema.forEach(col => { kept[col.id] = row[col.id]; });
+        return valueSchema.map(col => ({
+            ...kept,
+            [keyName]: col.name,
+            [valueName]: row[col.id] ?? null,
+            [unitName]: col.unit || '',
+        }));
+    });
+
+    // The value column only carries a unit when every unpivoted column shares it
+    const units = new Set(valueSchema.map(col => col.unit || ''));
+    const sharedUnit = units.size === 1 ? [...units][0] : '';
+    const schema: ColumnMetadata[] = [
+        ...keptSchema,
+        { id: keyName, name: keyName, type: 'string' },
+        {
+            id: valueName,
+            name: valueName,
+            type: valueSchema.every(col => col.type === 'number') ? 'number' : 'string',
+            ...(sharedUnit ? { unit: sharedUnit } : {}),
+        },
+        { id: unitName, name: unitName, type: 'string' },
+    ];
+
+    return { rawData, schema };
+}
+
+// ----- Join -----
+
+/**
+ * Join settings of a node, or null until at least one complete key pair is set
+ */
+export function joinConfigOf(data: JoinNodeData): JoinTablesConfig | null {
+    const keys = (data.keys || []).filter(k => k.left && k.right);
+    if (keys.length === 0) return null;
+    return {
+        joinType: data.joinType || 'left',
+        keys,
+        columns: data.columns,
+        suffix: data.suffix || '_lookup',
+    };
+}
+
+/**
+ * Key-based join of two tables. Right-table columns keep their metadata (units)
+ * under their output name; the right key columns are not repeated.
+ */
+export function joinTables(left: BatchTable, right: BatchTable, config: JoinTablesConfig): JoinedTable {
+    const leftKeys = config.keys.map(k => k.left);
+    const rightKeys = config.keys.map(k => k.right);
+    const missingLeft = leftKeys.find(key => !left.schema.some(col => col.id === key));
+    if (missingLeft) throw new Error(`Left key [${missingLeft}] not found`);
+    const missingRight = [...rightKeys, ...(config.columns || [])].find(key => !right.schema.some(col => col.id === key));
+    if (missingRight) throw new Error(`Right column [${missingRight}] not found`);
+
+    const targetColumns = config.columns ?? right.schema.map(col => col.id).filter(id => !rightKeys.includes(id));
+    const result = executeJoin({
+        mainData: materializeRows(left),
+        lookupData: materializeRows(right, [...rightKeys, ...targetColumns]),
+        leftKeys,
+        rightKeys,
+        targetColumns,
+        joinType: config.joinType,
+        suffix: config.suffix,
+    });
+    if (!result.success || !result.data || !result.matchReport) {
+        throw new Error(result.error?.message || 'Join failed');
+    }
+
+    const names = result.columnNames || {};
+    const schema: ColumnMetadata[] = [
+        ...left.schema,
+        ...targetColumns.map(id => {
+            const col = right.schema.find(c => c.id === id)!;
+            return { ...col, id: names[id], name: names[id] === id ? col.name : names[id] };
+        }),
+    ];
+
+    return { rawData: result.data, schema, matchReport: result.matchReport };
+}
+
+// ----- Union -----
+
+/**
+ * Stack the rows of several tables. Columns are matched by id, in order of first appearance;
+ * a column typed differently across inputs becomes a string column.
+ */
+export function unionTables(sources: { label: string; table: BatchTable }[], tagColumn?: string): UnionedTable {
+    if (sources.length === 0) throw new Error('Connect at least one table');
+
+    const columns = new Map<string, ColumnMetadata>();
+    const mixedTypes = new Set<string>();
+    sources.forEach(({ table }) => table.schema.forEach(col => {
+        const existing = columns.get(col.id);
+        if (!existing) columns.set(col.id, col);
+        else if (existing.type !== col.type) mixedTypes.add(col.id);
+    }));
+    if (tagColumn && columns.has(tagColumn)) throw new Error(`Tag column [${tagColumn}] already exists`);
+
+    // A column typed differently across inputs stays a number when every cell reads as one, otherwise it becomes text
+    const sourceRows = sources.map(({ table }) => materializeRows(table));
+    mixedTypes.forEach(column => {
+        const numeric = sourceRows.every(rows => rows.every(row => {
+            const value = row[column];
+            return value === null || value === undefined || value === '' || parseNumber(value) !== null;
+        }));
+        columns.set(column, { ...columns.get(column)!, type: numeric ? 'number' : 'string' });
+    });
+
+    const missingColumns = [...columns.keys()].flatMap(column => {
+        const missingFrom = sources
+            .filter(({ table }) => !table.schema.some(col => col.id === column))
+            .map(({ label }) => label);
+        return missingFrom.length > 0 ? [{ column, missingFrom }] : [];
+    });
+
+    const unitConflicts = [...columns.keys()].flatMap(column => {
+        const units = sources.flatMap(({ label, table }) => {
+            const col = table.schema.find(c => c.id === column);
+            return col ? [{ source: label, unit: col.unit || '' }] : [];
+        });
+        return new Set(units.map(u => u.unit)).size > 1 ? [{ column, units }] : [];
+    });
+
+    const columnIds = [...columns.keys()];
+    const rawData = sources.flatMap(({ label }, index) => sourceRows[index].map(row => {
+        const out: BatchRow = tagColumn ? { [tagColumn]: label } : {};
+        columnIds.forEach(column => {
+            const value = row[column] ?? null;
+            out[column] = mixedTypes.has(column) ? coerceValue(value, columns.get(column)!.type) : value;
+        });
+        return out;
+    }));
+
+    const schema: ColumnMetadata[] = [
+        ...(tagColumn ? [{ id: tagColumn, name: tagColumn, type: 'string' as const }] : []),
+        ...columns.values(),
+    ];
+
+    return { rawData, schema, unionReport: { missingColumns, unitConflicts } };
+}
+
+// ----- Formulas -----
+
+// Units of the table's columns, as executeBatchFormulaColumn expects them
+const columnUnitsOf = (table: BatchTable): Record<string, string> => {
+    const columnUnits: Record<string, string> = {};
+    table.schema.forEach(col => {
+        if (col.unit) columnUnits[col.id] = col.unit;
+    });
+    return columnUnits;
+};
+
+// Types of the table's columns, which decide how formulas read their cells
+const columnTypesOf = (table: BatchTable): Record<string, ColumnType> =>
+    Object.fromEntries(table.schema.map(col => [col.id, col.type]));
+
+// Rows for a formula: a columnar table is read with only the columns the formula names
+const formulaRows = (table: BatchTable, formula: string): BatchRow[] => (table.columnar
+    ? rowsView(table.columnar, table.schema.map(col => col.id).filter(id => formula.includes(`[${id}]`)))
+    : table.rawData);
+
+/**
+ * TableMath: add a calculated column (appended to the source's columns without copying them)
+ */
+export function addFormulaColumn(
+    table: BatchTable,
+    formula: string,
+    newColumnName: string,
+    scalarInputs: Record<string, ScalarInput> = {},
+    unitOverride?: string,
+    onProgress?: ProgressCallback
+): FormulaColumnResult {
+    const result = executeBatchFormulaColumn(
+        formulaRows(table, formula),
+        formula,
+        table.schema.map(s => s.id),
+        columnUnitsOf(table),
+        scalarInputs,
+        onProgress,
+        columnTypesOf(table)
+    );
+
+    if (!result.success || !result.values) {
+        return { success: false, error: result.error };
+    }
+
+    const columnar = withColumn(columnarOf(table), newColumnName, result.values);
+    return {
+        success: true,
+        table: fromColumnar(columnar, [
+            ...table.schema,
+            { id: newColumnName, name: newColumnName, type: inferComputedType(rowsView(columnar, [newColumnName]), newColumnName), unit: unitOverride?.trim() || result.derivedUnit },
+        ]),
+        unitWarning: unitOverride?.trim() ? undefined : result.unitWarning,
+    };
+}
+
+/**
+ * Process node over batch data: the formula must reduce to one value (e.g. through aggregates).
+ * Converted to CO2e when a GWP gas is selected.
+ */
+export function evaluateBatchProcess(
+    table: BatchTable,
+    formula: string,
+    scalarInputs: Record<string, ScalarInput>,
+    gwp?: ProcessGwp
+): BatchProcessResult {
+    const result = executeBatchFormulaColumn(
+        formulaRows(table, formula),
+        formula,
+        table.schema.map(s => s.id),
+        columnUnitsOf(table),
+        scalarInputs,
+        undefined,
+        columnTypesOf(table)
+    );
+
+    if (!result.success || !result.values) {
+        return { value: 0, status: 'ERROR', error: result.error?.message || 'Calculation failed' };
+    }
+
+    const values = result.values;
+    const uniqueValues = new Set(values.map(v => JSON.stringify(v)));
+
+    if (uniqueValues.size > 1) {
+        // Multiple different values — not a scalar result
+        return {
+            value: 0,
+            status: 'ERROR',
+            error: 'Formula produces multiple values. Use aggregate functions ($SUM_, $AVG_, etc.) or use TableMath Node instead.',
+        };
+    }
+
+    let value = values[0] as number | string;
+    let unit = result.derivedUnit;
+    if (gwp?.gas && typeof value === 'number') {
+        const converted = applyProcessGwp(value, parseUnit(unit || ''), gwp);
+        value = converted.value;
+        unit = formatUnit(converted.unit);
+    }
+    return { value, unit, unitWarning: result.unitWarning, status: 'SUCCESS' };
+}
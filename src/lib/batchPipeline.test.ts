@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { runBatchPipeline } from './batchPipeline';
+
+const node = (id: string, data: Record<string, unknown>) => ({ id, position: { x: 0, y: 0 }, data: { label: id, ...data } });
+const edge = (source: string, target: string, targetHandle: string): Edge => ({ id: `${source}-${target}`, source, target, targetHandle });
+
+// Dataset → Filter (Amount > 5) → TableMath (CO2 = Amount × EF) → Process ($SUM_[CO2])
+const nodes = [
+    node('data', { type: 'dataset', outputs: [] }),
+    node('EF', { type: 'factor', mode: 'MANUAL_OVERRIDE', value: 2, unit: 't/t', outputs: [] }),
+    node('big', { type: 'filter', column: 'Amount', operator: '>', value: 5, inputs: [{ id: 'big-in', label: 'in' }], outputs: [] }),
+    node('co2', { type: 'tableMath', newColumnName: 'CO2', formula: '[Amount] * [EF]', inputs: [{ id: 'co2-in', label: 'in' }], outputs: [] }),
+    node('total', { type: 'process', formula: '$SUM_[CO2]', inputs: [{ id: 'total-in', label: 'in' }], outputs: [] }),
+] as unknown as Node<NodeData>[];
+const edges = [edge('data', 'big', 'big-in'), edge('big', 'co2', 'co2-in'), edge('EF', 'co2', 'co2-ef'), edge('co2', 'total', 'total-in')];
+
+const datasets = {
+    data: {
+        rawData: [{ Amount: 10 }, { Amount: 4 }, { Amount: 7 }],
+        schema: [{ id: 'Amount', name: 'Amount', type: 'number' as const, unit: 't' }],
+    },
+};
+
+describe('runBatchPipeline', () => {
+    it('runs every batch step from the supplied tables', () => {
+        const output = runBatchPipeline(nodes, edges, datasets);
+        expect(output.tables.get('big')?.rowCount).toBe(2);
+        expect(output.tables.get('co2')?.rawData.map((row) => row.CO2)).toEqual([20, 14]);
+        expect(output.batchResults.get('total')).toMatchObject({ value: 34, unit: 't', status: 'SUCCESS' });
+    });
+
+    it('gives Export nodes the table they write', () => {
+        const withExport = [...nodes, node('out', { type: 'export', inputs: [{ id: 'out-in', label: 'in' }], outputs: [] })] as unknown as Node<NodeData>[];
+        const output = runBatchPipeline(withExport, [...edges, edge('co2', 'out', 'out-in')], datasets);
+        expect(output.tables.get('out')).toMatchObject({ status: 'SUCCESS', rowCount: 2 });
+        expect(output.tables.get('out')?.rawData.map((row) => row.CO2)).toEqual([20, 14]);
+    });
+
+    it('leaves downstream steps empty when a dataset has no table', () => {
+        const output = runBatchPipeline(nodes, edges, {});
+        expect(output.tables.get('big')).toMatchObject({ status: 'ERROR', errorDetails: { message: 'No source data connected' } });
+        expect(output.batchResults.has('total')).toBe(false);
+    });
+});
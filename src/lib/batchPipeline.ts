@@ -0,0 +1,209 @@
+/**
+ * Batch Pipeline Runner
+ * Evaluates every Dataset → Filter / Transform / TableMath → Process / Export chain of a graph in
+ * one synchronous pass, from supplied dataset tables instead of the batch data store.
+ * Used to evaluate what-if copies of the graph (scenarios) without touching the canvas, and by the
+ * headless runner (scripts/runProject.ts).
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import type { BatchNodeData } from '../store/useBatchDataStore';
+import { runCalculations, sortNodes, numericResult } from './calculationEngine';
+import type { CalculationResult } from './calculationEngine';
+import { filterRows, filterTreeOf, applyColumnOperations, combineTables, groupRows, pivotRows, unpivotRows, pivotConfigOf, unpivotConfigOf, joinTables, joinConfigOf, unionTables, addFormulaColumn, evaluateBatchProcess } from './batchOperations';
+import type { BatchTable, BatchProcessResult } from './batchOperations';
+import type { ScalarInput } from './batchCalculationEngine';
+
+export interface PipelineOutput {
+    // Output table of every batch node that ran (failed steps have status ERROR)
+    tables: Map<string, BatchNodeData>;
+    // Process nodes fed by a batch table
+    batchResults: Map<string, BatchProcessResult>;
+    // Scalar engine results, with aggregates over the pipeline's tables
+    results: Map<string, CalculationResult>;
+}
+
+const SCALAR_TYPES = ['source', 'factor', 'process'];
+
+const succeeded = (table: BatchTable): BatchNodeData => ({
+    ...table,
+    status: 'SUCCESS',
+    rowCount: table.rawData.length,
+});
+
+const failed = (message: string, rowIndex = -1): BatchNodeData => ({
+    rawData: [],
+    schema: [],
+    status: 'ERROR',
+    errorDetails: { rowIndex, message },
+    rowCount: 0,
+});
+
+/**
+ * Run the whole batch pipeline. `datasets` holds the table of each Dataset node by id;
+ * datasets without a table leave their downstream steps empty.
+ */
+export function runBatchPipeline(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    datasets: Record<string, BatchTable>
+): PipelineOutput {
+    const nodeById = new Map(nodes.map((node) => [node.id, node]));
+    const tables = new Map<string, BatchNodeData>();
+    const batchResults = new Map<string, BatchProcessResult>();
+
+    // Ghost nodes mirror the table of the node they point to
+    const getTable = (nodeId: string): BatchNodeData | undefined => {
+        const visited = new Set<string>();
+        let currentId: string | undefined = nodeId;
+        while (currentId && !visited.has(currentId)) {
+            visited.add(currentId);
+            const table = tables.get(currentId);
+            if (table) return table;
+            const node = nodeById.get(currentId);
+            currentId = node?.data.type === 'ghost' ? node.data.sourceNodeId : undefined;
+        }
+        return undefined;
+    };
+
+    // Scalars are re-evaluated only after new tables appear
+    let scalarResults: Map<string, CalculationResult> | null = null;
+    const getScalarResults = () => {
+        if (!scalarResults) scalarResults = runCalculations(nodes, edges, getTable).results;
+        return scalarResults;
+    };
+    const setTable = (nodeId: string, table: BatchNodeData) => {
+        tables.set(nodeId, table);
+        scalarResults = null;
+    };
+
+    // Batch and scalar sources of a node, in edge order (scalars keyed by source label, as in TableMath)
+    const collectInputs = (nodeId: string) => {
+        const batchSources: BatchNodeData[] = [];
+        const batchSourceIds: string[] = [];
+        const scalarInputs: Record<string, ScalarInput> = {};
+
+        edges.filter((e) => e.target === nodeId).forEach((edge) => {
+            const source = nodeById.get(edge.source);
+            if (!source) return;
+
+            if (SCALAR_TYPES.includes(source.data.type)) {
+                const data = source.data;
+                const label = data.label || 'Scalar';
+                if (data.type === 'source' || data.type === 'factor') {
+                    scalarInputs[label] = { value: data.value ?? 0, unit: data.unit || '' };
+                } else {
+                    // Processes over batch data pass on their single batch value
+                    const batchResult = batchResults.get(source.id);
+                    const result = getScalarResults().get(source.id);
+                    scalarInputs[label] = batchResult?.status === 'SUCCESS' && typeof batchResult.value === 'number'
+                        ? { value: batchResult.value, unit: batchResult.unit || '' }
+                        : { value: numericResult(result) ?? 0, unit: result?.resultUnit || '' };
+                }
+                return;
+            }
+
+            const table = getTable(edge.source);
+            if (table && table.rawData.length > 0) {
+                batchSources.push(table);
+                batchSourceIds.push(edge.targetHandle || '');
+            }
+        });
+
+        return { batchSources, batchSourceIds, scalarInputs };
+    };
+
+    const { sorted } = sortNodes(nodes, edges);
+
+    sorted.forEach((nodeId) => {
+        const node = nodeById.get(nodeId);
+        if (!node) return;
+        const data = node.data;
+
+        if (data.type === 'dataset') {
+            const table = datasets[nodeId];
+            if (table) setTable(nodeId, succeeded(table));
+            return;
+        }
+
+        if (data.type !== 'filter' && data.type !== 'transform' && data.type !== 'groupBy'
+            && data.type !== 'pivot' && data.type !== 'unpivot' && data.type !== 'join' && data.type !== 'union' && data.type !== 'tableMath'
+            && data.type !== 'process' && data.type !== 'export') {
+            return;
+        }
+
+        const { batchSources, batchSourceIds, scalarInputs } = collectInputs(nodeId);
+
+        if (data.type === 'process') {
+            if (batchSources.length === 0 || !data.formula?.trim()) return;
+            try {
+                batchResults.set(nodeId, evaluateBatchProcess(batchSources[0], data.formula.trim(), scalarInputs, data.gwp));
+            } catch (err) {
+                batchResults.set(nodeId, { value: 0, status: 'ERROR', error: (err as Error).message || 'Unexpected error' });
+            }
+            return;
+        }
+
+        if (batchSources.length === 0) {
+            setTable(nodeId, failed('No source data connected'));
+            return;
+        }
+
+        try {
+            if (data.type === 'export') {
+                // The table the Export node writes (vectors shared with the source)
+                const { rawData, schema, columnar } = batchSources[0];
+                setTable(nodeId, succeeded({ rawData, schema, columnar }));
+            } else if (data.type === 'filter') {
+                const filter = filterTreeOf(data);
+                if (!filter) return;
+                setTable(nodeId, succeeded(filterRows(batchSources[0], filter)));
+            } else if (data.type === 'transform') {
+                const operations = data.operations || [];
+                if (operations.some((op) => op.type === 'combine')) {
+                    // Combine inputs are indexed by input handle
+                    const ordered = data.inputs
+                        .map((input) => batchSources[batchSourceIds.indexOf(input.id)])
+                        .filter((table): table is BatchNodeData => !!table);
+                    setTable(nodeId, succeeded(combineTables(ordered, operations)));
+                } else {
+                    setTable(nodeId, succeeded(applyColumnOperations(batchSources[0], operations)));
+                }
+            } else if (data.type === 'groupBy') {
+                if (!data.aggregations || data.aggregations.length === 0) return;
+                setTable(nodeId, succeeded(groupRows(batchSources[0], data.groupColumns || [], data.aggregations)));
+            } else if (data.type === 'pivot') {
+                const config = pivotConfigOf(data);
+                if (!config) return;
+                setTable(nodeId, succeeded(pivotRows(batchSources[0], config)));
+            } else if (data.type === 'unpivot') {
+                const config = unpivotConfigOf(data);
+                if (config.valueColumns.length === 0) return;
+                setTable(nodeId, succeeded(unpivotRows(batchSources[0], config)));
+            } else if (data.type === 'join') {
+                const config = joinConfigOf(data);
+                const [left, right] = data.inputs.map((input) => batchSources[batchSourceIds.indexOf(input.id)]);
+                if (!config || !left || !right) return;
+                setTable(nodeId, succeeded(joinTables(left, right, config)));
+            } else if (data.type === 'union') {
+                const sources = data.inputs.flatMap((input) => {
+                    const table = batchSources[batchSourceIds.indexOf(input.id)];
+                    const edge = edges.find((e) => e.target === nodeId && e.targetHandle === input.id);
+                    return table && edge ? [{ label: nodeById.get(edge.source)?.data.label || input.label, table }] : [];
+                });
+                setTable(nodeId, succeeded(unionTables(sources, data.tagColumn)));
+            } else {
+                if (!data.formula || !data.newColumnName) return;
+                const result = addFormulaColumn(batchSources[0], data.formula, data.newColumnName, scalarInputs, data.unitOverride);
+                setTable(nodeId, result.success && result.table
+                    ? { ...succeeded(result.table), unitWarning: result.unitWarning }
+                    : failed(result.error?.message || 'Calculation failed', result.error?.rowIndex));
+            }
+        } catch (err) {
+            setTable(nodeId, failed((err as Error).message || 'Unexpected error'));
+        }
+    });
+
+    return { tables, batchResults, results: getScalarResults() };
+}
@@ -0,0 +1,27 @@
+/**
+ * Batch Worker
+ * Web Worker entry: runs one batch job per message and answers with progress, then the result.
+ */
+
+import { setDefaultGwpSet } from '../data/gwpValues';
+import { executeBatchJob, decodeJob, encodeResult } from './batchJobs';
+import type { WorkerRequest, WorkerResponse } from './batchJobs';
+
+const ctx = self as unknown as Worker;
+
+const post = (response: WorkerResponse, transfer: ArrayBuffer[] = []) => ctx.postMessage(response, transfer);
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const { id, gwpSet } = event.data;
+    setDefaultGwpSet(gwpSet);
+
+    const { job, inputs } = decodeJob(event.data.job);
+    const result = executeBatchJob(job, (fraction) => post({ id, type: 'progress', fraction }));
+    if (!result.success) {
+        post({ id, type: 'failed', error: result.error });
+        return;
+    }
+
+    const { payload, transfer } = encodeResult(result.table, inputs);
+    post({ id, type: 'done', table: payload, unitWarning: result.unitWarning }, transfer);
+};
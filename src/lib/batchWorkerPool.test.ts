@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { BatchTable } from './batchOperations';
+import type { BatchJob, WorkerRequest, WorkerResponse } from './batchJobs';
+import { encodeResult } from './batchJobs';
+
+const table: BatchTable = {
+    rawData: [{ a: 1 }, { a: 2 }],
+    schema: [{ id: 'a', name: 'a', type: 'number' }],
+};
+const job: BatchJob = { kind: 'transform', table, operations: [] };
+
+// Stands in for a Web Worker: records requests and answers when told to
+class FakeWorker {
+    static instances: FakeWorker[] = [];
+    onmessage: ((event: { data: WorkerResponse }) => void) | null = null;
+    onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+    requests: WorkerRequest[] = [];
+    terminated = false;
+
+    constructor() {
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage(request: WorkerRequest) {
+        this.requests.push(request);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    reply(response: WorkerResponse) {
+        this.onmessage?.({ data: response });
+    }
+
+    finish(id = this.requests.at(-1)!.id) {
+        this.reply({ id, type: 'done', table: encodeResult(table, []).payload });
+    }
+}
+
+// One worker, so a second job has to queue
+async function loadPool() {
+    vi.resetModules();
+    FakeWorker.instances = [];
+    vi.stubGlobal('navigator', { hardwareConcurrency: 2 });
+    vi.stubGlobal('Worker', FakeWorker);
+    return import('./batchWorkerPool');
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('runBatchJob', () => {
+    it('reports progress and decodes the finished table', async () => {
+        const { runBatchJob } = await loadPool();
+        const onProgress = vi.fn();
+        const run = runBatchJob(job, onProgress);
+        const [worker] = FakeWorker.instances;
+
+        const { id } = worker.requests[0];
+        worker.reply({ id, type: 'progress', fraction: 0.5 });
+        worker.finish();
+
+        expect(onProgress).toHaveBeenCalledWith(0.5);
+        const result = await run.result;
+        expect(result.success && Array.from(result.table.rawData)).toEqual(table.rawData);
+    });
+
+    it('queues jobs while every worker is busy', async () => {
+        const { runBatchJob } = await loadPool();
+        const first = runBatchJob(job);
+        const second = runBatchJob(job);
+        const [worker] = FakeWorker.instances;
+        expect(worker.requests).toHaveLength(1);
+
+        worker.finish();
+        await first.result;
+        expect(worker.requests).toHaveLength(2);
+        worker.finish();
+        expect((await second.result).success).toBe(true);
+    });
+
+    it('drops a cancelled queued job without running it', async () => {
+        const { runBatchJob, RUN_CANCELLED } = await loadPool();
+        runBatchJob(job);
+        const queued = runBatchJob(job);
+        queued.cancel();
+
+        expect(await queued.result).toEqual({ success: false, error: { rowIndex: -1, message: RUN_CANCELLED } });
+        expect(FakeWorker.instances[0].requests).toHaveLength(1);
+    });
+
+    it('terminates the worker of a cancelled running job and starts a fresh one for the next', async () => {
+        const { runBatchJob, RUN_CANCELLED } = await loadPool();
+        const running = runBatchJob(job);
+        const next = runBatchJob(job);
+        const [first] = FakeWorker.instances;
+        const cancelledId = first.requests[0].id;
+
+        running.cancel();
+        expect(first.terminated).toBe(true);
+        expect((await running.result).success).toBe(false);
+        expect(await running.result).toMatchObject({ error: { message: RUN_CANCELLED } });
+
+        const second = FakeWorker.instances[1];
+        expect(second.requests).toHaveLength(1);
+        // A late answer for the cancelled job is ignored
+        second.finish(cancelledId);
+        second.finish();
+        expect((await next.result).success).toBe(true);
+    });
+
+    it('fails the running job when its worker crashes', async () => {
+        const { runBatchJob } = await loadPool();
+        const run = runBatchJob(job);
+        FakeWorker.instances[0].onerror?.({ message: 'out of memory', preventDefault: () => undefined });
+        expect(await run.result).toEqual({ success: false, error: { rowIndex: -1, message: 'Worker failed: out of memory' } });
+    });
+
+    it('runs in the current thread without Worker support', async () => {
+        vi.resetModules();
+        const { runBatchJob, RUN_CANCELLED } = await import('./batchWorkerPool');
+        const result = await runBatchJob(job).result;
+        expect(result.success && Array.from(result.table.rawData)).toEqual(table.rawData);
+
+        const cancelled = runBatchJob(job);
+        cancelled.cancel();
+        expect(await cancelled.result).toMatchObject({ success: false, error: { message: RUN_CANCELLED } });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Batch Worker Pool
+ * Runs batch jobs in a small pool of Web Workers so large tables do not freeze the canvas.
+ * Jobs wait in a queue while every worker is busy; cancelling a running job terminates its
+ * worker (a fresh one is started for the next job). Without Worker support (Node scripts)
+ * jobs run in the current thread.
+ */
+
+import { getDefaultGwpSet } from '../data/gwpValues';
+import { executeBatchJob, encodeJob, decodeTable } from './batchJobs';
+import type { BatchJob, BatchJobResult, WorkerRequest, WorkerResponse } from './batchJobs';
+import type { ProgressCallback } from './batchCalculationEngine';
+import type { ColumnarTable } from './columnarTable';
+
+export const RUN_CANCELLED = 'Run cancelled';
+
+export interface BatchRun {
+    // Always resolves; a cancelled run resolves as a failure with RUN_CANCELLED
+    result: Promise<BatchJobResult>;
+    cancel: () => void;
+}
+
+interface PendingJob {
+    id: number;
+    job: BatchJob;
+    // The job's tables in columnar form, which the result refers to
+    inputs: ColumnarTable[];
+    onProgress?: ProgressCallback;
+    resolve: (result: BatchJobResult) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job: PendingJob | null;
+}
+
+// Leave a core for the page itself
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2) - 1));
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+
+const failure = (message: string): BatchJobResult => ({ success: false, error: { rowIndex: -1, message } });
+
+function removeWorker(entry: PoolWorker): void {
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+}
+
+function createWorker(): PoolWorker {
+    const entry: PoolWorker = {
+        worker: new Worker(new URL('./batchWorker.ts', import.meta.url), { type: 'module' }),
+        job: null,
+    };
+
+    entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        const pending = entry.job;
+        if (!pending || response.id !== pending.id) return;
+
+        if (response.type === 'progress') {
+            pending.onProgress?.(response.fraction);
+            return;
+        }
+        entry.job = null;
+        pending.resolve(response.type === 'done'
+            ? { success: true, table: decodeTable(response.table, pending.inputs), unitWarning: response.unitWarning }
+            : { success: false, error: response.error });
+        dispatch();
+    };
+
+    entry.worker.onerror = (event) => {
+        event.preventDefault();
+        const pending = entry.job;
+        removeWorker(entry);
+        pending?.resolve(failure(`Worker failed: ${event.message || 'unknown error'}`));
+        dispatch();
+    };
+
+    return entry;
+}
+
+// Hand queued jobs to idle workers, starting workers up to the pool size
+function dispatch(): void {
+    while (queue.length > 0) {
+        let entry = workers.find(w => !w.job);
+        if (!entry && workers.length < POOL_SIZE) {
+            entry = createWorker();
+            workers.push(entry);
+        }
+        if (!entry) return;
+
+        const pending = queue.shift() as PendingJob;
+        entry.job = pending;
+        const { job, inputs } = encodeJob(pending.job);
+        pending.inputs = inputs;
+        const request: WorkerRequest = { id: pending.id, job, gwpSet: getDefaultGwpSet() };
+        entry.worker.postMessage(request);
+    }
+}
+
+/**
+ * Queue a job; progress is reported as a fraction of the rows done
+ */
+export function runBatchJob(job: BatchJob, onProgress?: ProgressCallback): BatchRun {
+    if (typeof Worker === 'undefined') {
+        let cancelled = false;
+        const result = new Promise<BatchJobResult>((resolve) => setTimeout(() => {
+            resolve(cancelled ? failure(RUN_CANCELLED) : executeBatchJob(job, onProgress));
+        }, 0));
+        return { result, cancel: () => { cancelled = true; } };
+    }
+
+    let resolve: (result: BatchJobResult) => void = () => undefined;
+    const result = new Promise<BatchJobResult>((r) => { resolve = r; });
+    const pending: PendingJob = { id: nextJobId++, job, inputs: [], onProgress, resolve };
+    queue.push(pending);
+    dispatch();
+
+    return {
+        result,
+        cancel: () => {
+            const queued = queue.indexOf(pending);
+            const running = workers.find(w => w.job === pending);
+            if (queued >= 0) queue.splice(queued, 1);
+            if (running) removeWorker(running);
+            if (queued >= 0 || running) {
+                pending.resolve(failure(RUN_CANCELLED));
+                dispatch();
+            }
+        },
+    };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import type { BatchNodeData } from '../store/useBatchDataStore';
+import { runCalculations, numericResult } from './calculationEngine';
+
+const noBatchData = () => undefined;
+
+const source = (id: string, label: string, value: number, unit: string, percent?: number): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: {
+        type: 'source',
+        label,
+        value,
+        unit,
+        uncertainty: percent === undefined ? undefined : { type: 'percent', percent },
+        outputs: [{ id: `${id}-out`, label }],
+    },
+});
+
+const process = (id: string, formula: string, inputs: string[]): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: {
+        type: 'process',
+        label: id,
+        formula,
+        inputs: inputs.map((label) => ({ id: `${id}-${label}`, label })),
+        outputs: [{ id: `${id}-out`, label: 'out' }],
+    },
+});
+
+const edge = (from: string, to: string, label: string): Edge => ({
+    id: `${from}-${to}-${label}`,
+    source: from,
+    target: to,
+    sourceHandle: `${from}-out`,
+    targetHandle: `${to}-${label}`,
+});
+
+describe('runCalculations', () => {
+    it('propagates stated uncertainties through Process formulas', () => {
+        const nodes = [
+            source('fuel', 'Fuel', 100, 'TJ', 3),
+            source('ef', 'EF', 56100, 'kg/TJ', 4),
+            process('co2', '[Fuel] * [EF]', ['Fuel', 'EF']),
+        ];
+        const edges = [edge('fuel', 'co2', 'Fuel'), edge('ef', 'co2', 'EF')];
+
+        const result = runCalculations(nodes, edges, noBatchData).results.get('co2')!;
+        expect(result.resultUnit).toBe('kg');
+        expect(result.uncertainty).toBeCloseTo(5);
+    });
+
+    it('passes full-precision numbers downstream', () => {
+        const nodes = [
+            source('a', 'A', 1, 't'),
+            process('third', '[A] / 3', ['A']),
+            process('back', '[Third] * 3', ['Third']),
+        ];
+        const edges = [edge('a', 'third', 'A'), edge('third', 'back', 'Third')];
+
+        const { results } = runCalculations(nodes, edges, noBatchData);
+        expect(results.get('third')).toMatchObject({ value: 1 / 3, resultUnit: 't' });
+        expect(results.get('back')!.value).toBe(1);
+        expect(numericResult(results.get('back'))).toBe(1);
+    });
+
+    it('has no numeric result for errors and non-numeric values', () => {
+        expect(numericResult(undefined)).toBeUndefined();
+        expect(numericResult({ nodeId: 'x', value: 'abc' })).toBeUndefined();
+        expect(numericResult({ nodeId: 'x', value: Infinity })).toBeUndefined();
+    });
+
+    it('reports no uncertainty when no input states one', () => {
+        const nodes = [source('a', 'A', 2, 't'), process('p', '[A] * 3', ['A'])];
+        const result = runCalculations(nodes, [edge('a', 'p', 'A')], noBatchData).results.get('p')!;
+        expect(result.uncertainty).toBeUndefined();
+    });
+
+    it('evaluates dataset aggregates in Process formulas', () => {
+        const nodes = [
+            { id: 'data', position: { x: 0, y: 0 }, data: { type: 'dataset', label: 'Data', outputs: [{ id: 'data-out', label: 'Data' }] } } as Node<NodeData>,
+            process('coal', '$SUMIF_[co2]([fuel] == "Coal") / $COUNT_[co2]', ['Data']),
+        ];
+        const table: BatchNodeData = {
+            rawData: [{ fuel: 'Coal', co2: 6 }, { fuel: 'Gas', co2: 2 }, { fuel: 'Coal', co2: 3 }],
+            schema: [{ id: 'fuel', name: 'fuel', type: 'string' }, { id: 'co2', name: 'co2', type: 'number', unit: 't' }],
+            status: 'SUCCESS',
+            rowCount: 3,
+        };
+
+        const result = runCalculations(nodes, [edge('data', 'coal', 'Data')], () => table).results.get('coal')!;
+        expect(result).toMatchObject({ value: 3, resultUnit: 't' });
+    });
+
+    it('reads aggregate conditions by column type', () => {
+        const nodes = [
+            { id: 'data', position: { x: 0, y: 0 }, data: { type: 'dataset', label: 'Data', outputs: [{ id: 'data-out', label: 'Data' }] } } as Node<NodeData>,
+            process('units', '$COUNTIF_[co2]([id] == "007")', ['Data']),
+        ];
+        const table: BatchNodeData = {
+            rawData: [{ id: '007', co2: 1 }, { id: '7', co2: 2 }],
+            schema: [{ id: 'id', name: 'id', type: 'string' }, { id: 'co2', name: 'co2', type: 'number' }],
+            status: 'SUCCESS',
+            rowCount: 2,
+        };
+
+        expect(runCalculations(nodes, [edge('data', 'units', 'Data')], () => table).results.get('units')?.value).toBe(1);
+    });
+});
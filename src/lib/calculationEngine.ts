@@ -1,13 +1,21 @@
 import type { Node, Edge } from 'reactflow';
 import type { NodeData, ProcessNodeData } from '../types';
 import { math } from './mathConfig';
-import { useBatchDataStore } from '../store/useBatchDataStore';
-import { deriveUnitFromFormula } from './unitAlgebra';
+import type { BatchNodeData } from '../store/useBatchDataStore';
+import { parseFormula, formatFormula, walkFormula } from './formulaParser';
+import type { AggregateNode, FormulaNode } from './formulaParser';
+import { parseUnit, formatUnit, inferFormulaUnits, isUnitless, applyProcessGwp } from './unitAlgebra';
+import type { UnitExpression } from './unitAlgebra';
+import { propagateUncertainty, relativeOf, toRelativeUncertainty } from './uncertainty';
+import { computeAggregate, validateAggregate, aggregateUnit, isConditionalAggregate } from './aggregates';
+import { compileRowCondition } from './batchCalculationEngine';
 
 export interface CalculationResult {
     nodeId: string;
-    value: string | number | null;
+    value: string | number | null; // Full-precision number; strings only for non-numeric math.js results
     resultUnit?: string;  // Extracted unit from calculation result
+    unitWarning?: string; // Unit inference warnings (mismatched +/-, non-constant exponents...)
+    uncertainty?: number; // Combined ±% (95% CI) when any input carries an uncertainty
     error?: string;
 }
 
@@ -17,244 +25,22 @@ export interface CalculationOutput {
 }
 
 /**
- * Value with custom unit tracking
- * Supports compound units like "kg CO2/kWh"
+ * Finite numeric value of a result, if it has one
  */
-interface UnitValue {
-    value: number;
-    numeratorUnits: string[];   // e.g., ["kg", "CO2"]
-    denominatorUnits: string[]; // e.g., ["kWh"]
+export function numericResult(result: CalculationResult | undefined): number | undefined {
+    return typeof result?.value === 'number' && Number.isFinite(result.value) ? result.value : undefined;
 }
 
-/**
- * Known molecule names that should NOT be parsed as exponents
- */
-const MOLECULE_NAMES = ['CO2', 'H2O', 'SO2', 'NO2', 'CH4', 'N2O', 'O2', 'N2', 'H2'];
-
-/**
- * Parse a single unit that may have exponent notation
- * e.g., "kg^2" → ["kg", "kg"], "m2" → ["m", "m"], "CO2" → ["CO2"]
- */
-function parseUnitWithExponent(unit: string): string[] {
-    // Check if it's a known molecule
-    const upperUnit = unit.toUpperCase();
-    for (const molecule of MOLECULE_NAMES) {
-        if (upperUnit === molecule.toUpperCase()) {
-            return [unit]; // Return as-is, not an exponent
-        }
-    }
-
-    // Check for caret notation: kg^2, m^3, s^-2
-    const caretMatch = unit.match(/^([a-zA-Z]+)\^(-?\d+)$/);
-    if (caretMatch) {
-        const baseUnit = caretMatch[1];
-        const exponent = parseInt(caretMatch[2]);
-        if (exponent === 0) return [];
-        if (exponent < 0) {
-            // Negative exponent means it goes to denominator - handled separately
-            return Array(Math.abs(exponent)).fill(`${baseUnit}[NEG]`);
-        }
-        return Array(exponent).fill(baseUnit);
-    }
-
-    // Check for number suffix: kg2, m3 (but not at start like 2kg)
-    const numMatch = unit.match(/^([a-zA-Z]+)(\d+)$/);
-    if (numMatch) {
-        const baseUnit = numMatch[1];
-        const exponent = parseInt(numMatch[2]);
-        if (exponent === 0) return [];
-        return Array(exponent).fill(baseUnit);
-    }
-
-    // Regular unit
-    return [unit];
-}
+export type BatchDataResolver = (nodeId: string) => BatchNodeData | undefined;
 
 /**
- * Parse units string expanding exponents
- */
-function parseUnitsExpanded(unitsStr: string): { numerator: string[], denominator: string[] } {
-    const numerator: string[] = [];
-    const denominator: string[] = [];
-
-    if (!unitsStr.trim()) {
-        return { numerator, denominator };
-    }
-
-    const units = unitsStr.trim().split(/\s+/);
-
-    units.forEach((unit) => {
-        const expanded = parseUnitWithExponent(unit);
-        expanded.forEach((u) => {
-            if (u.endsWith('[NEG]')) {
-                denominator.push(u.replace('[NEG]', ''));
-            } else {
-                numerator.push(u);
-            }
-        });
-    });
-
-    return { numerator, denominator };
-}
-
-/**
- * Parse a value string like "100 kWh" or "0.5 kg/kWh" or "10 m^2" into UnitValue
- */
-function parseValueWithUnit(input: string | number): UnitValue {
-    if (typeof input === 'number') {
-        return { value: input, numeratorUnits: [], denominatorUnits: [] };
-    }
-
-    const str = String(input).trim();
-
-    // Match number at the start (handles comma decimal separators too)
-    const match = str.match(/^(-?[\d.,]+)\s*(.*)$/);
-    if (!match) {
-        return { value: parseFloat(str) || 0, numeratorUnits: [], denominatorUnits: [] };
-    }
-
-    // Parse number (handle format with comma thousands: 1,000.5)
-    const numStr = match[1].replace(/,/g, '');
-    const value = parseFloat(numStr);
-    const unitPart = match[2].trim();
-
-    if (!unitPart) {
-        return { value, numeratorUnits: [], denominatorUnits: [] };
-    }
-
-    // Split by "/" to get numerator and denominator parts
-    const parts = unitPart.split('/');
-
-    const numParsed = parseUnitsExpanded(parts[0] || '');
-    const denParsed = parts[1] ? parseUnitsExpanded(parts[1]) : { numerator: [], denominator: [] };
-
-    // Combine: numerator gets num's numerator + den's denominator
-    // Denominator gets num's denominator + den's numerator
-    const numeratorUnits = [...numParsed.numerator, ...denParsed.denominator];
-    const denominatorUnits = [...numParsed.denominator, ...denParsed.numerator];
-
-    return { value, numeratorUnits, denominatorUnits };
-}
-
-/**
- * Count occurrences of each unit and format with exponents
- */
-function formatUnitsWithExponents(units: string[]): string {
-    if (units.length === 0) return '';
-
-    const counts = new Map<string, number>();
-    units.forEach((unit) => {
-        counts.set(unit, (counts.get(unit) || 0) + 1);
-    });
-
-    const parts: string[] = [];
-    counts.forEach((count, unit) => {
-        if (count === 1) {
-            parts.push(unit);
-        } else {
-            // Use superscript numbers
-            const superscripts = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
-            const expStr = String(count).split('').map(d => superscripts[parseInt(d)]).join('');
-            parts.push(`${unit}${expStr}`);
-        }
-    });
-
-    return parts.join('·');
-}
-
-/**
- * Format UnitValue back to string
- */
-function formatUnitValue(uv: UnitValue): string {
-    const numStr = formatUnitsWithExponents(uv.numeratorUnits);
-    const denStr = formatUnitsWithExponents(uv.denominatorUnits);
-
-    let unitStr = '';
-    if (numStr && denStr) {
-        unitStr = `${numStr}/${denStr}`;
-    } else if (numStr) {
-        unitStr = numStr;
-    } else if (denStr) {
-        unitStr = `1/${denStr}`;
-    }
-
-    // Format number - preserve precision for small numbers
-    let valueStr: string;
-    if (uv.value === 0) {
-        valueStr = '0';
-    } else if (Math.abs(uv.value) < 0.0001) {
-        valueStr = uv.value.toExponential(4);
-    } else {
-        valueStr = uv.value.toLocaleString('en-US', { maximumFractionDigits: 10 });
-    }
-
-    return unitStr ? `${valueStr} ${unitStr}` : valueStr;
-}
-
-/**
- * Multiply two UnitValues (handles unit combination)
- */
-function multiplyUnits(a: UnitValue, b: UnitValue): UnitValue {
-    const result: UnitValue = {
-        value: a.value * b.value,
-        numeratorUnits: [...a.numeratorUnits, ...b.numeratorUnits],
-        denominatorUnits: [...a.denominatorUnits, ...b.denominatorUnits],
-    };
-
-    // Cancel out matching units
-    result.numeratorUnits = result.numeratorUnits.filter((unit) => {
-        const idx = result.denominatorUnits.indexOf(unit);
-        if (idx !== -1) {
-            result.denominatorUnits.splice(idx, 1);
-            return false;
-        }
-        return true;
-    });
-
-    return result;
-}
-
-/**
- * Divide two UnitValues
- */
-function divideUnits(a: UnitValue, b: UnitValue): UnitValue {
-    const result: UnitValue = {
-        value: a.value / b.value,
-        numeratorUnits: [...a.numeratorUnits, ...b.denominatorUnits],
-        denominatorUnits: [...a.denominatorUnits, ...b.numeratorUnits],
-    };
-
-    // Cancel out matching units
-    result.numeratorUnits = result.numeratorUnits.filter((unit) => {
-        const idx = result.denominatorUnits.indexOf(unit);
-        if (idx !== -1) {
-            result.denominatorUnits.splice(idx, 1);
-            return false;
-        }
-        return true;
-    });
-
-    return result;
-}
-
-/**
- * Add two UnitValues (units must match)
+ * Value with unit tracking
+ * Supports compound units like "kg CO2/kWh"
  */
-function addUnits(a: UnitValue, b: UnitValue): UnitValue | null {
-    const aNum = a.numeratorUnits.sort().join(' ');
-    const aDen = a.denominatorUnits.sort().join(' ');
-    const bNum = b.numeratorUnits.sort().join(' ');
-    const bDen = b.denominatorUnits.sort().join(' ');
-
-    if (aNum !== bNum || aDen !== bDen) {
-        return null; // Units don't match for addition
-    }
-
-    return {
-        value: a.value + b.value,
-        numeratorUnits: [...a.numeratorUnits],
-        denominatorUnits: [...a.denominatorUnits],
-    };
+interface UnitValue {
+    value: number;
+    unit: UnitExpression;
+    uncertainty?: number; // ±% of value (95% CI)
 }
 
 /**
@@ -333,8 +119,9 @@ function getNodeOutputValue(
     const data = node.data;
 
     if (data.type === 'source' || data.type === 'factor') {
-        const unit = data.unit?.trim() || '';
-        return parseValueWithUnit(`${data.value} ${unit}`);
+        const unitValue: UnitValue = { value: Number(data.value) || 0, unit: parseUnit(data.unit?.trim() || '') };
+        const uncertainty = data.uncertainty ? toRelativeUncertainty(data.value, data.uncertainty) : null;
+        return uncertainty === null ? unitValue : { ...unitValue, uncertainty };
     }
 
     if (data.type === 'process' || data.type === 'passthrough') {
@@ -346,197 +133,22 @@ function getNodeOutputValue(
     return null;
 }
 
-/**
- * Detect aggregate functions in a Process node formula
- * Syntax: $SUM_[column], $AVG_[column], $MIN_[column], $MAX_[column], $COUNT_[column]
- */
-function detectProcessAggregates(formula: string): { funcName: string; column: string; fullMatch: string }[] {
-    const results: { funcName: string; column: string; fullMatch: string }[] = [];
-    const regex = /\$([A-Z]+)_\[([^\]]+)\]/g;
-    let match;
-    while ((match = regex.exec(formula)) !== null) {
-        results.push({
-            funcName: match[1], // SUM, AVG, MIN, MAX, COUNT
-            column: match[2],
-            fullMatch: match[0],
-        });
-    }
-    return results;
-}
-
-/**
- * Compute aggregate value from batch data rows
- */
-function computeAggregate(funcName: string, column: string, rows: any[]): number | null {
-    const values = rows
-        .map(row => row[column])
-        .filter(v => v !== null && v !== undefined && !isNaN(Number(v)))
-        .map(v => Number(v));
-
-    if (values.length === 0) return null;
-
-    switch (funcName) {
-        case 'SUM': return values.reduce((s, v) => s + v, 0);
-        case 'AVG': return values.reduce((s, v) => s + v, 0) / values.length;
-        case 'MIN': return Math.min(...values);
-        case 'MAX': return Math.max(...values);
-        case 'COUNT': return values.length;
-        default: return null;
-    }
-}
-
-/**
- * Tokenize a formula into variables, operators, numbers, and parentheses
- * Supports both plain variables (A, B) and bracketed variables ([A], [test2.1])
- */
-function tokenize(formula: string): string[] {
-    const tokens: string[] = [];
-    let i = 0;
-    while (i < formula.length) {
-        const char = formula[i];
-        if (/\s/.test(char)) {
-            i++;
-            continue;
-        }
-        // Handle bracketed variables like [VarName] or [test2.1]
-        if (char === '[') {
-            let token = '';
-            i++; // skip opening bracket
-            while (i < formula.length && formula[i] !== ']') {
-                token += formula[i];
-                i++;
-            }
-            if (i < formula.length) i++; // skip closing bracket
-            if (token) tokens.push(token);
-        } else if (/[A-Za-z]/.test(char)) {
-            let token = '';
-            while (i < formula.length && /[A-Za-z0-9_]/.test(formula[i])) {
-                token += formula[i];
-                i++;
-            }
-            tokens.push(token);
-        } else if (/[\d.]/.test(char)) {
-            let token = '';
-            while (i < formula.length && /[\d.]/.test(formula[i])) {
-                token += formula[i];
-                i++;
-            }
-            tokens.push(token);
-        } else if (/[+\-*/()^]/.test(char)) {
-            tokens.push(char);
-            i++;
-        } else {
-            i++;
-        }
-    }
-    return tokens;
-}
-
-/**
- * Evaluate formula with unit tracking
- * Supports: A * B * C, A / B / C, A + B, A - B, parentheses, numbers
- */
-function evaluateWithUnits(
-    tokens: string[],
-    unitScope: Record<string, UnitValue>
-): UnitValue | null {
-    let pos = 0;
-
-    function parseExpression(): UnitValue | null {
-        let left = parseTerm();
-        if (!left) return null;
-
-        while (pos < tokens.length && (tokens[pos] === '+' || tokens[pos] === '-')) {
-            const op = tokens[pos];
-            pos++;
-            const right = parseTerm();
-            if (!right) return null;
-
-            if (op === '+') {
-                const result = addUnits(left, right);
-                if (!result) return null; // Unit mismatch
-                left = result;
-            } else {
-                const result = addUnits(left, right);
-                if (!result) return null;
-                left = { ...result, value: left.value - right.value };
-            }
-        }
-        return left;
-    }
-
-    function parseTerm(): UnitValue | null {
-        let left = parseFactor();
-        if (!left) return null;
-
-        while (pos < tokens.length && (tokens[pos] === '*' || tokens[pos] === '/')) {
-            const op = tokens[pos];
-            pos++;
-            const right = parseFactor();
-            if (!right) return null;
-
-            if (op === '*') {
-                left = multiplyUnits(left, right);
-            } else {
-                left = divideUnits(left, right);
-            }
-        }
-        return left;
-    }
-
-    function parseFactor(): UnitValue | null {
-        const token = tokens[pos];
-
-        if (token === '(') {
-            pos++; // skip '('
-            const result = parseExpression();
-            if (tokens[pos] === ')') {
-                pos++; // skip ')'
-            }
-            return result;
-        }
-
-        if (token && /^[A-Za-z]/.test(token)) {
-            pos++;
-            // Variable
-            if (unitScope[token]) {
-                return { ...unitScope[token] };
-            }
-            // Unknown variable, treat as unitless 0
-            return { value: 0, numeratorUnits: [], denominatorUnits: [] };
-        }
-
-        if (token && /^[\d.]/.test(token)) {
-            pos++;
-            // Number constant
-            return { value: parseFloat(token), numeratorUnits: [], denominatorUnits: [] };
-        }
-
-        // Handle unary minus
-        if (token === '-') {
-            pos++;
-            const factor = parseFactor();
-            if (factor) {
-                factor.value = -factor.value;
-                return factor;
-            }
-        }
-
-        return null;
-    }
+// Unit shown next to a result; undefined for unitless values
+const unitLabel = (unit: UnitExpression): string | undefined => isUnitless(unit) ? undefined : formatUnit(unit);
 
-    return parseExpression();
-}
+const BATCH_NODE_TYPES = ['dataset', 'filter', 'tableMath', 'transform', 'groupBy', 'pivot', 'unpivot', 'join', 'union'];
 
 /**
- * Evaluate a Process node's formula with custom unit handling
+ * Evaluate a Process node's formula. The expression tree gives both the unit
+ * (with conversions applied) and the numeric expression handed to math.js.
  */
 function evaluateFormula(
     node: Node<ProcessNodeData>,
     incomingEdges: Edge[],
     nodes: Node<NodeData>[],
-    calculatedValues: Map<string, UnitValue>
-): { value: string | number | null; error?: string } {
+    calculatedValues: Map<string, UnitValue>,
+    getBatchData: BatchDataResolver
+): { value: string | number | null; unit?: UnitExpression; unitWarning?: string; uncertainty?: number; error?: string } {
     const processData = node.data as ProcessNodeData;
     const formula = processData.formula?.trim();
 
@@ -544,158 +156,154 @@ function evaluateFormula(
         return { value: null, error: 'No formula defined' };
     }
 
-    // Detect aggregate functions ($AVG_[col], $SUM_[col], etc.)
-    const aggregates = detectProcessAggregates(formula);
-
-    // Build scope from inputs
-    const unitScope: Record<string, UnitValue> = {};
-    const mathScopeAggregates: Record<string, number> = {};
-    let workingFormula = formula;
+    try {
+        const inputLabels = new Set(processData.inputs.map((input) => input.label));
+        const tree = parseFormula(formula, {
+            isReference: (name) => inputLabels.has(name),
+            isFunction: (name) => typeof (math as unknown as Record<string, unknown>)[name] === 'function',
+        });
 
-    // Check if any input connects to a dataset node — if so, resolve aggregates
-    if (aggregates.length > 0) {
-        const batchStore = useBatchDataStore.getState();
+        // Build scope from inputs; batch sources only feed aggregates
+        const unitScope: Record<string, UnitValue> = {};
+        const batchSources: BatchNodeData[] = [];
 
-        // Find dataset source nodes connected to this process node
-        for (const input of processData.inputs) {
+        processData.inputs.forEach((input) => {
             const edge = incomingEdges.find((e) => e.targetHandle === input.id);
-            if (!edge) continue;
+            if (!edge) return;
             const sourceNode = nodes.find((n) => n.id === edge.source);
-            if (!sourceNode) continue;
+            if (!sourceNode) return;
 
-            // Check if source is a batch-type node (dataset, filter, tableMath, transform, join)
-            const batchTypes = ['dataset', 'filter', 'tableMath', 'transform', 'join'];
-            if (batchTypes.includes(sourceNode.data.type)) {
-                const batchData = batchStore.getNodeData(sourceNode.id);
+            if (BATCH_NODE_TYPES.includes(sourceNode.data.type)) {
+                const batchData = getBatchData(sourceNode.id);
                 if (batchData && batchData.rawData && batchData.rawData.length > 0) {
-                    // Compute each aggregate from this source's data
-                    for (const agg of aggregates) {
-                        const value = computeAggregate(agg.funcName, agg.column, batchData.rawData);
-                        if (value !== null) {
-                            const safeName = `__agg_${agg.funcName}_${agg.column}`.replace(/[^a-zA-Z0-9_]/g, '_');
-                            mathScopeAggregates[safeName] = value;
-                            workingFormula = workingFormula.replace(agg.fullMatch, safeName);
-                        }
-                    }
+                    batchSources.push(batchData);
                 }
+                return;
             }
-        }
-    }
 
-    processData.inputs.forEach((input) => {
-        const edge = incomingEdges.find((e) => e.targetHandle === input.id);
-        if (edge) {
-            const sourceNode = nodes.find((n) => n.id === edge.source);
-            if (sourceNode) {
-                const unitValue = getNodeOutputValue(sourceNode, calculatedValues);
-                if (unitValue) {
-                    unitScope[input.label] = unitValue;
-                }
+            const unitValue = getNodeOutputValue(sourceNode, calculatedValues);
+            if (unitValue) {
+                unitScope[input.label] = unitValue;
             }
-        }
-    });
-
-    try {
-        // If we have aggregate values, use math.js evaluation directly
-        if (Object.keys(mathScopeAggregates).length > 0) {
-            const mathScope: Record<string, number> = { ...mathScopeAggregates };
-            // Also add scalar inputs from connected non-dataset nodes
-            Object.entries(unitScope).forEach(([key, uv]) => {
-                mathScope[key] = uv.value;
-            });
-
-            const numericResult = math.evaluate(workingFormula, mathScope);
-
-            // Derive unit: build columnUnits from batch source schema
-            let derivedUnit = '';
-            // Look at aggregates to find the column units
-            if (aggregates.length > 0) {
-                const batchStore = useBatchDataStore.getState();
-                const columnUnitsMap: Record<string, string> = {};
-
-                for (const input of processData.inputs) {
-                    const edge = incomingEdges.find((e) => e.targetHandle === input.id);
-                    if (!edge) continue;
-                    const sourceNode = nodes.find((n) => n.id === edge.source);
-                    if (!sourceNode) continue;
-                    const batchTypes = ['dataset', 'filter', 'tableMath', 'transform', 'join'];
-                    if (batchTypes.includes(sourceNode.data.type)) {
-                        const batchData = batchStore.getNodeData(sourceNode.id);
-                        if (batchData?.schema) {
-                            batchData.schema.forEach((col: any) => {
-                                if (col.unit) columnUnitsMap[col.id || col.name] = col.unit;
-                            });
-                        }
-                    }
-                }
+        });
 
-                // For simple aggregate-only formulas, inherit the column unit
-                if (aggregates.length === 1 && Object.keys(unitScope).length === 0) {
-                    const colUnit = columnUnitsMap[aggregates[0].column];
-                    if (colUnit) derivedUnit = colUnit;
-                } else {
-                    // For mixed formulas, try deriveUnitFromFormula from unitAlgebra
-                    const scalarInputsForUnit: Record<string, { value: number; unit: string }> = {};
-                    Object.entries(unitScope).forEach(([key, uv]) => {
-                        const unitStr = formatUnitValue({ ...uv, value: 0 }).trim() || '';
-                        scalarInputsForUnit[key] = { value: uv.value, unit: unitStr };
-                    });
-                    const unitResult = deriveUnitFromFormula(formula, columnUnitsMap, scalarInputsForUnit);
-                    if (unitResult.unit && unitResult.unit !== 'unitless') {
-                        derivedUnit = unitResult.unit;
-                    }
-                }
+        // Resolve aggregates ($AVG_[col], $SUM_[col], etc.) from the first batch source that has the column
+        // Scope names are keyed by formula text, since $SUMIF_[CO2](...) may repeat with different conditions
+        const aggregateNames = new Map<string, string>();
+        const aggregateScopeName = (node: AggregateNode) => aggregateNames.get(formatFormula(node)) as string;
+        const aggregateScope: Record<string, number> = {};
+        const aggregateUnits: Record<string, UnitExpression> = {};
+        walkFormula(tree, (child) => {
+            if (child.type === 'window' || (child.type === 'aggregate' && child.groupBy)) {
+                throw new Error(`${formatFormula(child)} works row by row - use it in a Table Math formula`);
             }
-
-            if (typeof numericResult === 'number') {
-                const formatted = numericResult.toLocaleString('en-US', { maximumFractionDigits: 4 });
-                return { value: derivedUnit ? `${formatted} ${derivedUnit}` : formatted };
+            if (child.type !== 'aggregate') return;
+            const key = formatFormula(child);
+            if (aggregateNames.has(key)) return;
+            const invalid = validateAggregate(child);
+            if (invalid) throw new Error(invalid);
+
+            for (const batchData of batchSources) {
+                const column = batchData.schema.find((col) => col.id === child.column || col.name === child.column);
+                if (!column) continue;
+                const matches = isConditionalAggregate(child.func) && child.args?.[0]
+                    ? compileRowCondition(
+                        child.args[0],
+                        batchData.schema.map((col) => col.id),
+                        Object.fromEntries(batchData.schema.map((col) => [col.id, col.type]))
+                    )
+                    : undefined;
+                const value = computeAggregate(child, batchData.rawData, matches);
+                if (value === null) continue;
+                const name = `__agg_${aggregateNames.size}`;
+                aggregateNames.set(key, name);
+                aggregateScope[name] = value;
+                aggregateUnits[name] = aggregateUnit(child.func, parseUnit(column.unit || ''));
+                return;
             }
-            return { value: String(numericResult) };
-        }
+            throw new Error(`No batch data for ${formatFormula(child)} - connect a dataset with column [${child.column}]`);
+        });
 
-        // Tokenize and evaluate with units (original path for scalar-only formulas)
-        const tokens = tokenize(formula);
-        const result = evaluateWithUnits(tokens, unitScope);
+        walkFormula(tree, (child) => {
+            if (child.type !== 'ref' || child.name in unitScope) return;
+            if (inputLabels.has(child.name)) throw new Error(`Input "${child.name}" has no scalar value`);
+            if (child.bracketed) throw new Error(`Unknown input [${child.name}]`);
+        });
 
-        if (result) {
-            return { value: formatUnitValue(result) };
-        }
+        const inference = inferFormulaUnits(tree, (ref) => {
+            if (ref.type === 'aggregate') return aggregateUnits[aggregateScopeName(ref)];
+            return ref.type === 'ref' ? unitScope[ref.name]?.unit : undefined;
+        });
 
-        // Fallback: evaluate with math.js for complex expressions
-        if (!result && Object.keys(unitScope).length > 0) {
-            if (/[+\-]/.test(formula) && !/[*/^]/.test(formula)) {
-                return { value: null, error: 'Unit mismatch: Cannot add/subtract different units' };
-            }
-        }
+        // Input labels may contain spaces or dots, so they get safe scope names
+        const scope: Record<string, number> = { ...aggregateScope };
+        const scopeNames = new Map<string, string>();
+        Object.entries(unitScope).forEach(([label, uv], index) => {
+            scopeNames.set(label, `__in_${index}`);
+            scope[`__in_${index}`] = uv.value;
+        });
 
-        const mathScope: Record<string, number> = {};
-        Object.entries(unitScope).forEach(([key, uv]) => {
-            mathScope[key] = uv.value;
+        const formatScoped = (node: FormulaNode) => formatFormula(node, {
+            ref: (ref) => scopeNames.get(ref.name) ?? ref.name,
+            aggregate: aggregateScopeName,
         });
+        const numericResult = math.evaluate(formatScoped(inference.expression), scope);
+        const unitWarning = inference.warnings.length > 0 ? inference.warnings.join('; ') : undefined;
 
-        const numericResult = math.evaluate(formula, mathScope);
         if (typeof numericResult === 'number') {
-            return { value: numericResult.toLocaleString('en-US', { maximumFractionDigits: 4 }) };
+            const result = processData.gwp?.gas
+                ? applyProcessGwp(numericResult, inference.unit, processData.gwp)
+                : { value: numericResult, unit: inference.unit };
+
+            // IPCC Approach 1: only when at least one input states an uncertainty
+            let uncertainty: number | undefined;
+            if (Object.values(unitScope).some((uv) => uv.uncertainty !== undefined)) {
+                const propagated = propagateUncertainty(
+                    inference.expression,
+                    (ref) => {
+                        if (ref.type !== 'ref' || !(ref.name in unitScope)) return undefined;
+                        const { value, uncertainty: percent = 0 } = unitScope[ref.name];
+                        return { value, uncertainty: Math.abs(value) * percent / 100 };
+                    },
+                    (node) => math.evaluate(formatScoped(node), scope)
+                );
+                if (propagated) uncertainty = relativeOf(propagated);
+            }
+
+            return {
+                value: result.value,
+                unit: result.unit,
+                unitWarning,
+                uncertainty,
+            };
         }
-        return { value: String(numericResult) };
+        return { value: String(numericResult), unitWarning };
     } catch (err: any) {
         return { value: null, error: err.message || 'Calculation error' };
     }
 }
 
 /**
- * Run calculations for all nodes in topological order
+ * Node ids in dependency order, plus the nodes caught in cycles
+ */
+export function sortNodes(nodes: Node<NodeData>[], edges: Edge[]): { sorted: string[]; circularNodes: Set<string> } {
+    const { adjacencyList, inDegree } = buildGraph(nodes, edges);
+    return topologicalSort(nodes, adjacencyList, inDegree);
+}
+
+/**
+ * Run calculations for all nodes in topological order.
+ * `getBatchData` supplies the batch tables that aggregates ($SUM_ etc.) read.
  */
 export function runCalculations(
     nodes: Node<NodeData>[],
-    edges: Edge[]
+    edges: Edge[],
+    getBatchData: BatchDataResolver
 ): CalculationOutput {
     const results = new Map<string, CalculationResult>();
     const calculatedValues = new Map<string, UnitValue>();
 
-    const { adjacencyList, inDegree } = buildGraph(nodes, edges);
-    const { sorted, circularNodes } = topologicalSort(nodes, adjacencyList, inDegree);
+    const { sorted, circularNodes } = sortNodes(nodes, edges);
 
     circularNodes.forEach((nodeId) => {
         results.set(nodeId, {
@@ -713,36 +321,26 @@ export function runCalculations(
             const unitValue = getNodeOutputValue(node, calculatedValues);
             if (unitValue) {
                 calculatedValues.set(nodeId, unitValue);
-                results.set(nodeId, { nodeId, value: formatUnitValue(unitValue) });
+                results.set(nodeId, { nodeId, value: unitValue.value, resultUnit: unitLabel(unitValue.unit) });
             }
         } else if (node.data.type === 'process') {
             const incomingEdges = edges.filter((e) => e.target === nodeId);
 
-            const { value, error } = evaluateFormula(
+            const { value, unit, unitWarning, uncertainty, error } = evaluateFormula(
                 node as Node<ProcessNodeData>,
                 incomingEdges,
                 nodes,
-                calculatedValues
+                calculatedValues,
+                getBatchData
             );
 
-            let resultUnit: string | undefined = undefined;
-            if (value !== null && !error) {
-                const parsedValue = parseValueWithUnit(value);
-                calculatedValues.set(nodeId, parsedValue);
-
-                // Extract unit from parsed value
-                const numStr = formatUnitsWithExponents(parsedValue.numeratorUnits);
-                const denStr = formatUnitsWithExponents(parsedValue.denominatorUnits);
-                if (numStr && denStr) {
-                    resultUnit = `${numStr}/${denStr}`;
-                } else if (numStr) {
-                    resultUnit = numStr;
-                } else if (denStr) {
-                    resultUnit = `1/${denStr}`;
-                }
+            // Downstream nodes read the unrounded number, never a formatted string
+            if (typeof value === 'number' && unit) {
+                calculatedValues.set(nodeId, { value, unit, uncertainty });
             }
+            const resultUnit = value !== null && !error && unit ? unitLabel(unit) : undefined;
 
-            results.set(nodeId, { nodeId, value, error, resultUnit });
+            results.set(nodeId, { nodeId, value, error, resultUnit, unitWarning, uncertainty });
         } else if (node.data.type === 'passthrough') {
             // PassThrough: pass the input value directly through
             const incomingEdges = edges.filter((e) => e.target === nodeId);
@@ -753,7 +351,7 @@ export function runCalculations(
                     const inputValue = getNodeOutputValue(sourceNode, calculatedValues);
                     if (inputValue) {
                         calculatedValues.set(nodeId, inputValue);
-                        results.set(nodeId, { nodeId, value: formatUnitValue(inputValue) });
+                        results.set(nodeId, { nodeId, value: inputValue.value, resultUnit: unitLabel(inputValue.unit) });
                     } else {
                         results.set(nodeId, { nodeId, value: null });
                     }
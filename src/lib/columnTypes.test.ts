@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumber, parseBoolean, inferColumnType, coerceValue, typeColumns, retypeColumn, inferComputedType } from './columnTypes';
+
+describe('parseNumber', () => {
+    it('reads grouped, decimal-comma and percent numbers', () => {
+        expect(parseNumber('1,234.5')).toBe(1234.5);
+        expect(parseNumber('1.234,5', true)).toBe(1234.5);
+        expect(parseNumber('12,5', true)).toBe(12.5);
+        expect(parseNumber('12%')).toBe(0.12);
+        expect(parseNumber('-3e2')).toBe(-300);
+    });
+
+    it('keeps codes with leading zeros and other text out', () => {
+        expect(parseNumber('007')).toBeNull();
+        expect(parseNumber('0.5')).toBe(0.5);
+        expect(parseNumber('12 kg')).toBeNull();
+        expect(parseNumber('-')).toBeNull();
+    });
+});
+
+describe('inferColumnType', () => {
+    it('picks the narrowest type every value fits, ignoring blanks', () => {
+        expect(inferColumnType(['1', '2.5', '', null])).toBe('number');
+        expect(inferColumnType(['ya', 'Tidak', 'true'])).toBe('boolean');
+        expect(inferColumnType(['15/01/2023', '2023-02-01'])).toBe('date');
+        expect(inferColumnType(['007', '012'])).toBe('string');
+        expect(inferColumnType(['', null])).toBe('string');
+    });
+
+    it('decides decimal comma by majority of unambiguous values', () => {
+        expect(inferColumnType(['12,5', '1.234,5', '3'])).toBe('number');
+        expect(inferColumnType(['12,5', '1,234.5', '3.25'])).toBe('string');
+    });
+});
+
+describe('coerceValue', () => {
+    it('converts cells that fit and keeps the rest', () => {
+        expect(coerceValue('12%', 'number')).toBe(0.12);
+        expect(coerceValue('n/a', 'number')).toBe('n/a');
+        expect(coerceValue('  ', 'number')).toBeNull();
+        expect(coerceValue(true, 'number')).toBe(1);
+        expect(coerceValue('15 Januari 2023', 'date')).toBe('2023-01-15');
+        expect(coerceValue('Ya', 'boolean')).toBe(true);
+        expect(parseBoolean('maybe')).toBeNull();
+        expect(coerceValue(7, 'string')).toBe('7');
+    });
+});
+
+describe('typeColumns', () => {
+    const rows = [
+        { Code: '007', Amount: '1.234,5', Share: '12%', Date: '15/01/2023' },
+        { Code: '012', Amount: '12,5', Share: '', Date: '01/02/2023' },
+    ];
+
+    it('infers every column and converts the rows once', () => {
+        const table = typeColumns(rows, ['Code', 'Amount', 'Share', 'Date']);
+        expect(table.schema.map((col) => col.type)).toEqual(['string', 'number', 'number', 'date']);
+        expect(table.rawData).toEqual([
+            { Code: '007', Amount: 1234.5, Share: 0.12, Date: '2023-01-15' },
+            { Code: '012', Amount: 12.5, Share: null, Date: '2023-02-01' },
+        ]);
+    });
+
+    it('honours type overrides and converts a column later', () => {
+        const table = typeColumns(rows, ['Code', 'Amount'], { Amount: 'string' });
+        expect(table.rawData[0].Amount).toBe('1.234,5');
+
+        const retyped = retypeColumn(table, 'Code', 'number');
+        expect(retyped.schema[0].type).toBe('number');
+        // Leading-zero codes do not fit a number and keep their text
+        expect(retyped.rawData.map((row) => row.Code)).toEqual(['007', '012']);
+    });
+});
+
+describe('inferComputedType', () => {
+    it('types formula output by the JS types of its values', () => {
+        const rows = [{ a: 1, b: '12', c: '2023-01-15', d: true }, { a: 2, b: 'x', c: '2023-02-01', d: false }];
+        expect(['a', 'b', 'c', 'd'].map((col) => inferComputedType(rows, col))).toEqual(['number', 'string', 'date', 'boolean']);
+    });
+});
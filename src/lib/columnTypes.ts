@@ -0,0 +1,184 @@
+/**
+ * Column Types
+ * Infers dataset column types from a sample spread over all rows, then converts the cells once:
+ *   number   plain, thousands-grouped ("1,234.5" / "1.234,5"), decimal comma ("12,5"), percent ("12%" → 0.12)
+ *   date     anything parseDateValue reads, stored as "YYYY-MM-DD" text
+ *   boolean  true/false, yes/no, ya/tidak
+ *   string   everything else (codes with leading zeros such as "007" stay text)
+ * Blank cells of number, date and boolean columns become null.
+ */
+
+import type { ColumnType } from '../types';
+import type { ColumnMetadata } from '../store/useBatchDataStore';
+import type { BatchRow, BatchTable } from './batchOperations';
+import { parseDateValue, formatDate } from './textDateFunctions';
+import { rowsView, withColumn, fromColumnar } from './columnarTable';
+
+// Enough rows to see a column's formats without scanning very large files
+const SAMPLE_SIZE = 1000;
+
+const BOOLEAN_TEXT: Record<string, boolean> = {
+    true: true, yes: true, ya: true,
+    false: false, no: false, tidak: false,
+};
+
+const NUMBER_DOT = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const NUMBER_COMMA = /^[-+]?(\d{1,3}(\.\d{3})+|\d+)?(,\d+)?([eE][-+]?\d+)?$/;
+
+const isBlank = (v: unknown): boolean => v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+
+// Evenly spaced rows across the table, first row included
+function sampleValues(rows: BatchRow[], column: string): unknown[] {
+    const step = Math.max(1, rows.length / SAMPLE_SIZE);
+    const values: unknown[] = [];
+    for (let i = 0; i < rows.length; i += step) {
+        const value = rows[Math.floor(i)][column];
+        if (!isBlank(value)) values.push(value);
+    }
+    return values;
+}
+
+/**
+ * Whether the column's numbers use a decimal comma (Indonesian "1.234,5") rather than a decimal
+ * point. Decided by majority over unambiguous values; "1.234" alone reads as a decimal point.
+ */
+function usesDecimalComma(values: unknown[]): boolean {
+    let comma = 0;
+    let dot = 0;
+    values.forEach(value => {
+        if (typeof value !== 'string') return;
+        const text = value.trim().replace(/%$/, '');
+        const lastComma = text.lastIndexOf(',');
+        const lastDot = text.lastIndexOf('.');
+        if (lastComma >= 0 && lastDot >= 0) {
+            if (lastComma > lastDot) comma++;
+            else dot++;
+        } else if (lastComma >= 0) {
+            // "1,234" is a thousands group either way; "12,5" is a decimal comma
+            if (!/^[-+]?\d{1,3}(,\d{3})+$/.test(text)) comma++;
+        } else if (lastDot >= 0) {
+            if (/^[-+]?\d{1,3}(\.\d{3}){2,}$/.test(text)) comma++;
+            else if (!/^[-+]?\d{1,3}\.\d{3}$/.test(text)) dot++;
+        }
+    });
+    return comma > dot;
+}
+
+/**
+ * Read a cell as a number, or null when it is not one
+ */
+export function parseNumber(value: unknown, decimalComma = false): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    let text = value.replace(/\s/g, '');
+    const percent = text.endsWith('%');
+    if (percent) text = text.slice(0, -1);
+    if (text === '' || text === '+' || text === '-' || /^[-+]?0\d/.test(text)) return null;
+
+    if (!(decimalComma ? NUMBER_COMMA : NUMBER_DOT).test(text)) return null;
+    const normalized = decimalComma ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    const n = Number(normalized);
+    if (!isFinite(n)) return null;
+    return percent ? n / 100 : n;
+}
+
+/**
+ * Read a cell as a boolean, or null when it is not one
+ */
+export function parseBoolean(value: unknown): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (typeof value !== 'string') return null;
+    return BOOLEAN_TEXT[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * The narrowest type every (non-blank) value fits; string when there are none.
+ * `decimalComma` fixes the decimal separator instead of detecting it.
+ */
+export function inferColumnType(values: unknown[], decimalComma = usesDecimalComma(values)): ColumnType {
+    const present = values.filter(v => !isBlank(v));
+    if (present.length === 0) return 'string';
+    if (present.every(v => parseBoolean(v) !== null)) return 'boolean';
+
+    if (present.every(v => parseNumber(v, decimalComma) !== null)) return 'number';
+    if (present.every(v => typeof v !== 'number' && parseDateValue(v) !== null)) return 'date';
+    return 'string';
+}
+
+/**
+ * Convert one cell to `type`; a cell that does not fit keeps its original value
+ */
+export function coerceValue(value: unknown, type: ColumnType, decimalComma = false): unknown {
+    if (type === 'string') {
+        if (value === null || value === undefined || typeof value === 'string') return value;
+        return value instanceof Date ? formatDate(value) : String(value);
+    }
+    if (isBlank(value)) return null;
+
+    switch (type) {
+        case 'number': {
+            if (typeof value === 'boolean') return value ? 1 : 0;
+            return parseNumber(value, decimalComma) ?? value;
+        }
+        case 'date': {
+            const date = parseDateValue(value);
+            return date ? formatDate(date) : value;
+        }
+        case 'boolean': return parseBoolean(value) ?? value;
+    }
+}
+
+function coerceColumns(rows: BatchRow[], columns: { id: string; type: ColumnType }[], fixedDecimalComma?: boolean): BatchRow[] {
+    const converters = columns.map(({ id, type }) => {
+        const decimalComma = type === 'number' && (fixedDecimalComma ?? usesDecimalComma(sampleValues(rows, id)));
+        return { id, convert: (value: unknown) => coerceValue(value, type, decimalComma) };
+    });
+    return rows.map(row => {
+        const out: BatchRow = { ...row };
+        converters.forEach(({ id, convert }) => { out[id] = convert(row[id]); });
+        return out;
+    });
+}
+
+/**
+ * Infer the type of each field (unless `overrides` names one) and convert the rows to it.
+ * `decimalComma` fixes the decimal separator of every column instead of detecting it per column.
+ */
+export function typeColumns(rows: BatchRow[], fields: string[], overrides: Record<string, ColumnType> = {}, decimalComma?: boolean): BatchTable {
+    const schema: ColumnMetadata[] = fields.map(field => {
+        const values = sampleValues(rows, field);
+        return {
+            id: field,
+            name: field,
+            type: overrides[field] ?? inferColumnType(values, decimalComma ?? usesDecimalComma(values)),
+            unit: undefined
+        };
+    });
+    return { rawData: coerceColumns(rows, schema, decimalComma), schema };
+}
+
+/**
+ * Convert one column of a typed table to another type
+ */
+export function retypeColumn(table: BatchTable, column: string, type: ColumnType): BatchTable {
+    const schema = table.schema.map(col => (col.id === column ? { ...col, type } : col));
+    if (table.columnar) {
+        // Only the retyped column is rebuilt; the others stay shared
+        const rows = coerceColumns(rowsView(table.columnar, [column]), [{ id: column, type }]);
+        return fromColumnar(withColumn(table.columnar, column, rows.map(row => row[column])), schema);
+    }
+    return { rawData: coerceColumns(table.rawData, [{ id: column, type }]), schema };
+}
+
+/**
+ * Type of a formula's output column, from the JS types of a sample of its values
+ * (formula results are not re-parsed, so the text "12" stays a string)
+ */
+export function inferComputedType(rows: BatchRow[], column: string): ColumnType {
+    const values = sampleValues(rows, column);
+    if (values.every(v => typeof v === 'number')) return 'number';
+    if (values.every(v => typeof v === 'boolean')) return 'boolean';
+    if (values.every(v => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v))) return 'date';
+    return 'string';
+}
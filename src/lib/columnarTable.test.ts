@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+    encodeColumn,
+    readVector,
+    columnarFromRows,
+    rowCount,
+    cellAt,
+    columnValues,
+    selectRows,
+    withColumn,
+    renameColumn,
+    keepColumns,
+    rowsView,
+    materializeRows,
+    asColumnar,
+    tableBuffers,
+} from './columnarTable';
+
+const rows = [
+    { Fuel: 'Coal', Amount: 10, Meta: { a: 1 } },
+    { Fuel: 'Gas', Amount: null, Meta: null },
+    { Fuel: 'Coal', Amount: 4, Meta: [1] },
+];
+
+describe('encodeColumn', () => {
+    it('stores numbers as Float64Array with blanks as NaN', () => {
+        const vector = encodeColumn([1, null, 2.5]);
+        expect(vector.kind).toBe('number');
+        expect([0, 1, 2].map((i) => readVector(vector, i))).toEqual([1, null, 2.5]);
+    });
+
+    it('stores text and booleans as dictionary codes', () => {
+        const vector = encodeColumn(['a', 'b', 'a', undefined, true]);
+        expect(vector).toMatchObject({ kind: 'dictionary', dictionary: ['a', 'b', true] });
+        expect(vector.kind === 'dictionary' && Array.from(vector.codes)).toEqual([0, 1, 0, -1, 2]);
+        expect(readVector(vector, 3)).toBeNull();
+    });
+
+    it('keeps objects as they are', () => {
+        expect(encodeColumn([{ a: 1 }, 'x']).kind).toBe('values');
+    });
+});
+
+describe('columnar tables', () => {
+    const table = columnarFromRows(rows, ['Fuel', 'Amount', 'Meta']);
+
+    it('reads cells and columns back as stored', () => {
+        expect(rowCount(table)).toBe(3);
+        expect(columnValues(table, 'Fuel')).toEqual(['Coal', 'Gas', 'Coal']);
+        expect(cellAt(table, 'Meta', 0)).toEqual({ a: 1 });
+        expect(cellAt(table, 'Missing', 0)).toBeNull();
+    });
+
+    it('filters by selection without copying vectors', () => {
+        const kept = selectRows(table, [2, 0]);
+        expect(kept.columns.Amount).toBe(table.columns.Amount);
+        expect(columnValues(kept, 'Amount')).toEqual([4, 10]);
+
+        // Selections compose: row 0 of the filtered table is row 2 of the source
+        expect(columnValues(selectRows(kept, [0]), 'Fuel')).toEqual(['Coal']);
+        expect(Array.from(selectRows(kept, [0]).selection!)).toEqual([2]);
+    });
+
+    it('appends a column for the visible rows only', () => {
+        const kept = selectRows(table, [1, 2]);
+        const added = withColumn(kept, 'x', [7, 8]);
+        expect(added.columns.Fuel).toBe(table.columns.Fuel);
+        expect(columnValues(added, 'x')).toEqual([7, 8]);
+        expect(readVector(added.columns.x, 0)).toBeNull();
+    });
+
+    it('renames and drops columns', () => {
+        const renamed = renameColumn(table, 'Amount', 'Qty');
+        expect(Object.keys(renamed.columns)).toEqual(['Fuel', 'Meta', 'Qty']);
+        expect(Object.keys(keepColumns(table, ['Fuel', 'Missing']).columns)).toEqual(['Fuel']);
+    });
+
+    it('lists the buffers of typed vectors and the selection', () => {
+        expect(tableBuffers(table)).toHaveLength(2);
+        expect(tableBuffers(selectRows(table, [0]))).toHaveLength(3);
+    });
+});
+
+describe('rowsView', () => {
+    const table = columnarFromRows(rows, ['Fuel', 'Amount', 'Meta']);
+
+    it('behaves like a read-only row array', () => {
+        const view = rowsView(selectRows(table, [1, 2]), ['Fuel', 'Amount']);
+        expect(view.length).toBe(2);
+        expect(view[1]).toEqual({ Fuel: 'Coal', Amount: 4 });
+        expect(view.map((row) => row.Fuel)).toEqual(['Gas', 'Coal']);
+        expect([...view]).toHaveLength(2);
+        expect(() => { view[0] = {}; }).toThrow('Batch table rows are read-only');
+    });
+
+    it('backs a batch table converted to columns', () => {
+        const batch = asColumnar({ rawData: rows, schema: [{ id: 'Fuel', name: 'Fuel', type: 'string' }] });
+        expect(batch.columnar).toBeDefined();
+        expect(Array.from(batch.rawData)).toEqual([{ Fuel: 'Coal' }, { Fuel: 'Gas' }, { Fuel: 'Coal' }]);
+        expect(asColumnar(batch)).toBe(batch);
+    });
+});
+
+describe('materializeRows', () => {
+    const batch = asColumnar({ rawData: rows, schema: [{ id: 'Fuel', name: 'Fuel', type: 'string' }, { id: 'Amount', name: 'Amount', type: 'number' }] });
+
+    it('builds every row once, unlike the row view', () => {
+        const built = materializeRows(batch);
+        expect(built).toEqual([{ Fuel: 'Coal', Amount: 10 }, { Fuel: 'Gas', Amount: null }, { Fuel: 'Coal', Amount: 4 }]);
+        expect(built[0]).toBe(built[0]);
+        expect(batch.rawData[0]).not.toBe(batch.rawData[0]);
+    });
+
+    it('reads only the given columns and returns plain rows as they are', () => {
+        expect(materializeRows(batch, ['Amount'])).toEqual([{ Amount: 10 }, { Amount: null }, { Amount: 4 }]);
+        const plain = { rawData: rows, schema: [] };
+        expect(materializeRows(plain)).toBe(rows);
+    });
+});
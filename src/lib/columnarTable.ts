@@ -0,0 +1,275 @@
+/**
+ * Columnar Table
+ * In-memory layout of large batch tables: one vector per column instead of one object per row.
+ * Numbers live in Float64Arrays (blank → NaN), text and booleans as integer codes into a
+ * dictionary of distinct values (blank → -1).
+ *
+ * Tables share vectors: a filtered table keeps its source's columns and only lists the rows it
+ * kept (the selection), and an added column is appended without touching the others. Code that
+ * still wants row objects reads them through rowsView, which builds each row when it is accessed,
+ * or through materializeRows when it reads every row or needs rows that keep their identity.
+ */
+
+import type { ColumnMetadata } from '../store/useBatchDataStore';
+import type { BatchTable } from './batchOperations';
+
+type Row = Record<string, unknown>;
+
+export type ColumnVector =
+    | { kind: 'number'; values: Float64Array }
+    | { kind: 'dictionary'; codes: Int32Array; dictionary: unknown[] }
+    // Anything else (objects, arrays): kept as is
+    | { kind: 'values'; values: unknown[] };
+
+export interface ColumnarTable {
+    // Rows in every vector
+    length: number;
+    columns: Record<string, ColumnVector>;
+    // Vector index of each visible row, in order; null when all rows are visible as stored
+    selection: Uint32Array | null;
+}
+
+const isBlank = (value: unknown): boolean => value === null || value === undefined;
+
+/**
+ * Pick the most compact vector for a column's values
+ */
+export function encodeColumn(values: ArrayLike<unknown>): ColumnVector {
+    const length = values.length;
+    let numeric = true;
+    let primitive = true;
+    for (let i = 0; i < length && (numeric || primitive); i++) {
+        const value = values[i];
+        if (isBlank(value)) continue;
+        if (typeof value !== 'number') numeric = false;
+        if (typeof value === 'object' || typeof value === 'function') primitive = false;
+    }
+
+    if (numeric) {
+        const numbers = new Float64Array(length);
+        for (let i = 0; i < length; i++) {
+            const value = values[i];
+            numbers[i] = isBlank(value) ? NaN : (value as number);
+        }
+        return { kind: 'number', values: numbers };
+    }
+
+    if (primitive) {
+        const codes = new Int32Array(length);
+        const dictionary: unknown[] = [];
+        const lookup = new Map<unknown, number>();
+        for (let i = 0; i < length; i++) {
+            const value = values[i];
+            if (isBlank(value)) {
+                codes[i] = -1;
+                continue;
+            }
+            let code = lookup.get(value);
+            if (code === undefined) {
+                code = dictionary.length;
+                dictionary.push(value);
+                lookup.set(value, code);
+            }
+            codes[i] = code;
+        }
+        return { kind: 'dictionary', codes, dictionary };
+    }
+
+    return { kind: 'values', values: Array.from(values) };
+}
+
+/**
+ * Value at a vector index (not a visible row index); blanks read as null
+ */
+export function readVector(vector: ColumnVector, index: number): unknown {
+    switch (vector.kind) {
+        case 'number': {
+            const value = vector.values[index];
+            return isNaN(value) ? null : value;
+        }
+        case 'dictionary': {
+            const code = vector.codes[index];
+            return code < 0 ? null : vector.dictionary[code];
+        }
+        case 'values':
+            return vector.values[index] ?? null;
+    }
+}
+
+// ----- Building -----
+
+export function columnarFromRows(rows: ArrayLike<Row>, columnIds: string[]): ColumnarTable {
+    const columns: Record<string, ColumnVector> = {};
+    columnIds.forEach(id => {
+        columns[id] = encodeColumn(Array.from(rows, row => row[id]));
+    });
+    return { length: rows.length, columns, selection: null };
+}
+
+export function rowCount(table: ColumnarTable): number {
+    return table.selection ? table.selection.length : table.length;
+}
+
+// Vector index of a visible row
+const vectorIndex = (table: ColumnarTable, row: number): number =>
+    (table.selection ? table.selection[row] : row);
+
+/**
+ * Cell of a visible row; null for blanks and unknown columns
+ */
+export function cellAt(table: ColumnarTable, column: string, row: number): unknown {
+    const vector = table.columns[column];
+    return vector ? readVector(vector, vectorIndex(table, row)) : null;
+}
+
+/**
+ * A column's values for the visible rows, in order
+ */
+export function columnValues(table: ColumnarTable, column: string): unknown[] {
+    const values = new Array<unknown>(rowCount(table));
+    for (let i = 0; i < values.length; i++) values[i] = cellAt(table, column, i);
+    return values;
+}
+
+// ----- Deriving (vectors are shared, never modified) -----
+
+/**
+ * Keep the given visible rows, in the given order
+ */
+export function selectRows(table: ColumnarTable, rows: ArrayLike<number>): ColumnarTable {
+    const selection = new Uint32Array(rows.length);
+    for (let i = 0; i < rows.length; i++) selection[i] = vectorIndex(table, rows[i]);
+    return { ...table, selection };
+}
+
+/**
+ * Add or replace a column, given its values for the visible rows
+ */
+export function withColumn(table: ColumnarTable, column: string, values: ArrayLike<unknown>): ColumnarTable {
+    let stored: ArrayLike<unknown> = values;
+    if (table.selection) {
+        // Rows outside the selection are never read; they stay blank
+        const full = new Array<unknown>(table.length).fill(null);
+        table.selection.forEach((index, row) => { full[index] = values[row]; });
+        stored = full;
+    }
+    return { ...table, columns: { ...table.columns, [column]: encodeColumn(stored) } };
+}
+
+export function withoutColumn(table: ColumnarTable, column: string): ColumnarTable {
+    const columns = { ...table.columns };
+    delete columns[column];
+    return { ...table, columns };
+}
+
+export function renameColumn(table: ColumnarTable, column: string, newName: string): ColumnarTable {
+    const vector = table.columns[column];
+    if (!vector) return table;
+    const { columns } = withoutColumn(table, column);
+    return { ...table, columns: { ...columns, [newName]: vector } };
+}
+
+export function keepColumns(table: ColumnarTable, columnIds: string[]): ColumnarTable {
+    const columns: Record<string, ColumnVector> = {};
+    columnIds.forEach(id => {
+        if (table.columns[id]) columns[id] = table.columns[id];
+    });
+    return { ...table, columns };
+}
+
+// ----- Row view -----
+
+// Builds a visible row as an object with the given columns
+function rowBuilder(table: ColumnarTable, columnIds: string[]): (row: number) => Row {
+    const vectors = columnIds
+        .filter(id => table.columns[id])
+        .map(id => [id, table.columns[id]] as const);
+    return (row) => {
+        const index = vectorIndex(table, row);
+        const result: Row = {};
+        for (const [id, vector] of vectors) result[id] = readVector(vector, index);
+        return result;
+    };
+}
+
+/**
+ * Read-only row array over a table. Rows are built on access (with the given columns only),
+ * so nothing is held per row; callers that keep rows keep only those.
+ */
+export function rowsView(table: ColumnarTable, columnIds: string[] = Object.keys(table.columns)): Row[] {
+    const length = rowCount(table);
+    const buildRow = rowBuilder(table, columnIds);
+    const rowIndex = (key: string | symbol): number => {
+        if (typeof key !== 'string') return -1;
+        const index = Number(key);
+        return Number.isInteger(index) && index >= 0 && index < length && String(index) === key ? index : -1;
+    };
+    const readOnly = (): boolean => {
+        throw new Error('Batch table rows are read-only');
+    };
+
+    return new Proxy<Row[]>([], {
+        get: (target, key, receiver) => {
+            if (key === 'length') return length;
+            const index = rowIndex(key);
+            return index >= 0 ? buildRow(index) : Reflect.get(target, key, receiver);
+        },
+        has: (target, key) => rowIndex(key) >= 0 || Reflect.has(target, key),
+        ownKeys: (target) => [...Array.from({ length }, (_, i) => String(i)), ...Reflect.ownKeys(target)],
+        getOwnPropertyDescriptor: (target, key) => {
+            const index = rowIndex(key);
+            if (index >= 0) return { value: buildRow(index), writable: false, enumerable: true, configurable: true };
+            const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+            return key === 'length' && descriptor ? { ...descriptor, value: length } : descriptor;
+        },
+        set: readOnly,
+        deleteProperty: readOnly,
+        defineProperty: readOnly,
+    });
+}
+
+// ----- Batch tables -----
+
+/**
+ * A batch table stored as columns; its rawData is a row view over them
+ */
+export function fromColumnar(columnar: ColumnarTable, schema: ColumnMetadata[]): BatchTable {
+    return { rawData: rowsView(columnar, schema.map(col => col.id)), schema, columnar };
+}
+
+/**
+ * Row objects of a batch table, each built once from the vectors (with the given columns only).
+ * For code that reads every row, or several times, or hands rows to a grid or sheet writer that
+ * needs them to stay the same objects. A table without vectors returns its own rows.
+ */
+export function materializeRows(table: BatchTable, columnIds: string[] = table.schema.map(col => col.id)): Row[] {
+    if (!table.columnar) return table.rawData;
+    const buildRow = rowBuilder(table.columnar, columnIds);
+    return Array.from({ length: rowCount(table.columnar) }, (_, row) => buildRow(row));
+}
+
+/**
+ * Columnar form of a batch table, encoded from its rows when it has none
+ */
+export function columnarOf(table: BatchTable): ColumnarTable {
+    return table.columnar ?? columnarFromRows(table.rawData, table.schema.map(col => col.id));
+}
+
+export function asColumnar(table: BatchTable): BatchTable {
+    return table.columnar ? table : fromColumnar(columnarOf(table), table.schema);
+}
+
+// ----- Transfer -----
+
+/**
+ * Buffers of the table's typed arrays, e.g. to transfer with postMessage
+ */
+export function tableBuffers(table: ColumnarTable): ArrayBuffer[] {
+    const buffers = new Set<ArrayBuffer>();
+    if (table.selection) buffers.add(table.selection.buffer as ArrayBuffer);
+    Object.values(table.columns).forEach(vector => {
+        if (vector.kind === 'number') buffers.add(vector.values.buffer as ArrayBuffer);
+        if (vector.kind === 'dictionary') buffers.add(vector.codes.buffer as ArrayBuffer);
+    });
+    return [...buffers];
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { utils, write } from 'xlsx';
+import { gridToTable, readGrid, readGridFromBytes } from './fileIngest';
+
+describe('gridToTable', () => {
+    const grid = [
+        ['Emission report 2023', '', ''],
+        ['Plant', 'Fuel', ''],
+        ['', 't', ''],
+        ['PLTU A', '1.234,5', ''],
+        ['', '', ''],
+        ['PLTU B', '12,5', ''],
+    ];
+
+    it('reads the header row, skips rows below it and drops blank rows and columns', () => {
+        const table = gridToTable(grid, { headerRow: 2, skipRows: 1 });
+        expect(table.schema.map((col) => [col.id, col.type])).toEqual([['Plant', 'string'], ['Fuel', 'number']]);
+        expect(table.rawData).toEqual([{ Plant: 'PLTU A', Fuel: 1234.5 }, { Plant: 'PLTU B', Fuel: 12.5 }]);
+    });
+
+    it('uses a fixed decimal separator for every column', () => {
+        const table = gridToTable([['Amount'], ['1.234'], ['2.5']], { decimalSeparator: '.' });
+        expect(table.rawData.map((row) => row.Amount)).toEqual([1.234, 2.5]);
+        expect(gridToTable([['Amount'], ['1.234']], { decimalSeparator: ',' }).rawData[0].Amount).toBe(1234);
+    });
+
+    it('names blank and repeated headers', () => {
+        const table = gridToTable([['Year', 'Year', ''], [2022, 2023, 'x']], {});
+        expect(table.schema.map((col) => col.id)).toEqual(['Year', 'Year_1', 'Column 3']);
+    });
+
+    it('rejects an empty header row or a table without data', () => {
+        expect(() => gridToTable([], {})).toThrow('File is empty');
+        expect(() => gridToTable([['a'], ['', '']], { headerRow: 2 })).toThrow('Header row 2 is empty');
+        expect(() => gridToTable([['Plant'], ['']], {})).toThrow('No data rows below the header');
+    });
+});
+
+describe('readGrid', () => {
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet([['title'], [], ['', 'Plant', 'Fuel'], ['', 'A', 1], ['', 'B', 2]]), 'Data');
+    const file = new File([], 'report.xlsx');
+
+    it('reads the chosen sheet and cell range', async () => {
+        expect(await readGrid(file, { sheet: 'Data', range: 'B3:C4' }, { workbook })).toEqual([['Plant', 'Fuel'], ['A', 1]]);
+        // A top-left cell runs to the end of the data
+        expect(await readGrid(file, { range: 'B4' }, { workbook })).toEqual([['A', 1], ['B', 2]]);
+    });
+
+    it('limits preview rows and rejects unknown sheets and ranges', async () => {
+        expect(await readGrid(file, {}, { workbook, limit: 1 })).toEqual([['title', '', '']]);
+        await expect(readGrid(file, { sheet: 'Other' }, { workbook })).rejects.toThrow('Sheet "Other" not found');
+        await expect(readGrid(file, { range: 'here' }, { workbook })).rejects.toThrow('"here" is not a cell range');
+    });
+});
+
+describe('readGridFromBytes', () => {
+    it('decodes CSV with the chosen encoding, delimiter and range', () => {
+        const bytes = new Uint8Array([...'Kota;Jumlah\nBogor;1,5\nDepok;2\n'].map((c) => c.charCodeAt(0)));
+        expect(readGridFromBytes('data.csv', bytes, { delimiter: ';', encoding: 'windows-1252', range: 'A2:B3' })).toEqual([['Bogor', '1,5'], ['Depok', '2']]);
+    });
+
+    it('reads spreadsheets from their bytes', () => {
+        const workbook = utils.book_new();
+        utils.book_append_sheet(workbook, utils.aoa_to_sheet([['Plant', 'Fuel'], ['A', 1]]), 'Data');
+        const bytes = new Uint8Array(write(workbook, { type: 'array', bookType: 'xlsx' }));
+        expect(readGridFromBytes('report.xlsx', bytes, {})).toEqual([['Plant', 'Fuel'], ['A', 1]]);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Dataset File Parsing
+ * Reads a sheet of an .xlsx file, or a CSV file, into a batch table. The import options pick the
+ * sheet, the cell range, the header row and the CSV delimiter/encoding; column types are then
+ * inferred and the cells converted once (see columnTypes.ts).
+ */
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { WorkBook, WorkSheet, Range } from 'xlsx';
+import type { ColumnType, DatasetImportOptions } from '../types';
+import type { BatchRow, BatchTable } from './batchOperations';
+import { typeColumns } from './columnTypes';
+import { parseDateValue, formatDate } from './textDateFunctions';
+
+export type Grid = unknown[][];
+
+// Node scripts load xlsx's CommonJS build, where SSF is only reachable through the default export
+const { utils, SSF }: typeof XLSX = 'SSF' in XLSX ? XLSX : Reflect.get(XLSX, 'default');
+
+export const isSpreadsheetFile = (file: Pick<File, 'name'>): boolean => file.name.endsWith('.xlsx');
+
+const isBlank = (v: unknown): boolean => v === null || v === undefined || String(v).trim() === '';
+
+// ----- Range -----
+
+/**
+ * Parse an A1 range ("B5:K200") or a top-left cell ("B5", running to the end of the data)
+ */
+function parseRange(text: string, lastRow: number, lastCol: number): Range {
+    const trimmed = text.trim().toUpperCase();
+    if (!/^[A-Z]{1,3}[1-9]\d*(:[A-Z]{1,3}[1-9]\d*)?$/.test(trimmed)) {
+        throw new Error(`"${text}" is not a cell range - use e.g. B5:K200 or B5`);
+    }
+    if (trimmed.includes(':')) return utils.decode_range(trimmed);
+    const start = utils.decode_cell(trimmed);
+    return { s: start, e: { r: lastRow, c: lastCol } };
+}
+
+// ----- XLSX -----
+
+/**
+ * Excel stores dates as serial numbers with a date format; turn those cells into
+ * "YYYY-MM-DD" text so they are typed as dates rather than numbers
+ */
+function convertDateCells(sheet: WorkSheet): void {
+    Object.keys(sheet).forEach(address => {
+        if (address.startsWith('!')) return;
+        const cell = sheet[address];
+        if (cell.t !== 'n' || !cell.z || !SSF.is_date(cell.z)) return;
+        const date = parseDateValue(cell.v);
+        if (!date) return;
+        cell.t = 's';
+        cell.v = formatDate(date);
+    });
+}
+
+function openWorkbook(data: unknown, type: 'binary' | 'array'): WorkBook {
+    const workbook = XLSX.read(data, { type, cellNF: true });
+    workbook.SheetNames.forEach(name => convertDateCells(workbook.Sheets[name]));
+    return workbook;
+}
+
+export function readWorkbook(file: File): Promise<WorkBook> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                resolve(openWorkbook(e.target?.result, 'binary'));
+            } catch (error) {
+                reject(error);
+            }
+        };
+        reader.onerror = () => reject(new Error('Failed to read file'));
+        reader.readAsBinaryString(file);
+    });
+}
+
+/**
+ * Cells of the chosen sheet and range, at most `limit` rows. Without a range the grid starts
+ * at A1, so header row numbers match Excel's.
+ */
+function sheetGrid(workbook: WorkBook, options: DatasetImportOptions, limit?: number): Grid {
+    const sheetName = options.sheet || workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found`);
+    if (!sheet['!ref']) return [];
+
+    const used = utils.decode_range(sheet['!ref']);
+    const range = options.range
+        ? parseRange(options.range, used.e.r, used.e.c)
+        : { s: { r: 0, c: 0 }, e: used.e };
+    if (limit !== undefined) range.e.r = Math.min(range.e.r, range.s.r + limit - 1);
+
+    return utils.sheet_to_json<unknown[]>(sheet, { header: 1, range, defval: '', blankrows: true, raw: true });
+}
+
+// ----- CSV -----
+
+// Cut the chosen range out of the parsed rows
+function csvRange(grid: Grid, options: DatasetImportOptions): Grid {
+    if (!options.range) return grid;
+    const width = Math.max(0, ...grid.map(cells => cells.length));
+    const range = parseRange(options.range, grid.length - 1, width - 1);
+    return grid.slice(range.s.r, range.e.r + 1).map(cells => cells.slice(range.s.c, range.e.c + 1));
+}
+
+function csvGrid(file: File, options: DatasetImportOptions, limit?: number): Promise<Grid> {
+    // The range's first row is only known after parsing; read enough lines to reach past it
+    const rangeStart = options.range ? parseRange(options.range, 0, 0).s.r : 0;
+
+    return new Promise((resolve, reject) => {
+        Papa.parse<string[]>(file, {
+            delimiter: options.delimiter || '',
+            encoding: options.encoding || 'UTF-8',
+            // Worker for full reads; previews are small
+            worker: limit === undefined,
+            preview: limit === undefined ? 0 : rangeStart + limit,
+            complete: (results) => {
+                try {
+                    resolve(csvRange(results.data, options));
+                } catch (error) {
+                    reject(error);
+                }
+            },
+            error: (error) => reject(error),
+        });
+    });
+}
+
+// ----- Table -----
+
+/**
+ * Read the cells of a file as rows of values. An already loaded workbook can be passed to
+ * avoid reading an .xlsx file again (the import preview re-reads on every option change).
+ */
+export async function readGrid(file: File, options: DatasetImportOptions, { workbook, limit }: { workbook?: WorkBook; limit?: number } = {}): Promise<Grid> {
+    if (isSpreadsheetFile(file)) return sheetGrid(workbook ?? await readWorkbook(file), options, limit);
+    return csvGrid(file, options, limit);
+}
+
+/**
+ * Read the cells of a file already in memory, e.g. from disk in a Node script (which has no
+ * File or FileReader). CSV bytes are decoded with the chosen encoding.
+ */
+export function readGridFromBytes(fileName: string, bytes: Uint8Array, options: DatasetImportOptions): Grid {
+    if (isSpreadsheetFile({ name: fileName })) return sheetGrid(openWorkbook(bytes, 'array'), options);
+    const text = new TextDecoder(options.encoding || 'UTF-8').decode(bytes);
+    return csvRange(Papa.parse<string[]>(text, { delimiter: options.delimiter || '' }).data, options);
+}
+
+// Blank headers become "Column N"; repeated ones get _1, _2 ... as PapaParse names them
+function columnNames(header: unknown[]): string[] {
+    const seen = new Map<string, number>();
+    return header.map((cell, i) => {
+        const name = isBlank(cell) ? `Column ${i + 1}` : String(cell).trim();
+        const count = seen.get(name) ?? 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name}_${count}`;
+    });
+}
+
+/**
+ * Turn a grid into a typed table: the header row names the columns, `skipRows` rows after it
+ * are dropped, as are blank rows and unnamed columns without data
+ */
+export function gridToTable(grid: Grid, options: DatasetImportOptions, columnTypes?: Record<string, ColumnType>): BatchTable {
+    const headerIndex = Math.max(1, options.headerRow ?? 1) - 1;
+    const header = grid[headerIndex];
+    if (!header || header.every(isBlank)) {
+        throw new Error(grid.length === 0 ? 'File is empty' : `Header row ${headerIndex + 1} is empty`);
+    }
+
+    const body = grid
+        .slice(headerIndex + 1 + Math.max(0, options.skipRows ?? 0))
+        .filter(cells => cells.some(cell => !isBlank(cell)));
+    if (body.length === 0) throw new Error('No data rows below the header');
+
+    const names = columnNames(header);
+    const columns = names
+        .map((name, i) => ({ name, i }))
+        .filter(({ i }) => !isBlank(header[i]) || body.some(cells => !isBlank(cells[i])));
+
+    const rows = body.map(cells => {
+        const row: BatchRow = {};
+        columns.forEach(({ name, i }) => { row[name] = cells[i] ?? ''; });
+        return row;
+    });
+
+    const decimalComma = options.decimalSeparator === undefined ? undefined : options.decimalSeparator === ',';
+    return typeColumns(rows, columns.map(c => c.name), columnTypes, decimalComma);
+}
+
+/**
+ * Parse an uploaded dataset file (.xlsx, otherwise CSV); `columnTypes` replaces the inferred type of those columns
+ */
+export async function parseDataFile(file: File, columnTypes?: Record<string, ColumnType>, options: DatasetImportOptions = {}): Promise<BatchTable> {
+    return gridToTable(await readGrid(file, options), options, columnTypes);
+}
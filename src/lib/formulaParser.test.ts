@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { parseFormula, formatFormula, walkFormula } from './formulaParser';
+import type { FormulaNode } from './formulaParser';
+
+describe('parseFormula', () => {
+    it('follows operator precedence', () => {
+        expect(formatFormula(parseFormula('1 + 2 * 3 ^ 2'))).toBe('1 + 2 * 3 ^ 2');
+        expect(parseFormula('(1 + 2) * 3')).toMatchObject({ type: 'binary', op: '*', left: { type: 'binary', op: '+' } });
+        expect(parseFormula('[a] > 1 ? "big" : "small"')).toMatchObject({
+            type: 'conditional',
+            whenTrue: { type: 'string', value: 'big' },
+        });
+    });
+
+    it('reads bracketed and bare references', () => {
+        expect(parseFormula('[Fuel Use] * EF')).toMatchObject({
+            left: { type: 'ref', name: 'Fuel Use', bracketed: true },
+            right: { type: 'ref', name: 'EF', bracketed: false },
+        });
+    });
+
+    it('reads aggregates and function calls', () => {
+        expect(parseFormula('$SUM_[CO2]')).toEqual({ type: 'aggregate', func: 'SUM', column: 'CO2' });
+        expect(parseFormula('round([CO2], 2)')).toMatchObject({ type: 'call', name: 'round', args: [{ type: 'ref' }, { type: 'number', value: 2 }] });
+    });
+
+    it('reads grouped aggregates and window functions', () => {
+        expect(parseFormula('$SUM_[CO2] BY [Sector]')).toMatchObject({ type: 'aggregate', func: 'SUM', column: 'CO2', groupBy: ['Sector'] });
+        expect(parseFormula('RANK([CO2], "asc") BY ([Sector], [Year])')).toMatchObject({
+            type: 'window',
+            func: 'RANK',
+            column: 'CO2',
+            groupBy: ['Sector', 'Year'],
+        });
+        expect(formatFormula(parseFormula('LAG([CO2], 1) BY [Sector] * 2'))).toBe('LAG([CO2], 1) BY [Sector] * 2');
+    });
+
+    it('reads unit literals', () => {
+        expect(parseFormula('1000 kg/t')).toEqual({ type: 'number', value: 1000, unit: 'kg/t' });
+        expect(parseFormula('9.81 m/s^2')).toEqual({ type: 'number', value: 9.81, unit: 'm/s^2' });
+        expect(parseFormula('5 kg CO2')).toEqual({ type: 'number', value: 5, unit: 'kg·CO2' });
+        expect(parseFormula('44/12 CO2/C')).toEqual({ type: 'number', value: 44 / 12, unit: 'CO2/C' });
+    });
+
+    it('does not read input labels or function calls as unit words', () => {
+        expect(parseFormula('2 * A', { isReference: (name) => name === 'A' })).toMatchObject({ type: 'binary', right: { type: 'ref', name: 'A' } });
+        expect(() => parseFormula('2 A', { isReference: (name) => name === 'A' })).toThrow();
+        expect(formatFormula(parseFormula('[x] / 1000 kg/t'))).toBe('[x] / (1000 kg/t)');
+    });
+
+    it('multiplies by constants instead of reading them as unit words', () => {
+        expect(parseFormula('2 pi')).toEqual({
+            type: 'binary',
+            op: '*',
+            left: { type: 'number', value: 2 },
+            right: { type: 'ref', name: 'pi', bracketed: false },
+        });
+        expect(formatFormula(parseFormula('[fuel] * 2 e'))).toBe('[fuel] * (2 * e)');
+        expect(formatFormula(parseFormula('1/2 pi ^ 2'))).toBe('0.5 * pi ^ 2');
+    });
+
+    it('does not read function names as unit words unless they are units', () => {
+        const isFunction = (name: string) => ['sqrt', 'min'].includes(name);
+        expect(() => parseFormula('2 sqrt', { isFunction })).toThrow('Unexpected "sqrt" at position 3');
+        expect(parseFormula('5 min', { isFunction })).toEqual({ type: 'number', value: 5, unit: 'min' });
+    });
+
+    it('reports the position of syntax errors', () => {
+        expect(() => parseFormula('[a] * )')).toThrow('Unexpected ")" at position 7');
+        expect(() => parseFormula('(1 + 2')).toThrow('Expected ")" but found end of formula at position 7');
+        expect(() => parseFormula('"open')).toThrow('Unterminated string starting at position 1');
+    });
+});
+
+describe('string literals', () => {
+    const value = (formula: string) => (parseFormula(formula) as { value: string }).value;
+
+    it('keeps backslashes that do not escape the quote or a backslash', () => {
+        expect(value('"-(\\d+)$"')).toBe('-(\\d+)$');
+        expect(value("'a\\sb'")).toBe('a\\sb');
+    });
+
+    it('unescapes the quote in use and doubled backslashes', () => {
+        expect(value('"say \\"hi\\""')).toBe('say "hi"');
+        expect(value("'it\\'s'")).toBe("it's");
+        expect(value('"C:\\\\data"')).toBe('C:\\data');
+        // The other quote is not an escape inside this one
+        expect(value("'a\\\"b'")).toBe('a\\"b');
+    });
+
+    it('formats back to a formula with the same value', () => {
+        ['"-(\\d+)$"', '"say \\"hi\\""', '"C:\\\\data"'].forEach((formula) => {
+            const tree = parseFormula(formula);
+            expect(parseFormula(formatFormula(tree))).toEqual(tree);
+        });
+    });
+});
+
+describe('walkFormula', () => {
+    it('visits every node of the tree', () => {
+        const refs: string[] = [];
+        walkFormula(parseFormula('max([A], [B] * 2) + $AVG_[C]'), (node: FormulaNode) => {
+            if (node.type === 'ref') refs.push(node.name);
+            if (node.type === 'aggregate') refs.push(node.column);
+        });
+        expect(refs).toEqual(['A', 'B', 'C']);
+    });
+});
@@ -0,0 +1,568 @@
+/**
+ * Formula Parser
+ * Turns a formula string into an expression tree shared by the scalar engine,
+ * the batch engine and unit inference.
+ *
+ * Grammar (lowest to highest precedence):
+ *   cond ? a : b  →  or  →  xor  →  and  →  == != < > <= >=  →  + -  →  * / %  →  unary - + not  →  ^
+ * Operands: numbers, "strings", [Bracketed Refs], bare identifiers, $AGG_[column], $AGG_[column](args), FUNC(args)
+ * Aggregates and window functions may be split into groups: $SUM_[CO2] BY [Sector], RANK([CO2]) BY ([Sector], [Year])
+ * Unit literals: a number directly followed by unit words, e.g. 1000 kg/t, 5 g/GJ, 9.81 m/s^2.
+ * As in math.js, a fraction before a unit belongs to the literal: 44/12 CO2/C is (44/12) CO2/C.
+ * Constants are not unit words: 2 pi is 2 * pi.
+ */
+
+import { resolveUnit } from './unitConversion';
+
+export type BinaryOperator =
+    | '+' | '-' | '*' | '/' | '%' | '^'
+    | '==' | '!=' | '<' | '>' | '<=' | '>='
+    | 'and' | 'or' | 'xor';
+
+export type UnaryOperator = '-' | '+' | 'not';
+
+export interface NumberNode {
+    type: 'number';
+    value: number;
+    // Unit of a literal like "1000 kg/t"; plain numbers have none
+    unit?: string;
+}
+
+export interface StringNode {
+    type: 'string';
+    value: string;
+}
+
+export interface BooleanNode {
+    type: 'boolean';
+    value: boolean;
+}
+
+export interface NullNode {
+    type: 'null';
+}
+
+// Variable reference: [Fuel Use] (bracketed) or A (bare)
+export interface RefNode {
+    type: 'ref';
+    name: string;
+    bracketed: boolean;
+}
+
+// Dataset aggregate: $SUM_[CO2], or per group: $SUM_[CO2] BY [Sector]
+export interface AggregateNode {
+    type: 'aggregate';
+    func: string;
+    column: string;
+    // $PERCENTILE_[CO2](0.95), $SUMIF_[CO2]([Fuel] == "Coal"); conditions are evaluated per row of the dataset
+    args?: FormulaNode[];
+    groupBy?: string[];
+}
+
+// Functions whose value depends on the row's position in the table
+export const WINDOW_FUNCTIONS = new Set(['RUNNINGTOTAL', 'CUMPERCENT', 'LAG', 'LEAD', 'RANK']);
+
+// Window function over a column: LAG([CO2], 1, 0), RANK([CO2]) BY [Sector]
+export interface WindowNode {
+    type: 'window';
+    func: string;
+    column: string;
+    // Literal arguments after the column (offset, default, sort order)
+    args: FormulaNode[];
+    groupBy?: string[];
+}
+
+export interface UnaryNode {
+    type: 'unary';
+    op: UnaryOperator;
+    operand: FormulaNode;
+}
+
+export interface BinaryNode {
+    type: 'binary';
+    op: BinaryOperator;
+    left: FormulaNode;
+    right: FormulaNode;
+}
+
+export interface ConditionalNode {
+    type: 'conditional';
+    condition: FormulaNode;
+    whenTrue: FormulaNode;
+    whenFalse: FormulaNode;
+}
+
+export interface CallNode {
+    type: 'call';
+    name: string;
+    args: FormulaNode[];
+}
+
+export type FormulaNode =
+    | NumberNode
+    | StringNode
+    | BooleanNode
+    | NullNode
+    | RefNode
+    | AggregateNode
+    | WindowNode
+    | UnaryNode
+    | BinaryNode
+    | ConditionalNode
+    | CallNode;
+
+// ----- Tokenizer -----
+
+type TokenType = 'number' | 'string' | 'ref' | 'aggregate' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    pos: number;
+    value?: string | number;
+    column?: string;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '^', '(', ')', ',', '?', ':', '·'];
+const WORD_OPERATORS = new Set(['and', 'or', 'xor', 'not']);
+
+function tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < formula.length) {
+        const char = formula[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Aggregate: $SUM_[column]
+        if (char === '$') {
+            const match = formula.slice(i).match(/^\$([A-Z]+)_\[([^\]]+)\]/);
+            if (!match) throw new Error(`Invalid aggregate syntax at position ${i + 1} - use $SUM_[column]`);
+            tokens.push({ type: 'aggregate', text: match[0], pos: i, value: match[1], column: match[2] });
+            i += match[0].length;
+            continue;
+        }
+
+        // Bracketed reference: [Column Name]
+        if (char === '[') {
+            const end = formula.indexOf(']', i + 1);
+            if (end === -1) throw new Error(`Missing closing "]" for reference at position ${i + 1}`);
+            const name = formula.slice(i + 1, end);
+            if (!name) throw new Error(`Empty reference "[]" at position ${i + 1}`);
+            tokens.push({ type: 'ref', text: formula.slice(i, end + 1), pos: i, value: name });
+            i = end + 1;
+            continue;
+        }
+
+        // String literal: "text" or 'text'. Only \" (the quote used) and \\ are escapes; any other
+        // backslash is kept, so regex patterns such as "-(\d+)$" need no doubling
+        if (char === '"' || char === "'") {
+            let j = i + 1;
+            let value = '';
+            while (j < formula.length && formula[j] !== char) {
+                if (formula[j] === '\\' && (formula[j + 1] === char || formula[j + 1] === '\\')) j++;
+                value += formula[j];
+                j++;
+            }
+            if (j >= formula.length) throw new Error(`Unterminated string starting at position ${i + 1}`);
+            tokens.push({ type: 'string', text: formula.slice(i, j + 1), pos: i, value });
+            i = j + 1;
+            continue;
+        }
+
+        // Number: 12, 0.5, .5, 1e-3
+        const numMatch = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (numMatch) {
+            tokens.push({ type: 'number', text: numMatch[0], pos: i, value: parseFloat(numMatch[0]) });
+            i += numMatch[0].length;
+            continue;
+        }
+
+        // Identifier: function names, bare variables, keywords, unit words (µg, m²)
+        const identMatch = formula.slice(i).match(/^[A-Za-zµμ_][A-Za-z0-9_µμ²³]*/);
+        if (identMatch) {
+            const word = identMatch[0];
+            tokens.push({ type: WORD_OPERATORS.has(word) ? 'operator' : 'identifier', text: word, pos: i });
+            i += word.length;
+            continue;
+        }
+
+        const op = OPERATORS.find((candidate) => formula.startsWith(candidate, i));
+        if (op) {
+            tokens.push({ type: 'operator', text: op, pos: i });
+            i += op.length;
+            continue;
+        }
+
+        throw new Error(`Unexpected character "${char}" at position ${i + 1}`);
+    }
+
+    tokens.push({ type: 'eof', text: '', pos: formula.length });
+    return tokens;
+}
+
+// ----- Parser -----
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+const LITERAL_KEYWORDS = new Set(['true', 'false', 'null']);
+// Constants multiply the number before them, as in math.js: 2 pi is 2 * pi
+const MATH_CONSTANTS = new Set(['pi', 'e']);
+
+export interface ParseOptions {
+    // Bare names that are variables (scalar input labels), so "2 A" is never read as a unit
+    isReference?: (name: string) => boolean;
+    // Function names the engine knows; they are only unit words when they are also units (5 min)
+    isFunction?: (name: string) => boolean;
+}
+
+/**
+ * Parse a formula into an expression tree. Throws an Error with the position on invalid syntax.
+ */
+export function parseFormula(formula: string, options: ParseOptions = {}): FormulaNode {
+    const tokens = tokenize(formula);
+    let pos = 0;
+
+    const peek = (): Token => tokens[pos];
+    const isOperator = (text: string): boolean => peek().type === 'operator' && peek().text === text;
+
+    const expect = (text: string): void => {
+        if (!isOperator(text)) {
+            const token = peek();
+            const found = token.type === 'eof' ? 'end of formula' : `"${token.text}"`;
+            throw new Error(`Expected "${text}" but found ${found} at position ${token.pos + 1}`);
+        }
+        pos++;
+    };
+
+    function parseConditional(): FormulaNode {
+        const condition = parseBinaryLevel(0);
+        if (!isOperator('?')) return condition;
+        pos++;
+        const whenTrue = parseConditional();
+        expect(':');
+        const whenFalse = parseConditional();
+        return { type: 'conditional', condition, whenTrue, whenFalse };
+    }
+
+    // Left-associative binary levels, from lowest to highest precedence
+    const BINARY_LEVELS: ((text: string) => boolean)[] = [
+        (text) => text === 'or',
+        (text) => text === 'xor',
+        (text) => text === 'and',
+        (text) => COMPARISON_OPERATORS.has(text),
+        (text) => text === '+' || text === '-',
+        (text) => text === '*' || text === '/' || text === '%',
+    ];
+
+    function parseBinaryLevel(level: number): FormulaNode {
+        if (level >= BINARY_LEVELS.length) return parseUnary();
+
+        let left = parseBinaryLevel(level + 1);
+        while (peek().type === 'operator' && BINARY_LEVELS[level](peek().text)) {
+            const op = peek().text as BinaryOperator;
+            pos++;
+            const right = parseBinaryLevel(level + 1);
+            left = { type: 'binary', op, left, right };
+        }
+        return left;
+    }
+
+    function parseUnary(): FormulaNode {
+        if (isOperator('-') || isOperator('+') || isOperator('not')) {
+            const op = peek().text as UnaryOperator;
+            pos++;
+            return { type: 'unary', op, operand: parseUnary() };
+        }
+        return parsePower();
+    }
+
+    function parsePower(): FormulaNode {
+        const base = parsePrimary();
+        if (!isOperator('^')) return base;
+        pos++;
+        // Right-associative, and the exponent may carry its own sign: 2^-1
+        return { type: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+
+    const isConstant = (index: number): boolean => {
+        const token = tokens[index];
+        return token.type === 'identifier' && MATH_CONSTANTS.has(token.text) && !options.isReference?.(token.text);
+    };
+
+    // A unit word is an identifier that is not a function call, keyword, constant or known variable
+    const isUnitWord = (index: number): boolean => {
+        const token = tokens[index];
+        if (token.type !== 'identifier' || LITERAL_KEYWORDS.has(token.text) || isConstant(index)) return false;
+        if (options.isReference?.(token.text)) return false;
+        if (options.isFunction?.(token.text) && !resolveUnit(token.text)) return false;
+        const next = tokens[index + 1];
+        return !(next.type === 'operator' && next.text === '(');
+    };
+
+    // Read "kg/t", "g/GJ·yr" or "m/s^2" following a number
+    function parseUnitLiteral(): string {
+        let unit = peek().text;
+        pos++;
+
+        while (true) {
+            if (isOperator('^')) {
+                const negative = tokens[pos + 1].type === 'operator' && tokens[pos + 1].text === '-';
+                const exponent = tokens[pos + (negative ? 2 : 1)];
+                if (exponent.type !== 'number' || !Number.isInteger(exponent.value)) break;
+                unit += `^${negative ? '-' : ''}${exponent.text}`;
+                pos += negative ? 3 : 2;
+            } else if ((isOperator('/') || isOperator('·')) && isUnitWord(pos + 1)) {
+                unit += `${peek().text}${tokens[pos + 1].text}`;
+                pos += 2;
+            } else if (isUnitWord(pos)) {
+                // Juxtaposed words multiply: "kg CO2" → kg·CO2
+                unit += `·${peek().text}`;
+                pos++;
+            } else {
+                break;
+            }
+        }
+        return unit;
+    }
+
+    function parseNumber(): FormulaNode {
+        let value = peek().value as number;
+        pos++;
+
+        // 44/12 CO2/C: the fraction is part of the literal
+        if (isOperator('/') && tokens[pos + 1].type === 'number' && (isUnitWord(pos + 2) || isConstant(pos + 2))) {
+            value /= tokens[pos + 1].value as number;
+            pos += 2;
+        }
+        if (isConstant(pos)) {
+            return { type: 'binary', op: '*', left: { type: 'number', value }, right: parsePower() };
+        }
+        return isUnitWord(pos) ? { type: 'number', value, unit: parseUnitLiteral() } : { type: 'number', value };
+    }
+
+    // Optional "BY [col]" or "BY ([a], [b])" after an aggregate or window function
+    function parseGroupBy(): string[] | undefined {
+        if (peek().type !== 'identifier' || peek().text !== 'BY') return undefined;
+        pos++;
+        const parenthesized = isOperator('(');
+        if (parenthesized) pos++;
+
+        const columns: string[] = [];
+        do {
+            if (columns.length > 0) pos++;
+            const token = peek();
+            if (token.type !== 'ref') {
+                throw new Error(`Expected a [column] after BY at position ${token.pos + 1}`);
+            }
+            columns.push(token.value as string);
+            pos++;
+        } while (parenthesized && isOperator(','));
+
+        if (parenthesized) expect(')');
+        return columns;
+    }
+
+    function parseArguments(): FormulaNode[] {
+        const args: FormulaNode[] = [];
+        if (!isOperator(')')) {
+            args.push(parseConditional());
+            while (isOperator(',')) {
+                pos++;
+                args.push(parseConditional());
+            }
+        }
+        expect(')');
+        return args;
+    }
+
+    function parseWindow(name: string): WindowNode {
+        const column = peek();
+        if (column.type !== 'ref') {
+            throw new Error(`${name} needs a [column] as its first argument at position ${column.pos + 1}`);
+        }
+        pos++;
+        const args: FormulaNode[] = [];
+        while (isOperator(',')) {
+            pos++;
+            args.push(parseConditional());
+        }
+        expect(')');
+        const groupBy = parseGroupBy();
+        return { type: 'window', func: name, column: column.value as string, args, ...(groupBy ? { groupBy } : {}) };
+    }
+
+    function parsePrimary(): FormulaNode {
+        const token = peek();
+
+        switch (token.type) {
+            case 'number':
+                return parseNumber();
+            case 'string':
+                pos++;
+                return { type: 'string', value: token.value as string };
+            case 'ref':
+                pos++;
+                return { type: 'ref', name: token.value as string, bracketed: true };
+            case 'aggregate': {
+                pos++;
+                let args: FormulaNode[] | undefined;
+                if (isOperator('(')) {
+                    pos++;
+                    args = parseArguments();
+                }
+                const groupBy = parseGroupBy();
+                return {
+                    type: 'aggregate',
+                    func: token.value as string,
+                    column: token.column!,
+                    ...(args ? { args } : {}),
+                    ...(groupBy ? { groupBy } : {}),
+                };
+            }
+            case 'identifier': {
+                pos++;
+                if (isOperator('(')) {
+                    pos++;
+                    if (WINDOW_FUNCTIONS.has(token.text)) return parseWindow(token.text);
+                    return { type: 'call', name: token.text, args: parseArguments() };
+                }
+                if (token.text === 'true' || token.text === 'false') {
+                    return { type: 'boolean', value: token.text === 'true' };
+                }
+                if (token.text === 'null') return { type: 'null' };
+                return { type: 'ref', name: token.text, bracketed: false };
+            }
+            case 'operator':
+                if (token.text === '(') {
+                    pos++;
+                    const inner = parseConditional();
+                    expect(')');
+                    return inner;
+                }
+                throw new Error(`Unexpected "${token.text}" at position ${token.pos + 1}`);
+            default:
+                throw new Error('Formula ended unexpectedly');
+        }
+    }
+
+    const tree = parseConditional();
+    if (peek().type !== 'eof') {
+        throw new Error(`Unexpected "${peek().text}" at position ${peek().pos + 1}`);
+    }
+    return tree;
+}
+
+// ----- Traversal & Formatting -----
+
+/**
+ * Visit every node of the tree (parents before children). Aggregate arguments are
+ * evaluated per dataset row, outside the formula's scope, so they are not visited.
+ */
+export function walkFormula(node: FormulaNode, visit: (node: FormulaNode) => void): void {
+    visit(node);
+    switch (node.type) {
+        case 'unary':
+            walkFormula(node.operand, visit);
+            break;
+        case 'binary':
+            walkFormula(node.left, visit);
+            walkFormula(node.right, visit);
+            break;
+        case 'conditional':
+            walkFormula(node.condition, visit);
+            walkFormula(node.whenTrue, visit);
+            walkFormula(node.whenFalse, visit);
+            break;
+        case 'call':
+        case 'window':
+            node.args.forEach((arg) => walkFormula(arg, visit));
+            break;
+    }
+}
+
+const BINARY_PRECEDENCE: Record<BinaryOperator, number> = {
+    or: 2,
+    xor: 3,
+    and: 4,
+    '==': 5, '!=': 5, '<': 5, '>': 5, '<=': 5, '>=': 5,
+    '+': 6, '-': 6,
+    '*': 7, '/': 7, '%': 7,
+    '^': 9,
+};
+const CONDITIONAL_PRECEDENCE = 1;
+const UNARY_PRECEDENCE = 8;
+
+function precedenceOf(node: FormulaNode): number {
+    if (node.type === 'binary') return BINARY_PRECEDENCE[node.op];
+    if (node.type === 'unary') return UNARY_PRECEDENCE;
+    if (node.type === 'conditional') return CONDITIONAL_PRECEDENCE;
+    // A negative literal prints with a leading "-", so it binds like unary minus
+    if (node.type === 'number' && node.value < 0) return UNARY_PRECEDENCE;
+    // "1000 kg/t" reads as a product, so it needs parentheses after "/" or before "^"
+    if (node.type === 'number' && node.unit) return BINARY_PRECEDENCE['*'];
+    return 10;
+}
+
+export interface FormatOptions {
+    // Override how references, aggregates and window functions are written (e.g. sanitized scope names)
+    ref?: (node: RefNode) => string;
+    aggregate?: (node: AggregateNode) => string;
+    window?: (node: WindowNode) => string;
+}
+
+const formatGroupBy = (groupBy?: string[]): string => {
+    if (!groupBy || groupBy.length === 0) return '';
+    const columns = groupBy.map((column) => `[${column}]`);
+    return columns.length === 1 ? ` BY ${columns[0]}` : ` BY (${columns.join(', ')})`;
+};
+
+/**
+ * Write a tree back as a formula string. By default the output reads like the
+ * source formula; with `ref`/`aggregate` overrides it becomes a math.js expression.
+ */
+export function formatFormula(node: FormulaNode, options: FormatOptions = {}): string {
+    const format = (child: FormulaNode): string => formatFormula(child, options);
+    const wrap = (child: FormulaNode, minPrecedence: number): string =>
+        precedenceOf(child) < minPrecedence ? `(${format(child)})` : format(child);
+
+    switch (node.type) {
+        case 'number':
+            return node.unit ? `${node.value} ${node.unit}` : String(node.value);
+        case 'string':
+            return JSON.stringify(node.value);
+        case 'boolean':
+            return String(node.value);
+        case 'null':
+            return 'null';
+        case 'ref':
+            if (options.ref) return options.ref(node);
+            return node.bracketed ? `[${node.name}]` : node.name;
+        case 'aggregate': {
+            if (options.aggregate) return options.aggregate(node);
+            const args = node.args ? `(${node.args.map((arg) => formatFormula(arg)).join(', ')})` : '';
+            return `$${node.func}_[${node.column}]${args}${formatGroupBy(node.groupBy)}`;
+        }
+        case 'window':
+            if (options.window) return options.window(node);
+            return `${node.func}(${[`[${node.column}]`, ...node.args.map(format)].join(', ')})${formatGroupBy(node.groupBy)}`;
+        case 'unary': {
+            const operand = wrap(node.operand, UNARY_PRECEDENCE);
+            return node.op === 'not' ? `not ${operand}` : `${node.op}${operand}`;
+        }
+        case 'binary': {
+            const precedence = BINARY_PRECEDENCE[node.op];
+            // "^" is right-associative; everything else is left-associative
+            const left = wrap(node.left, node.op === '^' ? precedence + 1 : precedence);
+            const right = wrap(node.right, node.op === '^' ? UNARY_PRECEDENCE : precedence + 1);
+            return `${left} ${node.op} ${right}`;
+        }
+        case 'conditional':
+            return `${wrap(node.condition, CONDITIONAL_PRECEDENCE + 1)} ? ${format(node.whenTrue)} : ${format(node.whenFalse)}`;
+        case 'call':
+            return `${node.name}(${node.args.map(format).join(', ')})`;
+    }
+}
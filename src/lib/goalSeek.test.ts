@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { goalSeek } from './goalSeek';
+
+const noBatchData = () => undefined;
+
+const graph = (formula: string) => {
+    const nodes = [
+        { id: 'x', position: { x: 0, y: 0 }, data: { type: 'source', label: 'X', value: 2, unit: '', outputs: [{ id: 'x-out', label: 'X' }] } },
+        { id: 'k', position: { x: 0, y: 0 }, data: { type: 'source', label: 'K', value: 5, unit: '', outputs: [{ id: 'k-out', label: 'K' }] } },
+        {
+            id: 'y',
+            position: { x: 0, y: 0 },
+            data: { type: 'process', label: 'Y', formula, inputs: [{ id: 'y-x', label: 'X' }, { id: 'y-k', label: 'K' }], outputs: [] },
+        },
+    ] as unknown as Node<NodeData>[];
+    const edges: Edge[] = [
+        { id: 'e1', source: 'x', target: 'y', sourceHandle: 'x-out', targetHandle: 'y-x' },
+        { id: 'e2', source: 'k', target: 'y', sourceHandle: 'k-out', targetHandle: 'y-k' },
+    ];
+    return { nodes, edges };
+};
+
+describe('goalSeek', () => {
+    it('solves a linear relation', () => {
+        const { nodes, edges } = graph('[X] * 3 + 1');
+        const result = goalSeek(nodes, edges, noBatchData, 'y', 'x', 100);
+        expect(result.inputValue).toBeCloseTo(33);
+        expect(result.resultValue).toBeCloseTo(100);
+    });
+
+    it('solves a non-linear relation', () => {
+        const { nodes, edges } = graph('[X] ^ 3 - [K]');
+        const result = goalSeek(nodes, edges, noBatchData, 'y', 'x', 22);
+        expect(result.inputValue).toBeCloseTo(3);
+    });
+
+    it('returns immediately when the target is already met', () => {
+        const { nodes, edges } = graph('[X] * [K]');
+        expect(goalSeek(nodes, edges, noBatchData, 'y', 'x', 10)).toEqual({ inputValue: 2, resultValue: 10, iterations: 1 });
+    });
+
+    it('rejects inputs that are not Source or Factor nodes, or that do not affect the result', () => {
+        const { nodes, edges } = graph('[K] * 2');
+        expect(() => goalSeek(nodes, edges, noBatchData, 'y', 'y', 1)).toThrow('Pick a Source or Factor node to vary');
+        expect(() => goalSeek(nodes, edges, noBatchData, 'y', 'x', 1)).toThrow('The result does not change with this input');
+    });
+
+    it('gives up when the target is out of reach', () => {
+        const { nodes, edges } = graph('[X] ^ 2');
+        expect(() => goalSeek(nodes, edges, noBatchData, 'y', 'x', -4, { maxIterations: 20 })).toThrow('No solution found after 20 iterations');
+    });
+});
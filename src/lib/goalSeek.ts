@@ -0,0 +1,103 @@
+/**
+ * Goal Seek
+ * Finds the value of one Source/Factor input that makes a node's result hit a target,
+ * re-running the scalar engine for every trial value. Secant steps with a bisection
+ * fallback once the root is bracketed.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { runCalculations, numericResult } from './calculationEngine';
+import type { BatchDataResolver } from './calculationEngine';
+
+export interface GoalSeekOptions {
+    // Relative to the target (absolute when the target is 0)
+    tolerance?: number;
+    maxIterations?: number;
+}
+
+export interface GoalSeekResult {
+    inputValue: number;
+    resultValue: number;
+    iterations: number;
+}
+
+/**
+ * Solve result(input) = target. Throws when the input has no effect, the result is not
+ * numeric, or no solution is found within the iteration limit.
+ */
+export function goalSeek(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    getBatchData: BatchDataResolver,
+    targetId: string,
+    inputId: string,
+    target: number,
+    options: GoalSeekOptions = {}
+): GoalSeekResult {
+    const { tolerance = 1e-9, maxIterations = 100 } = options;
+    const inputNode = nodes.find((node) => node.id === inputId);
+    if (!inputNode || (inputNode.data.type !== 'source' && inputNode.data.type !== 'factor')) {
+        throw new Error('Pick a Source or Factor node to vary');
+    }
+
+    let iterations = 0;
+    const resultAt = (value: number): number => {
+        iterations++;
+        const patched = nodes.map((node) =>
+            node.id === inputId ? { ...node, data: { ...node.data, value } as NodeData } : node
+        );
+        const result = runCalculations(patched, edges, getBatchData).results.get(targetId);
+        const resultValue = numericResult(result);
+        if (resultValue === undefined) {
+            throw new Error(result?.error ?? `No numeric result with the input at ${value}`);
+        }
+        return resultValue;
+    };
+
+    const threshold = tolerance * Math.max(1, Math.abs(target));
+    const f = (value: number) => resultAt(value) - target;
+
+    // Two starting points around the current value
+    let x0 = inputNode.data.value;
+    let x1 = x0 === 0 ? 1 : x0 * 1.1;
+    let f0 = f(x0);
+    if (Math.abs(f0) <= threshold) return { inputValue: x0, resultValue: f0 + target, iterations };
+    let f1 = f(x1);
+
+    // Bracket [a, b] with f(a), f(b) of opposite sign, once one is seen
+    let bracket: { a: number; fa: number; b: number; fb: number } | null =
+        Math.sign(f0) !== Math.sign(f1) ? { a: x0, fa: f0, b: x1, fb: f1 } : null;
+
+    while (iterations < maxIterations) {
+        if (Math.abs(f1) <= threshold) {
+            return { inputValue: x1, resultValue: f1 + target, iterations };
+        }
+
+        let next = f1 === f0 ? NaN : x1 - f1 * (x1 - x0) / (f1 - f0);
+        if (bracket) {
+            const low = Math.min(bracket.a, bracket.b);
+            const high = Math.max(bracket.a, bracket.b);
+            if (!Number.isFinite(next) || next <= low || next >= high) {
+                next = (bracket.a + bracket.b) / 2;
+            }
+        } else if (!Number.isFinite(next)) {
+            throw new Error('The result does not change with this input');
+        }
+
+        const fNext = f(next);
+        if (bracket) {
+            if (Math.sign(fNext) === Math.sign(bracket.fa)) bracket = { ...bracket, a: next, fa: fNext };
+            else bracket = { ...bracket, b: next, fb: fNext };
+        } else if (Math.sign(fNext) !== Math.sign(f1)) {
+            bracket = { a: x1, fa: f1, b: next, fb: fNext };
+        }
+
+        x0 = x1;
+        f0 = f1;
+        x1 = next;
+        f1 = fNext;
+    }
+
+    throw new Error(`No solution found after ${maxIterations} iterations - the target may be out of reach`);
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { mulberry32, sampleValue, percentile, runMonteCarlo } from './monteCarlo';
+
+const noBatchData = () => undefined;
+
+describe('mulberry32', () => {
+    it('repeats its sequence for a seed', () => {
+        const a = mulberry32(42);
+        const b = mulberry32(42);
+        const first = [a(), a(), a()];
+        expect([b(), b(), b()]).toEqual(first);
+        first.forEach((v) => {
+            expect(v).toBeGreaterThanOrEqual(0);
+            expect(v).toBeLessThan(1);
+        });
+    });
+});
+
+describe('sampleValue', () => {
+    it('puts the 95% interval of a normal input at ±1.96σ', () => {
+        const random = mulberry32(7);
+        const samples = Array.from({ length: 20000 }, () => sampleValue(100, 90, 110, 'normal', random)).sort((a, b) => a - b);
+        expect(percentile(samples, 2.5)).toBeCloseTo(90, 0);
+        expect(percentile(samples, 97.5)).toBeCloseTo(110, 0);
+    });
+
+    it('keeps uniform samples within the bounds', () => {
+        const random = mulberry32(1);
+        for (let i = 0; i < 1000; i++) {
+            const sample = sampleValue(10, 8, 15, 'uniform', random);
+            expect(sample).toBeGreaterThanOrEqual(8);
+            expect(sample).toBeLessThanOrEqual(15);
+        }
+    });
+
+    it('keeps triangular samples within the bounds', () => {
+        const random = mulberry32(1);
+        for (let i = 0; i < 1000; i++) {
+            const sample = sampleValue(10, 8, 15, 'triangular', random);
+            expect(sample).toBeGreaterThanOrEqual(8);
+            expect(sample).toBeLessThanOrEqual(15);
+        }
+    });
+
+    it('rejects a triangular mode outside the bounds', () => {
+        expect(() => sampleValue(20, 8, 15, 'triangular', mulberry32(1))).toThrow('Triangular inputs need the value within their bounds (8 to 15)');
+    });
+
+    it('rejects lognormal inputs that are not positive', () => {
+        expect(() => sampleValue(1, -1, 3, 'lognormal', mulberry32(1))).toThrow('Lognormal inputs need a positive value and lower bound');
+    });
+});
+
+describe('percentile', () => {
+    it('interpolates between closest ranks', () => {
+        expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+        expect(percentile([0, 10], 25)).toBe(2.5);
+        expect(percentile([], 50)).toBeNaN();
+    });
+});
+
+describe('runMonteCarlo', () => {
+    const nodes = [
+        {
+            id: 'fuel',
+            position: { x: 0, y: 0 },
+            data: { type: 'source', label: 'Fuel', value: 100, unit: 'TJ', uncertainty: { type: 'percent', percent: 5 }, outputs: [{ id: 'fuel-out', label: 'Fuel' }] },
+        },
+        {
+            id: 'co2',
+            position: { x: 0, y: 0 },
+            data: { type: 'process', label: 'CO2', formula: '[Fuel] * 2', inputs: [{ id: 'co2-fuel', label: 'Fuel' }], outputs: [] },
+        },
+    ] as unknown as Node<NodeData>[];
+    const edges: Edge[] = [{ id: 'e', source: 'fuel', target: 'co2', sourceHandle: 'fuel-out', targetHandle: 'co2-fuel' }];
+
+    it('is deterministic for a seed and summarises each Process node', () => {
+        const first = runMonteCarlo(nodes, edges, noBatchData, { iterations: 500, seed: 3 });
+        expect(runMonteCarlo(nodes, edges, noBatchData, { iterations: 500, seed: 3 })).toEqual(first);
+
+        const [co2] = first.nodes;
+        expect(first.sampledInputs).toBe(1);
+        expect(co2).toMatchObject({ nodeId: 'co2', unit: 'TJ', samples: 500 });
+        expect(co2.mean).toBeCloseTo(200, -1);
+        expect(co2.p2_5).toBeLessThan(co2.mean);
+        expect(co2.p97_5).toBeGreaterThan(co2.mean);
+        expect(co2.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+    });
+
+    it('names the input whose distribution cannot be sampled', () => {
+        const invalid = [{
+            id: 'ef',
+            position: { x: 0, y: 0 },
+            data: {
+                type: 'source',
+                label: 'Coal EF',
+                value: 20,
+                unit: '',
+                uncertainty: { type: 'absolute', lower: 8, upper: 15 },
+                distribution: 'triangular',
+                outputs: [],
+            },
+        }] as unknown as Node<NodeData>[];
+        expect(() => runMonteCarlo(invalid, [], noBatchData, { iterations: 10, seed: 1 })).toThrow(/^Coal EF: Triangular/);
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Monte Carlo Uncertainty Analysis (IPCC 2006 Guidelines, Vol. 1 Ch. 3, Approach 2)
+ * Samples every Source/Factor input that states an uncertainty, re-evaluates the scalar
+ * graph with runCalculations and summarises each Process node's results.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, Distribution, SourceNodeData, FactorNodeData } from '../types';
+import { runCalculations, numericResult } from './calculationEngine';
+import type { BatchDataResolver } from './calculationEngine';
+import { toInterval } from './uncertainty';
+
+export interface MonteCarloOptions {
+    iterations: number;
+    seed: number;
+    // Used for inputs that do not pick their own distribution
+    defaultDistribution?: Distribution;
+    histogramBins?: number;
+}
+
+export interface HistogramBin {
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface MonteCarloNodeResult {
+    nodeId: string;
+    label: string;
+    unit?: string;
+    mean: number;
+    p2_5: number;
+    p97_5: number;
+    // Iterations that produced a number (errors and non-numeric results are skipped)
+    samples: number;
+    histogram: HistogramBin[];
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    seed: number;
+    sampledInputs: number;
+    nodes: MonteCarloNodeResult[];
+}
+
+// ----- Random numbers -----
+
+/**
+ * Mulberry32: small, fast seeded PRNG returning floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Standard normal via Box-Muller (1 - u keeps the log argument above zero)
+function standardNormal(random: () => number): number {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// z-score of the 95% confidence bounds
+const Z_95 = 1.959964;
+
+/**
+ * Draw one sample for a value whose 95% interval is [lower, upper].
+ * Normal and lognormal put the interval at ±1.96σ (lognormal in log space, with `value` as median);
+ * triangular and uniform treat the interval as the full range.
+ */
+export function sampleValue(
+    value: number,
+    lower: number,
+    upper: number,
+    distribution: Distribution,
+    random: () => number
+): number {
+    switch (distribution) {
+        case 'normal':
+            return value + standardNormal(random) * (upper - lower) / (2 * Z_95);
+        case 'lognormal': {
+            if (value <= 0 || lower <= 0) {
+                throw new Error('Lognormal inputs need a positive value and lower bound');
+            }
+            const sigma = Math.log(upper / lower) / (2 * Z_95);
+            return Math.exp(Math.log(value) + standardNormal(random) * sigma);
+        }
+        case 'triangular': {
+            // Inverse CDF with the value as mode
+            if (value < lower || value > upper) {
+                throw new Error(`Triangular inputs need the value within their bounds (${lower} to ${upper})`);
+            }
+            const u = random();
+            const range = upper - lower;
+            if (range <= 0) return value;
+            const split = (value - lower) / range;
+            return u < split
+                ? lower + Math.sqrt(u * range * (value - lower))
+                : upper - Math.sqrt((1 - u) * range * (upper - value));
+        }
+        case 'uniform':
+            return lower + random() * (upper - lower);
+    }
+}
+
+// ----- Statistics -----
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const rank = (p / 100) * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+function buildHistogram(sorted: number[], bins: number): HistogramBin[] {
+    if (sorted.length === 0) return [];
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    if (min === max) return [{ from: min, to: max, count: sorted.length }];
+
+    const width = (max - min) / bins;
+    const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+        from: min + i * width,
+        to: min + (i + 1) * width,
+        count: 0,
+    }));
+    sorted.forEach((v) => {
+        histogram[Math.min(bins - 1, Math.floor((v - min) / width))].count++;
+    });
+    return histogram;
+}
+
+// ----- Simulation -----
+
+interface SampledInput {
+    nodeId: string;
+    label: string;
+    value: number;
+    lower: number;
+    upper: number;
+    distribution: Distribution;
+}
+
+/**
+ * Run the Monte Carlo simulation over the scalar graph. Deterministic for a given seed.
+ */
+export function runMonteCarlo(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    getBatchData: BatchDataResolver,
+    options: MonteCarloOptions
+): MonteCarloResult {
+    const { iterations, seed, defaultDistribution = 'normal', histogramBins = 30 } = options;
+    const random = mulberry32(seed);
+
+    // 95% interval of every input that states an uncertainty
+    const inputs: SampledInput[] = [];
+    nodes.forEach((node) => {
+        if (node.data.type !== 'source' && node.data.type !== 'factor') return;
+        const data = node.data as SourceNodeData | FactorNodeData;
+        if (!data.uncertainty) return;
+
+        const interval = toInterval(data.value, data.uncertainty);
+        if (!interval) return;
+        inputs.push({
+            nodeId: node.id,
+            label: data.label || node.id,
+            value: data.value,
+            ...interval,
+            distribution: data.distribution ?? defaultDistribution,
+        });
+    });
+
+    const processNodes = nodes.filter((node) => node.data.type === 'process');
+    const samples = new Map<string, number[]>(processNodes.map((node) => [node.id, []]));
+    const inputIndex = new Map(inputs.map((input, i) => [input.nodeId, i]));
+
+    for (let i = 0; i < iterations; i++) {
+        const draws = inputs.map((input) => {
+            try {
+                return sampleValue(input.value, input.lower, input.upper, input.distribution, random);
+            } catch (err) {
+                throw new Error(`${input.label}: ${(err as Error).message}`);
+            }
+        });
+        const sampledNodes = nodes.map((node) => {
+            const index = inputIndex.get(node.id);
+            return index === undefined ? node : { ...node, data: { ...node.data, value: draws[index] } as NodeData };
+        });
+
+        const { results } = runCalculations(sampledNodes, edges, getBatchData);
+        processNodes.forEach((node) => {
+            const value = numericResult(results.get(node.id));
+            if (value !== undefined) {
+                samples.get(node.id)!.push(value);
+            }
+        });
+    }
+
+    // Units come from a deterministic run at the point values
+    const { results: pointResults } = runCalculations(nodes, edges, getBatchData);
+
+    return {
+        iterations,
+        seed,
+        sampledInputs: inputs.length,
+        nodes: processNodes.map((node) => {
+            const values = samples.get(node.id)!.sort((a, b) => a - b);
+            return {
+                nodeId: node.id,
+                label: node.data.label || 'Process',
+                unit: pointResults.get(node.id)?.resultUnit,
+                mean: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : NaN,
+                p2_5: percentile(values, 2.5),
+                p97_5: percentile(values, 97.5),
+                samples: values.length,
+                histogram: buildHistogram(values, histogramBins),
+            };
+        }),
+    };
+}
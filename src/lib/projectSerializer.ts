@@ -1,6 +1,10 @@
 import { useAppStore } from '../store/useAppStore';
 import { useBatchDataStore } from '../store/useBatchDataStore';
 import { useProjectStore } from '../store/useProjectStore';
+import { useScenarioStore } from '../store/useScenarioStore';
+import type { Scenario } from '../store/useScenarioStore';
+import { isAssessmentReport } from '../data/gwpValues';
+import type { GwpSet } from '../data/gwpValues';
 
 // ------- Schema version -------
 const SCHEMA_VERSION = '1.0';
@@ -11,6 +15,8 @@ export interface ProjectFile {
         projectName: string;
         version: string;
         lastModified: string;
+        // Optional for files saved before GWP support (they load as AR5, 100-year)
+        gwpSet?: GwpSet;
     };
     graph: {
         nodes: any[];
@@ -19,26 +25,38 @@ export interface ProjectFile {
     batchData: {
         nodes: Record<string, any>;
     };
+    // Optional for files saved before scenarios existed
+    scenarios?: {
+        items: Scenario[];
+        resultNodeIds: string[];
+    };
 }
 
 // ------- Serialize -------
 export function serializeProject(): ProjectFile {
     const { nodes, edges } = useAppStore.getState();
     const batchNodes = useBatchDataStore.getState().nodes;
-    const { projectName } = useProjectStore.getState();
+    const { projectName, gwpSet } = useProjectStore.getState();
+    const { scenarios, resultNodeIds } = useScenarioStore.getState();
 
     return {
         meta: {
             projectName,
             version: SCHEMA_VERSION,
             lastModified: new Date().toISOString(),
+            gwpSet,
         },
         graph: {
             nodes: JSON.parse(JSON.stringify(nodes)), // deep clone to strip reactflow internals
             edges: JSON.parse(JSON.stringify(edges)),
         },
         batchData: {
-            nodes: JSON.parse(JSON.stringify(batchNodes)),
+            // Column vectors are rebuilt from the rows when needed
+            nodes: JSON.parse(JSON.stringify(batchNodes, (key, value) => (key === 'columnar' ? undefined : value))),
+        },
+        scenarios: {
+            items: JSON.parse(JSON.stringify(scenarios)),
+            resultNodeIds: [...resultNodeIds],
         },
     };
 }
@@ -69,7 +87,8 @@ export function deserializeProject(data: any): { success: boolean; error?: strin
 
         // Hydrate batch data store
         useBatchDataStore.setState({
-            nodes: data.batchData.nodes,
+            // Column vectors saved as plain objects are not usable; they are rebuilt from the rows
+            nodes: Object.fromEntries(Object.entries(data.batchData.nodes).map(([id, node]) => [id, { ...node, columnar: undefined }])),
         });
 
         // Hydrate project metadata
@@ -77,6 +96,18 @@ export function deserializeProject(data: any): { success: boolean; error?: strin
             projectName: data.meta.projectName,
             lastModified: data.meta.lastModified,
         });
+        const gwpSet = data.meta.gwpSet;
+        useProjectStore.getState().setGwpSet(
+            gwpSet && isAssessmentReport(gwpSet.report) && (gwpSet.horizon === 20 || gwpSet.horizon === 100)
+                ? { report: gwpSet.report, horizon: gwpSet.horizon }
+                : { report: 'AR5', horizon: 100 }
+        );
+
+        // Hydrate scenarios
+        useScenarioStore.setState({
+            scenarios: Array.isArray(data.scenarios?.items) ? data.scenarios.items : [],
+            resultNodeIds: Array.isArray(data.scenarios?.resultNodeIds) ? data.scenarios.resultNodeIds : [],
+        });
 
         return { success: true };
     } catch (err: any) {
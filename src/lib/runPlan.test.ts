@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { dependencyEdges, planOrder, inputHashes } from './runPlan';
+
+const source = (id: string, value: number): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: { type: 'source', label: id, value, unit: 't', outputs: [{ id: `${id}-out`, label: id }] },
+});
+
+const process = (id: string, formula: string): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: { type: 'process', label: id, formula, inputs: [{ id: `${id}-in`, label: 'in' }], outputs: [{ id: `${id}-out`, label: 'out' }] },
+});
+
+const ghost = (id: string, sourceNodeId: string): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: { type: 'ghost', label: id, sourceNodeId, outputs: [] },
+});
+
+const edge = (from: string, to: string): Edge => ({ id: `${from}-${to}`, source: from, target: to, targetHandle: `${to}-in` });
+
+const nodes = [process('p2', '[in] * 2'), process('p1', '[in] + 1'), source('s', 5)];
+const edges = [edge('s', 'p1'), edge('p1', 'p2')];
+const noData = () => '';
+const ar5 = { report: 'AR5' as const, horizon: 100 as const };
+
+describe('planOrder', () => {
+    it('puts every node after the nodes it reads and reports cycles', () => {
+        expect(planOrder(nodes, edges).order).toEqual(['s', 'p1', 'p2']);
+
+        const cyclic = planOrder(nodes, [...edges, edge('p2', 'p1')]);
+        expect([...cyclic.circularNodes].sort()).toEqual(['p1', 'p2']);
+    });
+
+    it('runs ghosts after the node they mirror', () => {
+        const withGhost = [ghost('g', 'p2'), ...nodes];
+        expect(dependencyEdges(withGhost, edges).at(-1)).toMatchObject({ source: 'p2', target: 'g' });
+        expect(planOrder(withGhost, edges).order.at(-1)).toBe('g');
+    });
+});
+
+describe('inputHashes', () => {
+    const base = inputHashes(nodes, edges, noData, ar5);
+
+    it('is stable for the same graph', () => {
+        expect(inputHashes([...nodes].reverse(), edges, noData, ar5)).toEqual(base);
+    });
+
+    it('changes for the edited node and everything downstream only', () => {
+        const edited = inputHashes(nodes.map((n) => (n.id === 'p1' ? process('p1', '[in] + 2') : n)), edges, noData, ar5);
+        expect(edited.get('s')).toBe(base.get('s'));
+        expect(edited.get('p1')).not.toBe(base.get('p1'));
+        expect(edited.get('p2')).not.toBe(base.get('p2'));
+    });
+
+    it('ignores results and view state written back to node data', () => {
+        const withResults = nodes.map((n) => ({ ...n, data: { ...n.data, calculatedValue: 42, isMinimized: true } as NodeData }));
+        expect(inputHashes(withResults, edges, noData, ar5)).toEqual(base);
+    });
+
+    it('changes when data outside the graph or the wiring changes', () => {
+        expect(inputHashes(nodes, edges, (id) => (id === 's' ? 'file-2' : ''), ar5).get('p2')).not.toBe(base.get('p2'));
+        expect(inputHashes(nodes, [edge('s', 'p1'), edge('s', 'p2')], noData, ar5).get('p2')).not.toBe(base.get('p2'));
+    });
+
+    it('changes with the project GWP set only for nodes that use it', () => {
+        const withCo2e = [...nodes, process('gas', 'CO2E([in], "CH4")')];
+        const ar6 = inputHashes(withCo2e, edges, noData, { report: 'AR6', horizon: 100 });
+        const before = inputHashes(withCo2e, edges, noData, ar5);
+        expect(ar6.get('gas')).not.toBe(before.get('gas'));
+        expect(ar6.get('p2')).toBe(before.get('p2'));
+    });
+
+    it('leaves nodes in cycles without a hash', () => {
+        const hashes = inputHashes(nodes, [...edges, edge('p2', 'p1')], noData, ar5);
+        expect([...hashes.keys()]).toEqual(['s']);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Run Plan
+ * Dependency order and input hashes of a graph, for the run scheduler (useRunStore).
+ * A node's hash covers its own settings and the hashes of every node it reads, so it changes
+ * whenever the node's result could; a node whose hash matches its last successful run is clean.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import type { GwpSet } from '../data/gwpValues';
+import { sortNodes } from './calculationEngine';
+
+// Node data fields holding results or view state rather than settings
+const RESULT_FIELDS = new Set([
+    'calculatedValue', 'error', 'hasCircularDependency', 'resultUnit', 'unitWarning',
+    'combinedUncertainty', 'batchResult', 'isMinimized', 'note',
+]);
+
+/**
+ * Edges plus a link from each ghost's source to the ghost, which mirrors that table without an edge
+ */
+export function dependencyEdges(nodes: Node<NodeData>[], edges: Edge[]): Edge[] {
+    const ghostLinks = nodes.flatMap((node): Edge[] => (
+        node.data.type === 'ghost' && node.data.sourceNodeId
+            ? [{ id: `ghost:${node.id}`, source: node.data.sourceNodeId, target: node.id }]
+            : []
+    ));
+    return [...edges, ...ghostLinks];
+}
+
+/**
+ * Node ids with every node after the nodes it reads, plus the nodes caught in cycles
+ */
+export function planOrder(nodes: Node<NodeData>[], edges: Edge[]): { order: string[]; circularNodes: Set<string> } {
+    const { sorted, circularNodes } = sortNodes(nodes, dependencyEdges(nodes, edges));
+    return { order: sorted, circularNodes };
+}
+
+// FNV-1a: short and stable, collisions only cost a skipped re-run
+function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+function settingsOf(data: NodeData): string {
+    return JSON.stringify(data, (key, value) => (RESULT_FIELDS.has(key) ? undefined : value));
+}
+
+// CO2E() in a formula, and a Process GWP conversion without its own report and horizon, use the project GWP set
+function usesProjectGwp(data: NodeData, settings: string): boolean {
+    if (data.type === 'process' && data.gwp?.gas && (!data.gwp.report || !data.gwp.horizon)) return true;
+    return /\bCO2E\s*\(/i.test(settings);
+}
+
+/**
+ * Input hash of every node outside cycles. `dataToken` identifies data that lives outside the
+ * graph (a Dataset's loaded file), so reloading it changes the hash. Nodes using the project
+ * GWP set also hash `gwpSet`, so changing it makes them and everything downstream dirty.
+ */
+export function inputHashes(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    dataToken: (nodeId: string) => string,
+    gwpSet: GwpSet
+): Map<string, string> {
+    const nodeById = new Map(nodes.map((node) => [node.id, node]));
+    const dependencies = dependencyEdges(nodes, edges);
+    const hashes = new Map<string, string>();
+
+    planOrder(nodes, edges).order.forEach((nodeId) => {
+        const node = nodeById.get(nodeId);
+        if (!node) return;
+        const inputs = dependencies
+            .filter((edge) => edge.target === nodeId)
+            .map((edge) => `${edge.targetHandle ?? ''}<${hashes.get(edge.source) ?? ''}`)
+            .sort();
+        const settings = settingsOf(node.data);
+        const gwp = usesProjectGwp(node.data, settings) ? `${gwpSet.report}:${gwpSet.horizon}` : '';
+        hashes.set(nodeId, hashText([settings, inputs.join(','), dataToken(nodeId), gwp].join('|')));
+    });
+
+    return hashes;
+}
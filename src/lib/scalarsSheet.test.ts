@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { scalarSheetRows, appendScalarsSheet } from './scalarsSheet';
+
+const node = (id: string, data: Record<string, unknown>): Node<NodeData> => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: { inputs: [], outputs: [], ...data } as unknown as NodeData,
+});
+
+const nodes = [
+    node('fuel', { type: 'source', label: 'Fuel', value: 100, unit: 'TJ', uncertainty: { type: 'percent', percent: 3 } }),
+    node('co2', { type: 'process', label: 'CO2', formula: '[Fuel] * 2', calculatedValue: 200, resultUnit: 'TJ', combinedUncertainty: 3 }),
+    node('ds', { type: 'dataset', label: 'Sites' }),
+    node('other', { type: 'factor', label: 'Unused', value: 1, unit: '' }),
+    node('out', { type: 'export', label: 'Report' }),
+];
+const edges: Edge[] = [
+    { id: 'e1', source: 'fuel', target: 'co2' },
+    { id: 'e2', source: 'co2', target: 'out' },
+    { id: 'e3', source: 'ds', target: 'out' },
+];
+
+describe('scalarSheetRows', () => {
+    it('lists the scalar nodes upstream of the export', () => {
+        expect(scalarSheetRows('out', nodes, edges)).toEqual([
+            { Node: 'Fuel', Type: 'source', Value: 100, Unit: 'TJ', 'Uncertainty (±%, 95% CI)': 3 },
+            { Node: 'CO2', Type: 'process', Value: 200, Unit: 'TJ', 'Uncertainty (±%, 95% CI)': 3 },
+        ]);
+    });
+
+    it('takes process values from the given results', () => {
+        const results = new Map([['co2', { nodeId: 'co2', value: 250, resultUnit: 't' }]]);
+        expect(scalarSheetRows('out', nodes, edges, results)[1]).toEqual({ Node: 'CO2', Type: 'process', Value: 250, Unit: 't', 'Uncertainty (±%, 95% CI)': '' });
+    });
+});
+
+describe('appendScalarsSheet', () => {
+    it('adds the sheet only when scalars feed the export', () => {
+        const workbook = XLSX.utils.book_new();
+        appendScalarsSheet(workbook, 'fuel', nodes, edges);
+        appendScalarsSheet(workbook, 'out', nodes, edges);
+        expect(workbook.SheetNames).toEqual(['Scalars']);
+        expect(XLSX.utils.sheet_to_json(workbook.Sheets.Scalars)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Scalars Sheet
+ * The second sheet of an Export node's xlsx file: every Source, Factor and Process node upstream
+ * of the export with its value, unit and uncertainty. Written by the Export node and by the
+ * headless runner (scripts/runProject.ts).
+ */
+
+import * as XLSX from 'xlsx';
+import type { WorkBook } from 'xlsx';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import type { CalculationResult } from './calculationEngine';
+import { getNodeUncertainty } from './uncertainty';
+import { getAncestorIds } from '../utils/graphTraversal';
+
+export interface ScalarSheetRow {
+    Node: string;
+    Type: string;
+    Value: string | number;
+    Unit: string;
+    'Uncertainty (±%, 95% CI)': number | '';
+}
+
+/**
+ * One row per scalar node upstream of `exportNodeId`. Process values come from `results`
+ * when given, otherwise from the values last stored on the nodes.
+ */
+export function scalarSheetRows(
+    exportNodeId: string,
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    results?: Map<string, CalculationResult>
+): ScalarSheetRow[] {
+    const ancestors = getAncestorIds(exportNodeId, edges);
+    const row = (data: NodeData, value: string | number | null | undefined, unit: string | undefined, uncertainty: number | undefined): ScalarSheetRow => ({
+        Node: data.label || '',
+        Type: data.type,
+        Value: value ?? '',
+        Unit: unit ?? '',
+        'Uncertainty (±%, 95% CI)': uncertainty !== undefined ? Number(uncertainty.toFixed(2)) : '',
+    });
+
+    return nodes.flatMap((node) => {
+        const data = node.data;
+        if (!ancestors.has(node.id)) return [];
+        if (data.type === 'source' || data.type === 'factor') return [row(data, data.value, data.unit, getNodeUncertainty(data))];
+        if (data.type !== 'process') return [];
+
+        if (!results) return [row(data, data.calculatedValue, data.resultUnit, data.combinedUncertainty)];
+        const result = results.get(node.id);
+        return [row(data, result?.value, result?.resultUnit, result?.uncertainty)];
+    });
+}
+
+/**
+ * Add the "Scalars" sheet to an export workbook; nothing is added when no scalar feeds the export
+ */
+export function appendScalarsSheet(
+    workbook: WorkBook,
+    exportNodeId: string,
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    results?: Map<string, CalculationResult>
+): void {
+    const rows = scalarSheetRows(exportNodeId, nodes, edges, results);
+    if (rows.length > 0) XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Scalars');
+}
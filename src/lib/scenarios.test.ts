@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import type { Scenario } from '../store/useScenarioStore';
+import { compareScenarios, scenarioDatasets } from './scenarios';
+
+const node = (id: string, data: Record<string, unknown>) => ({ id, position: { x: 0, y: 0 }, data: { label: id, ...data } });
+
+// Scalar chain: Fuel × EF; batch chain: $SUM_[Amount] of the dataset
+const nodes = [
+    node('Fuel', { type: 'source', value: 10, unit: 'TJ', outputs: [{ id: 'fuel-out', label: 'Fuel' }] }),
+    node('EF', { type: 'factor', mode: 'MANUAL_OVERRIDE', value: 2, unit: 't/TJ', outputs: [{ id: 'ef-out', label: 'EF' }] }),
+    node('CO2', {
+        type: 'process',
+        formula: '[Fuel] * [EF]',
+        inputs: [{ id: 'co2-fuel', label: 'Fuel' }, { id: 'co2-ef', label: 'EF' }],
+        outputs: [],
+    }),
+    node('data', { type: 'dataset', outputs: [] }),
+    node('Total', { type: 'process', formula: '$SUM_[Amount]', inputs: [{ id: 'total-in', label: 'in' }], outputs: [] }),
+] as unknown as Node<NodeData>[];
+const edges: Edge[] = [
+    { id: 'e1', source: 'Fuel', target: 'CO2', sourceHandle: 'fuel-out', targetHandle: 'co2-fuel' },
+    { id: 'e2', source: 'EF', target: 'CO2', sourceHandle: 'ef-out', targetHandle: 'co2-ef' },
+    { id: 'e3', source: 'data', target: 'Total', targetHandle: 'total-in' },
+];
+const baseDatasets = {
+    data: { rawData: [{ Amount: 1 }, { Amount: 2 }], schema: [{ id: 'Amount', name: 'Amount', type: 'number' as const, unit: 'kg' }] },
+};
+
+const scenario = (name: string, valueOverrides: Record<string, number>, datasetOverrides: Scenario['datasetOverrides'] = {}): Scenario => ({
+    id: name,
+    name,
+    valueOverrides,
+    datasetOverrides,
+});
+
+describe('compareScenarios', () => {
+    it('tabulates the baseline and each scenario with deltas', () => {
+        const comparison = compareScenarios(nodes, edges, baseDatasets, [scenario('High EF', { EF: 3 })], ['CO2']);
+        expect(comparison.scenarioNames).toEqual(['High EF']);
+        expect(comparison.rows).toEqual([{
+            nodeId: 'CO2',
+            label: 'CO2',
+            values: [{ value: 20, unit: 't', error: undefined }, { value: 30, unit: 't', error: undefined }],
+            deltas: [10],
+        }]);
+    });
+
+    it('evaluates batch Processes over replacement datasets', () => {
+        const replacement = {
+            fileName: 'next-year.csv',
+            rawData: [{ Amount: 5 }, { Amount: 5 }],
+            schema: [{ id: 'Amount', name: 'Amount', type: 'number' as const }],
+        };
+        const comparison = compareScenarios(nodes, edges, baseDatasets, [scenario('Next year', {}, { data: replacement })], ['Total']);
+        expect(comparison.rows[0].values.map((v) => v.value)).toEqual([3, 10]);
+        expect(comparison.rows[0].values[1].unit).toBe('kg');
+        expect(comparison.rows[0].deltas).toEqual([7]);
+    });
+});
+
+describe('scenarioDatasets', () => {
+    it('keeps units of the loaded file unless the replacement sets its own', () => {
+        const datasets = scenarioDatasets(baseDatasets, scenario('s', {}, {
+            data: { fileName: 'x.csv', rawData: [], schema: [{ id: 'Amount', name: 'Amount', type: 'number', unit: 't' }] },
+        }));
+        expect(datasets.data.schema[0].unit).toBe('t');
+    });
+});
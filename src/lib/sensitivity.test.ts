@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { runSensitivity } from './sensitivity';
+
+const noBatchData = () => undefined;
+
+const input = (id: string, value: number, percent?: number) => ({
+    id,
+    position: { x: 0, y: 0 },
+    data: {
+        type: 'source',
+        label: id,
+        value,
+        unit: 't',
+        uncertainty: percent === undefined ? undefined : { type: 'percent', percent },
+        outputs: [{ id: `${id}-out`, label: id }],
+    },
+});
+
+// Total = [A] * [B] + [C] with A = 100, B = 3, C = 50
+const nodes = [
+    input('A', 100, 20),
+    input('B', 3),
+    input('C', 50, 10),
+    {
+        id: 'total',
+        position: { x: 0, y: 0 },
+        data: {
+            type: 'process',
+            label: 'Total',
+            formula: '[A] * [B] + [C]',
+            inputs: ['A', 'B', 'C'].map((label) => ({ id: `total-${label}`, label })),
+            outputs: [],
+        },
+    },
+] as unknown as Node<NodeData>[];
+const edges: Edge[] = ['A', 'B', 'C'].map((id) => ({ id, source: id, target: 'total', sourceHandle: `${id}-out`, targetHandle: `total-${id}` }));
+
+describe('runSensitivity', () => {
+    it('swings every upstream input by a percentage, largest swing first', () => {
+        const result = runSensitivity(nodes, edges, noBatchData, 'total', { type: 'percent', percent: 10 });
+        expect(result.baseValue).toBe(350);
+        expect(result.entries.map((entry) => entry.label)).toEqual(['A', 'B', 'C']);
+
+        const [a, , c] = result.entries;
+        expect(a).toMatchObject({ lowInput: 90, highInput: 110, lowResult: 320, highResult: 380, swing: 60 });
+        // 60 / 350 of the result for a 20% change of the input
+        expect(a.elasticity).toBeCloseTo((60 / 350) / 0.2);
+        expect(c.swing).toBeCloseTo(10);
+    });
+
+    it('uses the 95% interval in interval mode and skips inputs without one', () => {
+        const result = runSensitivity(nodes, edges, noBatchData, 'total', { type: 'interval' });
+        expect(result.entries.map((entry) => entry.label)).toEqual(['A', 'C']);
+        expect(result.entries[0]).toMatchObject({ lowInput: 80, highInput: 120 });
+        expect(result.skipped).toEqual(['B']);
+    });
+
+    it('throws when the target has no numeric result', () => {
+        expect(() => runSensitivity(nodes, edges, noBatchData, 'missing', { type: 'percent', percent: 10 })).toThrow('The node has no numeric result to analyse');
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * One-at-a-time Sensitivity Analysis
+ * Perturbs each upstream Source/Factor input of a node while holding the others at their
+ * point values, and ranks the inputs by how far they swing the node's result.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, SourceNodeData, FactorNodeData } from '../types';
+import { runCalculations, numericResult } from './calculationEngine';
+import type { BatchDataResolver } from './calculationEngine';
+import { toInterval } from './uncertainty';
+import { getAncestorIds } from '../utils/graphTraversal';
+
+export type SensitivityMode =
+    | { type: 'percent'; percent: number } // Every input ±X%
+    | { type: 'interval' };                // Every input between its 95% CI bounds
+
+export interface SensitivityEntry {
+    nodeId: string;
+    label: string;
+    unit: string;
+    inputValue: number;
+    lowInput: number;
+    highInput: number;
+    // Target result with the input at its low / high value
+    lowResult: number;
+    highResult: number;
+    swing: number;
+    // % change of the result per % change of the input (central difference)
+    elasticity: number | null;
+}
+
+export interface SensitivityResult {
+    targetId: string;
+    baseValue: number;
+    unit?: string;
+    entries: SensitivityEntry[];
+    // Upstream inputs left out: no CI in interval mode, or a non-numeric result
+    skipped: string[];
+}
+
+const labelOf = (node: Node<NodeData>) => node.data.label || node.id;
+
+/**
+ * Swing the target node's value by each upstream input in turn. Entries are sorted by swing, largest first.
+ */
+export function runSensitivity(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    getBatchData: BatchDataResolver,
+    targetId: string,
+    mode: SensitivityMode
+): SensitivityResult {
+    const evaluateWith = (nodeId: string | null, value: number) => {
+        const patched = nodeId === null ? nodes : nodes.map((node) =>
+            node.id === nodeId ? { ...node, data: { ...node.data, value } as NodeData } : node
+        );
+        return runCalculations(patched, edges, getBatchData).results.get(targetId);
+    };
+
+    const base = evaluateWith(null, 0);
+    const baseValue = numericResult(base);
+    if (baseValue === undefined) {
+        throw new Error(base?.error ?? 'The node has no numeric result to analyse');
+    }
+
+    const ancestors = getAncestorIds(targetId, edges);
+    const inputs = nodes.filter((node) =>
+        ancestors.has(node.id) && (node.data.type === 'source' || node.data.type === 'factor')
+    );
+
+    const entries: SensitivityEntry[] = [];
+    const skipped: string[] = [];
+
+    inputs.forEach((node) => {
+        const data = node.data as SourceNodeData | FactorNodeData;
+        let bounds: { lower: number; upper: number } | null;
+        if (mode.type === 'percent') {
+            const delta = Math.abs(data.value * mode.percent) / 100;
+            bounds = { lower: data.value - delta, upper: data.value + delta };
+        } else {
+            bounds = data.uncertainty ? toInterval(data.value, data.uncertainty) : null;
+        }
+
+        const lowResult = bounds ? numericResult(evaluateWith(node.id, bounds.lower)) : undefined;
+        const highResult = bounds ? numericResult(evaluateWith(node.id, bounds.upper)) : undefined;
+        if (!bounds || lowResult === undefined || highResult === undefined) {
+            skipped.push(labelOf(node));
+            return;
+        }
+
+        const inputChange = data.value === 0 ? 0 : (bounds.upper - bounds.lower) / data.value;
+        const elasticity = inputChange === 0 || baseValue === 0
+            ? null
+            : ((highResult - lowResult) / baseValue) / inputChange;
+
+        entries.push({
+            nodeId: node.id,
+            label: labelOf(node),
+            unit: data.unit,
+            inputValue: data.value,
+            lowInput: bounds.lower,
+            highInput: bounds.upper,
+            lowResult,
+            highResult,
+            swing: Math.abs(highResult - lowResult),
+            elasticity,
+        });
+    });
+
+    entries.sort((a, b) => b.swing - a.swing);
+
+    return { targetId, baseValue, unit: base?.resultUnit, entries, skipped };
+}
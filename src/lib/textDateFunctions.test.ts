@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateValue, TEXT_DATE_FUNCTIONS } from './textDateFunctions';
+
+const { TRIM, LEFT, RIGHT, MID, REPLACE, REGEXEXTRACT, SPLIT_PART, DATE, DATEDIFF, EOMONTH, DATEVALUE, YEAR } = TEXT_DATE_FUNCTIONS;
+
+describe('parseDateValue', () => {
+    const iso = (value: unknown) => parseDateValue(value)?.toISOString().slice(0, 10);
+
+    it('reads ISO, day-first and month-name dates', () => {
+        expect(iso('2023-01-15')).toBe('2023-01-15');
+        expect(iso('2023-01-15T10:30:00')).toBe('2023-01-15');
+        expect(iso('15/01/2023')).toBe('2023-01-15');
+        expect(iso('15-01-23')).toBe('2023-01-15');
+        expect(iso('15 Januari 2023')).toBe('2023-01-15');
+        expect(iso('17-Agu-2023')).toBe('2023-08-17');
+    });
+
+    it('reads numbers as Excel serial dates', () => {
+        expect(iso(44941)).toBe('2023-01-15');
+    });
+
+    it('rejects impossible dates and other text', () => {
+        expect(parseDateValue('31/02/2023')).toBeNull();
+        expect(parseDateValue('15 Foo 2023')).toBeNull();
+        expect(parseDateValue('abc')).toBeNull();
+        expect(parseDateValue(null)).toBeNull();
+    });
+});
+
+describe('text functions', () => {
+    it('trims, slices and replaces as in Excel', () => {
+        expect(TRIM('  PLTU   Suralaya ')).toBe('PLTU Suralaya');
+        expect(LEFT('ABC-12')).toBe('A');
+        expect(LEFT('ABC-12', 3)).toBe('ABC');
+        expect(RIGHT('ABC-12', 2)).toBe('12');
+        expect(RIGHT('ABC-12', 0)).toBe('');
+        expect(MID('ABC-12', 2, 3)).toBe('BC-');
+        expect(REPLACE('a-b-c', '-', '/')).toBe('a/b/c');
+        expect(SPLIT_PART('a;b;c', ';', 2)).toBe('b');
+        expect(SPLIT_PART('a;b', ';', 5)).toBe('');
+    });
+
+    it('extracts the first capture group or the whole match', () => {
+        expect(REGEXEXTRACT('Unit-42', '-(\\d+)$')).toBe('42');
+        expect(REGEXEXTRACT('Unit-42', '\\d+')).toBe('42');
+        expect(REGEXEXTRACT('Unit', '\\d+')).toBeNull();
+    });
+
+    it('rejects invalid counts and patterns', () => {
+        expect(() => LEFT('abc', 1.5)).toThrow('LEFT: count must be a whole number');
+        expect(() => MID('abc', 0, 1)).toThrow('MID: start must be 1 or more');
+        expect(() => REGEXEXTRACT('abc', '(')).toThrow('REGEXEXTRACT: invalid pattern');
+    });
+});
+
+describe('date functions', () => {
+    it('builds dates with Excel roll-over', () => {
+        expect(DATE(2023, 1, 15)).toBe('2023-01-15');
+        expect(DATE(2023, 13, 1)).toBe('2024-01-01');
+        expect(DATEVALUE('15/01/2023')).toBe('2023-01-15');
+        expect(YEAR('15 Januari 2023')).toBe(2023);
+    });
+
+    it('counts whole days, months and years between dates', () => {
+        expect(DATEDIFF('2023-01-15', '2023-03-01')).toBe(45);
+        expect(DATEDIFF('2023-01-15', '2023-03-14', 'M')).toBe(1);
+        expect(DATEDIFF('2023-03-14', '2023-01-15', 'M')).toBe(-1);
+        expect(DATEDIFF('2020-02-29', '2023-03-01', 'Y')).toBe(3);
+        expect(() => DATEDIFF('2023-01-01', '2023-02-01', 'W')).toThrow('unit must be');
+    });
+
+    it('finds the end of a month', () => {
+        expect(EOMONTH('2024-01-31', 1)).toBe('2024-02-29');
+        expect(EOMONTH('2023-12-15')).toBe('2023-12-31');
+    });
+
+    it('names the function and value when a cell is not a date', () => {
+        expect(() => YEAR('n/a')).toThrow('YEAR: "n/a" is not a date');
+    });
+});
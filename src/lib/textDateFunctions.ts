@@ -0,0 +1,174 @@
+/**
+ * Text & Date Functions
+ * String and calendar helpers for batch formulas, registered in the batch math instance.
+ * Dates are read from ISO strings, Indonesian/European day-first strings ("15/01/2023",
+ * "15 Januari 2023"), Date objects and Excel serial numbers, and are returned as "YYYY-MM-DD"
+ * strings, which sort and compare correctly as text.
+ */
+
+// ----- Date parsing -----
+
+const MONTHS: Record<string, number> = {
+    januari: 1, january: 1, jan: 1,
+    februari: 2, february: 2, feb: 2, peb: 2,
+    maret: 3, march: 3, mar: 3,
+    april: 4, apr: 4,
+    mei: 5, may: 5,
+    juni: 6, june: 6, jun: 6,
+    juli: 7, july: 7, jul: 7,
+    agustus: 8, august: 8, agu: 8, agt: 8, ags: 8, aug: 8,
+    september: 9, sep: 9, sept: 9,
+    oktober: 10, october: 10, okt: 10, oct: 10,
+    november: 11, nov: 11, nop: 11,
+    desember: 12, december: 12, des: 12, dec: 12,
+};
+
+// Excel's day 0 is 1899-12-30 (accounting for its 1900 leap-year bug)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86400000;
+
+function utcDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Reject overflow such as 31/02
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+}
+
+const fullYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+/**
+ * Read a cell as a calendar date (UTC midnight), or null when it is not one.
+ * Numeric values are Excel serial dates, so YEAR(2023) is not 2023 - use text dates or DATE().
+ */
+export function parseDateValue(value: unknown): Date | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : utcDate(value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate());
+    }
+    if (typeof value === 'number') {
+        if (!isFinite(value)) return null;
+        const date = new Date(EXCEL_EPOCH + Math.floor(value) * DAY_MS);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    if (typeof value !== 'string') return null;
+
+    const text = value.trim().toLowerCase();
+
+    // ISO: 2023-01-15, 2023/01/15, 2023-01-15T10:30:00
+    let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t\s].*)?$/);
+    if (match) return utcDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+    // Day first: 15/01/2023, 15-01-23, 15.01.2023 10:30
+    match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+    if (match) return utcDate(fullYear(Number(match[3])), Number(match[2]), Number(match[1]));
+
+    // Month names: 15 Januari 2023, 15-Agu-2023, 1 Oct 23
+    match = text.match(/^(\d{1,2})[\s-]+([a-z]+)\.?[\s-]+(\d{2}|\d{4})(?:\s.*)?$/);
+    if (match && match[2] in MONTHS) return utcDate(fullYear(Number(match[3])), MONTHS[match[2]], Number(match[1]));
+
+    return null;
+}
+
+/**
+ * A date as its "YYYY-MM-DD" text, the form date columns and date functions produce
+ */
+export const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+function requireDate(fn: string, value: unknown): Date {
+    const date = parseDateValue(value);
+    if (!date) throw new Error(`${fn}: "${String(value)}" is not a date`);
+    return date;
+}
+
+function requireInteger(fn: string, value: unknown, name: string): number {
+    const n = Number(value);
+    if (!Number.isInteger(n)) throw new Error(`${fn}: ${name} must be a whole number`);
+    return n;
+}
+
+// ----- Text -----
+
+const text = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+function compilePattern(fn: string, pattern: unknown): RegExp {
+    try {
+        return new RegExp(text(pattern));
+    } catch (err) {
+        throw new Error(`${fn}: invalid pattern /${text(pattern)}/ - ${(err as Error).message}`);
+    }
+}
+
+/**
+ * Implementations by name, ready for math.import
+ */
+export const TEXT_DATE_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+    // TRIM(text): strip leading/trailing spaces and collapse runs of spaces, as in Excel
+    TRIM: (value) => text(value).trim().replace(/\s+/g, ' '),
+    UPPER: (value) => text(value).toUpperCase(),
+    LOWER: (value) => text(value).toLowerCase(),
+    CONCAT: (...values) => values.map(text).join(''),
+    // LEFT(text, count = 1), RIGHT(text, count = 1)
+    LEFT: (value, count = 1) => text(value).slice(0, Math.max(0, requireInteger('LEFT', count, 'count'))),
+    RIGHT: (value, count = 1) => {
+        const n = Math.max(0, requireInteger('RIGHT', count, 'count'));
+        return n === 0 ? '' : text(value).slice(-n);
+    },
+    // MID(text, start, count): start is 1-based
+    MID: (value, start, count) => {
+        const from = requireInteger('MID', start, 'start');
+        if (from < 1) throw new Error('MID: start must be 1 or more');
+        return text(value).substr(from - 1, Math.max(0, requireInteger('MID', count, 'count')));
+    },
+    // REPLACE(text, find, replacement): every occurrence of `find`
+    REPLACE: (value, find, replacement) => {
+        const search = text(find);
+        return search === '' ? text(value) : text(value).split(search).join(text(replacement));
+    },
+    REGEXMATCH: (value, pattern) => compilePattern('REGEXMATCH', pattern).test(text(value)),
+    // REGEXEXTRACT(text, pattern): the first capture group if the pattern has one, else the whole match
+    REGEXEXTRACT: (value, pattern) => {
+        const match = text(value).match(compilePattern('REGEXEXTRACT', pattern));
+        if (!match) return null;
+        return match.length > 1 ? match[1] ?? null : match[0];
+    },
+    // SPLIT_PART(text, delimiter, index): 1-based part, "" when there are fewer parts
+    SPLIT_PART: (value, delimiter, index) => {
+        const n = requireInteger('SPLIT_PART', index, 'index');
+        if (n < 1) throw new Error('SPLIT_PART: index must be 1 or more');
+        return text(value).split(text(delimiter))[n - 1] ?? '';
+    },
+
+    // DATE(year, month, day); out-of-range months and days roll over, as in Excel
+    DATE: (year, month, day) => formatDate(new Date(Date.UTC(
+        requireInteger('DATE', year, 'year'),
+        requireInteger('DATE', month, 'month') - 1,
+        requireInteger('DATE', day, 'day'),
+    ))),
+    YEAR: (value) => requireDate('YEAR', value).getUTCFullYear(),
+    MONTH: (value) => requireDate('MONTH', value).getUTCMonth() + 1,
+    DAY: (value) => requireDate('DAY', value).getUTCDate(),
+    // DATEDIFF(start, end, unit = "D"): whole days, months ("M") or years ("Y") from start to end
+    DATEDIFF: (start, end, unit = 'D') => {
+        const from = requireDate('DATEDIFF', start);
+        const to = requireDate('DATEDIFF', end);
+        const kind = text(unit).toUpperCase();
+        if (kind === 'D') return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+        const sign = to < from ? -1 : 1;
+        const [early, late] = sign === 1 ? [from, to] : [to, from];
+        let months = (late.getUTCFullYear() - early.getUTCFullYear()) * 12 + late.getUTCMonth() - early.getUTCMonth();
+        if (late.getUTCDate() < early.getUTCDate()) months--;
+        if (kind === 'M') return sign * months;
+        if (kind === 'Y') return sign * Math.floor(months / 12);
+        throw new Error('DATEDIFF: unit must be "D", "M" or "Y"');
+    },
+    // EOMONTH(date, months = 0): last day of the month `months` after the date's month
+    EOMONTH: (value, months = 0) => {
+        const date = requireDate('EOMONTH', value);
+        const offset = requireInteger('EOMONTH', months, 'months');
+        return formatDate(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset + 1, 0)));
+    },
+    // DATEVALUE(text): normalise any supported date string to YYYY-MM-DD
+    DATEVALUE: (value) => formatDate(requireDate('DATEVALUE', value)),
+};
+
+export const TEXT_DATE_FUNCTION_NAMES = Object.keys(TEXT_DATE_FUNCTIONS);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { parseFormula } from './formulaParser';
+import type { FormulaNode, RefNode, AggregateNode } from './formulaParser';
+import { propagateUncertainty, relativeOf, toRelativeUncertainty, toInterval } from './uncertainty';
+import type { UncertainValue } from './uncertainty';
+
+describe('toRelativeUncertainty', () => {
+    it('reads percentages and uses the wider side of asymmetric bounds', () => {
+        expect(toRelativeUncertainty(100, { type: 'percent', percent: -5 })).toBe(5);
+        expect(toRelativeUncertainty(100, { type: 'absolute', lower: 90, upper: 130 })).toBe(30);
+        expect(toRelativeUncertainty(0, { type: 'absolute', lower: -1, upper: 1 })).toBeNull();
+    });
+});
+
+describe('toInterval', () => {
+    it('turns ±% into bounds around the value', () => {
+        expect(toInterval(-200, { type: 'percent', percent: 10 })).toEqual({ lower: -220, upper: -180 });
+        expect(toInterval(5, { type: 'absolute', lower: 4, upper: 7 })).toEqual({ lower: 4, upper: 7 });
+    });
+});
+
+describe('propagateUncertainty', () => {
+    // A = 100 ± 3, B = 50 ± 4, C = 10 exact
+    const inputs: Record<string, UncertainValue> = {
+        A: { value: 100, uncertainty: 3 },
+        B: { value: 50, uncertainty: 4 },
+        C: { value: 10, uncertainty: 0 },
+    };
+    const evaluateNode = (node: FormulaNode): number => {
+        switch (node.type) {
+            case 'number': return node.value;
+            case 'ref': return inputs[node.name].value;
+            case 'binary': {
+                const l = evaluateNode(node.left);
+                const r = evaluateNode(node.right);
+                if (node.op === '>') return Number(l > r);
+                if (node.op === '*') return l * r;
+                if (node.op === '+') return l + r;
+                throw new Error(`unsupported ${node.op}`);
+            }
+            case 'call': {
+                const args = node.args.map(evaluateNode);
+                if (node.name === 'max') return Math.max(...args);
+                if (node.name === 'round') return Math.round(args[0]);
+                throw new Error(`unsupported ${node.name}`);
+            }
+            default: throw new Error(`unsupported ${node.type}`);
+        }
+    };
+    const propagate = (formula: string) => propagateUncertainty(
+        parseFormula(formula),
+        (node: RefNode | AggregateNode) => node.type === 'ref' ? inputs[node.name] : undefined,
+        evaluateNode
+    );
+
+    it('combines absolute uncertainties of sums in quadrature (Eq. 3.2)', () => {
+        expect(propagate('[A] + [B]')).toEqual({ value: 150, uncertainty: 5 });
+        expect(propagate('[A] - [B]')!.uncertainty).toBe(5);
+    });
+
+    it('combines relative uncertainties of products in quadrature (Eq. 3.1)', () => {
+        // 3% and 8% → √(9 + 64) ≈ 8.544%
+        expect(relativeOf(propagate('[A] * [B]')!)).toBeCloseTo(Math.sqrt(73));
+        expect(relativeOf(propagate('[A] / [B]')!)).toBeCloseTo(Math.sqrt(73));
+        // Exact factors keep the relative uncertainty
+        expect(relativeOf(propagate('[A] * [C] * 2')!)).toBeCloseTo(3);
+    });
+
+    it('scales relative uncertainty by constant powers and halves it under a square root', () => {
+        expect(relativeOf(propagate('[A] ^ 2')!)).toBeCloseTo(6);
+        expect(relativeOf(propagate('sqrt([A])')!)).toBeCloseTo(1.5);
+    });
+
+    it('follows the branch taken and the selected argument', () => {
+        expect(propagate('[A] > [B] ? [A] : [B]')).toEqual(inputs.A);
+        expect(propagate('max([A], [B])')).toEqual(inputs.A);
+        expect(propagate('round([B])')).toEqual({ value: 50, uncertainty: 4 });
+    });
+
+    it('gives up on operations the propagation equations do not cover', () => {
+        expect(propagate('exp([A])')).toBeNull();
+        expect(propagate('[C] ^ [A]')).toBeNull();
+    });
+});
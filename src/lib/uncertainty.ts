@@ -0,0 +1,169 @@
+/**
+ * Uncertainty Propagation (IPCC 2006 Guidelines, Vol. 1 Ch. 3, Approach 1)
+ * Uncertainties are half-widths of the 95% confidence interval.
+ * Products and quotients combine relative uncertainties in quadrature (Eq. 3.1);
+ * sums and differences combine absolute uncertainties in quadrature (Eq. 3.2).
+ */
+
+import type { NodeData, Uncertainty } from '../types';
+import type { FormulaNode, RefNode, AggregateNode } from './formulaParser';
+
+export interface UncertainValue {
+    value: number;
+    // Absolute half-width of the 95% confidence interval, in the value's unit
+    uncertainty: number;
+}
+
+/**
+ * Relative uncertainty (±% of the value) of a Source/Factor entry.
+ * Asymmetric ranges use the larger side, as the Guidelines suggest for a conservative estimate.
+ */
+export function toRelativeUncertainty(value: number, uncertainty: Uncertainty): number | null {
+    if (uncertainty.type === 'percent') {
+        return Number.isFinite(uncertainty.percent) ? Math.abs(uncertainty.percent) : null;
+    }
+    if (value === 0 || !Number.isFinite(uncertainty.lower) || !Number.isFinite(uncertainty.upper)) return null;
+    const halfWidth = Math.max(Math.abs(value - uncertainty.lower), Math.abs(uncertainty.upper - value));
+    return (halfWidth / Math.abs(value)) * 100;
+}
+
+/**
+ * 95% interval of a Source/Factor entry: the stated bounds, or value ± percent
+ */
+export function toInterval(value: number, uncertainty: Uncertainty): { lower: number; upper: number } | null {
+    if (uncertainty.type === 'absolute') {
+        if (!Number.isFinite(uncertainty.lower) || !Number.isFinite(uncertainty.upper)) return null;
+        return { lower: uncertainty.lower, upper: uncertainty.upper };
+    }
+    if (!Number.isFinite(uncertainty.percent)) return null;
+    const halfWidth = Math.abs(value * uncertainty.percent) / 100;
+    return { lower: value - halfWidth, upper: value + halfWidth };
+}
+
+// ±% of a propagated value
+export function relativeOf(result: UncertainValue): number {
+    if (result.uncertainty === 0) return 0;
+    return result.value === 0 ? Infinity : (result.uncertainty / Math.abs(result.value)) * 100;
+}
+
+// Uncertainty is preserved (absolute) by these
+const PASS_THROUGH_FUNCTIONS = new Set(['abs', 'round', 'ceil', 'floor', 'fix', 'trunc']);
+
+/**
+ * Propagate input uncertainties through an expression tree.
+ * `resolve` gives value and uncertainty for references/aggregates; `evaluate` computes
+ * sub-expressions that carry no uncertainty. Returns null when an uncertain input flows
+ * through an operation the error-propagation equations do not cover (e.g. exp, lookups).
+ */
+export function propagateUncertainty(
+    tree: FormulaNode,
+    resolve: (node: RefNode | AggregateNode) => UncertainValue | undefined,
+    evaluate: (node: FormulaNode) => number
+): UncertainValue | null {
+    const exact = (node: FormulaNode): UncertainValue => ({ value: evaluate(node), uncertainty: 0 });
+
+    // Absolute combination for sums
+    const sum = (value: number, items: UncertainValue[]): UncertainValue => ({
+        value,
+        uncertainty: Math.sqrt(items.reduce((acc, item) => acc + item.uncertainty ** 2, 0)),
+    });
+
+    // Relative combination for products
+    const product = (value: number, items: UncertainValue[]): UncertainValue => {
+        const relative = Math.sqrt(items.reduce((acc, item) => {
+            if (item.uncertainty === 0) return acc;
+            return acc + (item.value === 0 ? Infinity : (item.uncertainty / item.value) ** 2);
+        }, 0));
+        return { value, uncertainty: relative === 0 ? 0 : Math.abs(value) * relative };
+    };
+
+    function visit(node: FormulaNode): UncertainValue | null {
+        switch (node.type) {
+            case 'number':
+                return { value: node.value, uncertainty: 0 };
+            case 'string':
+            case 'boolean':
+            case 'null':
+                return exact(node);
+            case 'ref':
+            case 'aggregate':
+                return resolve(node) ?? exact(node);
+            case 'window':
+                return exact(node);
+            case 'unary': {
+                if (node.op === 'not') return exact(node);
+                const operand = visit(node.operand);
+                if (!operand) return null;
+                return { value: node.op === '-' ? -operand.value : operand.value, uncertainty: operand.uncertainty };
+            }
+            case 'conditional': {
+                // Only the branch that is taken contributes
+                return visit(evaluate(node.condition) ? node.whenTrue : node.whenFalse);
+            }
+            case 'binary': {
+                const left = visit(node.left);
+                const right = visit(node.right);
+                if (!left || !right) return null;
+
+                switch (node.op) {
+                    case '+':
+                        return sum(left.value + right.value, [left, right]);
+                    case '-':
+                        return sum(left.value - right.value, [left, right]);
+                    case '*':
+                        return product(left.value * right.value, [left, right]);
+                    case '/':
+                        return product(left.value / right.value, [left, right]);
+                    case '^': {
+                        if (right.uncertainty !== 0) return null;
+                        const value = Math.pow(left.value, right.value);
+                        const relative = left.value === 0 ? 0 : Math.abs(right.value) * left.uncertainty / Math.abs(left.value);
+                        return { value, uncertainty: Math.abs(value) * relative };
+                    }
+                    default:
+                        // Comparisons and logic yield exact results; % has no propagation rule
+                        if (node.op === '%' && (left.uncertainty !== 0 || right.uncertainty !== 0)) return null;
+                        return exact(node);
+                }
+            }
+            case 'call': {
+                const args = node.args.map(visit);
+                if (args.some((arg) => !arg)) return null;
+                const values = args as UncertainValue[];
+                if (values.every((arg) => arg.uncertainty === 0)) return exact(node);
+
+                if (PASS_THROUGH_FUNCTIONS.has(node.name) && values.length >= 1) {
+                    return { value: evaluate(node), uncertainty: values[0].uncertainty };
+                }
+                if (node.name === 'sqrt' && values.length === 1) {
+                    // Half the relative uncertainty of the radicand
+                    const value = Math.sqrt(values[0].value);
+                    const relative = values[0].value === 0 ? 0 : values[0].uncertainty / Math.abs(values[0].value) / 2;
+                    return { value, uncertainty: value * relative };
+                }
+                if (node.name === 'sum') {
+                    return sum(evaluate(node), values);
+                }
+                if ((node.name === 'min' || node.name === 'max') && values.length > 0) {
+                    // The selected argument carries its own uncertainty
+                    const value = evaluate(node);
+                    return values.find((arg) => arg.value === value) ?? null;
+                }
+                return null;
+            }
+        }
+    }
+
+    return visit(tree);
+}
+
+/**
+ * ±% (95% CI) of a scalar node for reports: stated for Source/Factor, propagated for Process
+ */
+export function getNodeUncertainty(data: NodeData): number | undefined {
+    if (data.type === 'source' || data.type === 'factor') {
+        return data.uncertainty ? toRelativeUncertainty(data.value, data.uncertainty) ?? undefined : undefined;
+    }
+    if (data.type === 'process') return data.combinedUncertainty;
+    return undefined;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { parseFormula, formatFormula } from './formulaParser';
+import {
+    parseUnit,
+    simplifyUnit,
+    multiplyUnits,
+    divideUnits,
+    powerUnit,
+    formatUnit,
+    getUnitConversionFactor,
+    toCO2eUnit,
+    inferFormulaUnits,
+} from './unitAlgebra';
+
+describe('unit algebra', () => {
+    it('parses slashes and negative powers', () => {
+        expect(parseUnit('kg·m/s^2')).toEqual({ numerator: ['kg', 'm'], denominator: ['s', 's'] });
+        expect(parseUnit('t/TJ/yr')).toEqual({ numerator: ['t'], denominator: ['TJ', 'yr'] });
+        expect(parseUnit('kg ha-1')).toEqual({ numerator: ['kg'], denominator: ['ha'] });
+        expect(parseUnit('unitless')).toEqual({ numerator: [], denominator: [] });
+    });
+
+    it('cancels compatible units with their conversion factor', () => {
+        const { unit, factor } = multiplyUnits(parseUnit('TJ'), parseUnit('g/GJ'));
+        expect(formatUnit(unit)).toBe('g');
+        expect(factor).toBe(1000);
+        expect(simplifyUnit(parseUnit('m³/m')).unit).toEqual({ numerator: ['m', 'm'], denominator: [] });
+        expect(formatUnit(divideUnits(parseUnit('kg'), parseUnit('kg')).unit)).toBe('unitless');
+    });
+
+    it('raises units to integer powers and roots', () => {
+        expect(formatUnit(powerUnit(parseUnit('m'), 2)!)).toBe('m²');
+        expect(formatUnit(powerUnit(parseUnit('m2'), 0.5)!)).toBe('m');
+        expect(powerUnit(parseUnit('m'), 0.5)).toBeNull();
+    });
+
+    it('converts between compound units of the same dimension', () => {
+        expect(getUnitConversionFactor(parseUnit('kg/m3'), parseUnit('g/L'))).toBeCloseTo(1);
+        expect(getUnitConversionFactor(parseUnit('t'), parseUnit('kg'))).toBe(1000);
+        expect(getUnitConversionFactor(parseUnit('kg'), parseUnit('m'))).toBeNull();
+    });
+});
+
+describe('toCO2eUnit', () => {
+    it('swaps the gas label for CO2e or appends it', () => {
+        expect(formatUnit(toCO2eUnit(parseUnit('t CH4'), 'CH4'))).toBe('t·CO2e');
+        expect(formatUnit(toCO2eUnit(parseUnit('kg.N2O/TJ'), 'N2O'))).toBe('kg.CO2e/TJ');
+        expect(formatUnit(toCO2eUnit(parseUnit('t'), 'CH4'))).toBe('t·CO2e');
+    });
+});
+
+describe('inferFormulaUnits', () => {
+    const units: Record<string, string> = { Fuel: 'TJ', EF: 'g/GJ', A: 't', B: 'kg', L: 'm' };
+    const infer = (formula: string) => inferFormulaUnits(parseFormula(formula), (node) => {
+        const name = node.type === 'ref' ? node.name : node.column;
+        return name in units ? parseUnit(units[name]) : undefined;
+    });
+
+    it('multiplies units and folds conversion factors into the expression', () => {
+        const result = infer('[Fuel] * [EF]');
+        expect(formatUnit(result.unit)).toBe('g');
+        expect(formatFormula(result.expression)).toBe('[Fuel] * [EF] * 1000');
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('converts compatible operands of a sum to the first unit', () => {
+        const result = infer('[A] + [B]');
+        expect(formatUnit(result.unit)).toBe('t');
+        expect(formatFormula(result.expression)).toBe('[A] + [B] * 0.001');
+    });
+
+    it('warns about mismatched units and non-constant exponents', () => {
+        expect(infer('[A] + [L]').warnings).toEqual(['Unit mismatch in "[A] + [L]": t vs m']);
+        expect(infer('[L] ^ [A]').warnings).toHaveLength(2);
+    });
+
+    it('gives unit literals a fixed unit and drops it from the expression', () => {
+        const result = infer('[A] * 1000 kg/t');
+        expect(formatUnit(result.unit)).toBe('kg');
+        expect(formatFormula(result.expression)).toBe('[A] * 1000');
+    });
+
+    it('warns about unit literals with unknown unit words', () => {
+        expect(infer('[A] * 1000 kgg/t').warnings).toEqual(['Unknown unit "kgg" in "1000 kgg/t"']);
+        expect(infer('[A] * 44/12 CO2/C').warnings).toEqual([]);
+        expect(infer('[A] * 5 kg CO2e/m^2').warnings).toEqual([]);
+    });
+
+    it('lets plain numbers and constants adopt the unit they are combined with', () => {
+        const result = infer('2 * pi * [L] + 1');
+        expect(formatUnit(result.unit)).toBe('m');
+        expect(result.warnings).toEqual([]);
+    });
+});
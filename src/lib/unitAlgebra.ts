@@ -1,107 +1,209 @@
 /**
  * Unit Algebra Engine
- * Handles parsing, multiplication, division, cancellation, and formatting of units
+ * Handles parsing, multiplication, division, cancellation, conversion and formatting of units,
+ * and infers the unit of a formula from its expression tree
  */
 
+import { formatFormula } from './formulaParser';
+import type { FormulaNode, RefNode, AggregateNode, WindowNode, NumberNode } from './formulaParser';
+import { getConversionFactor, resolveUnit } from './unitConversion';
+import { TEXT_DATE_FUNCTION_NAMES } from './textDateFunctions';
+import { getGwp } from '../data/gwpValues';
+import type { ProcessGwp } from '../types';
+
 export interface UnitExpression {
     numerator: string[];   // ['kg', 'm', 'm'] for kg·m²
     denominator: string[]; // ['s', 's'] for /s²
 }
 
-// Parse unit string like "kg·m²/s²" or "kg/m³" into expression
-export function parseUnit(unit: string): UnitExpression {
-    if (!unit || unit.trim() === '' || unit.toLowerCase() === 'unitless') {
-        return { numerator: [], denominator: [] };
-    }
+// Unit plus the factor a value must be multiplied by once compatible units were converted
+export interface ScaledUnit {
+    unit: UnitExpression;
+    factor: number;
+}
 
-    const result: UnitExpression = { numerator: [], denominator: [] };
+const emptyUnit = (): UnitExpression => ({ numerator: [], denominator: [] });
 
-    // Split by "/" to get numerator and denominator parts
-    const parts = unit.split('/');
-    const numPart = parts[0] || '';
-    const denomPart = parts[1] || '';
+const SUPERSCRIPT_DIGITS: Record<string, number> = {
+    '¹': 1, '²': 2, '³': 3, '⁴': 4, '⁵': 5, '⁶': 6, '⁷': 7, '⁸': 8, '⁹': 9,
+};
 
-    // Parse numerator
-    if (numPart.trim()) {
-        result.numerator = parseUnitPart(numPart);
+// Parse unit string like "kg·m²/s²", "kg/m3", "t/TJ" or "kg ha-1" into expression
+export function parseUnit(unit: string): UnitExpression {
+    if (!unit || unit.trim() === '' || unit.trim().toLowerCase() === 'unitless') {
+        return emptyUnit();
     }
 
-    // Parse denominator
-    if (denomPart.trim()) {
-        result.denominator = parseUnitPart(denomPart);
-    }
+    const result = emptyUnit();
+
+    // Everything after the first "/" is denominator: a/b/c = a/(b·c)
+    unit.split('/').forEach((part, index) => {
+        const parsed = parseUnitPart(part);
+        if (index === 0) {
+            result.numerator.push(...parsed.numerator);
+            result.denominator.push(...parsed.denominator);
+        } else {
+            result.numerator.push(...parsed.denominator);
+            result.denominator.push(...parsed.numerator);
+        }
+    });
 
     return result;
 }
 
-// Parse a single part like "kg·m²" into ['kg', 'm', 'm']
-function parseUnitPart(part: string): string[] {
-    const units: string[] = [];
+// Parse a single part like "kg·m^2" into ['kg', 'm^2']; negative powers go to the denominator
+function parseUnitPart(part: string): UnitExpression {
+    const result = emptyUnit();
 
     // Split by multiplication signs (·, *, or space when between units)
-    const tokens = part.split(/[·*\s]+/).filter(t => t.trim());
+    const tokens = part.split(/[·*\s]+/).filter(t => t && t !== '1');
 
     for (const token of tokens) {
-        // Check for exponent: m², m³, m^2, m^3
-        const expMatch = token.match(/^([a-zA-Z%°]+)([²³⁴⁵]|\^(\d+))?$/);
-
-        if (expMatch) {
-            const baseUnit = expMatch[1];
-            let exponent = 1;
-
-            if (expMatch[2]) {
-                if (expMatch[2] === '²') exponent = 2;
-                else if (expMatch[2] === '³') exponent = 3;
-                else if (expMatch[2] === '⁴') exponent = 4;
-                else if (expMatch[2] === '⁵') exponent = 5;
-                else if (expMatch[3]) exponent = parseInt(expMatch[3], 10);
-            }
+        const { base, exponent } = parsePower(token);
+        const target = exponent < 0 ? result.denominator : result.numerator;
+        for (let i = 0; i < Math.abs(exponent); i++) {
+            target.push(base);
+        }
+    }
+
+    return result;
+}
 
-            // Add unit multiple times for exponent
-            for (let i = 0; i < exponent; i++) {
-                units.push(baseUnit);
+// Substance labels that qualify a unit literal without being units themselves: C, CO2, CH4, N2O, CO2e
+const SUBSTANCE_LABEL = /^(?:[A-Z][a-z]?\d*)+e?$/;
+
+// Split a token into base unit and exponent: "s^-2" → s, -2; "kg2" → kg, 2; "CO2" stays whole
+function parsePower(token: string): { base: string; exponent: number } {
+    // Registered units keep their own power (m3 is a volume, km² an area)
+    if (resolveUnit(token)) return { base: token, exponent: 1 };
+
+    const caret = token.match(/^(.+?)\^(-?\d+)$/);
+    if (caret) return { base: caret[1], exponent: parseInt(caret[2], 10) };
+
+    const superscript = token.match(/^(.+?)(⁻?)([¹²³⁴⁵⁶⁷⁸⁹])$/);
+    if (superscript) {
+        return { base: superscript[1], exponent: (superscript[2] ? -1 : 1) * SUPERSCRIPT_DIGITS[superscript[3]] };
+    }
+
+    // Negative powers written with a dash, as in EMEP tables: "ha-1", "a–1"
+    const dashed = token.match(/^([A-Za-zµ%°]+)[-–](\d+)$/);
+    if (dashed) return { base: dashed[1], exponent: -parseInt(dashed[2], 10) };
+
+    // Digit suffix is a power only for known units, so molecules like CO2 or CH4 stay intact
+    const suffixed = token.match(/^([A-Za-zµ]+)(\d+)$/);
+    if (suffixed && resolveUnit(suffixed[1])) {
+        return { base: suffixed[1], exponent: parseInt(suffixed[2], 10) };
+    }
+
+    return { base: token, exponent: 1 };
+}
+
+// Expand power tokens into their base distance: "m²" → ['m', 'm']
+function expandPowers(units: string[]): string[] {
+    return units.flatMap((unit) => {
+        const power = resolveUnit(unit)?.power;
+        return power ? Array<string>(power.exponent).fill(power.base) : [unit];
+    });
+}
+
+// Cancel pairs in place (identical names first, then same dimension) and return the conversion factor
+function cancelPairs(numerator: string[], denominator: string[]): number {
+    let factor = 1;
+
+    for (let i = numerator.length - 1; i >= 0; i--) {
+        const idx = denominator.indexOf(numerator[i]);
+        if (idx !== -1) {
+            numerator.splice(i, 1);
+            denominator.splice(idx, 1);
+        }
+    }
+
+    for (let i = numerator.length - 1; i >= 0; i--) {
+        for (let j = 0; j < denominator.length; j++) {
+            const conversion = getConversionFactor(numerator[i], denominator[j]);
+            if (conversion !== null) {
+                factor *= conversion;
+                numerator.splice(i, 1);
+                denominator.splice(j, 1);
+                break;
             }
-        } else if (token.trim()) {
-            units.push(token.trim());
         }
     }
 
-    return units;
+    return factor;
+}
+
+/**
+ * Cancel units between numerator and denominator.
+ * TJ over GJ cancels with factor 1000, so 100 TJ × 5 g/GJ becomes 500,000 g.
+ */
+export function simplifyUnit(expr: UnitExpression): ScaledUnit {
+    let numerator = [...expr.numerator];
+    let denominator = [...expr.denominator];
+    let factor = cancelPairs(numerator, denominator);
+
+    // Powers written as one token (m², km3) can still cancel against plain distances
+    const hasPower = (units: string[]) => units.some((u) => resolveUnit(u)?.power);
+    const hasDistance = (units: string[]) => units.some((u) => resolveUnit(u)?.dimension === 'distance');
+    if ((hasPower(numerator) && (hasDistance(denominator) || hasPower(denominator)))
+        || (hasPower(denominator) && hasDistance(numerator))) {
+        numerator = expandPowers(numerator);
+        denominator = expandPowers(denominator);
+        factor *= cancelPairs(numerator, denominator);
+    }
+
+    return { unit: { numerator, denominator }, factor };
 }
 
 // Multiply two unit expressions
-export function multiplyUnits(a: UnitExpression, b: UnitExpression): UnitExpression {
-    const result: UnitExpression = {
+export function multiplyUnits(a: UnitExpression, b: UnitExpression): ScaledUnit {
+    return simplifyUnit({
         numerator: [...a.numerator, ...b.numerator],
         denominator: [...a.denominator, ...b.denominator]
-    };
-    return simplifyUnit(result);
+    });
 }
 
 // Divide two unit expressions (a / b)
-export function divideUnits(a: UnitExpression, b: UnitExpression): UnitExpression {
-    const result: UnitExpression = {
+export function divideUnits(a: UnitExpression, b: UnitExpression): ScaledUnit {
+    return simplifyUnit({
         numerator: [...a.numerator, ...b.denominator],
         denominator: [...a.denominator, ...b.numerator]
-    };
-    return simplifyUnit(result);
+    });
 }
 
-// Cancel matching units between numerator and denominator
-export function simplifyUnit(expr: UnitExpression): UnitExpression {
-    const num = [...expr.numerator];
-    const denom = [...expr.denominator];
+/**
+ * Raise a unit to a power. Integer powers repeat units; roots (0.5, 1/3) need
+ * every unit to appear a multiple of the root's degree. Returns null otherwise.
+ */
+export function powerUnit(expr: UnitExpression, exponent: number): UnitExpression | null {
+    if (exponent === 0) return emptyUnit();
 
-    // Cancel matching units
-    for (let i = num.length - 1; i >= 0; i--) {
-        const idx = denom.indexOf(num[i]);
-        if (idx !== -1) {
-            num.splice(i, 1);
-            denom.splice(idx, 1);
-        }
+    const repeat = (units: string[], times: number) => units.flatMap((u) => Array<string>(times).fill(u));
+    const invert = (u: UnitExpression): UnitExpression => ({ numerator: u.denominator, denominator: u.numerator });
+
+    if (Number.isInteger(exponent)) {
+        const powered = { numerator: repeat(expr.numerator, Math.abs(exponent)), denominator: repeat(expr.denominator, Math.abs(exponent)) };
+        return exponent < 0 ? invert(powered) : powered;
     }
 
-    return { numerator: num, denominator: denom };
+    const degree = Math.round(1 / Math.abs(exponent));
+    if (Math.abs(1 / degree - Math.abs(exponent)) > 1e-9) return null;
+
+    const root = (units: string[]): string[] | null => {
+        const counts = new Map<string, number>();
+        expandPowers(units).forEach((u) => counts.set(u, (counts.get(u) || 0) + 1));
+        const rooted: string[] = [];
+        for (const [unit, count] of counts) {
+            if (count % degree !== 0) return null;
+            rooted.push(...Array<string>(count / degree).fill(unit));
+        }
+        return rooted;
+    };
+
+    const numerator = root(expr.numerator);
+    const denominator = root(expr.denominator);
+    if (!numerator || !denominator) return null;
+    return exponent < 0 ? invert({ numerator, denominator }) : { numerator, denominator };
 }
 
 // Format unit expression back to string
@@ -138,200 +240,349 @@ export function formatUnit(expr: UnitExpression): string {
     return `${numStr}/${denomStr}`;
 }
 
-// Check if two units are compatible for addition/subtraction
-export function unitsAreCompatible(a: UnitExpression, b: UnitExpression): boolean {
-    const aFormatted = formatUnit(simplifyUnit(a));
-    const bFormatted = formatUnit(simplifyUnit(b));
-    return aFormatted === bFormatted;
+export function isUnitless(expr: UnitExpression): boolean {
+    return expr.numerator.length === 0 && expr.denominator.length === 0;
 }
 
-// Derive unit from a formula given column units and scalar inputs
-export function deriveUnitFromFormula(
-    formula: string,
-    columnUnits: Record<string, string>,
-    scalarInputs: Record<string, { value: number; unit: string }>
-): { unit: string; warning?: string } {
-    // Phase 9: Extract aggregate references like $SUM_[CO2]
-    const aggregateRefs = formula.match(/\$[A-Z]+_\[([^\]]+)\]/g) || [];
-    const regularRefs = formula.match(/(?<!\$[A-Z]{2,}_)\[([^\]]+)\]/g) || [];
-
-    const columnRefs = [...aggregateRefs, ...regularRefs];
-
-    if (columnRefs.length === 0) {
-        return { unit: 'unitless' };
+// Pair every unit in `from` with a distinct unit in `to`, multiplying conversion factors
+function matchUnitLists(from: string[], to: string[]): number | null {
+    if (from.length !== to.length) return null;
+
+    const remaining = [...to];
+    // Exact names first so "kg·t" → "t·kg" does not convert twice
+    const pending = from.filter((unit) => {
+        const idx = remaining.indexOf(unit);
+        if (idx === -1) return true;
+        remaining.splice(idx, 1);
+        return false;
+    });
+
+    let factor = 1;
+    for (const unit of pending) {
+        const idx = remaining.findIndex((candidate) => getConversionFactor(unit, candidate) !== null);
+        if (idx === -1) return null;
+        factor *= getConversionFactor(unit, remaining[idx])!;
+        remaining.splice(idx, 1);
     }
 
-    // Build unit map for all referenced columns/scalars/aggregates
-    const refUnits: Record<string, UnitExpression> = {};
+    return factor;
+}
 
-    for (const ref of columnRefs) {
-        let name: string;
+/**
+ * Factor that converts a value in `from` into `to` (kg/m3 → g/L gives 1).
+ * Returns null when the dimensions differ.
+ */
+export function getUnitConversionFactor(from: UnitExpression, to: UnitExpression): number | null {
+    const match = (a: UnitExpression, b: UnitExpression): number | null => {
+        const num = matchUnitLists(a.numerator, b.numerator);
+        const den = matchUnitLists(a.denominator, b.denominator);
+        return num === null || den === null ? null : num / den;
+    };
 
-        // Check if it's an aggregate like $SUM_[CO2]
-        const aggMatch = ref.match(/\$[A-Z]+_\[([^\]]+)\]/);
-        if (aggMatch) {
-            name = aggMatch[1]; // Extract column name from aggregate
-            // Aggregates inherit the unit of their column
-            if (columnUnits[name]) {
-                refUnits[ref] = parseUnit(columnUnits[name]);
-            } else {
-                refUnits[ref] = { numerator: [], denominator: [] };
-            }
-        } else {
-            name = ref.slice(1, -1); // Remove [ ]
-            if (columnUnits[name]) {
-                refUnits[name] = parseUnit(columnUnits[name]);
-            } else if (scalarInputs[name]) {
-                refUnits[name] = parseUnit(scalarInputs[name].unit);
-            } else {
-                refUnits[name] = { numerator: [], denominator: [] };
-            }
-        }
-    }
+    const a = simplifyUnit(from);
+    const b = simplifyUnit(to);
+    const direct = match(a.unit, b.unit);
+    if (direct !== null) return direct * a.factor / b.factor;
+
+    const expand = (u: UnitExpression): UnitExpression => ({
+        numerator: expandPowers(u.numerator),
+        denominator: expandPowers(u.denominator),
+    });
+    const expanded = match(expand(a.unit), expand(b.unit));
+    return expanded === null ? null : expanded * a.factor / b.factor;
+}
 
-    // Simple formula analysis (for common patterns)
-    // This is a simplified version - full AST parsing would be more robust
+// Check if two units are compatible for addition/subtraction
+export function unitsAreCompatible(a: UnitExpression, b: UnitExpression): boolean {
+    return getUnitConversionFactor(a, b) !== null;
+}
 
-    // Pattern: standalone aggregate like $AVG_[col] (no other operators)
-    const standaloneAggPattern = /^\s*\$[A-Z]+_\[([^\]]+)\]\s*$/;
-    const standaloneAggMatch = formula.match(standaloneAggPattern);
-    if (standaloneAggMatch) {
-        const colName = standaloneAggMatch[1];
-        if (columnUnits[colName]) {
-            return { unit: columnUnits[colName] };
+/**
+ * Swap a gas label for CO2e after a GWP conversion: "t CH4" → "t·CO2e", "kg.N2O/TJ" → "kg.CO2e/TJ".
+ * Units without the gas label get CO2e appended: "t" → "t·CO2e".
+ */
+export function toCO2eUnit(expr: UnitExpression, gas: string): UnitExpression {
+    let relabeled = false;
+    const relabel = (unit: string): string => {
+        if (unit.toLowerCase() === gas.toLowerCase()) {
+            relabeled = true;
+            return 'CO2e';
         }
-        return { unit: 'unitless' };
-    }
-
-    // Pattern: [A] * [B] or [A] / [B]
-    const simplePattern = /^\s*\[([^\]]+)\]\s*([*\/])\s*\[([^\]]+)\]\s*$/;
-    const match = formula.match(simplePattern);
+        const dot = unit.lastIndexOf('.');
+        if (dot > 0 && unit.slice(dot + 1).toLowerCase() === gas.toLowerCase()) {
+            relabeled = true;
+            return `${unit.slice(0, dot)}.CO2e`;
+        }
+        return unit;
+    };
+    const numerator = expr.numerator.map(relabel);
+    return { numerator: relabeled ? numerator : [...numerator, 'CO2e'], denominator: [...expr.denominator] };
+}
 
-    if (match) {
-        const [, leftName, op, rightName] = match;
-        const leftUnit = refUnits[leftName] || { numerator: [], denominator: [] };
-        const rightUnit = refUnits[rightName] || { numerator: [], denominator: [] };
+/**
+ * Convert a Process result to CO2e with the node's GWP (report/horizon default to the project setting)
+ */
+export function applyProcessGwp(value: number, unit: UnitExpression, gwp: ProcessGwp): { value: number; unit: UnitExpression } {
+    const factor = getGwp(gwp.gas, gwp.report, gwp.horizon);
+    if (factor === null) throw new Error(`No GWP for gas "${gwp.gas}"`);
+    return { value: value * factor, unit: toCO2eUnit(unit, gwp.gas) };
+}
 
-        if (op === '*') {
-            return { unit: formatUnit(multiplyUnits(leftUnit, rightUnit)) };
-        } else {
-            return { unit: formatUnit(divideUnits(leftUnit, rightUnit)) };
-        }
-    }
+// ----- Formula Unit Inference -----
 
-    // Pattern: [A] + [B] or [A] - [B]
-    const addPattern = /^\s*\[([^\]]+)\]\s*([+\-])\s*\[([^\]]+)\]\s*$/;
-    const addMatch = formula.match(addPattern);
+export interface UnitInference {
+    unit: UnitExpression;
+    // Same tree with conversion factors applied, ready for numeric evaluation
+    expression: FormulaNode;
+    warnings: string[];
+}
 
-    if (addMatch) {
-        const [, leftName, , rightName] = addMatch;
-        const leftUnit = refUnits[leftName] || { numerator: [], denominator: [] };
-        const rightUnit = refUnits[rightName] || { numerator: [], denominator: [] };
+export type UnitResolver = (node: RefNode | AggregateNode | WindowNode) => UnitExpression | undefined;
 
-        if (!unitsAreCompatible(leftUnit, rightUnit)) {
-            return {
-                unit: formatUnit(leftUnit),
-                warning: `Unit mismatch: ${formatUnit(leftUnit)} vs ${formatUnit(rightUnit)}`
-            };
-        }
-        return { unit: formatUnit(leftUnit) };
-    }
+interface InferredNode {
+    unit: UnitExpression;
+    expression: FormulaNode;
+    // Plain numbers, strings and booleans adopt the unit they are combined with
+    flexible: boolean;
+}
 
-    // Pattern: number * [A] or [A] * number  
-    const scalarMultPattern = /^\s*(\d+\.?\d*)\s*\*\s*\[([^\]]+)\]\s*$|^\s*\[([^\]]+)\]\s*\*\s*(\d+\.?\d*)\s*$/;
-    const scalarMatch = formula.match(scalarMultPattern);
+// Result carries the unit of the first argument: round([CO2], 2) → unit of [CO2]
+const FIRST_ARGUMENT_FUNCTIONS = new Set(['abs', 'round', 'ceil', 'floor', 'fix', 'trunc']);
+// All arguments are converted to one unit: max([A_kg], [B_t]) → kg
+const ALIGNED_FUNCTIONS = new Set(['min', 'max', 'sum', 'mean', 'median']);
+// Arguments must be unitless
+const UNITLESS_FUNCTIONS = new Set(['exp', 'log', 'log2', 'log10', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan']);
+// Lookups return a value from their result column (third argument)
+const LOOKUP_FUNCTIONS = new Set(['XLOOKUP', 'CEILINGLOOKUP', 'FLOORLOOKUP']);
+const ROOT_FUNCTIONS: Record<string, number> = { sqrt: 0.5, cbrt: 1 / 3 };
+
+// Multiply a subtree by a conversion factor, folding it into literals where possible
+function scaleExpression(expression: FormulaNode, factor: number): FormulaNode {
+    if (factor === 1) return expression;
+    if (expression.type === 'number') return { type: 'number', value: expression.value * factor };
+    return { type: 'binary', op: '*', left: expression, right: { type: 'number', value: factor } };
+}
 
-    if (scalarMatch) {
-        const refName = scalarMatch[2] || scalarMatch[3];
-        const refUnit = refUnits[refName] || { numerator: [], denominator: [] };
-        return { unit: formatUnit(refUnit) };
+// Numeric value of a constant exponent like 2, -1 or 0.5
+function constantValue(expression: FormulaNode): number | null {
+    if (expression.type === 'number') return expression.value;
+    if (expression.type === 'unary' && expression.op === '-' && expression.operand.type === 'number') {
+        return -(expression.operand as NumberNode).value;
     }
-
-    // For complex formulas, try to parse the expression tree
-    return deriveUnitFromComplexFormula(formula, refUnits);
+    return null;
 }
 
-// Handle more complex formulas like [A] * [B] / [C]
-function deriveUnitFromComplexFormula(
-    formula: string,
-    refUnits: Record<string, UnitExpression>
-): { unit: string; warning?: string } {
-    // Tokenize the formula
-    const tokens: Array<{ type: 'ref' | 'op' | 'num'; value: string }> = [];
-    let remaining = formula.trim();
-
-    while (remaining.length > 0) {
-        // Match aggregate reference $FUNC_[Name] (must check BEFORE plain [ref])
-        const aggRefMatch = remaining.match(/^(\$[A-Z]+_\[([^\]]+)\])/);
-        if (aggRefMatch) {
-            const fullSyntax = aggRefMatch[1];
-            // Use the full syntax as key (matches how refUnits is built)
-            tokens.push({ type: 'ref', value: fullSyntax });
-            remaining = remaining.slice(aggRefMatch[0].length).trim();
-            continue;
+/**
+ * Infer the unit of a formula tree. References, aggregates and window functions get their unit from `unitOf`.
+ * Compatible units are converted (t + kg, TJ × g/GJ) and each mismatch produces a warning
+ * naming the exact sub-expression.
+ */
+export function inferFormulaUnits(tree: FormulaNode, unitOf: UnitResolver): UnitInference {
+    const warnings: string[] = [];
+    const warn = (message: string) => {
+        if (!warnings.includes(message)) warnings.push(message);
+    };
+    const describe = (node: FormulaNode) => `"${formatFormula(node)}"`;
+    const unitless = (expression: FormulaNode, flexible: boolean): InferredNode => ({ unit: emptyUnit(), expression, flexible });
+
+    // Express `item` in `target`'s unit, warning when the dimensions differ
+    const convertTo = (item: InferredNode, target: UnitExpression, context: FormulaNode): FormulaNode => {
+        if (item.flexible) return item.expression;
+        const factor = getUnitConversionFactor(item.unit, target);
+        if (factor === null) {
+            warn(`Unit mismatch in ${describe(context)}: ${formatUnit(target)} vs ${formatUnit(item.unit)}`);
+            return item.expression;
         }
+        return scaleExpression(item.expression, factor);
+    };
 
-        // Match column reference [Name]
-        const refMatch = remaining.match(/^\[([^\]]+)\]/);
-        if (refMatch) {
-            tokens.push({ type: 'ref', value: refMatch[1] });
-            remaining = remaining.slice(refMatch[0].length).trim();
-            continue;
+    // Convert every operand into the unit of the first one that has a fixed unit
+    const unify = (items: InferredNode[], context: FormulaNode): { unit: UnitExpression; flexible: boolean; expressions: FormulaNode[] } => {
+        const anchor = items.find((item) => !item.flexible);
+        if (!anchor) {
+            return { unit: items[0]?.unit ?? emptyUnit(), flexible: true, expressions: items.map((item) => item.expression) };
         }
 
-        // Match operator
-        const opMatch = remaining.match(/^([*\/+\-])/);
-        if (opMatch) {
-            tokens.push({ type: 'op', value: opMatch[1] });
-            remaining = remaining.slice(1).trim();
-            continue;
-        }
+        const expressions = items.map((item) => item === anchor ? item.expression : convertTo(item, anchor.unit, context));
+        return { unit: anchor.unit, flexible: false, expressions };
+    };
 
-        // Match number
-        const numMatch = remaining.match(/^(\d+\.?\d*)/);
-        if (numMatch) {
-            tokens.push({ type: 'num', value: numMatch[1] });
-            remaining = remaining.slice(numMatch[0].length).trim();
-            continue;
+    const raise = (base: InferredNode, exponent: InferredNode, context: FormulaNode): UnitExpression => {
+        if (!exponent.flexible && !isUnitless(exponent.unit)) {
+            warn(`Exponent in ${describe(context)} has unit ${formatUnit(exponent.unit)} - exponents must be unitless`);
         }
+        if (isUnitless(base.unit)) return emptyUnit();
 
-        // Skip parentheses for now
-        if (remaining[0] === '(' || remaining[0] === ')') {
-            remaining = remaining.slice(1).trim();
-            continue;
+        const value = constantValue(exponent.expression);
+        if (value === null) {
+            warn(`Exponent in ${describe(context)} must be a constant number when the base has unit ${formatUnit(base.unit)}`);
+            return base.unit;
         }
+        const powered = powerUnit(base.unit, value);
+        if (!powered) {
+            warn(`Cannot raise ${formatUnit(base.unit)} to the power ${value} in ${describe(context)}`);
+            return base.unit;
+        }
+        return powered;
+    };
 
-        // Unknown token, skip
-        remaining = remaining.slice(1).trim();
-    }
+    function infer(node: FormulaNode): InferredNode {
+        switch (node.type) {
+            case 'number': {
+                if (!node.unit) return unitless(node, true);
+                // Unit literals ("1000 kg/t") carry a fixed unit; the evaluated expression is the bare number
+                const unit = parseUnit(node.unit);
+                const unknown = [...unit.numerator, ...unit.denominator].find((base) => !resolveUnit(base) && !SUBSTANCE_LABEL.test(base));
+                if (unknown) warn(`Unknown unit "${unknown}" in ${describe(node)}`);
+                return { unit, expression: { type: 'number', value: node.value }, flexible: false };
+            }
+            case 'string':
+            case 'boolean':
+            case 'null':
+                return unitless(node, true);
+
+            case 'ref':
+            case 'aggregate':
+            case 'window': {
+                const unit = unitOf(node);
+                // Unknown bare names are math constants (pi, e)
+                if (!unit && node.type === 'ref' && !node.bracketed) return unitless(node, true);
+                return { unit: unit ?? emptyUnit(), expression: node, flexible: false };
+            }
 
-    // Process tokens left to right (simplified, doesn't handle precedence)
-    let currentUnit: UnitExpression = { numerator: [], denominator: [] };
-    let lastOp: string = '*';
-    let hasAddSub = false;
+            case 'unary': {
+                const operand = infer(node.operand);
+                const expression: FormulaNode = { ...node, operand: operand.expression };
+                if (node.op === 'not') return unitless(expression, true);
+                return { ...operand, expression };
+            }
 
-    for (const token of tokens) {
-        if (token.type === 'ref') {
-            const unit = refUnits[token.value] || { numerator: [], denominator: [] };
-            if (lastOp === '*') {
-                currentUnit = multiplyUnits(currentUnit, unit);
-            } else if (lastOp === '/') {
-                currentUnit = divideUnits(currentUnit, unit);
-            } else if (lastOp === '+' || lastOp === '-') {
-                hasAddSub = true;
-                // For add/sub, just keep the first operand's unit
+            case 'conditional': {
+                const condition = infer(node.condition);
+                const branches = unify([infer(node.whenTrue), infer(node.whenFalse)], node);
+                return {
+                    unit: branches.unit,
+                    flexible: branches.flexible,
+                    expression: { ...node, condition: condition.expression, whenTrue: branches.expressions[0], whenFalse: branches.expressions[1] },
+                };
             }
-        } else if (token.type === 'op') {
-            lastOp = token.value;
+
+            case 'binary': {
+                const left = infer(node.left);
+                const right = infer(node.right);
+
+                switch (node.op) {
+                    case '*':
+                    case '/': {
+                        const scaled = node.op === '*' ? multiplyUnits(left.unit, right.unit) : divideUnits(left.unit, right.unit);
+                        return {
+                            unit: scaled.unit,
+                            flexible: left.flexible && right.flexible,
+                            expression: scaleExpression({ ...node, left: left.expression, right: right.expression }, scaled.factor),
+                        };
+                    }
+                    case '^':
+                        return {
+                            unit: raise(left, right, node),
+                            flexible: left.flexible,
+                            expression: { ...node, left: left.expression, right: right.expression },
+                        };
+                    case '+':
+                    case '-':
+                    case '%': {
+                        const combined = unify([left, right], node);
+                        return {
+                            unit: combined.unit,
+                            flexible: combined.flexible,
+                            expression: { ...node, left: combined.expressions[0], right: combined.expressions[1] },
+                        };
+                    }
+                    case 'and':
+                    case 'or':
+                    case 'xor':
+                        return unitless({ ...node, left: left.expression, right: right.expression }, true);
+                    default: {
+                        // Comparisons: convert so [Mass_t] > [Limit_kg] compares like with like
+                        const compared = unify([left, right], node);
+                        return unitless({ ...node, left: compared.expressions[0], right: compared.expressions[1] }, true);
+                    }
+                }
+            }
+
+            case 'call':
+                return inferCall(node);
         }
-        // Numbers don't contribute units
     }
 
-    const result = formatUnit(currentUnit);
+    function inferCall(node: Extract<FormulaNode, { type: 'call' }>): InferredNode {
+        const args = node.args.map(infer);
+        const rebuild = (expressions: FormulaNode[]): FormulaNode => ({ ...node, args: expressions });
+        const argExpressions = args.map((arg) => arg.expression);
+
+        // Pick out the value-carrying arguments, unify them, and put them back in place
+        const unifyAt = (indices: number[]): InferredNode => {
+            const combined = unify(indices.map((i) => args[i]), node);
+            const expressions = [...argExpressions];
+            indices.forEach((argIndex, i) => { expressions[argIndex] = combined.expressions[i]; });
+            return { unit: combined.unit, flexible: combined.flexible, expression: rebuild(expressions) };
+        };
+
+        if (node.name === 'IF' && args.length === 3) {
+            return unifyAt([1, 2]);
+        }
+        if (node.name === 'IFS') {
+            return unifyAt(args.map((_, i) => i).filter((i) => i % 2 === 1));
+        }
+        if (node.name === 'SWITCH') {
+            const results = args.map((_, i) => i).filter((i) => i >= 2 && i % 2 === 0);
+            if (args.length % 2 === 0) results.push(args.length - 1);
+            return unifyAt(results);
+        }
+        if (LOOKUP_FUNCTIONS.has(node.name) && args.length >= 3) {
+            // Lookup/result columns are passed as whole arrays, so only the default value is converted
+            const expressions = [...argExpressions];
+            if (args.length >= 4 && !args[2].flexible) {
+                expressions[3] = convertTo(args[3], args[2].unit, node);
+            }
+            return { unit: args[2].unit, flexible: args[2].flexible, expression: rebuild(expressions) };
+        }
+        if (node.name in ROOT_FUNCTIONS && args.length === 1) {
+            const root = powerUnit(args[0].unit, ROOT_FUNCTIONS[node.name]);
+            if (!root) warn(`Cannot take ${node.name}() of ${formatUnit(args[0].unit)} in ${describe(node)}`);
+            return { unit: root ?? args[0].unit, flexible: args[0].flexible, expression: rebuild(argExpressions) };
+        }
+        if (node.name === 'pow' && args.length === 2) {
+            return { unit: raise(args[0], args[1], node), flexible: args[0].flexible, expression: rebuild(argExpressions) };
+        }
+        if (node.name === 'mod' && args.length === 2) {
+            return unifyAt([0, 1]);
+        }
+        if (FIRST_ARGUMENT_FUNCTIONS.has(node.name) && args.length > 0) {
+            return { unit: args[0].unit, flexible: args[0].flexible, expression: rebuild(argExpressions) };
+        }
+        if (ALIGNED_FUNCTIONS.has(node.name) && args.length > 0) {
+            return unifyAt(args.map((_, i) => i));
+        }
+        if (node.name === 'CO2E' && args.length >= 2) {
+            const gas = node.args[1].type === 'string' ? node.args[1].value : null;
+            const unit = gas ? toCO2eUnit(args[0].unit, gas) : args[0].unit;
+            return { unit, flexible: args[0].flexible, expression: rebuild(argExpressions) };
+        }
+        if (node.name === 'sign' || TEXT_DATE_FUNCTION_NAMES.includes(node.name)) {
+            return unitless(rebuild(argExpressions), false);
+        }
 
-    if (hasAddSub) {
-        return { unit: result, warning: 'Complex formula with +/- - verify units manually' };
+        const withUnits = args.filter((arg) => !arg.flexible && !isUnitless(arg.unit));
+        if (withUnits.length > 0) {
+            if (UNITLESS_FUNCTIONS.has(node.name)) {
+                warn(`${node.name}() expects a unitless value but got ${formatUnit(withUnits[0].unit)} in ${describe(node)}`);
+            } else {
+                warn(`Unit of ${describe(node)} cannot be inferred - result treated as unitless`);
+            }
+        }
+        return unitless(rebuild(argExpressions), false);
     }
 
-    return { unit: result };
+    const result = infer(tree);
+    return { unit: result.unit, expression: result.expression, warnings };
 }
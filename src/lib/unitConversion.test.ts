@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { resolveUnit, getConversionFactor, areUnitsConvertible } from './unitConversion';
+
+describe('resolveUnit', () => {
+    it('resolves SI prefixes and spelled-out names', () => {
+        expect(resolveUnit('TJ')).toEqual({ symbol: 'TJ', dimension: 'energy', factor: 1e12 });
+        expect(resolveUnit('µg')).toMatchObject({ dimension: 'mass', factor: 1e-9 });
+        expect(resolveUnit('tonnes')).toMatchObject({ dimension: 'mass', factor: 1000 });
+        expect(resolveUnit('kt')).toMatchObject({ dimension: 'mass', factor: 1e6 });
+    });
+
+    it('reads powers of distance as area and volume', () => {
+        expect(resolveUnit('km²')).toMatchObject({ dimension: 'area', factor: 1e6 });
+        expect(resolveUnit('m^3')).toMatchObject({ dimension: 'volume', factor: 1 });
+        expect(resolveUnit('m3')).toMatchObject({ dimension: 'volume', factor: 1 });
+    });
+
+    it('keeps the qualifier of qualified units in the dimension', () => {
+        expect(resolveUnit('kg.CO2')).toEqual({ symbol: 'kg.CO2', dimension: 'mass:CO2', factor: 1 });
+    });
+
+    it('returns null for unknown units and prefixes a unit does not take', () => {
+        expect(resolveUnit('kgg')).toBeNull();
+        expect(resolveUnit('mt')).toBeNull();
+        expect(resolveUnit('')).toBeNull();
+    });
+});
+
+describe('getConversionFactor', () => {
+    it('converts between units of the same dimension', () => {
+        expect(getConversionFactor('kg', 't')).toBe(0.001);
+        expect(getConversionFactor('MWh', 'GJ')).toBeCloseTo(3.6);
+        expect(getConversionFactor('ha', 'm2')).toBe(1e4);
+    });
+
+    it('returns 1 for identical tokens, even unknown ones', () => {
+        expect(getConversionFactor('widget', 'widget')).toBe(1);
+    });
+
+    it('refuses to convert across dimensions or qualifiers', () => {
+        expect(getConversionFactor('kg', 'L')).toBeNull();
+        expect(areUnitsConvertible('kg.CO2', 't.CO2')).toBe(true);
+        expect(areUnitsConvertible('kg.CO2', 'kg.CH4')).toBe(false);
+    });
+});
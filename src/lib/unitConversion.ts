@@ -0,0 +1,192 @@
+/**
+ * Unit Conversion Registry
+ * Dimension-aware lookup of physical units with SI prefix support.
+ * Every unit resolves to a dimension and a factor relative to the SI base
+ * of that dimension (kg, J, m³, s, m, m²), so compatible units can be converted.
+ */
+
+export type UnitDimension = 'mass' | 'energy' | 'volume' | 'time' | 'distance' | 'area';
+
+export interface ResolvedUnit {
+    symbol: string;
+    // Dimension key; qualified units like "kg.CO2" get "mass:CO2" so they only convert to "t.CO2"
+    dimension: string;
+    factor: number;
+    // Set for powers of a distance written as one token: "km2" → { base: 'km', exponent: 2 }
+    power?: { base: string; exponent: number };
+}
+
+interface UnitDefinition {
+    dimension: UnitDimension;
+    factor: number;
+    prefixable?: boolean;
+}
+
+const SI_PREFIXES: Record<string, number> = {
+    p: 1e-12,
+    n: 1e-9,
+    'µ': 1e-6,
+    'μ': 1e-6,
+    u: 1e-6,
+    m: 1e-3,
+    c: 1e-2,
+    k: 1e3,
+    M: 1e6,
+    G: 1e9,
+    T: 1e12,
+    P: 1e15,
+};
+
+// Tonnes only take the large prefixes (kt, Mt, Gt); "mt" would be ambiguous
+const TONNE_PREFIXES = ['k', 'M', 'G'];
+
+const UNITS: Record<string, UnitDefinition> = {
+    // Mass (base: kg)
+    g: { dimension: 'mass', factor: 1e-3, prefixable: true },
+    t: { dimension: 'mass', factor: 1e3 },
+    lb: { dimension: 'mass', factor: 0.45359237 },
+    // Energy (base: J)
+    J: { dimension: 'energy', factor: 1, prefixable: true },
+    Wh: { dimension: 'energy', factor: 3600, prefixable: true },
+    cal: { dimension: 'energy', factor: 4.184, prefixable: true },
+    toe: { dimension: 'energy', factor: 41.868e9 },
+    ktoe: { dimension: 'energy', factor: 41.868e12 },
+    Mtoe: { dimension: 'energy', factor: 41.868e15 },
+    BTU: { dimension: 'energy', factor: 1055.056 },
+    MMBtu: { dimension: 'energy', factor: 1.055056e9 },
+    therm: { dimension: 'energy', factor: 1.055056e8 },
+    // Volume (base: m³)
+    L: { dimension: 'volume', factor: 1e-3, prefixable: true },
+    l: { dimension: 'volume', factor: 1e-3, prefixable: true },
+    Nm3: { dimension: 'volume', factor: 1 },
+    bbl: { dimension: 'volume', factor: 0.158987294928 },
+    gal: { dimension: 'volume', factor: 3.785411784e-3 },
+    // Time (base: s)
+    s: { dimension: 'time', factor: 1, prefixable: true },
+    min: { dimension: 'time', factor: 60 },
+    h: { dimension: 'time', factor: 3600 },
+    hr: { dimension: 'time', factor: 3600 },
+    d: { dimension: 'time', factor: 86400 },
+    day: { dimension: 'time', factor: 86400 },
+    wk: { dimension: 'time', factor: 604800 },
+    week: { dimension: 'time', factor: 604800 },
+    yr: { dimension: 'time', factor: 31536000 },
+    year: { dimension: 'time', factor: 31536000 },
+    a: { dimension: 'time', factor: 31536000 },
+    // Distance (base: m)
+    m: { dimension: 'distance', factor: 1, prefixable: true },
+    mi: { dimension: 'distance', factor: 1609.344 },
+    ft: { dimension: 'distance', factor: 0.3048 },
+    // Area (base: m²)
+    ha: { dimension: 'area', factor: 1e4 },
+    acre: { dimension: 'area', factor: 4046.8564224 },
+};
+
+// Spelled-out names, matched case-insensitively
+const ALIASES: Record<string, string> = {
+    tonne: 't',
+    tonnes: 't',
+    ton: 't',
+    tons: 't',
+    te: 't',
+    kwh: 'kWh',
+    mwh: 'MWh',
+    gwh: 'GWh',
+    litre: 'L',
+    litres: 'L',
+    liter: 'L',
+    liters: 'L',
+    hour: 'h',
+    hours: 'h',
+    days: 'day',
+    weeks: 'week',
+    years: 'year',
+    kilogram: 'kg',
+    kilograms: 'kg',
+    gram: 'g',
+    grams: 'g',
+};
+
+const SUPERSCRIPT_POWERS: Record<string, number> = { '²': 2, '³': 3 };
+
+/**
+ * Resolve a unit symbol without qualifiers or powers: "GJ", "kt", "tonnes"
+ */
+function resolveSimpleUnit(symbol: string): { dimension: UnitDimension; factor: number } | null {
+    const direct = UNITS[symbol];
+    if (direct) return { dimension: direct.dimension, factor: direct.factor };
+
+    // Aliases like "mwh" map to a prefixed symbol ("MWh"), which is resolved below, not looked up again
+    const alias = ALIASES[symbol.toLowerCase()];
+    if (alias && alias !== symbol) return resolveSimpleUnit(alias);
+
+    // Prefixed units: try longest prefix first ("da" is not supported, so 1 char is enough)
+    const prefix = symbol[0];
+    const base = symbol.slice(1);
+    if (base && SI_PREFIXES[prefix] !== undefined) {
+        const baseDef = UNITS[base];
+        if (baseDef?.prefixable) {
+            return { dimension: baseDef.dimension, factor: SI_PREFIXES[prefix] * baseDef.factor };
+        }
+        if (base === 't' && TONNE_PREFIXES.includes(prefix)) {
+            return { dimension: 'mass', factor: SI_PREFIXES[prefix] * UNITS.t.factor };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Resolve a unit token to its dimension and SI factor.
+ * Handles prefixes (TJ, µg, kt), squared/cubed distances (m2, km², m^3)
+ * and qualified units (kg.CO2 → mass:CO2). Returns null for unknown tokens.
+ */
+export function resolveUnit(token: string): ResolvedUnit | null {
+    const symbol = token.trim();
+    if (!symbol) return null;
+
+    // Qualified unit: "kg.CO2" behaves like kg but only converts to the same qualifier
+    const dotIndex = symbol.indexOf('.');
+    if (dotIndex > 0 && dotIndex < symbol.length - 1) {
+        const base = resolveUnit(symbol.slice(0, dotIndex));
+        if (!base) return null;
+        return { symbol, dimension: `${base.dimension}:${symbol.slice(dotIndex + 1)}`, factor: base.factor };
+    }
+
+    const simple = resolveSimpleUnit(symbol);
+    if (simple) return { symbol, ...simple };
+
+    // Powers of distance: m2, km², m^3 → area / volume
+    const powerMatch = symbol.match(/^(.+?)(?:\^?([23])|([²³]))$/);
+    if (powerMatch) {
+        const base = resolveSimpleUnit(powerMatch[1]);
+        const power = powerMatch[2] ? parseInt(powerMatch[2], 10) : SUPERSCRIPT_POWERS[powerMatch[3]];
+        if (base?.dimension === 'distance') {
+            return {
+                symbol,
+                dimension: power === 2 ? 'area' : 'volume',
+                factor: Math.pow(base.factor, power),
+                power: { base: powerMatch[1], exponent: power },
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Factor that converts a value expressed in `from` into `to`.
+ * Returns 1 for identical tokens and null when the units are incompatible.
+ */
+export function getConversionFactor(from: string, to: string): number | null {
+    if (from === to) return 1;
+    const a = resolveUnit(from);
+    const b = resolveUnit(to);
+    if (!a || !b || a.dimension !== b.dimension) return null;
+    return a.factor / b.factor;
+}
+
+// Check if two unit tokens measure the same dimension
+export function areUnitsConvertible(a: string, b: string): boolean {
+    return getConversionFactor(a, b) !== null;
+}
@@ -2,8 +2,9 @@ import { create } from 'zustand';
 import { temporal } from 'zundo';
 import { addEdge, applyNodeChanges, applyEdgeChanges } from 'reactflow';
 import type { Node } from 'reactflow';
-import type { AppState, NodeType, NodeData, HandleData, SourceNodeData, FactorNodeData, ProcessNodeData, GroupNodeData, PassThroughNodeData } from '../types';
+import type { AppState, NodeType, NodeData, HandleData, SourceNodeData, FactorNodeData, ProcessNodeData, GroupNodeData, PassThroughNodeData, GroupByNodeData, PivotNodeData, UnpivotNodeData, JoinNodeData, UnionNodeData } from '../types';
 import { runCalculations as executeCalculations } from '../lib/calculationEngine';
+import { useBatchDataStore } from './useBatchDataStore';
 
 const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -60,7 +61,7 @@ const createNodeData = (type: NodeType): NodeData => {
             return {
                 label: baseLabel,
                 type: 'filter',
-                operator: '>',
+                filter: { kind: 'group', id: generateId(), combinator: 'and', children: [] },
                 inputs: [{ id: generateId(), label: 'In' }],
                 outputs: [{ id: generateId(), label: 'Out' }],
             } as any;
@@ -90,6 +91,54 @@ const createNodeData = (type: NodeType): NodeData => {
                 ],
                 outputs: [{ id: generateId(), label: 'Out' }],
             } as any;
+        case 'groupBy':
+            return {
+                label: 'Group By',
+                type: 'groupBy',
+                groupColumns: [],
+                aggregations: [],
+                inputs: [{ id: generateId(), label: 'In' }],
+                outputs: [{ id: generateId(), label: 'Out' }],
+            } as GroupByNodeData;
+        case 'pivot':
+            return {
+                label: 'Pivot',
+                type: 'pivot',
+                rowColumns: [],
+                func: 'SUM',
+                inputs: [{ id: generateId(), label: 'In' }],
+                outputs: [{ id: generateId(), label: 'Out' }],
+            } as PivotNodeData;
+        case 'unpivot':
+            return {
+                label: 'Unpivot',
+                type: 'unpivot',
+                valueColumns: [],
+                inputs: [{ id: generateId(), label: 'In' }],
+                outputs: [{ id: generateId(), label: 'Out' }],
+            } as UnpivotNodeData;
+        case 'join':
+            return {
+                label: 'Join',
+                type: 'join',
+                joinType: 'left',
+                keys: [{ left: '', right: '' }],
+                inputs: [
+                    { id: generateId(), label: 'Left' },
+                    { id: generateId(), label: 'Right' }
+                ],
+                outputs: [{ id: generateId(), label: 'Out' }],
+            } as JoinNodeData;
+        case 'union':
+            return {
+                label: 'Union',
+                type: 'union',
+                inputs: [
+                    { id: generateId(), label: 'Input 1' },
+                    { id: generateId(), label: 'Input 2' }
+                ],
+                outputs: [{ id: generateId(), label: 'Out' }],
+            } as UnionNodeData;
         case 'ghost':
             return {
                 label: 'Ghost',
@@ -204,7 +253,7 @@ export const useAppStore = create<AppState>()(
 
             runCalculations: () => {
                 const { nodes, edges } = get();
-                const { results, circularNodes } = executeCalculations(nodes, edges);
+                const { results, circularNodes } = executeCalculations(nodes, edges, useBatchDataStore.getState().getNodeData);
 
                 set((state) => ({
                     nodes: state.nodes.map((node) => {
@@ -218,10 +267,11 @@ export const useAppStore = create<AppState>()(
                                 calculatedValue: result?.value ?? null,
                                 error: result?.error,
                                 hasCircularDependency: hasCircular,
-                                // Store resultUnit for process nodes
-                                ...(node.data.type === 'process' && result?.resultUnit
-                                    ? { resultUnit: result.resultUnit }
+                                // Store resultUnit, unit warnings and combined uncertainty for process nodes
+                                ...(node.data.type === 'process'
+                                    ? { resultUnit: result?.resultUnit, unitWarning: result?.unitWarning, combinedUncertainty: result?.uncertainty }
                                     : {}),
+                                ...(node.data.type === 'passthrough' ? { resultUnit: result?.resultUnit } : {}),
                             },
                         };
                     }),
@@ -233,8 +283,8 @@ export const useAppStore = create<AppState>()(
                     nodes: state.nodes.map((node) => {
                         if (node.id !== nodeId) return node;
 
-                        // Support both process and tableMath nodes
-                        if (node.data.type !== 'process' && node.data.type !== 'tableMath' && node.data.type !== 'transform') return node;
+                        // Support process, tableMath, transform and union nodes
+                        if (node.data.type !== 'process' && node.data.type !== 'tableMath' && node.data.type !== 'transform' && node.data.type !== 'union') return node;
 
                         const currentInputs = 'inputs' in node.data ? node.data.inputs : [];
                         const newInput: HandleData = {
@@ -303,7 +353,7 @@ export const useAppStore = create<AppState>()(
                     const sourceNode = state.nodes.find(n => n.id === connection.source);
 
                     // Check if target node is process or tableMath and needs auto-input
-                    if (targetNode && (targetNode.data.type === 'process' || targetNode.data.type === 'tableMath' || targetNode.data.type === 'transform')) {
+                    if (targetNode && (targetNode.data.type === 'process' || targetNode.data.type === 'tableMath' || targetNode.data.type === 'transform' || targetNode.data.type === 'union')) {
                         const inputs = 'inputs' in targetNode.data ? targetNode.data.inputs : [];
 
                         // If targetHandle is undefined or doesn't exist in inputs, auto-add new input
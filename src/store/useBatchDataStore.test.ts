@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useBatchDataStore } from './useBatchDataStore';
+import { RUN_CANCELLED } from '../lib/batchWorkerPool';
+
+const source = {
+    rawData: [{ a: 1 }, { a: 2 }],
+    schema: [{ id: 'a', name: 'a', type: 'number' as const }],
+    status: 'SUCCESS' as const,
+    rowCount: 2,
+};
+
+// Worker-less runs finish on the next tick
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+const nodeData = (nodeId: string) => useBatchDataStore.getState().nodes[nodeId];
+
+describe('worker steps', () => {
+    beforeEach(() => {
+        useBatchDataStore.setState({ nodes: { src: source } });
+    });
+
+    it('keeps only the latest run of a node', async () => {
+        const { runMath } = useBatchDataStore.getState();
+        runMath('math', 'src', '[a] * 2', 'x');
+        runMath('math', 'src', '[a] * 3', 'x');
+        expect(nodeData('math').status).toBe('CALCULATING');
+
+        await settle();
+        expect(nodeData('math').status).toBe('SUCCESS');
+        expect(nodeData('math').rawData.map((row) => row.x)).toEqual([3, 6]);
+    });
+
+    it('ends a cancelled run in ERROR', async () => {
+        const { runMath, cancelRun } = useBatchDataStore.getState();
+        runMath('math', 'src', '[a] * 2', 'x');
+        cancelRun('math');
+
+        await settle();
+        expect(nodeData('math')).toMatchObject({ status: 'ERROR', errorDetails: { message: RUN_CANCELLED } });
+    });
+
+    it('fails at once without source rows', () => {
+        useBatchDataStore.getState().runFilter('filter', 'missing', { kind: 'group', id: 'g', combinator: 'and', children: [] });
+        expect(nodeData('filter')).toMatchObject({ status: 'ERROR', errorDetails: { message: 'No source data connected' } });
+    });
+});
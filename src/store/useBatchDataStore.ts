@@ -1,13 +1,21 @@
 import { create } from 'zustand';
-import Papa from 'papaparse';
-import { executeBatchFormula } from '../lib/batchCalculationEngine';
-import { read, utils } from 'xlsx';
+import { groupRows, pivotRows, unpivotRows, joinTables, unionTables } from '../lib/batchOperations';
+import type { BatchTable, TransformOperation, GroupByAggregation, PivotConfig, UnpivotConfig, JoinTablesConfig, UnionReport } from '../lib/batchOperations';
+import type { JoinMatchReport } from '../lib/batchCalculationEngine';
+import type { FilterGroup, ColumnType, DatasetImportOptions } from '../types';
+import { parseDataFile } from '../lib/fileIngest';
+import { retypeColumn } from '../lib/columnTypes';
+import { asColumnar } from '../lib/columnarTable';
+import type { ColumnarTable } from '../lib/columnarTable';
+import { runBatchJob, RUN_CANCELLED } from '../lib/batchWorkerPool';
+import type { BatchRun } from '../lib/batchWorkerPool';
+import type { BatchJob } from '../lib/batchJobs';
 import { useAppStore } from './useAppStore';
 
 export interface ColumnMetadata {
     id: string;
     name: string;
-    type: 'string' | 'number' | 'date';
+    type: ColumnType;
     unit?: string;
 }
 
@@ -20,19 +28,134 @@ export interface BatchNodeData {
         message: string;
     };
     rowCount: number;
+    // Column vectors behind rawData, when the table is stored as columns
+    columnar?: ColumnarTable;
+    // Fraction of rows processed while CALCULATING in a worker
+    progress?: number;
+    // Unit inference warning from the last formula run (TableMath)
+    unitWarning?: string;
+    // Keys without a partner from the last join (Join)
+    matchReport?: JoinMatchReport;
+    // Missing columns and unit conflicts between the stacked inputs (Union)
+    unionReport?: UnionReport;
 }
 
 interface BatchDataStore {
     nodes: Record<string, BatchNodeData>;
 
-    // Actions
-    ingestFile: (nodeId: string, file: File) => Promise<void>;
+    // Actions (runs resolve once the node is SUCCESS or ERROR)
+    ingestFile: (nodeId: string, file: File, columnTypes?: Record<string, ColumnType>, importOptions?: DatasetImportOptions) => Promise<void>;
     getNodeData: (nodeId: string) => BatchNodeData | undefined;
-    runMath: (nodeId: string, sourceNodeId: string, formula: string, newColName: string, scalarInputs?: Record<string, { value: number, unit: string }>, unitOverride?: string) => void;
-    runFilter: (nodeId: string, sourceNodeId: string, criteria: any) => void;
+    runMath: (nodeId: string, sourceNodeId: string, formula: string, newColName: string, scalarInputs?: Record<string, { value: number, unit: string }>, unitOverride?: string) => Promise<void>;
+    runFilter: (nodeId: string, sourceNodeId: string, filter: FilterGroup) => Promise<void>;
     setColumnUnit: (nodeId: string, columnId: string, unit: string) => void;
-    runTransform: (nodeId: string, sourceNodeId: string, operations: any[]) => void;
-    runCombineTransform: (nodeId: string, sourceNodeIds: string[], operations: any[]) => void;
+    setColumnType: (nodeId: string, columnId: string, type: ColumnType) => void;
+    runTransform: (nodeId: string, sourceNodeId: string, operations: TransformOperation[]) => Promise<void>;
+    runCombineTransform: (nodeId: string, sourceNodeIds: string[], operations: TransformOperation[]) => Promise<void>;
+    // Stop a running math, filter or transform step; the node ends in ERROR
+    cancelRun: (nodeId: string) => void;
+    runGroupBy: (nodeId: string, sourceNodeId: string, groupColumns: string[], aggregations: GroupByAggregation[]) => Promise<void>;
+    runPivot: (nodeId: string, sourceNodeId: string, config: PivotConfig) => Promise<void>;
+    runUnpivot: (nodeId: string, sourceNodeId: string, config: UnpivotConfig) => Promise<void>;
+    runJoin: (nodeId: string, leftNodeId: string, rightNodeId: string, config: JoinTablesConfig) => Promise<void>;
+    runUnion: (nodeId: string, sources: { nodeId: string; label: string }[], tagColumn?: string) => Promise<void>;
+    // Snapshot of the table an Export node writes (the source's vectors are shared, not copied)
+    runExport: (nodeId: string, sourceNodeId: string) => Promise<void>;
+}
+
+/**
+ * Run a table step with the usual CALCULATING → SUCCESS / ERROR status updates.
+ * Every source must have rows; the step gets their tables in the given order.
+ */
+function runTableStep(
+    nodeId: string,
+    sourceNodeIds: string[],
+    stepName: string,
+    step: (tables: BatchTable[]) => BatchTable & Partial<BatchNodeData>
+): Promise<void> {
+    const setNode = (data: BatchNodeData) => useBatchDataStore.setState((state) => ({
+        nodes: { ...state.nodes, [nodeId]: data }
+    }));
+    const failed = (message: string): BatchNodeData => ({
+        rawData: [],
+        schema: [],
+        status: 'ERROR',
+        errorDetails: { rowIndex: -1, message },
+        rowCount: 0
+    });
+
+    const sources = sourceNodeIds.map(id => useBatchDataStore.getState().getNodeData(id));
+    if (sources.length === 0 || sources.some(source => !source || !source.rawData || source.rawData.length === 0)) {
+        setNode(failed('No source data connected'));
+        return Promise.resolve();
+    }
+
+    setNode({ rawData: [], schema: [], status: 'CALCULATING', rowCount: 0 });
+
+    return new Promise((resolve) => setTimeout(() => {
+        try {
+            const table = step(sources as BatchNodeData[]);
+            setNode({ ...table, rowCount: table.rawData.length, status: 'SUCCESS' });
+        } catch (error) {
+            setNode(failed(`${stepName} failed: ${(error as Error).message}`));
+        }
+        resolve();
+    }, 100));
+}
+
+// Worker runs in flight, by node
+const activeRuns = new Map<string, BatchRun>();
+
+/**
+ * Run a math, filter or transform step in the worker pool with the same status contract as
+ * runTableStep, plus `progress` while CALCULATING. A new run on the node cancels the previous one.
+ */
+function runWorkerStep(
+    nodeId: string,
+    sourceNodeIds: string[],
+    requireRows: boolean,
+    buildJob: (tables: BatchTable[]) => BatchJob
+): Promise<void> {
+    const setNode = (data: BatchNodeData) => useBatchDataStore.setState((state) => ({
+        nodes: { ...state.nodes, [nodeId]: data }
+    }));
+
+    activeRuns.get(nodeId)?.cancel();
+    activeRuns.delete(nodeId);
+
+    const sources = sourceNodeIds.map(id => useBatchDataStore.getState().getNodeData(id));
+    if (sources.length === 0 || sources.some(source => !source || !source.rawData || (requireRows && source.rawData.length === 0))) {
+        setNode({
+            rawData: [],
+            schema: [],
+            status: 'ERROR',
+            errorDetails: { rowIndex: -1, message: 'No source data connected' },
+            rowCount: 0
+        });
+        return Promise.resolve();
+    }
+
+    const tables = sources as BatchNodeData[];
+    setNode({ rawData: [], schema: tables[0].schema, status: 'CALCULATING', rowCount: 0, progress: 0 });
+
+    const run = runBatchJob(buildJob(tables), (progress) => {
+        const node = useBatchDataStore.getState().nodes[nodeId];
+        if (activeRuns.get(nodeId) === run && node) setNode({ ...node, progress });
+    });
+    activeRuns.set(nodeId, run);
+
+    return run.result.then((result) => {
+        // Superseded or cancelled while running
+        if (activeRuns.get(nodeId) !== run) return;
+        activeRuns.delete(nodeId);
+
+        if (result.success) {
+            const { table, unitWarning } = result;
+            setNode({ ...table, rowCount: table.rawData.length, status: 'SUCCESS', unitWarning });
+        } else {
+            setNode({ rawData: [], schema: [], status: 'ERROR', errorDetails: result.error, rowCount: 0 });
+        }
+    });
 }
 
 export const useBatchDataStore = create<BatchDataStore>((set, get) => ({
@@ -66,7 +189,7 @@ export const useBatchDataStore = create<BatchDataStore>((set, get) => ({
         return undefined;
     },
 
-    ingestFile: async (nodeId, file) => {
+    ingestFile: async (nodeId, file, columnTypes, importOptions) => {
         set((state) => ({
             nodes: {
                 ...state.nodes,
@@ -75,293 +198,47 @@ export const useBatchDataStore = create<BatchDataStore>((set, get) => ({
                     status: 'PARSING',
                     rawData: [],
                     schema: [],
+                    columnar: undefined,
                     rowCount: 0
                 }
             }
         }));
 
-        return new Promise((resolve, reject) => {
-            if (file.name.endsWith('.xlsx')) {
-                const reader = new FileReader();
-                reader.onload = (e) => {
-                    try {
-                        const data = e.target?.result;
-                        const workbook = read(data, { type: 'binary' });
-                        const sheetName = workbook.SheetNames[0];
-                        const sheet = workbook.Sheets[sheetName];
-                        const rows = utils.sheet_to_json(sheet);
-
-                        if (rows.length === 0) {
-                            throw new Error('File is empty');
-                        }
-
-                        const headers = Object.keys(rows[0] as object);
-                        const schema: ColumnMetadata[] = headers.map(field => ({
-                            id: field,
-                            name: field,
-                            type: isNaN(Number((rows[0] as any)[field])) ? 'string' : 'number',
-                            unit: undefined
-                        }));
-
-                        set((state) => ({
-                            nodes: {
-                                ...state.nodes,
-                                [nodeId]: {
-                                    rawData: rows,
-                                    schema: schema,
-                                    status: 'SUCCESS',
-                                    rowCount: rows.length
-                                }
-                            }
-                        }));
-                        resolve();
-                    } catch (error: any) {
-                        set((state) => ({
-                            nodes: {
-                                ...state.nodes,
-                                [nodeId]: {
-                                    ...state.nodes[nodeId],
-                                    status: 'ERROR',
-                                    errorDetails: { rowIndex: -1, message: error.message }
-                                }
-                            }
-                        }));
-                        reject(error);
-                    }
-                };
-                reader.readAsBinaryString(file);
-                return;
-            }
-
-            Papa.parse(file, {
-                header: true,
-                skipEmptyLines: true,
-                worker: true,
-                complete: (results) => {
-                    const rows = results.data;
-                    const meta = results.meta;
-
-                    if (rows.length === 0) {
-                        set((state) => ({
-                            nodes: {
-                                ...state.nodes,
-                                [nodeId]: {
-                                    rawData: [],
-                                    schema: [],
-                                    status: 'ERROR',
-                                    errorDetails: { rowIndex: -1, message: 'File is empty' },
-                                    rowCount: 0
-                                }
-                            }
-                        }));
-                        resolve();
-                        return;
-                    }
-
-                    const schema: ColumnMetadata[] = meta.fields ? meta.fields.map(field => ({
-                        id: field,
-                        name: field,
-                        type: isNaN(Number((rows[0] as any)[field])) ? 'string' : 'number',
-                        unit: undefined
-                    })) : [];
-
-                    set((state) => ({
-                        nodes: {
-                            ...state.nodes,
-                            [nodeId]: {
-                                rawData: rows,
-                                schema: schema,
-                                status: 'SUCCESS',
-                                rowCount: rows.length
-                            }
-                        }
-                    }));
-                    resolve();
-                },
-                error: (error) => {
-                    set((state) => ({
-                        nodes: {
-                            ...state.nodes,
-                            [nodeId]: {
-                                ...state.nodes[nodeId],
-                                status: 'ERROR',
-                                errorDetails: { rowIndex: -1, message: error.message }
-                            }
-                        }
-                    }));
-                    reject(error);
-                }
-            });
-        });
-    },
-
-    runMath: (nodeId, sourceNodeId, formula, newColName, scalarInputs = {}, unitOverride) => {
-        const sourceNode = get().getNodeData(sourceNodeId);
-
-        if (!sourceNode || !sourceNode.rawData || sourceNode.rawData.length === 0) {
-            console.error("Source node data not found for math:", sourceNodeId);
+        try {
+            // Kept as columns: the row objects of a large file are dropped once encoded
+            const table = asColumnar(await parseDataFile(file, columnTypes, importOptions));
             set((state) => ({
                 nodes: {
                     ...state.nodes,
                     [nodeId]: {
-                        rawData: [],
-                        schema: [],
-                        status: 'ERROR',
-                        errorDetails: { rowIndex: -1, message: 'No source data connected' },
-                        rowCount: 0
+                        ...table,
+                        status: 'SUCCESS',
+                        rowCount: table.rawData.length
                     }
                 }
             }));
-            return;
-        }
-
-        set((state) => ({
-            nodes: {
-                ...state.nodes,
-                [nodeId]: {
-                    rawData: [],
-                    schema: sourceNode.schema,
-                    status: 'CALCULATING',
-                    rowCount: 0
-                }
-            }
-        }));
-
-        setTimeout(() => {
-            const schemaIds = sourceNode.schema.map(s => s.id);
-            // Build columnUnits map from schema
-            const columnUnits: Record<string, string> = {};
-            sourceNode.schema.forEach(col => {
-                if (col.unit) columnUnits[col.id] = col.unit;
-            });
-
-            const result = executeBatchFormula(sourceNode.rawData, newColName, formula, schemaIds, columnUnits, scalarInputs);
-
-            if (result.success && result.data) {
-                const newSchema = [
-                    ...sourceNode.schema,
-                    { id: newColName, name: newColName, type: 'number', unit: unitOverride?.trim() || result.derivedUnit }
-                ] as ColumnMetadata[];
-
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: result.data!,
-                            schema: newSchema,
-                            status: 'SUCCESS',
-                            rowCount: result.data!.length
-                        }
-                    }
-                }));
-            } else {
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: [],
-                            schema: [],
-                            status: 'ERROR',
-                            errorDetails: result.error,
-                            rowCount: 0
-                        }
-                    }
-                }));
-            }
-        }, 100);
-    },
-
-    runFilter: (nodeId, sourceNodeId, criteria) => {
-        const sourceNode = get().getNodeData(sourceNodeId);
-
-        if (!sourceNode || !sourceNode.rawData || sourceNode.rawData.length === 0) {
-            console.error("Source node data not found:", sourceNodeId);
+        } catch (error) {
             set((state) => ({
                 nodes: {
                     ...state.nodes,
                     [nodeId]: {
-                        rawData: [],
-                        schema: [],
+                        ...state.nodes[nodeId],
                         status: 'ERROR',
-                        errorDetails: { rowIndex: -1, message: 'No source data connected' },
-                        rowCount: 0
+                        errorDetails: { rowIndex: -1, message: (error as Error).message }
                     }
                 }
             }));
-            return;
+            throw error;
         }
+    },
 
-        set((state) => ({
-            nodes: {
-                ...state.nodes,
-                [nodeId]: {
-                    rawData: [],
-                    schema: sourceNode.schema,
-                    status: 'CALCULATING',
-                    rowCount: 0
-                }
-            }
-        }));
-
-        setTimeout(() => {
-            try {
-                const { column, operator, value, mode } = criteria;
-
-                const filtered = sourceNode.rawData.filter(row => {
-                    const rowVal = row[column];
-                    let compareVal: any = value;
+    runMath: (nodeId, sourceNodeId, formula, newColName, scalarInputs = {}, unitOverride) =>
+        runWorkerStep(nodeId, [sourceNodeId], true, ([table]) => ({
+            kind: 'math', table, formula, newColumnName: newColName, scalarInputs, unitOverride
+        })),
 
-                    if (mode === 'column') {
-                        compareVal = row[value];
-                    }
-
-                    const numRowVal = Number(rowVal);
-                    const numCompareVal = Number(compareVal);
-                    const isNum = !isNaN(numRowVal) && !isNaN(numCompareVal);
-
-                    const a = isNum ? numRowVal : rowVal;
-                    const b = isNum ? numCompareVal : compareVal;
-
-                    switch (operator) {
-                        case '>': return a > b;
-                        case '<': return a < b;
-                        case '>=': return a >= b;
-                        case '<=': return a <= b;
-                        case '==': return a == b;
-                        case '!=': return a != b;
-                        case 'contains': return String(a).toLowerCase().includes(String(b).toLowerCase());
-                        default: return true;
-                    }
-                });
-
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: filtered,
-                            schema: sourceNode.schema,
-                            rowCount: filtered.length,
-                            status: 'SUCCESS'
-                        }
-                    }
-                }));
-
-            } catch (error: any) {
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: [],
-                            schema: [],
-                            status: 'ERROR',
-                            errorDetails: { rowIndex: -1, message: "Filter failed: " + error.message },
-                            rowCount: 0
-                        }
-                    }
-                }));
-            }
-        }, 100);
-    },
+    runFilter: (nodeId, sourceNodeId, filter) =>
+        runWorkerStep(nodeId, [sourceNodeId], true, ([table]) => ({ kind: 'filter', table, filter })),
 
     setColumnUnit: (nodeId, columnId, unit) => {
         const node = get().nodes[nodeId];
@@ -382,254 +259,65 @@ export const useBatchDataStore = create<BatchDataStore>((set, get) => ({
         }));
     },
 
-    runTransform: (nodeId, sourceNodeId, operations) => {
-        const sourceNode = get().getNodeData(sourceNodeId);
-        if (!sourceNode) {
-            console.error('Transform: Source node not found');
-            return;
-        }
+    setColumnType: (nodeId, columnId, type) => {
+        const node = get().nodes[nodeId];
+        if (!node) return;
 
         set((state) => ({
             nodes: {
                 ...state.nodes,
                 [nodeId]: {
-                    rawData: [],
-                    schema: [],
-                    status: 'CALCULATING',
-                    rowCount: 0
+                    ...node,
+                    ...retypeColumn(node, columnId, type)
                 }
             }
         }));
+    },
 
-        setTimeout(() => {
-            try {
-                let transformedData = [...sourceNode.rawData];
-                let transformedSchema = [...sourceNode.schema];
-
-                // Apply operations sequentially
-                for (const op of operations) {
-                    switch (op.type) {
-                        case 'delete':
-                            if (op.column) {
-                                // Remove column from data
-                                transformedData = transformedData.map(row => {
-                                    const newRow = { ...row };
-                                    delete newRow[op.column];
-                                    return newRow;
-                                });
-                                // Remove from schema
-                                transformedSchema = transformedSchema.filter(col => col.id !== op.column);
-                            }
-                            break;
-                        case 'rename':
-                            if (op.column && op.newName) {
-                                // Rename in data
-                                transformedData = transformedData.map(row => {
-                                    const newRow = { ...row };
-                                    if (op.column in newRow) {
-                                        newRow[op.newName] = newRow[op.column];
-                                        delete newRow[op.column];
-                                    }
-                                    return newRow;
-                                });
-                                // Rename in schema - PRESERVE UNIT!
-                                transformedSchema = transformedSchema.map(col =>
-                                    col.id === op.column
-                                        ? { ...col, id: op.newName, name: op.newName }
-                                        : col
-                                );
-                            }
-                            break;
-                        case 'select':
-                            if (op.selectedColumns && op.selectedColumns.length > 0) {
-                                // Keep only selected columns
-                                transformedData = transformedData.map(row => {
-                                    const newRow: any = {};
-                                    op.selectedColumns.forEach((col: string) => {
-                                        if (col in row) newRow[col] = row[col];
-                                    });
-                                    return newRow;
-                                });
-                                transformedSchema = transformedSchema.filter(col =>
-                                    op.selectedColumns.includes(col.id)
-                                );
-                            }
-                            break;
-                    }
-                }
+    runTransform: (nodeId, sourceNodeId, operations) =>
+        runWorkerStep(nodeId, [sourceNodeId], false, ([table]) => ({ kind: 'transform', table, operations })),
 
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: transformedData,
-                            schema: transformedSchema,
-                            rowCount: transformedData.length,
-                            status: 'SUCCESS'
-                        }
-                    }
-                }));
-
-            } catch (error: any) {
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: [],
-                            schema: [],
-                            status: 'ERROR',
-                            errorDetails: { rowIndex: -1, message: "Transform failed: " + error.message },
-                            rowCount: 0
-                        }
-                    }
-                }));
-            }
-        }, 100);
-    },
+    runCombineTransform: (nodeId, sourceNodeIds, operations) =>
+        runWorkerStep(nodeId, sourceNodeIds, false, (tables) => ({ kind: 'combine', tables, operations })),
 
-    runCombineTransform: (nodeId, sourceNodeIds, operations) => {
-        // Validate all sources exist
-        const sources = sourceNodeIds.map(sid => get().getNodeData(sid)).filter((s): s is BatchNodeData => !!s);
-        if (sources.length === 0) {
-            console.error('CombineTransform: No valid source nodes found');
-            return;
-        }
+    cancelRun: (nodeId) => {
+        const run = activeRuns.get(nodeId);
+        if (!run) return;
+        activeRuns.delete(nodeId);
+        run.cancel();
 
+        if (get().nodes[nodeId]?.status !== 'CALCULATING') return;
         set((state) => ({
             nodes: {
                 ...state.nodes,
                 [nodeId]: {
                     rawData: [],
                     schema: [],
-                    status: 'CALCULATING',
+                    status: 'ERROR',
+                    errorDetails: { rowIndex: -1, message: RUN_CANCELLED },
                     rowCount: 0
                 }
             }
         }));
+    },
 
-        setTimeout(() => {
-            try {
-                // Find the combine operation
-                const combineOp = operations.find((op: any) => op.type === 'combine');
-                const otherOps = operations.filter((op: any) => op.type !== 'combine');
-
-                let combinedData: any[] = [];
-                let combinedSchema: any[] = [];
-
-                if (combineOp && combineOp.combineInputs && combineOp.combineInputs.length > 0) {
-                    // Determine max row count across all sources
-                    const maxRows = Math.max(...sources.map(s => s.rawData.length));
-
-                    // Build combined schema from selected columns per input
-                    for (const ci of combineOp.combineInputs) {
-                        const srcIndex = ci.sourceInputIndex;
-                        if (srcIndex >= 0 && srcIndex < sources.length) {
-                            const srcSchema = sources[srcIndex].schema || [];
-                            for (const colId of ci.columns) {
-                                const colMeta = srcSchema.find((c: any) => c.id === colId);
-                                if (colMeta && !combinedSchema.find((c: any) => c.id === colMeta.id)) {
-                                    combinedSchema.push({ ...colMeta });
-                                }
-                            }
-                        }
-                    }
+    runGroupBy: (nodeId, sourceNodeId, groupColumns, aggregations) =>
+        runTableStep(nodeId, [sourceNodeId], 'Group by', ([table]) => groupRows(table, groupColumns, aggregations)),
 
-                    // Build combined data row-by-row
-                    for (let i = 0; i < maxRows; i++) {
-                        const row: any = {};
-                        for (const ci of combineOp.combineInputs) {
-                            const srcIndex = ci.sourceInputIndex;
-                            if (srcIndex >= 0 && srcIndex < sources.length) {
-                                const srcRow = sources[srcIndex].rawData[i];
-                                for (const colId of ci.columns) {
-                                    row[colId] = srcRow ? srcRow[colId] : null;
-                                }
-                            }
-                        }
-                        combinedData.push(row);
-                    }
-                } else {
-                    // No combine op — fallback to first source
-                    if (sources.length > 0) {
-                        combinedData = [...sources[0].rawData];
-                        combinedSchema = [...sources[0].schema];
-                    }
-                }
+    runPivot: (nodeId, sourceNodeId, config) =>
+        runTableStep(nodeId, [sourceNodeId], 'Pivot', ([table]) => pivotRows(table, config)),
 
-                // Apply remaining operations (delete, rename, select)
-                for (const op of otherOps) {
-                    switch (op.type) {
-                        case 'delete':
-                            if (op.column) {
-                                combinedData = combinedData.map((row: any) => {
-                                    const newRow = { ...row };
-                                    delete newRow[op.column];
-                                    return newRow;
-                                });
-                                combinedSchema = combinedSchema.filter((col: any) => col.id !== op.column);
-                            }
-                            break;
-                        case 'rename':
-                            if (op.column && op.newName) {
-                                combinedData = combinedData.map((row: any) => {
-                                    const newRow = { ...row };
-                                    if (op.column in newRow) {
-                                        newRow[op.newName] = newRow[op.column];
-                                        delete newRow[op.column];
-                                    }
-                                    return newRow;
-                                });
-                                combinedSchema = combinedSchema.map((col: any) =>
-                                    col.id === op.column
-                                        ? { ...col, id: op.newName, name: op.newName }
-                                        : col
-                                );
-                            }
-                            break;
-                        case 'select':
-                            if (op.selectedColumns && op.selectedColumns.length > 0) {
-                                combinedData = combinedData.map((row: any) => {
-                                    const newRow: any = {};
-                                    op.selectedColumns.forEach((col: string) => {
-                                        if (col in row) newRow[col] = row[col];
-                                    });
-                                    return newRow;
-                                });
-                                combinedSchema = combinedSchema.filter((col: any) =>
-                                    op.selectedColumns.includes(col.id)
-                                );
-                            }
-                            break;
-                    }
-                }
+    runUnpivot: (nodeId, sourceNodeId, config) =>
+        runTableStep(nodeId, [sourceNodeId], 'Unpivot', ([table]) => unpivotRows(table, config)),
 
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: combinedData,
-                            schema: combinedSchema,
-                            rowCount: combinedData.length,
-                            status: 'SUCCESS'
-                        }
-                    }
-                }));
-
-            } catch (error: any) {
-                set((state) => ({
-                    nodes: {
-                        ...state.nodes,
-                        [nodeId]: {
-                            rawData: [],
-                            schema: [],
-                            status: 'ERROR',
-                            errorDetails: { rowIndex: -1, message: "Combine transform failed: " + error.message },
-                            rowCount: 0
-                        }
-                    }
-                }));
-            }
-        }, 100);
-    }
+    runJoin: (nodeId, leftNodeId, rightNodeId, config) =>
+        runTableStep(nodeId, [leftNodeId, rightNodeId], 'Join', ([left, right]) => joinTables(left, right, config)),
+
+    runUnion: (nodeId, sources, tagColumn) =>
+        runTableStep(nodeId, sources.map(s => s.nodeId), 'Union', (tables) =>
+            unionTables(tables.map((table, i) => ({ label: sources[i].label, table })), tagColumn)),
+
+    runExport: (nodeId, sourceNodeId) =>
+        runTableStep(nodeId, [sourceNodeId], 'Export', ([{ rawData, schema, columnar }]) => ({ rawData, schema, columnar }))
 }));
 
@@ -1,7 +1,10 @@
 import { create } from 'zustand';
+import { setDefaultGwpSet } from '../data/gwpValues';
+import type { GwpSet } from '../data/gwpValues';
 
 const STORAGE_KEY = 'invenemisi_recent_projects';
 const MAX_RECENT = 10;
+const DEFAULT_GWP_SET: GwpSet = { report: 'AR5', horizon: 100 };
 
 export interface RecentProject {
     name: string;
@@ -14,9 +17,12 @@ interface ProjectState {
     version: string;
     showWelcome: boolean;
     recentProjects: RecentProject[];
+    // IPCC report & horizon used for CO2e conversions
+    gwpSet: GwpSet;
 
     // Actions
     setProjectName: (name: string) => void;
+    setGwpSet: (set: GwpSet) => void;
     setShowWelcome: (show: boolean) => void;
     addRecentProject: (name: string) => void;
     loadRecentProjects: () => void;
@@ -29,9 +35,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     version: '1.0',
     showWelcome: true,
     recentProjects: [],
+    gwpSet: DEFAULT_GWP_SET,
 
     setProjectName: (name) => set({ projectName: name }),
 
+    setGwpSet: (gwpSet) => {
+        setDefaultGwpSet(gwpSet);
+        set({ gwpSet });
+    },
+
     setShowWelcome: (show) => set({ showWelcome: show }),
 
     addRecentProject: (name) => {
@@ -59,8 +71,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         } catch { /* ignore */ }
     },
 
-    resetProject: () => set({
-        projectName: 'Untitled Project',
-        lastModified: null,
-    }),
+    resetProject: () => {
+        setDefaultGwpSet(DEFAULT_GWP_SET);
+        set({
+            projectName: 'Untitled Project',
+            lastModified: null,
+            gwpSet: DEFAULT_GWP_SET,
+        });
+    },
 }));
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData } from '../types';
+import { useRunStore, dirtyNodeIds } from './useRunStore';
+import { useAppStore } from './useAppStore';
+import { useBatchDataStore } from './useBatchDataStore';
+import type { BatchNodeData } from './useBatchDataStore';
+
+// Dataset → Filter (Amount > 5) → Table Math (CO2 = Amount × 2)
+const graph = (threshold = 5): Node<NodeData>[] => [
+    { id: 'data', position: { x: 0, y: 0 }, data: { type: 'dataset', label: 'data', outputs: [] } },
+    {
+        id: 'big',
+        position: { x: 0, y: 0 },
+        data: {
+            type: 'filter',
+            label: 'big',
+            filter: { kind: 'group', id: 'g', combinator: 'and', children: [{ kind: 'condition', id: 'c', column: 'Amount', operator: '>', value: threshold }] },
+            inputs: [{ id: 'big-in', label: 'in' }],
+            outputs: [],
+        },
+    },
+    {
+        id: 'co2',
+        position: { x: 0, y: 0 },
+        data: { type: 'tableMath', label: 'co2', formula: '[Amount] * 2', newColumnName: 'CO2', inputs: [{ id: 'co2-in', label: 'in' }], outputs: [] },
+    },
+];
+const edges: Edge[] = [
+    { id: 'e1', source: 'data', target: 'big', targetHandle: 'big-in' },
+    { id: 'e2', source: 'big', target: 'co2', targetHandle: 'co2-in' },
+];
+
+const table = (amounts: number[]): BatchNodeData => ({
+    rawData: amounts.map((Amount) => ({ Amount })),
+    schema: [{ id: 'Amount', name: 'Amount', type: 'number', unit: 't' }],
+    status: 'SUCCESS',
+    rowCount: amounts.length,
+});
+
+beforeEach(() => {
+    useAppStore.setState({ nodes: graph(), edges });
+    useBatchDataStore.setState({ nodes: { data: table([10, 4, 7]) } });
+    useRunStore.setState({ lastRunHashes: {} });
+});
+
+describe('dirtyNodeIds', () => {
+    it('lists runnable nodes that never ran', () => {
+        expect(dirtyNodeIds(graph(), edges, { data: table([1]) }, {}, { report: 'AR5', horizon: 100 })).toEqual(new Set(['big', 'co2']));
+    });
+});
+
+describe('useRunStore', () => {
+    it('runs every changed step in order and then nothing', async () => {
+        await useRunStore.getState().runAll();
+        expect(useBatchDataStore.getState().nodes.co2.rawData.map((row) => row.CO2)).toEqual([20, 14]);
+        expect(useRunStore.getState().getDirtyNodeIds().size).toBe(0);
+    });
+
+    it('marks a node and everything downstream dirty after an edit', async () => {
+        await useRunStore.getState().runAll();
+        useAppStore.setState({ nodes: graph(8) });
+        expect(useRunStore.getState().getDirtyNodeIds()).toEqual(new Set(['big', 'co2']));
+    });
+
+    it('marks the whole chain dirty when a dataset is reloaded', async () => {
+        await useRunStore.getState().runAll();
+        useBatchDataStore.setState((state) => ({ nodes: { ...state.nodes, data: table([10, 4, 7]) } }));
+        expect(useRunStore.getState().getDirtyNodeIds()).toEqual(new Set(['big', 'co2']));
+    });
+
+    it('queues runs asked for during a run and starts them in turn', async () => {
+        const first = useRunStore.getState().runAll();
+        const second = useRunStore.getState().runFrom('co2');
+        expect(useRunStore.getState().queuedRuns).toBe(1);
+
+        await Promise.all([first, second]);
+        expect(useRunStore.getState()).toMatchObject({ running: false, queuedRuns: 0 });
+        expect(useBatchDataStore.getState().nodes.co2.status).toBe('SUCCESS');
+    });
+
+    it('drops queued runs on stop', async () => {
+        const first = useRunStore.getState().runAll();
+        const queued = useRunStore.getState().runAll();
+        useRunStore.getState().stop();
+
+        await Promise.all([first, queued]);
+        expect(useRunStore.getState().queuedRuns).toBe(0);
+        expect(useRunStore.getState().getDirtyNodeIds().size).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,324 @@
+import { create } from 'zustand';
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, HandleData } from '../types';
+import { useAppStore } from './useAppStore';
+import { useBatchDataStore } from './useBatchDataStore';
+import type { BatchNodeData } from './useBatchDataStore';
+import { useProjectStore } from './useProjectStore';
+import type { GwpSet } from '../data/gwpValues';
+import { planOrder, inputHashes, dependencyEdges } from '../lib/runPlan';
+import { filterTreeOf, pivotConfigOf, unpivotConfigOf, joinConfigOf, evaluateBatchProcess } from '../lib/batchOperations';
+import type { ScalarInput } from '../lib/batchCalculationEngine';
+import { getAncestorIds, getDescendantIds } from '../utils/graphTraversal';
+
+/**
+ * Run scheduler: runs batch steps, batch Process formulas and Export snapshots in dependency
+ * order together with the scalar engine, skipping nodes whose inputs did not change since
+ * their last successful run. Nodes downstream of a failed or unconfigured node are skipped.
+ * Runs asked for while another is running are queued and start in turn; Stop drops them.
+ */
+
+type RunOutcome = 'done' | 'failed' | 'skipped';
+
+interface RunStore {
+    running: boolean;
+    // Node being run
+    activeNodeId: string | null;
+    // Runs waiting for the current one to end
+    queuedRuns: number;
+    // Input hash of each node at its last successful run
+    lastRunHashes: Record<string, string>;
+
+    // Every node whose inputs changed
+    runAll: () => Promise<void>;
+    // The node and everything downstream, changed or not
+    runFrom: (nodeId: string) => Promise<void>;
+    // What the node needs (when changed), then the node
+    runTo: (nodeId: string) => Promise<void>;
+    // Cancel the running step, stop before the next one and drop queued runs
+    stop: () => void;
+    // Runnable nodes that would run on Run all
+    getDirtyNodeIds: () => Set<string>;
+}
+
+const SCALAR_TYPES = ['source', 'factor', 'process'];
+const STEP_TYPES = ['filter', 'transform', 'tableMath', 'groupBy', 'pivot', 'unpivot', 'join', 'union', 'export'];
+
+let stopRequested = false;
+
+interface QueuedRun {
+    scope: Set<string> | null;
+    forced: Set<string>;
+    // Settles the promise the request returned
+    done: () => void;
+}
+
+let queue: QueuedRun[] = [];
+
+// Each loaded dataset table gets a number, so loading a file changes its Dataset's hash
+const datasetTokens = new WeakMap<object, number>();
+let nextDatasetToken = 1;
+
+function hashesOf(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    tables: Record<string, BatchNodeData>,
+    gwpSet: GwpSet
+): Map<string, string> {
+    return inputHashes(nodes, edges, (nodeId) => {
+        const table = tables[nodeId];
+        if (!table || nodes.find(n => n.id === nodeId)?.data.type !== 'dataset') return '';
+        if (!datasetTokens.has(table)) datasetTokens.set(table, nextDatasetToken++);
+        return String(datasetTokens.get(table));
+    }, gwpSet);
+}
+
+const currentHashes = () => {
+    const { nodes, edges } = useAppStore.getState();
+    return hashesOf(nodes, edges, useBatchDataStore.getState().nodes, useProjectStore.getState().gwpSet);
+};
+
+// Batch steps always run. A Process runs its formula over a batch input once it has been run that
+// way (it has a batchResult) or when asked directly; otherwise the scalar engine evaluates it.
+function isRunnable(node: Node<NodeData>, nodes: Node<NodeData>[], edges: Edge[], forced = false): boolean {
+    if (STEP_TYPES.includes(node.data.type)) return true;
+    if (node.data.type !== 'process' || (!node.data.batchResult && !forced)) return false;
+    return edges.some(e => e.target === node.id && !SCALAR_TYPES.includes(nodes.find(n => n.id === e.source)?.data.type ?? 'source'));
+}
+
+/**
+ * Runnable nodes whose inputs changed since their last successful run, i.e. what Run all runs
+ */
+export function dirtyNodeIds(
+    nodes: Node<NodeData>[],
+    edges: Edge[],
+    tables: Record<string, BatchNodeData>,
+    lastRunHashes: Record<string, string>,
+    gwpSet: GwpSet
+): Set<string> {
+    const hashes = hashesOf(nodes, edges, tables, gwpSet);
+    return new Set(nodes
+        .filter(node => isRunnable(node, nodes, edges) && lastRunHashes[node.id] !== hashes.get(node.id))
+        .map(node => node.id));
+}
+
+/**
+ * Scalar inputs of a node, keyed by source label as TableMath formulas name them
+ */
+function scalarInputsOf(nodeId: string): Record<string, ScalarInput> {
+    const { nodes, edges } = useAppStore.getState();
+    const scalarInputs: Record<string, ScalarInput> = {};
+    edges.filter(e => e.target === nodeId).forEach((edge) => {
+        const data = nodes.find(n => n.id === edge.source)?.data;
+        if (!data) return;
+        if (data.type === 'source' || data.type === 'factor') {
+            scalarInputs[data.label || 'Scalar'] = { value: data.value ?? 0, unit: data.unit || '' };
+        } else if (data.type === 'process') {
+            scalarInputs[data.label || 'Scalar'] = { value: Number(data.calculatedValue) || 0, unit: data.resultUnit || '' };
+        }
+    });
+    return scalarInputs;
+}
+
+/**
+ * Run one node from the current graph
+ */
+async function runNode(nodeId: string): Promise<RunOutcome> {
+    const { nodes, edges, updateNodeData } = useAppStore.getState();
+    const batch = useBatchDataStore.getState();
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return 'skipped';
+
+    const incoming = edges.filter(e => e.target === nodeId);
+    const typeOf = (id: string) => nodes.find(n => n.id === id)?.data.type;
+    // First batch input, and the input connected to a given handle
+    const sourceId = incoming.find(e => !SCALAR_TYPES.includes(typeOf(e.source) ?? 'source'))?.source;
+    const sourceOn = (input: HandleData) => incoming.find(e => e.targetHandle === input.id)?.source;
+    const data = node.data;
+
+    switch (data.type) {
+        case 'filter': {
+            const filter = filterTreeOf(data);
+            if (!sourceId || !filter) return 'skipped';
+            await batch.runFilter(nodeId, sourceId, filter);
+            break;
+        }
+        case 'transform': {
+            const operations = data.operations || [];
+            if (operations.some(op => op.type === 'combine')) {
+                const sourceIds = data.inputs.map(sourceOn).filter((id): id is string => !!id);
+                if (sourceIds.length === 0) return 'skipped';
+                await batch.runCombineTransform(nodeId, sourceIds, operations);
+            } else {
+                if (!sourceId || operations.length === 0) return 'skipped';
+                await batch.runTransform(nodeId, sourceId, operations);
+            }
+            break;
+        }
+        case 'tableMath':
+            if (!sourceId || !data.formula || !data.newColumnName) return 'skipped';
+            await batch.runMath(nodeId, sourceId, data.formula, data.newColumnName, scalarInputsOf(nodeId), data.unitOverride);
+            break;
+        case 'groupBy':
+            if (!sourceId || !data.aggregations || data.aggregations.length === 0) return 'skipped';
+            await batch.runGroupBy(nodeId, sourceId, data.groupColumns || [], data.aggregations);
+            break;
+        case 'pivot': {
+            const config = pivotConfigOf(data);
+            if (!sourceId || !config) return 'skipped';
+            await batch.runPivot(nodeId, sourceId, config);
+            break;
+        }
+        case 'unpivot': {
+            const config = unpivotConfigOf(data);
+            if (!sourceId || config.valueColumns.length === 0) return 'skipped';
+            await batch.runUnpivot(nodeId, sourceId, config);
+            break;
+        }
+        case 'join': {
+            // Left and right tables come in on the first and second input handles
+            const config = joinConfigOf(data);
+            const [leftId, rightId] = data.inputs.slice(0, 2).map(sourceOn);
+            if (!config || !leftId || !rightId) return 'skipped';
+            await batch.runJoin(nodeId, leftId, rightId, config);
+            break;
+        }
+        case 'union': {
+            // Stacked in input order, each tagged with its source node's label
+            const sources = data.inputs.flatMap((input) => {
+                const source = nodes.find(n => n.id === sourceOn(input));
+                return source ? [{ nodeId: source.id, label: source.data.label || input.label }] : [];
+            });
+            if (sources.length === 0) return 'skipped';
+            await batch.runUnion(nodeId, sources, data.tagColumn);
+            break;
+        }
+        case 'export':
+            if (!sourceId) return 'skipped';
+            await batch.runExport(nodeId, sourceId);
+            break;
+        case 'process': {
+            const table = sourceId ? batch.getNodeData(sourceId) : undefined;
+            const formula = data.formula?.trim();
+            if (!table || !formula) return 'skipped';
+            let batchResult;
+            try {
+                batchResult = evaluateBatchProcess(table, formula, scalarInputsOf(nodeId), data.gwp);
+            } catch (err) {
+                batchResult = { value: 0, status: 'ERROR' as const, error: (err as Error).message || 'Unexpected error' };
+            }
+            updateNodeData(nodeId, batchResult.status === 'SUCCESS' ? { batchResult, calculatedValue: batchResult.value } : { batchResult });
+            return batchResult.status === 'SUCCESS' ? 'done' : 'failed';
+        }
+        default:
+            return 'skipped';
+    }
+
+    return useBatchDataStore.getState().nodes[nodeId]?.status === 'SUCCESS' ? 'done' : 'failed';
+}
+
+export const useRunStore = create<RunStore>((set, get) => {
+    /**
+     * Run the runnable nodes in `scope` (all when null) in dependency order.
+     * Nodes in `forced` run even when their inputs are unchanged.
+     */
+    const execute = (scope: Set<string> | null, forced: Set<string>): Promise<void> => {
+        if (!get().running) return runScope(scope, forced);
+        return new Promise((done) => {
+            queue.push({ scope, forced, done });
+            set({ queuedRuns: queue.length });
+        });
+    };
+
+    const runScope = async (scope: Set<string> | null, forced: Set<string>) => {
+        stopRequested = false;
+
+        const { nodes, edges } = useAppStore.getState();
+        const { order } = planOrder(nodes, edges);
+        const hashes = currentHashes();
+        const dependencies = dependencyEdges(nodes, edges);
+        const lastRunHashes = { ...get().lastRunHashes };
+        const notRun = new Set<string>();
+        // Scalar results are recomputed before a node reads them after batch tables changed
+        let scalarsStale = false;
+
+        set({ running: true });
+        for (const nodeId of order) {
+            if (stopRequested) break;
+            const node = nodes.find(n => n.id === nodeId);
+            if (!node || (scope && !scope.has(nodeId))) continue;
+
+            if (dependencies.some(e => e.target === nodeId && notRun.has(e.source))) {
+                notRun.add(nodeId);
+                continue;
+            }
+            if (!isRunnable(node, nodes, edges, forced.has(nodeId))) continue;
+
+            const changed = lastRunHashes[nodeId] !== hashes.get(nodeId);
+            const ok = node.data.type === 'process'
+                ? node.data.batchResult?.status === 'SUCCESS'
+                : useBatchDataStore.getState().nodes[nodeId]?.status === 'SUCCESS';
+            if (!forced.has(nodeId) && !changed && ok) continue;
+
+            if (scalarsStale && Object.keys(scalarInputsOf(nodeId)).length > 0) {
+                useAppStore.getState().runCalculations();
+                scalarsStale = false;
+            }
+
+            set({ activeNodeId: nodeId });
+            const outcome = await runNode(nodeId);
+            scalarsStale = true;
+            if (outcome === 'done') {
+                lastRunHashes[nodeId] = hashes.get(nodeId) ?? '';
+            } else {
+                delete lastRunHashes[nodeId];
+                notRun.add(nodeId);
+            }
+            set({ lastRunHashes: { ...lastRunHashes } });
+        }
+
+        // Processes aggregating over the new tables ($SUM_ etc.)
+        if (scalarsStale) useAppStore.getState().runCalculations();
+        set({ running: false, activeNodeId: null, lastRunHashes });
+
+        // The next queued run plans from the graph and hashes as they are now
+        const next = queue.shift();
+        set({ queuedRuns: queue.length });
+        if (next) await runScope(next.scope, next.forced).then(next.done);
+    };
+
+    return {
+        running: false,
+        activeNodeId: null,
+        queuedRuns: 0,
+        lastRunHashes: {},
+
+        runAll: () => execute(null, new Set()),
+
+        runFrom: (nodeId) => {
+            const { nodes, edges } = useAppStore.getState();
+            const scope = new Set([nodeId, ...getDescendantIds(nodeId, dependencyEdges(nodes, edges))]);
+            return execute(scope, scope);
+        },
+
+        runTo: (nodeId) => {
+            const { nodes, edges } = useAppStore.getState();
+            const scope = new Set([nodeId, ...getAncestorIds(nodeId, dependencyEdges(nodes, edges))]);
+            return execute(scope, new Set([nodeId]));
+        },
+
+        stop: () => {
+            stopRequested = true;
+            queue.forEach(run => run.done());
+            queue = [];
+            set({ queuedRuns: 0 });
+            const { activeNodeId } = get();
+            if (activeNodeId) useBatchDataStore.getState().cancelRun(activeNodeId);
+        },
+
+        getDirtyNodeIds: () => {
+            const { nodes, edges } = useAppStore.getState();
+            return dirtyNodeIds(nodes, edges, useBatchDataStore.getState().nodes, get().lastRunHashes, useProjectStore.getState().gwpSet);
+        },
+    };
+});
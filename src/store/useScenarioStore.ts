@@ -0,0 +1,86 @@
+import { create } from 'zustand';
+import type { ColumnMetadata } from './useBatchDataStore';
+import type { BatchRow } from '../lib/batchOperations';
+
+const generateId = () => `scn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Replacement data for a Dataset node
+export interface ScenarioDataset {
+    fileName: string;
+    rawData: BatchRow[];
+    schema: ColumnMetadata[];
+}
+
+export interface Scenario {
+    id: string;
+    name: string;
+    // Source/Factor node id → value used instead of the node's own
+    valueOverrides: Record<string, number>;
+    // Dataset node id → table used instead of the loaded file
+    datasetOverrides: Record<string, ScenarioDataset>;
+}
+
+interface ScenarioState {
+    scenarios: Scenario[];
+    // Nodes tabulated in the comparison
+    resultNodeIds: string[];
+
+    // Actions
+    addScenario: (name: string) => string;
+    renameScenario: (id: string, name: string) => void;
+    deleteScenario: (id: string) => void;
+    setValueOverride: (id: string, nodeId: string, value: number | undefined) => void;
+    setDatasetOverride: (id: string, nodeId: string, dataset: ScenarioDataset | undefined) => void;
+    setResultNodeIds: (nodeIds: string[]) => void;
+    resetScenarios: () => void;
+}
+
+// Copy of a record without `key`
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+    const copy = { ...record };
+    delete copy[key];
+    return copy;
+}
+
+export const useScenarioStore = create<ScenarioState>((set) => ({
+    scenarios: [],
+    resultNodeIds: [],
+
+    addScenario: (name) => {
+        const id = generateId();
+        set((state) => ({
+            scenarios: [...state.scenarios, { id, name, valueOverrides: {}, datasetOverrides: {} }],
+        }));
+        return id;
+    },
+
+    renameScenario: (id, name) => set((state) => ({
+        scenarios: state.scenarios.map((s) => (s.id === id ? { ...s, name } : s)),
+    })),
+
+    deleteScenario: (id) => set((state) => ({
+        scenarios: state.scenarios.filter((s) => s.id !== id),
+    })),
+
+    setValueOverride: (id, nodeId, value) => set((state) => ({
+        scenarios: state.scenarios.map((s) => s.id !== id ? s : {
+            ...s,
+            valueOverrides: value === undefined
+                ? without(s.valueOverrides, nodeId)
+                : { ...s.valueOverrides, [nodeId]: value },
+        }),
+    })),
+
+    setDatasetOverride: (id, nodeId, dataset) => set((state) => ({
+        scenarios: state.scenarios.map((s) => s.id !== id ? s : {
+            ...s,
+            datasetOverrides: dataset === undefined
+                ? without(s.datasetOverrides, nodeId)
+                : { ...s.datasetOverrides, [nodeId]: dataset },
+        }),
+    })),
+
+    setResultNodeIds: (resultNodeIds) => set({ resultNodeIds }),
+
+    resetScenarios: () => set({ scenarios: [], resultNodeIds: [] }),
+}));
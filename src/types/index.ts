@@ -1,6 +1,7 @@
 import type { Node, Edge, XYPosition, Connection, OnNodesChange, OnEdgesChange } from 'reactflow';
+import type { AssessmentReport, GwpHorizon } from '../data/gwpValues';
 
-export type NodeType = 'source' | 'process' | 'factor' | 'groupBox' | 'passthrough' | 'dataset' | 'filter' | 'tableMath' | 'export' | 'transform' | 'ghost' | 'text';
+export type NodeType = 'source' | 'process' | 'factor' | 'groupBox' | 'passthrough' | 'dataset' | 'filter' | 'tableMath' | 'export' | 'transform' | 'groupBy' | 'pivot' | 'unpivot' | 'join' | 'union' | 'ghost' | 'text';
 
 export interface HandleData {
     id: string;
@@ -14,17 +15,34 @@ export interface BaseNodeData {
     note?: string;
     // Visual state (persisted)
     isMinimized?: boolean;
-    // Calculation results
+    // Calculation results (full precision; see numberFormat for display)
     calculatedValue?: string | number | null;
+    numberFormat?: NumberFormat;
     error?: string;
     hasCircularDependency?: boolean;
 }
 
+// How a result is displayed; calculations always use the unrounded value
+export interface NumberFormat {
+    style: 'auto' | 'decimals' | 'significant' | 'scientific';
+    digits?: number; // Decimal places, significant figures, or mantissa decimals
+}
+
+// 95% confidence interval: ±percent of the value, or absolute bounds in the node's unit
+export type Uncertainty =
+    | { type: 'percent'; percent: number }
+    | { type: 'absolute'; lower: number; upper: number };
+
+// Probability distribution sampled for an uncertain input in Monte Carlo runs
+export type Distribution = 'normal' | 'lognormal' | 'triangular' | 'uniform';
+
 // Source Node: Value + Unit, Output only
 export interface SourceNodeData extends BaseNodeData {
     type: 'source';
     value: number;
     unit: string;
+    uncertainty?: Uncertainty;
+    distribution?: Distribution; // Monte Carlo sampling (default: normal)
     outputs: HandleData[];
 }
 
@@ -39,20 +57,33 @@ export interface FactorNodeData extends BaseNodeData {
     dbLabel?: string;
     value: number;
     unit: string;
+    uncertainty?: Uncertainty; // Taken from the database CI when picked via lookup
+    distribution?: Distribution; // Monte Carlo sampling (default: normal)
     outputs: HandleData[];
 }
 
+// CO2e conversion of a Process result; report/horizon fall back to the project setting
+export interface ProcessGwp {
+    gas: string;
+    report?: AssessmentReport;
+    horizon?: GwpHorizon;
+}
+
 // Process Node: Dynamic inputs, Formula
 export interface ProcessNodeData extends BaseNodeData {
     type: 'process';
     formula: string;
     resultUnit?: string;  // Calculated unit from formula
+    unitWarning?: string; // Unit inference warnings (e.g. adding kg to m)
+    gwp?: ProcessGwp;     // Convert the result to CO2e
+    combinedUncertainty?: number; // ±% (95% CI) propagated from Source/Factor uncertainties
     inputs: HandleData[];
     outputs: HandleData[];
     // Batch formula result (when connected to dataset nodes)
     batchResult?: {
         value: number | string;
         unit?: string;
+        unitWarning?: string;
         status: 'SUCCESS' | 'ERROR';
         error?: string;
     };
@@ -68,6 +99,7 @@ export interface GroupNodeData {
 // PassThrough Node: Bridge for data flow in/out of groups
 export interface PassThroughNodeData extends BaseNodeData {
     type: 'passthrough';
+    resultUnit?: string;
     inputs: HandleData[];
     outputs: HandleData[];
 }
@@ -75,19 +107,70 @@ export interface PassThroughNodeData extends BaseNodeData {
 // --- BATCH NODES (Phase 7) ---
 
 // Dataset Node: Import CSV/XLSX
+// Value type of a dataset column; dates are stored as "YYYY-MM-DD" text
+export type ColumnType = 'string' | 'number' | 'date' | 'boolean';
+
+// How a dataset file is read (import dialog)
+export interface DatasetImportOptions {
+    // XLSX sheet; the first sheet when unset
+    sheet?: string;
+    // Row of the header, counted from the top of the range (default 1)
+    headerRow?: number;
+    // Rows between the header and the data, e.g. a units or notes row
+    skipRows?: number;
+    // A1 range such as "B5:K200" (or just its top-left cell); the whole sheet when unset
+    range?: string;
+    // CSV only; detected when unset
+    delimiter?: string;
+    // CSV only; UTF-8 when unset
+    encoding?: string;
+    // Decimal separator of text numbers (the other one is the thousands separator); detected per column when unset
+    decimalSeparator?: '.' | ',';
+}
+
 export interface DatasetNodeData extends BaseNodeData {
     type: 'dataset';
     fileName?: string;
     rowCount?: number;
+    // Column types chosen by the user instead of the inferred ones, re-applied on upload
+    columnTypes?: Record<string, ColumnType>;
+    importOptions?: DatasetImportOptions;
     outputs: HandleData[];
 }
 
 // Filter Node: Filter rows
+export type FilterOperator =
+    | '>' | '<' | '==' | '>=' | '<=' | '!='
+    | 'contains' | 'startsWith' | 'in' | 'notIn'
+    | 'isEmpty' | 'isNotEmpty' | 'between' | 'dateBetween' | 'regex';
+
+export interface FilterCondition {
+    kind: 'condition';
+    id: string;
+    column?: string;
+    operator: FilterOperator;
+    // Comma-separated list for in / notIn, lower bound for between / dateBetween
+    value?: string | number;
+    // Upper bound for between / dateBetween (an empty bound leaves the range open)
+    valueTo?: string | number;
+    mode?: 'value' | 'column'; // Compare against a literal or another column
+}
+
+export interface FilterGroup {
+    kind: 'group';
+    id: string;
+    combinator: 'and' | 'or';
+    children: (FilterCondition | FilterGroup)[];
+}
+
 export interface FilterNodeData extends BaseNodeData {
     type: 'filter';
+    filter?: FilterGroup;
+    // Single condition of nodes saved before condition trees; read when `filter` is unset
     column?: string;
-    operator?: '>' | '<' | '==' | '>=' | '<=' | '!=';
+    operator?: FilterOperator;
     value?: string | number;
+    mode?: 'value' | 'column';
     inputs: HandleData[];
     outputs: HandleData[];
 }
@@ -128,6 +211,61 @@ export interface TransformNodeData extends BaseNodeData {
     outputs: HandleData[];
 }
 
+// Group By Node: One row per distinct combination of the group columns
+export interface GroupByNodeData extends BaseNodeData {
+    type: 'groupBy';
+    groupColumns?: string[];
+    aggregations?: {
+        func: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT' | 'MEDIAN' | 'WAVG';
+        column: string;
+        weightColumn?: string; // WAVG only
+        outputName?: string;   // Default: FUNC_column
+    }[];
+    inputs: HandleData[];
+    outputs: HandleData[];
+}
+
+// Pivot Node: Long → wide, one column per distinct value of the pivot column
+export interface PivotNodeData extends BaseNodeData {
+    type: 'pivot';
+    rowColumns?: string[];
+    pivotColumn?: string;
+    valueColumn?: string;
+    func?: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT' | 'MEDIAN';
+    inputs: HandleData[];
+    outputs: HandleData[];
+}
+
+// Unpivot Node: Wide → long, selected columns become name/value/unit rows
+export interface UnpivotNodeData extends BaseNodeData {
+    type: 'unpivot';
+    valueColumns?: string[];
+    keyName?: string;   // Default: Variable
+    valueName?: string; // Default: Value
+    unitName?: string;  // Default: Unit
+    inputs: HandleData[];
+    outputs: HandleData[];
+}
+
+// Join Node: Match rows of two tables on key columns (input 1 = left, input 2 = right)
+export interface JoinNodeData extends BaseNodeData {
+    type: 'join';
+    joinType?: 'inner' | 'left' | 'right' | 'full';
+    keys?: { left: string; right: string }[];
+    columns?: string[]; // Right-table columns to bring over (default: all except the keys)
+    suffix?: string;    // Added to right-table columns whose name is taken (default: _lookup)
+    inputs: HandleData[];
+    outputs: HandleData[];
+}
+
+// Union Node: Stack the rows of every input, columns aligned by name
+export interface UnionNodeData extends BaseNodeData {
+    type: 'union';
+    tagColumn?: string; // When set, a column holding the label of each row's source node
+    inputs: HandleData[];
+    outputs: HandleData[];
+}
+
 // Ghost Node: Visual duplicate of another node (Phase 9 replacement for Join)
 export interface GhostNodeData extends BaseNodeData {
     type: 'ghost';
@@ -148,7 +286,7 @@ export interface TextNodeData {
     isUnderline?: boolean;
 }
 
-export type NodeData = SourceNodeData | FactorNodeData | ProcessNodeData | GroupNodeData | PassThroughNodeData | DatasetNodeData | FilterNodeData | TableMathNodeData | ExportNodeData | TransformNodeData | GhostNodeData | TextNodeData;
+export type NodeData = SourceNodeData | FactorNodeData | ProcessNodeData | GroupNodeData | PassThroughNodeData | DatasetNodeData | FilterNodeData | TableMathNodeData | ExportNodeData | TransformNodeData | GroupByNodeData | PivotNodeData | UnpivotNodeData | JoinNodeData | UnionNodeData | GhostNodeData | TextNodeData;
 
 export interface AppState {
     nodes: Node<NodeData>[];
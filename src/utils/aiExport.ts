@@ -1,5 +1,8 @@
 import { useAppStore } from '../store/useAppStore';
 import { useBatchDataStore } from '../store/useBatchDataStore';
+import { getAncestorIds } from './graphTraversal';
+import { getNodeUncertainty } from '../lib/uncertainty';
+import { filterTreeOf, describeFilter } from '../lib/batchOperations';
 
 
 export const generateAIReportPayload = (exportNodeId: string) => {
@@ -7,19 +10,7 @@ export const generateAIReportPayload = (exportNodeId: string) => {
     const batchDataStore = useBatchDataStore.getState();
 
     // 1. Trace-back to find all ancestors
-    const ancestors = new Set<string>();
-    const queue = [exportNodeId];
-
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const incomingEdges = edges.filter(e => e.target === currentId);
-        for (const edge of incomingEdges) {
-            if (!ancestors.has(edge.source)) {
-                ancestors.add(edge.source);
-                queue.push(edge.source);
-            }
-        }
-    }
+    const ancestors = getAncestorIds(exportNodeId, edges);
 
     // Include the nodes based on ancestors set
     const subgraphNodes = nodes.filter(n => ancestors.has(n.id));
@@ -82,21 +73,39 @@ export const generateAIReportPayload = (exportNodeId: string) => {
         } else if (node.data.type === 'tableMath') {
             operation = (node.data as any).formula || '';
         } else if (node.data.type === 'filter') {
-            operation = `${(node.data as any).column} ${(node.data as any).operator} ${(node.data as any).value}`;
+            const filter = filterTreeOf(node.data);
+            operation = filter ? describeFilter(filter) : '';
         } else if (node.data.type === 'transform') {
             const ops = (node.data as any).operations || [];
             operation = ops.map((o: any) => o.type).join(', ');
+        } else if (node.data.type === 'groupBy') {
+            const aggregations = node.data.aggregations || [];
+            operation = `${aggregations.map(a => `${a.func}(${a.column})`).join(', ')} BY ${(node.data.groupColumns || []).join(', ')}`;
+        } else if (node.data.type === 'pivot') {
+            operation = `PIVOT ${node.data.func || 'SUM'}(${node.data.valueColumn}) BY ${node.data.pivotColumn}`;
+        } else if (node.data.type === 'unpivot') {
+            operation = `UNPIVOT ${(node.data.valueColumns || []).join(', ')}`;
+        } else if (node.data.type === 'join') {
+            const keys = (node.data.keys || []).map(k => `${k.left} = ${k.right}`).join(' AND ');
+            operation = `${(node.data.joinType || 'left').toUpperCase()} JOIN ON ${keys}`;
+        } else if (node.data.type === 'union') {
+            operation = `UNION of ${node.data.inputs.length} inputs${node.data.tagColumn ? ` tagged in ${node.data.tagColumn}` : ''}`;
         } else if (node.data.type === 'factor') {
             operation = `Factor Value: ${(node.data as any).value} ${(node.data as any).unit}`;
         } else if (node.data.type === 'source') {
             operation = `Source Value: ${(node.data as any).value} ${(node.data as any).unit}`;
         }
 
+        // ±% of the 95% confidence interval (stated or propagated), when known
+        const uncertainty = getNodeUncertainty(node.data);
+
         calculation_pipeline.push({
             step_order: step_order++,
             node_title: node.data.label || 'Unnamed Node',
             node_type: node.data.type,
             formula: operation,
+            ...(node.data.type === 'process' ? { result: node.data.calculatedValue ?? null } : {}),
+            ...(uncertainty !== undefined ? { uncertainty_percent_95ci: uncertainty } : {}),
             user_notes: (node.data as any).note || ''
         });
     });
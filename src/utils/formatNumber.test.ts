@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatDisplayNumber, formatResultNumber, formatUncertainty } from './formatNumber';
+
+describe('formatDisplayNumber', () => {
+    it('rounds to two decimals with Indonesian separators', () => {
+        expect(formatDisplayNumber(1234.5678)).toBe('1.234,57');
+        expect(formatDisplayNumber(0)).toBe('0');
+    });
+
+    it('keeps two significant digits for small numbers', () => {
+        expect(formatDisplayNumber(0.00456)).toBe('0,0046');
+    });
+});
+
+describe('formatResultNumber', () => {
+    it('falls back to the default display without a format', () => {
+        expect(formatResultNumber(1234.5678)).toBe('1.234,57');
+        expect(formatResultNumber(1234.5678, { style: 'auto' })).toBe('1.234,57');
+        expect(formatResultNumber(null)).toBe('');
+    });
+
+    it('formats fixed decimals, significant figures and scientific notation', () => {
+        expect(formatResultNumber(2 / 3, { style: 'decimals', digits: 4 })).toBe('0,6667');
+        expect(formatResultNumber(2, { style: 'decimals' })).toBe('2,00');
+        expect(formatResultNumber(123456, { style: 'significant', digits: 2 })).toBe('120.000');
+        expect(formatResultNumber(0.000123, { style: 'scientific', digits: 2 })).toBe('1,23e-4');
+    });
+
+    it('clamps digit counts to what the formatter accepts', () => {
+        expect(formatResultNumber(1.5, { style: 'decimals', digits: -3 })).toBe('2');
+        expect(formatResultNumber(1.5, { style: 'significant', digits: 0 })).toBe('2');
+    });
+});
+
+describe('formatUncertainty', () => {
+    it('shows one decimal and infinity', () => {
+        expect(formatUncertainty(12.345)).toBe('±12,3%');
+        expect(formatUncertainty(Infinity)).toBe('±∞%');
+    });
+});
@@ -1,3 +1,5 @@
+import type { NumberFormat } from '../types';
+
 /**
  * Formats a number to a maximum of 2 decimal places.
  * If the number is smaller than 0.01, it uses 2 significant figures 
@@ -25,3 +27,40 @@ export const formatDisplayNumber = (num: number | string | undefined | null): st
     // For numbers >= 0.01, use max 2 decimal places with comma separators (Indonesian locale)
     return val.toLocaleString('id-ID', { maximumFractionDigits: 2 });
 };
+
+/**
+ * Formats a ±% uncertainty (95% CI), e.g. 12.345 -> "±12,3%".
+ */
+export const formatUncertainty = (percent: number | undefined | null): string => {
+    if (percent === undefined || percent === null) return '';
+    if (!isFinite(percent)) return '±∞%';
+    return `±${percent.toLocaleString('id-ID', { maximumFractionDigits: 1 })}%`;
+};
+
+const DEFAULT_DIGITS: Record<Exclude<NumberFormat['style'], 'auto'>, number> = {
+    decimals: 2,
+    significant: 3,
+    scientific: 3,
+};
+
+/**
+ * Formats a calculated value with a node's display settings.
+ * 'auto' (or no settings) falls back to formatDisplayNumber.
+ */
+export const formatResultNumber = (num: number | string | undefined | null, format?: NumberFormat): string => {
+    if (num === undefined || num === null) return '';
+    if (typeof num !== 'number' || !format || format.style === 'auto') return formatDisplayNumber(num);
+    if (!isFinite(num)) return String(num);
+
+    const digits = Math.round(format.digits ?? DEFAULT_DIGITS[format.style]);
+    switch (format.style) {
+        case 'decimals': {
+            const places = Math.min(Math.max(digits, 0), 20);
+            return num.toLocaleString('id-ID', { minimumFractionDigits: places, maximumFractionDigits: places });
+        }
+        case 'significant':
+            return num.toLocaleString('id-ID', { maximumSignificantDigits: Math.min(Math.max(digits, 1), 21) });
+        case 'scientific':
+            return num.toExponential(Math.min(Math.max(digits, 0), 20)).replace('.', ',');
+    }
+};
@@ -0,0 +1,43 @@
+import type { Edge } from 'reactflow';
+
+/**
+ * Collect every node upstream of `nodeId` (breadth-first over incoming edges)
+ */
+export const getAncestorIds = (nodeId: string, edges: Edge[]): Set<string> => {
+    const ancestors = new Set<string>();
+    const queue = [nodeId];
+
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const incomingEdges = edges.filter(e => e.target === currentId);
+        for (const edge of incomingEdges) {
+            if (!ancestors.has(edge.source)) {
+                ancestors.add(edge.source);
+                queue.push(edge.source);
+            }
+        }
+    }
+
+    return ancestors;
+};
+
+/**
+ * Collect every node downstream of `nodeId` (breadth-first over outgoing edges)
+ */
+export const getDescendantIds = (nodeId: string, edges: Edge[]): Set<string> => {
+    const descendants = new Set<string>();
+    const queue = [nodeId];
+
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const outgoingEdges = edges.filter(e => e.source === currentId);
+        for (const edge of outgoingEdges) {
+            if (!descendants.has(edge.target)) {
+                descendants.add(edge.target);
+                queue.push(edge.target);
+            }
+        }
+    }
+
+    return descendants;
+};